@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "LineItemType" AS ENUM ('BASE', 'SURCHARGE');
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "currency" "Currency" NOT NULL DEFAULT 'BGN',
+ADD COLUMN     "durationHours" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "BookingLineItem" (
+    "id" SERIAL NOT NULL,
+    "bookingId" INTEGER NOT NULL,
+    "type" "LineItemType" NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "unitPrice" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BookingLineItem_bookingId_idx" ON "BookingLineItem"("bookingId");
+
+-- AddForeignKey
+ALTER TABLE "BookingLineItem" ADD CONSTRAINT "BookingLineItem_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "slotDurationMinutes" INTEGER NOT NULL DEFAULT 60;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "endDate" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ProviderAvailability" (
+    "id" SERIAL NOT NULL,
+    "providerId" INTEGER NOT NULL,
+    "dayOfWeek" INTEGER NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProviderAvailability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AvailabilityException" (
+    "id" SERIAL NOT NULL,
+    "providerId" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "isAvailable" BOOLEAN NOT NULL DEFAULT false,
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AvailabilityException_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProviderAvailability_providerId_idx" ON "ProviderAvailability"("providerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AvailabilityException_providerId_date_key" ON "AvailabilityException"("providerId", "date");
+
+-- CreateIndex
+CREATE INDEX "Booking_bookingDate_idx" ON "Booking"("bookingDate");
+
+-- AddForeignKey
+ALTER TABLE "ProviderAvailability" ADD CONSTRAINT "ProviderAvailability_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "ProviderProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AvailabilityException" ADD CONSTRAINT "AvailabilityException_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "ProviderProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
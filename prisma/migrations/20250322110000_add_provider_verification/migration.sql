@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "VerificationStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "VerificationDocumentType" AS ENUM ('IDENTITY', 'BUSINESS_REGISTRATION', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "VerificationRequest" (
+    "id" SERIAL NOT NULL,
+    "providerId" INTEGER NOT NULL,
+    "status" "VerificationStatus" NOT NULL DEFAULT 'PENDING',
+    "notes" TEXT,
+    "rejectionReason" TEXT,
+    "reviewedBy" INTEGER,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VerificationRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VerificationDocument" (
+    "id" SERIAL NOT NULL,
+    "requestId" INTEGER NOT NULL,
+    "documentType" "VerificationDocumentType" NOT NULL,
+    "fileKey" TEXT NOT NULL,
+    "originalName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VerificationDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VerificationRequest_providerId_idx" ON "VerificationRequest"("providerId");
+
+-- CreateIndex
+CREATE INDEX "VerificationRequest_status_idx" ON "VerificationRequest"("status");
+
+-- CreateIndex
+CREATE INDEX "VerificationDocument_requestId_idx" ON "VerificationDocument"("requestId");
+
+-- AddForeignKey
+ALTER TABLE "VerificationRequest" ADD CONSTRAINT "VerificationRequest_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "ProviderProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VerificationDocument" ADD CONSTRAINT "VerificationDocument_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "VerificationRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
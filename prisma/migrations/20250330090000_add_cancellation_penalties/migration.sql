@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "PenaltyParty" AS ENUM ('CUSTOMER', 'PROVIDER');
+
+-- AlterTable
+ALTER TABLE "ProviderProfile" ADD COLUMN     "reliabilityScore" DOUBLE PRECISION,
+ADD COLUMN     "reliabilityUpdatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "cancellationPolicy" JSONB;
+
+-- CreateTable
+CREATE TABLE "CancellationPenalty" (
+    "id" SERIAL NOT NULL,
+    "bookingId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "party" "PenaltyParty" NOT NULL,
+    "percent" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" "Currency" NOT NULL DEFAULT 'BGN',
+    "hoursBeforeStart" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CancellationPenalty_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CancellationPenalty_userId_createdAt_idx" ON "CancellationPenalty"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CancellationPenalty_bookingId_userId_key" ON "CancellationPenalty"("bookingId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "CancellationPenalty" ADD CONSTRAINT "CancellationPenalty_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CancellationPenalty" ADD CONSTRAINT "CancellationPenalty_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
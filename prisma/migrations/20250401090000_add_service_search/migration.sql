@@ -0,0 +1,23 @@
+-- Stock PostgreSQL ships no Bulgarian stemmer, so the bulgarian configuration starts
+-- as a copy of "simple" (lower-casing only). A hunspell dictionary can be mapped in later.
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'bulgarian') THEN
+        CREATE TEXT SEARCH CONFIGURATION bulgarian (COPY = simple);
+    END IF;
+END
+$$;
+
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('bulgarian'::regconfig, coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('bulgarian'::regconfig, coalesce("description", '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("description", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Service_searchVector_idx" ON "Service" USING GIN ("searchVector");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "City" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "Service_latitude_longitude_idx" ON "Service"("latitude", "longitude");
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "CoverageAreaType" AS ENUM ('CITY', 'STATE', 'RADIUS');
+
+-- AlterEnum
+ALTER TYPE "LineItemType" ADD VALUE 'TRAVEL_FEE';
+
+-- CreateTable
+CREATE TABLE "ServiceCoverageArea" (
+    "id" SERIAL NOT NULL,
+    "serviceId" INTEGER NOT NULL,
+    "type" "CoverageAreaType" NOT NULL,
+    "cityId" INTEGER,
+    "stateId" INTEGER,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "radiusKm" DOUBLE PRECISION,
+    "travelFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ServiceCoverageArea_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ServiceCoverageArea_serviceId_idx" ON "ServiceCoverageArea"("serviceId");
+
+-- CreateIndex
+CREATE INDEX "ServiceCoverageArea_cityId_idx" ON "ServiceCoverageArea"("cityId");
+
+-- CreateIndex
+CREATE INDEX "ServiceCoverageArea_stateId_idx" ON "ServiceCoverageArea"("stateId");
+
+-- CreateIndex
+CREATE INDEX "ServiceCoverageArea_type_latitude_idx" ON "ServiceCoverageArea"("type", "latitude");
+
+-- AddForeignKey
+ALTER TABLE "ServiceCoverageArea" ADD CONSTRAINT "ServiceCoverageArea_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "Service"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ServiceCoverageArea" ADD CONSTRAINT "ServiceCoverageArea_cityId_fkey" FOREIGN KEY ("cityId") REFERENCES "City"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ServiceCoverageArea" ADD CONSTRAINT "ServiceCoverageArea_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "State"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" SERIAL NOT NULL,
+    "baseCurrency" "Currency" NOT NULL,
+    "quoteCurrency" "Currency" NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "updatedBy" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_baseCurrency_quoteCurrency_key" ON "ExchangeRate"("baseCurrency", "quoteCurrency");
+
+-- Seed the fixed BGN/EUR peg
+INSERT INTO "ExchangeRate" ("baseCurrency", "quoteCurrency", "rate", "updatedAt")
+VALUES ('EUR', 'BGN', 1.95583, CURRENT_TIMESTAMP);
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "ServiceImage" ADD COLUMN     "thumbnailUrl" TEXT,
+ADD COLUMN     "thumbnailWidth" INTEGER,
+ADD COLUMN     "thumbnailHeight" INTEGER,
+ADD COLUMN     "mediumUrl" TEXT,
+ADD COLUMN     "mediumWidth" INTEGER,
+ADD COLUMN     "mediumHeight" INTEGER,
+ADD COLUMN     "largeUrl" TEXT,
+ADD COLUMN     "largeWidth" INTEGER,
+ADD COLUMN     "largeHeight" INTEGER;
@@ -0,0 +1,88 @@
+-- AlterTable
+ALTER TABLE "BlogPost" ADD COLUMN     "slug" TEXT,
+ADD COLUMN     "excerpt" TEXT,
+ADD COLUMN     "categoryId" INTEGER;
+
+-- Existing posts get a placeholder slug that can be edited later
+UPDATE "BlogPost" SET "slug" = 'post-' || "id" WHERE "slug" IS NULL;
+
+ALTER TABLE "BlogPost" ALTER COLUMN "slug" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "BlogCategory" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlogCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BlogTag" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlogTag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BlogPostTag" (
+    "postId" INTEGER NOT NULL,
+    "tagId" INTEGER NOT NULL,
+
+    CONSTRAINT "BlogPostTag_pkey" PRIMARY KEY ("postId","tagId")
+);
+
+-- CreateTable
+CREATE TABLE "BlogPostServiceCategory" (
+    "postId" INTEGER NOT NULL,
+    "categoryId" INTEGER NOT NULL,
+
+    CONSTRAINT "BlogPostServiceCategory_pkey" PRIMARY KEY ("postId","categoryId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlogPost_slug_key" ON "BlogPost"("slug");
+
+-- CreateIndex
+CREATE INDEX "BlogPost_status_publishedAt_idx" ON "BlogPost"("status", "publishedAt");
+
+-- CreateIndex
+CREATE INDEX "BlogPost_categoryId_idx" ON "BlogPost"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlogCategory_name_key" ON "BlogCategory"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlogCategory_slug_key" ON "BlogCategory"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlogTag_name_key" ON "BlogTag"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlogTag_slug_key" ON "BlogTag"("slug");
+
+-- CreateIndex
+CREATE INDEX "BlogPostTag_tagId_idx" ON "BlogPostTag"("tagId");
+
+-- CreateIndex
+CREATE INDEX "BlogPostServiceCategory_categoryId_idx" ON "BlogPostServiceCategory"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "BlogPost" ADD CONSTRAINT "BlogPost_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "BlogCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BlogPostTag" ADD CONSTRAINT "BlogPostTag_postId_fkey" FOREIGN KEY ("postId") REFERENCES "BlogPost"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BlogPostTag" ADD CONSTRAINT "BlogPostTag_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "BlogTag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BlogPostServiceCategory" ADD CONSTRAINT "BlogPostServiceCategory_postId_fkey" FOREIGN KEY ("postId") REFERENCES "BlogPost"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BlogPostServiceCategory" ADD CONSTRAINT "BlogPostServiceCategory_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
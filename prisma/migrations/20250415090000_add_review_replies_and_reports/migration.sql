@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "ReviewReportReason" AS ENUM ('abusive', 'fake', 'off_topic');
+
+-- CreateEnum
+CREATE TYPE "ReviewReportStatus" AS ENUM ('open', 'resolved', 'dismissed');
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "reply" TEXT,
+ADD COLUMN     "repliedAt" TIMESTAMP(3),
+ADD COLUMN     "isHidden" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "hiddenAt" TIMESTAMP(3),
+ADD COLUMN     "hiddenReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReviewReport" (
+    "id" SERIAL NOT NULL,
+    "reviewId" INTEGER NOT NULL,
+    "reporterId" INTEGER NOT NULL,
+    "reason" "ReviewReportReason" NOT NULL,
+    "details" TEXT,
+    "status" "ReviewReportStatus" NOT NULL DEFAULT 'open',
+    "resolvedById" INTEGER,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewReport_reviewId_reporterId_key" ON "ReviewReport"("reviewId", "reporterId");
+
+-- CreateIndex
+CREATE INDEX "ReviewReport_status_createdAt_idx" ON "ReviewReport"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ReviewReport" ADD CONSTRAINT "ReviewReport_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewReport" ADD CONSTRAINT "ReviewReport_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewReport" ADD CONSTRAINT "ReviewReport_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
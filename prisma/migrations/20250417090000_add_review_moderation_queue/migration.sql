@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "ReviewModerationStatus" AS ENUM ('pending', 'approved', 'rejected');
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "moderationStatus" "ReviewModerationStatus" NOT NULL DEFAULT 'approved',
+ADD COLUMN     "moderationReason" TEXT,
+ADD COLUMN     "moderatedById" INTEGER,
+ADD COLUMN     "moderatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Review_moderationStatus_createdAt_idx" ON "Review"("moderationStatus", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_moderatedById_fkey" FOREIGN KEY ("moderatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
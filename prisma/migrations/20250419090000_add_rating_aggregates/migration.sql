@@ -0,0 +1,81 @@
+-- AlterTable
+ALTER TABLE "ProviderProfile" ADD COLUMN     "ratingCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingSum" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rating1Count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rating2Count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rating3Count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rating4Count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rating5Count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingScore" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "rating" DOUBLE PRECISION,
+ADD COLUMN     "ratingCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingSum" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rating1Count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rating2Count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rating3Count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rating4Count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rating5Count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingScore" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "punctualityRating" INTEGER,
+ADD COLUMN     "qualityRating" INTEGER,
+ADD COLUMN     "communicationRating" INTEGER,
+ADD COLUMN     "valueRating" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Service_ratingScore_idx" ON "Service"("ratingScore");
+
+-- Backfill the aggregates from visible reviews
+-- The Bayesian prior (mean 4, weight 10) matches reviewConfig.bayesian
+CREATE TEMPORARY TABLE "_ServiceRatings" AS
+SELECT b."serviceId",
+       s."providerId",
+       COUNT(*)::INTEGER AS "count",
+       SUM(r."rating")::INTEGER AS "sum",
+       COUNT(*) FILTER (WHERE r."rating" = 1)::INTEGER AS "c1",
+       COUNT(*) FILTER (WHERE r."rating" = 2)::INTEGER AS "c2",
+       COUNT(*) FILTER (WHERE r."rating" = 3)::INTEGER AS "c3",
+       COUNT(*) FILTER (WHERE r."rating" = 4)::INTEGER AS "c4",
+       COUNT(*) FILTER (WHERE r."rating" = 5)::INTEGER AS "c5"
+FROM "Review" r
+JOIN "Booking" b ON b."id" = r."bookingId"
+JOIN "Service" s ON s."id" = b."serviceId"
+WHERE r."isHidden" = false AND r."moderationStatus" = 'approved'
+GROUP BY b."serviceId", s."providerId";
+
+UPDATE "Service" s
+SET "ratingCount" = a."count",
+    "ratingSum" = a."sum",
+    "rating1Count" = a."c1",
+    "rating2Count" = a."c2",
+    "rating3Count" = a."c3",
+    "rating4Count" = a."c4",
+    "rating5Count" = a."c5",
+    "rating" = a."sum"::DOUBLE PRECISION / a."count",
+    "ratingScore" = (4 * 10 + a."sum")::DOUBLE PRECISION / (10 + a."count")
+FROM "_ServiceRatings" a
+WHERE s."id" = a."serviceId";
+
+UPDATE "ProviderProfile" p
+SET "ratingCount" = a."count",
+    "ratingSum" = a."sum",
+    "rating1Count" = a."c1",
+    "rating2Count" = a."c2",
+    "rating3Count" = a."c3",
+    "rating4Count" = a."c4",
+    "rating5Count" = a."c5",
+    "rating" = a."sum"::DOUBLE PRECISION / a."count",
+    "ratingScore" = (4 * 10 + a."sum")::DOUBLE PRECISION / (10 + a."count")
+FROM (
+  SELECT "providerId",
+         SUM("count") AS "count", SUM("sum") AS "sum",
+         SUM("c1") AS "c1", SUM("c2") AS "c2", SUM("c3") AS "c3", SUM("c4") AS "c4", SUM("c5") AS "c5"
+  FROM "_ServiceRatings"
+  GROUP BY "providerId"
+) a
+WHERE p."id" = a."providerId";
+
+DROP TABLE "_ServiceRatings";
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "ReviewImage" (
+    "id" SERIAL NOT NULL,
+    "reviewId" INTEGER NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "thumbnailUrl" TEXT,
+    "thumbnailWidth" INTEGER,
+    "thumbnailHeight" INTEGER,
+    "mediumUrl" TEXT,
+    "mediumWidth" INTEGER,
+    "mediumHeight" INTEGER,
+    "largeUrl" TEXT,
+    "largeWidth" INTEGER,
+    "largeHeight" INTEGER,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewImage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReviewImage_reviewId_idx" ON "ReviewImage"("reviewId");
+
+-- AddForeignKey
+ALTER TABLE "ReviewImage" ADD CONSTRAINT "ReviewImage_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "Service_title_idx" ON "Service" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Service_description_idx" ON "Service" USING GIN ("description" gin_trgm_ops);
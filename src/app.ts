@@ -6,12 +6,21 @@ import authRoutes from './routes/auth';
 import userRoutes from './routes/user';
 import categoryRoutes from './routes/category';
 import serviceRoutes from './routes/service';
+import bookingRoutes from './routes/booking';
+import reviewRoutes from './routes/review';
+import locationRoutes from './routes/location';
+import availabilityRoutes from './routes/availability';
+import notificationRoutes from './routes/notification';
+import adminRoutes from './routes/admin';
+import verificationRoutes from './routes/verification';
+import blogRoutes from './routes/blog';
 import path from 'path';
 import { configureSecurityMiddleware } from './middleware/security';
 import { uploadMiddleware } from './middleware/upload';
 import { errorHandler } from './middleware/error';
 import prisma from './config/prisma'; // Fixed import path to match actual location
 import { registerScheduledJobs } from './jobs/scheduleJobs';
+import { assertEmailTransportConfigured } from './services/notification/notificationService';
 
 dotenv.config();
 
@@ -84,6 +93,14 @@ const configureRoutes = (app: Express): void => {
   app.use('/api/users', userRoutes);
   app.use('/api/categories', categoryRoutes);
   app.use('/api/services', serviceRoutes);
+  app.use('/api/bookings', bookingRoutes);
+  app.use('/api/reviews', reviewRoutes);
+  app.use('/api/locations', locationRoutes);
+  app.use('/api/availability', availabilityRoutes);
+  app.use('/api/notifications', notificationRoutes);
+  app.use('/api/admin', adminRoutes);
+  app.use('/api/verification', verificationRoutes);
+  app.use('/api/blog', blogRoutes);
 
   // Basic health check route
   app.get('/api/health', (_req: Request, res: Response) => {
@@ -101,6 +118,9 @@ const configureRoutes = (app: Express): void => {
 
 const startServer = async () => {
   try {
+    // Console and file email transports are for local development only
+    assertEmailTransportConfigured();
+
     // Get port from environment, use 0 for tests to get a random port
     const port = process.env.NODE_ENV === 'test' 
       ? (process.env.PORT === '0' ? 0 : parseInt(process.env.PORT || '3006')) 
@@ -169,7 +189,11 @@ const startServer = async () => {
 
 // Only start the server if this file is run directly
 if (require.main === module) {
-  startServer().catch(error => {
+  startServer().then(app => {
+    if (!app) {
+      process.exit(1);
+    }
+  }).catch(error => {
     console.error('Server startup error:', error);
     process.exit(1);
   });
@@ -0,0 +1,38 @@
+// src/config/auth.config.ts
+
+/**
+ * Account security settings
+ * Secrets are read lazily so tests and deployments can set them after import
+ */
+export const authConfig = {
+  emailVerification: {
+    getSecret: (): string =>
+      process.env.EMAIL_VERIFICATION_SECRET || `${process.env.JWT_SECRET || 'your-secret-key'}-email-verification`,
+    expiresIn: '24h',
+    // Actions that unverified users are not allowed to perform
+    requiredFor: {
+      bookings: process.env.REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS !== 'false',
+      services: process.env.REQUIRE_VERIFIED_EMAIL_FOR_SERVICES !== 'false'
+    }
+  },
+  passwordReset: {
+    // Reset links are single use and short lived
+    expiresInMinutes: parseInt(process.env.PASSWORD_RESET_EXPIRY_MINUTES || '60'),
+    tokenBytes: 32
+  },
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'UslugiBG',
+    // Accept codes from one 30s step either side to allow for clock drift
+    window: 1,
+    recoveryCodeCount: 10,
+    // Login challenge issued after the password check, exchanged for tokens at /api/auth/2fa/verify
+    challengeExpiresIn: '5m',
+    getChallengeSecret: (): string =>
+      process.env.TWO_FACTOR_CHALLENGE_SECRET || `${process.env.JWT_SECRET || 'your-secret-key'}-2fa-challenge`,
+    // TOTP secrets must be readable to check codes, so they are encrypted rather than hashed
+    getEncryptionKey: (): string =>
+      process.env.TWO_FACTOR_ENCRYPTION_KEY || `${process.env.JWT_SECRET || 'your-secret-key'}-2fa-secret`
+  }
+} as const;
+
+export type VerifiedEmailAction = keyof typeof authConfig.emailVerification.requiredFor;
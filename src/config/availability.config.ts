@@ -0,0 +1,16 @@
+// src/config/availability.config.ts
+
+/**
+ * Provider Availability Configuration
+ */
+export const availabilityConfig = {
+  slotDuration: {
+    defaultMinutes: 60,
+    minMinutes: 15,
+    maxMinutes: 8 * 60
+  },
+  // Maximum range that can be requested from the availability endpoint
+  maxRangeDays: 31,
+  // Slots starting sooner than this are not offered to customers
+  minLeadTimeMinutes: 60
+} as const;
@@ -0,0 +1,24 @@
+// src/config/blog.config.ts
+
+/**
+ * Blog Configuration
+ * Providers and admins write posts; only admins publish them
+ */
+export const blogConfig = {
+  pagination: {
+    defaultLimit: 10,
+    maxLimit: 50
+  },
+  maxTitleLength: 200,
+  maxExcerptLength: 500,
+  maxSlugLength: 120,
+  // Saves retried when a concurrent save takes the chosen slug first
+  slugSaveAttempts: 3,
+  // Length of the excerpt generated from the content when none is given
+  autoExcerptLength: 200,
+  maxTags: 10,
+  maxTagLength: 50,
+  maxServiceCategories: 5,
+  // Services shown alongside an article from its linked service categories
+  relatedServicesLimit: 6
+} as const;
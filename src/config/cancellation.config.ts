@@ -0,0 +1,37 @@
+// src/config/cancellation.config.ts
+
+/**
+ * Cancellation Policy and Provider Reliability Configuration
+ * Services can override the default policy with their own tiers
+ */
+export const cancellationConfig = {
+  // Used when a service has no policy of its own: cancelling within 24 hours costs
+  // the customer 10% and the provider 15% of the booking total
+  defaultPolicy: {
+    tiers: [
+      { withinHours: 24, customerPercent: 10, providerPercent: 15 }
+    ]
+  },
+  // Bounds for provider-defined policies
+  limits: {
+    maxTiers: 5,
+    maxHours: 14 * 24,
+    maxPercent: 100
+  },
+  reliability: {
+    windowDays: 180,
+    // No score is shown until the provider has this many finished bookings
+    minBookings: 3,
+    // How much each event counts against the provider, relative to one completed booking
+    weights: {
+      cancellation: 1,
+      lateCancellation: 2,
+      noShow: 3
+    }
+  },
+  // Providers cancelling this often are flagged in the security log
+  frequentCancellations: {
+    windowDays: 30,
+    threshold: 3
+  }
+} as const;
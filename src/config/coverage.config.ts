@@ -0,0 +1,13 @@
+// src/config/coverage.config.ts
+
+/**
+ * Service Coverage Area Configuration
+ * Limits for the areas mobile providers travel to
+ */
+export const coverageConfig = {
+  maxAreas: 50,
+  maxRadiusKm: 200,
+  // Highest travel fee for a single zone, in the service currency
+  maxTravelFee: 500,
+  travelFeeDescription: 'Travel fee'
+} as const;
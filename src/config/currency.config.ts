@@ -0,0 +1,17 @@
+// src/config/currency.config.ts
+
+/**
+ * Currency Conversion Configuration
+ * Rates are stored in the ExchangeRate table and can be changed by administrators
+ */
+export const currencyConfig = {
+  // Prices and filters without an explicit currency are in leva
+  defaultCurrency: 'BGN',
+  // The fixed lev/euro peg (1 EUR = 1.95583 BGN); used when the table has no rate for the pair
+  fixedRates: [
+    { baseCurrency: 'EUR', quoteCurrency: 'BGN', rate: 1.95583 }
+  ],
+  // Admin updates outside this range are rejected as likely typos
+  minRate: 0.0001,
+  maxRate: 10000
+} as const;
@@ -0,0 +1,21 @@
+// src/config/image.config.ts
+
+/**
+ * Service Image Processing Configuration
+ * Every upload is re-encoded into these variants; the originals are not kept
+ */
+export const imageConfig = {
+  // WebP is smaller; JPEG can be chosen for clients without WebP support
+  format: (process.env.IMAGE_FORMAT === 'jpeg' ? 'jpeg' : 'webp') as 'webp' | 'jpeg',
+  quality: 80,
+  // Uploads larger than this many pixels are rejected before decoding
+  maxInputPixels: 50_000_000,
+  // Background for transparent images saved as JPEG
+  flattenBackground: '#ffffff',
+  variants: {
+    // Cropped to a fixed size for list views
+    thumbnail: { width: 320, height: 240, fit: 'cover' },
+    medium: { width: 800, height: 800, fit: 'inside' },
+    large: { width: 1600, height: 1600, fit: 'inside' }
+  }
+} as const;
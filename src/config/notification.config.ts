@@ -0,0 +1,25 @@
+// src/config/notification.config.ts
+import path from 'path';
+
+export type TransportName = 'console' | 'file';
+
+/**
+ * Notification delivery settings
+ * Real email/SMS providers are plugged in through setTransports();
+ * 'console' and 'file' are meant for local development and tests
+ */
+export const notificationConfig = {
+  email: {
+    // Emails are written to disk so links can be followed in dev/test; the server
+    // refuses to start in production until a real provider replaces it
+    transport: (process.env.EMAIL_TRANSPORT || 'file') as TransportName,
+    from: process.env.EMAIL_FROM || 'UslugiBG <no-reply@uslugibg.bg>'
+  },
+  sms: {
+    transport: (process.env.SMS_TRANSPORT || 'console') as TransportName,
+    sender: process.env.SMS_SENDER || 'UslugiBG'
+  },
+  // Where the file transport writes outgoing messages
+  outputDir: process.env.NOTIFICATION_OUTPUT_DIR || path.join(process.cwd(), 'tmp', 'notifications'),
+  frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000'
+} as const;
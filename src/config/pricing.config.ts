@@ -0,0 +1,41 @@
+// src/config/pricing.config.ts
+
+/**
+ * Booking Pricing Configuration
+ * All percentages are applied to the base price of the booking, including add-ons
+ */
+export const pricingConfig = {
+  // Duration rules for HOURLY services
+  hourly: {
+    minHours: 1,
+    maxHours: 12,
+    increment: 0.5 // Durations must be multiples of half an hour
+  },
+  // Limits for service packages (tiers) and add-ons
+  options: {
+    maxPackages: 5,
+    maxAddOns: 20,
+    maxNameLength: 100,
+    maxDescriptionLength: 500
+  },
+  surcharges: {
+    weekend: {
+      enabled: true,
+      percent: 10,
+      description: 'Weekend surcharge'
+    },
+    evening: {
+      enabled: true,
+      percent: 15,
+      startHour: 20, // Bookings starting at or after 20:00...
+      endHour: 8,    // ...or before 08:00 local time
+      description: 'Evening/night surcharge'
+    },
+    shortNotice: {
+      enabled: true,
+      percent: 10,
+      withinHours: 24,
+      description: 'Short notice surcharge'
+    }
+  }
+} as const;
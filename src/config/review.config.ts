@@ -0,0 +1,17 @@
+// src/config/review.config.ts
+
+/**
+ * Review Configuration
+ */
+export const reviewConfig = {
+  maxReplyLength: 1000,
+  maxReportDetailsLength: 500,
+  // Photos a customer can attach to a review
+  maxImages: 5,
+  // Ranking pulls averages towards priorMean as if each service had priorWeight extra reviews,
+  // so a single 5-star review does not outrank a long record of 4.8s
+  bayesian: {
+    priorMean: 4,
+    priorWeight: 10
+  }
+} as const;
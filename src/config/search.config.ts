@@ -0,0 +1,23 @@
+// src/config/search.config.ts
+
+/**
+ * Service Search Configuration
+ */
+export const searchConfig = {
+  query: {
+    minLength: 2,
+    maxLength: 100
+  },
+  // Minimum word similarity (0-1) for the typo-tolerant trigram fallback
+  fuzzyThreshold: 0.4,
+  geo: {
+    maxRadiusKm: 200
+  },
+  highlight: {
+    startTag: '<mark>',
+    endTag: '</mark>',
+    maxWords: 25,
+    minWords: 8,
+    maxFragments: 2
+  }
+} as const;
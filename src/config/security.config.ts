@@ -10,6 +10,11 @@ export const publicRoutes = {
     '/api/health',
     '/api/auth/login',
     '/api/auth/register',
+    '/api/auth/verify-email',
+    '/api/auth/resend-verification',
+    '/api/auth/forgot-password',
+    '/api/auth/reset-password',
+    '/api/auth/2fa/verify',
     '/uploads/*'  // Public access to uploads with origin checking
   ]
 };
@@ -142,11 +147,28 @@ export const uploadSecurity = {
   maxFilesPerRequest: 5
 } as const;
 
+/**
+ * Verification Document Upload Configuration
+ * Documents are stored privately and never served from /uploads
+ */
+export const documentUploadSecurity = {
+  maxFileSize: 10 * 1024 * 1024, // 10MB
+  allowedMimeTypes: [
+    'application/pdf',
+    'image/jpeg',
+    'image/png'
+  ],
+  allowedExtensions: ['.pdf', '.jpg', '.jpeg', '.png'],
+  sanitizeFilenames: true,
+  maxFilesPerRequest: 5
+} as const;
+
 export const securityConfig = {
   helmet,
   cors,
   rateLimiting,
   monitoring,
   uploadSecurity,
+  documentUploadSecurity,
   publicRoutes
 } as const;
\ No newline at end of file
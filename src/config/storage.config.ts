@@ -1,17 +1,62 @@
 // src/config/storage.config.ts
 import path from 'path';
 import fs from 'fs';
+import axios from 'axios';
+import { AwsCredentials, presignUrl, sha256Hex, signRequest } from '../utils/awsSignature';
+
+export type StorageDriver = 'local' | 's3';
+
+/**
+ * Upload storage settings
+ * 'local' writes to disk next to the app; 's3' works with AWS S3 and compatible stores such as MinIO
+ */
+export const storageConfig = {
+  driver: (process.env.STORAGE_DRIVER === 's3' ? 's3' : 'local') as StorageDriver,
+  // Lifetime of signed URLs for private files
+  signedUrlExpiresSeconds: 5 * 60,
+  s3: {
+    endpoint: process.env.S3_ENDPOINT || 'https://s3.eu-central-1.amazonaws.com',
+    region: process.env.S3_REGION || 'eu-central-1',
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+    // Must allow public reads; private files go to a separate bucket without public access
+    bucket: process.env.S3_BUCKET || 'uslugibg-uploads',
+    privateBucket: process.env.S3_PRIVATE_BUCKET || 'uslugibg-private',
+    // Base URL public files are served from, e.g. a CDN; defaults to the bucket itself
+    publicUrl: process.env.S3_PUBLIC_URL || null,
+    // MinIO and most self-hosted stores need path-style bucket addressing
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false'
+  }
+} as const;
 
 export interface StorageService {
   saveFile(buffer: Buffer, filename: string): Promise<string>;
+  getFile(fileUrl: string): Promise<Buffer>;
   deleteFile(fileUrl: string): Promise<void>;
+  // Returns a temporary URL for downloading the file directly, or null when it
+  // can only be read through the API
+  getSignedUrl(fileUrl: string, expiresInSeconds?: number): Promise<string | null>;
 }
 
-class LocalStorageService implements StorageService {
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.heif': 'image/heif',
+  '.pdf': 'application/pdf'
+};
+
+export class LocalStorageService implements StorageService {
   private uploadDir: string;
+  private publicPath: string | null;
 
-  constructor() {
-    this.uploadDir = path.join(process.cwd(), 'uploads');
+  // Files saved without a public path are not served statically and are only
+  // returned as a storage key
+  constructor(directory: string = 'uploads', publicPath: string | null = '/uploads') {
+    this.uploadDir = path.join(process.cwd(), directory);
+    this.publicPath = publicPath;
     if (!fs.existsSync(this.uploadDir)) {
       fs.mkdirSync(this.uploadDir, { recursive: true });
     }
@@ -21,18 +66,147 @@ class LocalStorageService implements StorageService {
     const filename = `${Date.now()}-${originalname}`;
     const filepath = path.join(this.uploadDir, filename);
     await fs.promises.writeFile(filepath, buffer);
-    return `/uploads/${filename}`; // This should match your static assets route
+    return this.publicPath ? `${this.publicPath}/${filename}` : filename; // This should match your static assets route
+  }
+
+  async getFile(fileUrl: string): Promise<Buffer> {
+    const filename = path.basename(fileUrl);
+    return fs.promises.readFile(path.join(this.uploadDir, filename));
   }
 
   async deleteFile(fileUrl: string): Promise<void> {
     const filename = path.basename(fileUrl);
     const filepath = path.join(this.uploadDir, filename);
-    
+
     if (fs.existsSync(filepath)) {
       await fs.promises.unlink(filepath);
     }
   }
+
+  // Public files are served statically as they are; private ones have no URL
+  async getSignedUrl(fileUrl: string): Promise<string | null> {
+    return this.publicPath ? `${this.publicPath}/${path.basename(fileUrl)}` : null;
+  }
+}
+
+export interface S3StorageOptions {
+  endpoint: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucket: string;
+  forcePathStyle: boolean;
+  // Public buckets return URLs for saved files, private ones only their keys
+  isPublic: boolean;
+  // Base URL public files are served from; defaults to the bucket itself
+  publicUrl?: string | null;
+}
+
+export class S3StorageService implements StorageService {
+  private options: S3StorageOptions;
+  private credentials: AwsCredentials;
+
+  constructor(options: S3StorageOptions) {
+    this.options = { ...options, endpoint: options.endpoint.replace(/\/+$/, '') };
+    this.credentials = {
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+      region: options.region
+    };
+  }
+
+  async saveFile(buffer: Buffer, originalname: string): Promise<string> {
+    const key = `${Date.now()}-${originalname}`;
+    await this.send('PUT', key, buffer);
+    if (!this.options.isPublic) {
+      return key;
+    }
+    const baseUrl = this.options.publicUrl || this.objectUrl('').toString();
+    return `${baseUrl.replace(/\/+$/, '')}/${key}`;
+  }
+
+  async getFile(fileUrl: string): Promise<Buffer> {
+    return this.send('GET', this.toKey(fileUrl));
+  }
+
+  // S3 reports success for objects that do not exist, so deletes are idempotent
+  async deleteFile(fileUrl: string): Promise<void> {
+    await this.send('DELETE', this.toKey(fileUrl));
+  }
+
+  async getSignedUrl(
+    fileUrl: string,
+    expiresInSeconds: number = storageConfig.signedUrlExpiresSeconds
+  ): Promise<string | null> {
+    return presignUrl({ method: 'GET', url: this.objectUrl(this.toKey(fileUrl)) }, this.credentials, expiresInSeconds);
+  }
+
+  // Keys are flat like local filenames, so both URLs and bare keys resolve to the last path segment
+  private toKey(fileUrl: string): string {
+    return decodeURIComponent(path.posix.basename(fileUrl.split('?')[0]));
+  }
+
+  private objectUrl(key: string): URL {
+    const endpoint = new URL(this.options.endpoint);
+    const encodedKey = encodeURIComponent(key);
+
+    if (this.options.forcePathStyle) {
+      return new URL(`${endpoint.origin}/${this.options.bucket}/${encodedKey}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.options.bucket}.${endpoint.host}/${encodedKey}`);
+  }
+
+  private async send(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer): Promise<Buffer> {
+    const url = this.objectUrl(key);
+    const headers = signRequest({
+      method,
+      url,
+      headers: body ? { 'content-type': CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream' } : {},
+      payloadHash: sha256Hex(body ?? '')
+    }, this.credentials);
+
+    const response = await axios.request<ArrayBuffer>({
+      method,
+      url: url.toString(),
+      headers,
+      data: body,
+      responseType: 'arraybuffer',
+      maxBodyLength: Infinity,
+      validateStatus: () => true
+    });
+
+    if (response.status >= 300) {
+      throw new Error(`Storage ${method} ${key} failed with status ${response.status}`);
+    }
+    return Buffer.from(response.data);
+  }
 }
 
+/**
+ * Creates the storage backend selected in the configuration
+ * Private storage is for files such as verification documents that must never be public
+ */
+export const createStorage = (visibility: 'public' | 'private'): StorageService => {
+  const { s3 } = storageConfig;
+
+  switch (storageConfig.driver) {
+    case 's3':
+      return new S3StorageService({
+        ...s3,
+        bucket: visibility === 'public' ? s3.bucket : s3.privateBucket,
+        isPublic: visibility === 'public'
+      });
+    case 'local':
+      return visibility === 'public'
+        ? new LocalStorageService()
+        : new LocalStorageService('private-uploads', null);
+    default:
+      throw new Error(`Unknown storage driver: ${storageConfig.driver}`);
+  }
+};
+
 // Export a singleton instance
-export const storage = new LocalStorageService();
\ No newline at end of file
+export const storage = createStorage('public');
+
+// Private files such as verification documents
+export const privateStorage = createStorage('private');
@@ -0,0 +1,404 @@
+// src/controllers/admin/adminController.ts
+import { Request, Response, NextFunction } from 'express';
+import { BookingStatus, Prisma, UserType } from '@prisma/client';
+import prisma from '../../config/prisma';
+import { recordAdminAction } from '../../services/auditService';
+import { revokeAllSessions } from '../../services/sessionService';
+import { parsePagination } from '../../utils/pagination';
+
+const userSummarySelect = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  phone: true,
+  userType: true,
+  isActive: true,
+  emailVerified: true,
+  createdAt: true,
+  providerProfile: {
+    select: {
+      id: true,
+      companyName: true,
+      isVerified: true
+    }
+  }
+} as const;
+
+/**
+ * List and search users
+ * Supports q (email, name or phone), userType and isActive filters
+ */
+export const listUsers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { q, userType, isActive } = req.query;
+    const { page, limit, skip } = parsePagination(req.query);
+
+    const where: Prisma.UserWhereInput = {};
+
+    if (q) {
+      const search = (q as string).trim();
+      where.OR = [
+        { email: { contains: search, mode: 'insensitive' } },
+        { firstName: { contains: search, mode: 'insensitive' } },
+        { lastName: { contains: search, mode: 'insensitive' } },
+        { phone: { contains: search } }
+      ];
+    }
+
+    if (userType && Object.values(UserType).includes(userType as UserType)) {
+      where.userType = userType as UserType;
+    }
+
+    if (isActive === 'true' || isActive === 'false') {
+      where.isActive = isActive === 'true';
+    }
+
+    const [users, totalCount] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: userSummarySelect,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit
+      }),
+      prisma.user.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: users,
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        pages: Math.ceil(totalCount / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deactivate or reactivate a user account
+ * Deactivation also signs the user out of every session
+ */
+const setUserActive = (isActive: boolean) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const adminId = req.user!.id;
+    const userId = Number(req.params.id);
+    const { reason } = req.body;
+
+    if (!Number.isSafeInteger(userId) || userId <= 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid user ID'
+      });
+      return;
+    }
+
+    if (userId === adminId) {
+      res.status(400).json({
+        success: false,
+        message: 'You cannot change the status of your own account'
+      });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+      return;
+    }
+
+    const updatedUser = await prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { id: userId },
+        data: { isActive },
+        select: userSummarySelect
+      });
+
+      if (!isActive) {
+        await revokeAllSessions(userId, 'deactivated', tx);
+      }
+
+      await recordAdminAction(adminId, {
+        action: isActive ? 'user.reactivate' : 'user.deactivate',
+        targetType: 'user',
+        targetId: userId,
+        details: { reason: reason || null, previousIsActive: user.isActive }
+      }, tx);
+
+      return updated;
+    });
+
+    res.json({
+      success: true,
+      data: updatedUser,
+      message: isActive ? 'User reactivated successfully' : 'User deactivated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deactivateUser = setUserActive(false);
+export const reactivateUser = setUserActive(true);
+
+/**
+ * Hide a service from listings or make it visible again
+ */
+const setServiceVisibility = (isActive: boolean) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const adminId = req.user!.id;
+    const serviceId = Number(req.params.id);
+    const { reason } = req.body;
+
+    if (!Number.isSafeInteger(serviceId) || serviceId <= 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid service ID'
+      });
+      return;
+    }
+
+    const service = await prisma.service.findUnique({
+      where: { id: serviceId }
+    });
+
+    if (!service) {
+      res.status(404).json({
+        success: false,
+        message: 'Service not found'
+      });
+      return;
+    }
+
+    const updatedService = await prisma.$transaction(async (tx) => {
+      const updated = await tx.service.update({
+        where: { id: serviceId },
+        data: { isActive }
+      });
+
+      await recordAdminAction(adminId, {
+        action: isActive ? 'service.unhide' : 'service.hide',
+        targetType: 'service',
+        targetId: serviceId,
+        details: { reason: reason || null, previousIsActive: service.isActive }
+      }, tx);
+
+      return updated;
+    });
+
+    res.json({
+      success: true,
+      data: updatedService,
+      message: isActive ? 'Service is visible again' : 'Service hidden successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const hideService = setServiceVisibility(false);
+export const unhideService = setServiceVisibility(true);
+
+/**
+ * Get a provider's booking history with their disputes and cancellations
+ */
+export const getProviderHistory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const providerId = Number(req.params.id);
+    const { page, limit, skip } = parsePagination(req.query);
+
+    if (!Number.isSafeInteger(providerId) || providerId <= 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid provider ID'
+      });
+      return;
+    }
+
+    const provider = await prisma.providerProfile.findUnique({
+      where: { id: providerId },
+      include: {
+        user: { select: userSummarySelect }
+      }
+    });
+
+    if (!provider) {
+      res.status(404).json({
+        success: false,
+        message: 'Provider not found'
+      });
+      return;
+    }
+
+    const where: Prisma.BookingWhereInput = {
+      service: { providerId }
+    };
+
+    const [bookings, totalCount, statusCounts, disputes, cancellations] = await Promise.all([
+      prisma.booking.findMany({
+        where,
+        include: {
+          service: { select: { id: true, title: true } },
+          customer: { select: { id: true, firstName: true, lastName: true, email: true } },
+          statusHistory: { orderBy: { changedAt: 'asc' } }
+        },
+        orderBy: { bookingDate: 'desc' },
+        skip,
+        take: limit
+      }),
+      prisma.booking.count({ where }),
+      prisma.booking.groupBy({
+        by: ['status'],
+        where,
+        _count: { _all: true }
+      }),
+      prisma.booking.findMany({
+        where: { ...where, hasDispute: true },
+        select: {
+          id: true,
+          bookingDate: true,
+          status: true,
+          disputeReason: true,
+          disputeStatus: true,
+          disputeResolvedAt: true,
+          customerId: true
+        },
+        orderBy: { bookingDate: 'desc' }
+      }),
+      prisma.booking.findMany({
+        where: { ...where, status: BookingStatus.cancelled },
+        select: {
+          id: true,
+          bookingDate: true,
+          cancelledBy: true,
+          cancellationReason: true,
+          cancellationTime: true,
+          customerId: true
+        },
+        orderBy: { bookingDate: 'desc' }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        provider,
+        summary: {
+          byStatus: Object.fromEntries(statusCounts.map(count => [count.status, count._count._all])),
+          disputes: disputes.length,
+          cancellations: cancellations.length,
+          cancelledByProvider: cancellations.filter(c => c.cancelledBy === provider.userId).length
+        },
+        disputes,
+        cancellations: cancellations.map(cancellation => ({
+          ...cancellation,
+          cancelledByProvider: cancellation.cancelledBy === provider.userId
+        })),
+        bookings
+      },
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        pages: Math.ceil(totalCount / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List audit log entries, newest first
+ * Supports adminId, action, targetType and targetId filters
+ */
+export const getAuditLog = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { adminId, action, targetType, targetId } = req.query;
+    const { page, limit, skip } = parsePagination(req.query, { defaultLimit: 50 });
+    const adminIdFilter = adminId ? Number(adminId) : undefined;
+    const targetIdFilter = targetId ? Number(targetId) : undefined;
+
+    if ([adminIdFilter, targetIdFilter].some(id => id !== undefined && !Number.isSafeInteger(id))) {
+      res.status(400).json({
+        success: false,
+        message: 'adminId and targetId must be numeric IDs'
+      });
+      return;
+    }
+
+    const where: Prisma.AdminAuditLogWhereInput = {
+      ...(adminIdFilter !== undefined && { adminId: adminIdFilter }),
+      ...(action && { action: action as string }),
+      ...(targetType && { targetType: targetType as string }),
+      ...(targetIdFilter !== undefined && { targetId: targetIdFilter })
+    };
+
+    const [entries, totalCount] = await Promise.all([
+      prisma.adminAuditLog.findMany({
+        where,
+        include: {
+          admin: { select: { id: true, email: true, firstName: true, lastName: true } }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit
+      }),
+      prisma.adminAuditLog.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: entries,
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        pages: Math.ceil(totalCount / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  listUsers,
+  deactivateUser,
+  reactivateUser,
+  hideService,
+  unhideService,
+  getProviderHistory,
+  getAuditLog
+};
@@ -0,0 +1,106 @@
+// src/controllers/admin/exchangeRateController.ts
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../../config/prisma';
+import { currencyConfig } from '../../config/currency.config';
+import { recordAdminAction } from '../../services/auditService';
+import { getExchangeRates, parseCurrency } from '../../services/currencyService';
+
+/**
+ * List the stored exchange rates and the rates in effect for every currency pair
+ */
+export const listExchangeRates = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const [stored, effective] = await Promise.all([
+      prisma.exchangeRate.findMany({
+        orderBy: [{ baseCurrency: 'asc' }, { quoteCurrency: 'asc' }]
+      }),
+      getExchangeRates()
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        rates: stored,
+        effective: [...effective].map(([pair, rate]) => {
+          const [baseCurrency, quoteCurrency] = pair.split(':');
+          return { baseCurrency, quoteCurrency, rate };
+        })
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Set the rate for a currency pair
+ * The reverse direction follows automatically unless it has a stored rate of its own
+ */
+export const updateExchangeRate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const adminId = req.user!.id;
+    const baseCurrency = parseCurrency(req.params.base);
+    const quoteCurrency = parseCurrency(req.params.quote);
+    const rate = Number(req.body.rate);
+
+    if (!baseCurrency || !quoteCurrency || baseCurrency === quoteCurrency) {
+      res.status(400).json({
+        success: false,
+        message: 'A pair of two different supported currencies is required'
+      });
+      return;
+    }
+
+    if (!Number.isFinite(rate) || rate < currencyConfig.minRate || rate > currencyConfig.maxRate) {
+      res.status(400).json({
+        success: false,
+        message: `Rate must be between ${currencyConfig.minRate} and ${currencyConfig.maxRate}`
+      });
+      return;
+    }
+
+    const previousRates = await getExchangeRates();
+
+    const exchangeRate = await prisma.$transaction(async (tx) => {
+      const saved = await tx.exchangeRate.upsert({
+        where: { baseCurrency_quoteCurrency: { baseCurrency, quoteCurrency } },
+        create: { baseCurrency, quoteCurrency, rate, updatedBy: adminId },
+        update: { rate, updatedBy: adminId }
+      });
+
+      await recordAdminAction(adminId, {
+        action: 'exchange_rate.update',
+        targetType: 'exchange_rate',
+        targetId: saved.id,
+        details: {
+          pair: `${baseCurrency}/${quoteCurrency}`,
+          previousRate: previousRates.get(`${baseCurrency}:${quoteCurrency}`) ?? null,
+          rate
+        }
+      }, tx);
+
+      return saved;
+    });
+
+    res.json({
+      success: true,
+      data: exchangeRate,
+      message: 'Exchange rate updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  listExchangeRates,
+  updateExchangeRate
+};
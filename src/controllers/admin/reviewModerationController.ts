@@ -0,0 +1,460 @@
+// src/controllers/admin/reviewModerationController.ts
+import { Request, Response, NextFunction } from 'express';
+import { Prisma, ReviewModerationStatus, ReviewReportStatus } from '@prisma/client';
+import prisma from '../../config/prisma';
+import { recordAdminAction } from '../../services/auditService';
+import { applyReviewToRatings, isReviewVisible } from '../../services/reviewService';
+import { deleteImageFiles } from '../../services/imageService';
+import {
+  notificationRecipientSelect,
+  notifyBookingParty
+} from '../../services/notification/notificationService';
+import { parsePagination } from '../../utils/pagination';
+
+/**
+ * List review reports, oldest first
+ * Shows open reports unless another status is requested
+ */
+export const listReviewReports = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { status } = req.query;
+    const { page, limit, skip } = parsePagination(req.query);
+
+    const where: Prisma.ReviewReportWhereInput = {
+      status: Object.values(ReviewReportStatus).includes(status as ReviewReportStatus)
+        ? status as ReviewReportStatus
+        : ReviewReportStatus.open
+    };
+
+    const [reports, totalCount] = await Promise.all([
+      prisma.reviewReport.findMany({
+        where,
+        include: {
+          review: {
+            include: {
+              booking: {
+                select: {
+                  id: true,
+                  customerId: true,
+                  service: {
+                    select: { id: true, title: true, providerId: true }
+                  }
+                }
+              }
+            }
+          },
+          reporter: {
+            select: { id: true, email: true, firstName: true, lastName: true, userType: true }
+          }
+        },
+        orderBy: { createdAt: 'asc' },
+        skip,
+        take: limit
+      }),
+      prisma.reviewReport.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: reports,
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        pages: Math.ceil(totalCount / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List reviews held for moderation by manipulation detection, oldest first
+ */
+export const listPendingReviews = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { page, limit, skip } = parsePagination(req.query);
+    const where: Prisma.ReviewWhereInput = { moderationStatus: ReviewModerationStatus.pending };
+
+    const [reviews, totalCount] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        include: {
+          booking: {
+            select: {
+              id: true,
+              customer: {
+                select: { id: true, email: true, firstName: true, lastName: true }
+              },
+              service: {
+                select: { id: true, title: true, providerId: true }
+              }
+            }
+          }
+        },
+        orderBy: { createdAt: 'asc' },
+        skip,
+        take: limit
+      }),
+      prisma.review.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: reviews,
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        pages: Math.ceil(totalCount / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Approve or reject a review held for moderation
+ * Approved reviews become public, count towards the provider's rating and notify the provider
+ */
+const moderateReview = (moderationStatus: ReviewModerationStatus) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const adminId = req.user!.id;
+    const reviewId = parseInt(req.params.id);
+    const { reason } = req.body;
+    const approved = moderationStatus === ReviewModerationStatus.approved;
+
+    const review = await prisma.review.findUnique({
+      where: { id: reviewId },
+      include: {
+        booking: {
+          include: {
+            service: {
+              include: {
+                provider: {
+                  include: {
+                    user: { select: notificationRecipientSelect }
+                  }
+                }
+              }
+            },
+            customer: { select: notificationRecipientSelect }
+          }
+        }
+      }
+    });
+
+    if (!review) {
+      res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+      return;
+    }
+
+    const updatedReview = await prisma.$transaction(async (tx) => {
+      // Claim the review so concurrent decisions cannot both count it
+      const { count } = await tx.review.updateMany({
+        where: { id: reviewId, moderationStatus: ReviewModerationStatus.pending },
+        data: {
+          moderationStatus,
+          moderatedById: adminId,
+          moderatedAt: new Date()
+        }
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      const updated = await tx.review.findUniqueOrThrow({
+        where: { id: reviewId }
+      });
+
+      if (approved && !updated.isHidden) {
+        await applyReviewToRatings({
+          rating: review.rating,
+          serviceId: review.booking.serviceId,
+          providerId: review.booking.service.providerId
+        }, 1, tx);
+      }
+
+      await recordAdminAction(adminId, {
+        action: approved ? 'review.approve' : 'review.reject',
+        targetType: 'review',
+        targetId: reviewId,
+        details: { reason: reason || null, flaggedFor: review.moderationReason }
+      }, tx);
+
+      return updated;
+    });
+
+    if (!updatedReview) {
+      res.status(409).json({
+        success: false,
+        message: 'Only reviews awaiting moderation can be approved or rejected'
+      });
+      return;
+    }
+
+    if (approved) {
+      await notifyBookingParty(review.booking, 'provider', 'review_received', { rating: review.rating });
+    }
+
+    res.json({
+      success: true,
+      data: updatedReview,
+      message: approved ? 'Review approved successfully' : 'Review rejected successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const approveReview = moderateReview(ReviewModerationStatus.approved);
+export const rejectReview = moderateReview(ReviewModerationStatus.rejected);
+
+/**
+ * Hide a review from listings and ratings or restore it
+ * Hiding resolves the open reports against the review
+ */
+const setReviewHidden = (isHidden: boolean) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const adminId = req.user!.id;
+    const reviewId = parseInt(req.params.id);
+    const { reason } = req.body;
+
+    const review = await prisma.review.findUnique({
+      where: { id: reviewId },
+      include: {
+        booking: {
+          select: { serviceId: true, service: { select: { providerId: true } } }
+        }
+      }
+    });
+
+    if (!review) {
+      res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+      return;
+    }
+
+    const updatedReview = await prisma.$transaction(async (tx) => {
+      // Claim the change so concurrent calls cannot both move the aggregates
+      const { count } = await tx.review.updateMany({
+        where: { id: reviewId, isHidden: !isHidden },
+        data: isHidden
+          ? { isHidden, hiddenAt: new Date(), hiddenReason: reason || null }
+          : { isHidden, hiddenAt: null, hiddenReason: null }
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      const updated = await tx.review.findUniqueOrThrow({
+        where: { id: reviewId }
+      });
+
+      let resolvedReports = 0;
+      if (isHidden) {
+        ({ count: resolvedReports } = await tx.reviewReport.updateMany({
+          where: { reviewId, status: ReviewReportStatus.open },
+          data: {
+            status: ReviewReportStatus.resolved,
+            resolvedById: adminId,
+            resolvedAt: new Date()
+          }
+        }));
+      }
+
+      // Only a change in visibility moves the rating aggregates
+      const wasVisible = isReviewVisible({ isHidden: !isHidden, moderationStatus: updated.moderationStatus });
+      if (wasVisible !== isReviewVisible(updated)) {
+        await applyReviewToRatings({
+          rating: review.rating,
+          serviceId: review.booking.serviceId,
+          providerId: review.booking.service.providerId
+        }, wasVisible ? -1 : 1, tx);
+      }
+
+      await recordAdminAction(adminId, {
+        action: isHidden ? 'review.hide' : 'review.restore',
+        targetType: 'review',
+        targetId: reviewId,
+        details: {
+          reason: reason || null,
+          ...(isHidden && { resolvedReports })
+        }
+      }, tx);
+
+      return updated;
+    });
+
+    if (!updatedReview) {
+      res.status(409).json({
+        success: false,
+        message: isHidden ? 'Review is already hidden' : 'Review is not hidden'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: updatedReview,
+      message: isHidden ? 'Review hidden successfully' : 'Review restored successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const hideReview = setReviewHidden(true);
+export const restoreReview = setReviewHidden(false);
+
+/**
+ * Remove a single photo from a review, e.g. one showing personal details
+ * The review itself and its other photos stay visible
+ */
+export const removeReviewImage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const adminId = req.user!.id;
+    const reviewId = parseInt(req.params.id);
+    const imageId = parseInt(req.params.imageId);
+    const { reason } = req.body;
+
+    const image = await prisma.reviewImage.findUnique({
+      where: { id: imageId }
+    });
+
+    if (!image || image.reviewId !== reviewId) {
+      res.status(404).json({
+        success: false,
+        message: 'Review image not found'
+      });
+      return;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.reviewImage.delete({
+        where: { id: imageId }
+      });
+
+      await recordAdminAction(adminId, {
+        action: 'review.remove_image',
+        targetType: 'review',
+        targetId: reviewId,
+        details: { imageId, imageUrl: image.imageUrl, reason: reason || null }
+      }, tx);
+    });
+
+    // The record is gone either way; a file left in storage is only logged
+    try {
+      await deleteImageFiles(image);
+    } catch (error) {
+      console.error(`Failed to delete files of review image ${imageId}:`, error);
+    }
+
+    res.json({
+      success: true,
+      message: 'Review image removed successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Dismiss a report that does not warrant action, leaving the review visible
+ */
+export const dismissReviewReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const adminId = req.user!.id;
+    const reportId = parseInt(req.params.id);
+
+    const report = await prisma.reviewReport.findUnique({
+      where: { id: reportId }
+    });
+
+    if (!report) {
+      res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+      return;
+    }
+
+    if (report.status !== ReviewReportStatus.open) {
+      res.status(409).json({
+        success: false,
+        message: 'Only open reports can be dismissed'
+      });
+      return;
+    }
+
+    const dismissed = await prisma.$transaction(async (tx) => {
+      const updated = await tx.reviewReport.update({
+        where: { id: reportId },
+        data: {
+          status: ReviewReportStatus.dismissed,
+          resolvedById: adminId,
+          resolvedAt: new Date()
+        }
+      });
+
+      await recordAdminAction(adminId, {
+        action: 'review.dismiss_report',
+        targetType: 'review',
+        targetId: report.reviewId,
+        details: { reportId, reason: report.reason }
+      }, tx);
+
+      return updated;
+    });
+
+    res.json({
+      success: true,
+      data: dismissed,
+      message: 'Report dismissed'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  listPendingReviews,
+  approveReview,
+  rejectReview,
+  listReviewReports,
+  hideReview,
+  restoreReview,
+  removeReviewImage,
+  dismissReviewReport
+};
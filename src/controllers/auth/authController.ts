@@ -2,40 +2,26 @@
 import { Request, Response, NextFunction } from 'express';
 import prisma from '../../config/prisma';
 import bcrypt from 'bcrypt';
-import jwt, { Algorithm } from 'jsonwebtoken';
 import { UserType } from '@prisma/client';
 import { validatePasswordComplexity } from '../../utils/validation';
-
-// Configuration constants
-const JWT_ACCESS_TOKEN_EXPIRY = process.env.JWT_ACCESS_TOKEN_EXPIRY || '15m';  // 15 minutes
-const JWT_REFRESH_TOKEN_EXPIRY = process.env.JWT_REFRESH_TOKEN_EXPIRY || '7d';   // 7 days
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-const REFRESH_TOKEN_SECRET = process.env.REFRESH_TOKEN_SECRET || 'your-refresh-secret-key';
-
-// Define properly typed JWT options
-interface JwtOptions {
-  expiresIn: string;
-  algorithm: Algorithm;
-}
-
-const JWT_OPTIONS: JwtOptions = { 
-  expiresIn: JWT_ACCESS_TOKEN_EXPIRY,
-  algorithm: 'HS256' as Algorithm
-};
-
-const REFRESH_TOKEN_OPTIONS: JwtOptions = {
-  expiresIn: JWT_REFRESH_TOKEN_EXPIRY,
-  algorithm: 'HS256' as Algorithm
-};
-
-// Helper functions for token generation
-const generateAccessToken = (userId: number): string => {
-  return jwt.sign({ userId }, JWT_SECRET, JWT_OPTIONS);
-};
-
-const generateRefreshToken = (userId: number): string => {
-  return jwt.sign({ userId }, REFRESH_TOKEN_SECRET, REFRESH_TOKEN_OPTIONS);
-};
+import {
+  sendVerificationEmail,
+  verifyEmailVerificationToken
+} from '../../services/emailVerificationService';
+import { consumePasswordResetToken, sendPasswordResetEmail } from '../../services/passwordResetService';
+import {
+  createTwoFactorChallenge,
+  verifySecondFactor,
+  verifyTwoFactorChallenge
+} from '../../services/twoFactorService';
+import {
+  createSession,
+  getSessionMetadata,
+  revokeAllSessions,
+  revokeSessionByRefreshToken,
+  rotateRefreshToken
+} from '../../services/sessionService';
+import { authConfig } from '../../config/auth.config';
 
 // Add this function near the top of your file
 const isPasswordStrong = (password: string): boolean => {
@@ -81,6 +67,15 @@ export const register = async (req: Request, res: Response, next: NextFunction):
       return;
     }
 
+    // Administrator accounts cannot be created through public registration
+    if (userType !== 'customer' && userType !== 'provider') {
+      res.status(400).json({
+        success: false,
+        message: 'User type must be customer or provider'
+      });
+      return;
+    }
+
     // Add password strength validation
     if (!isPasswordStrong(password)) {
       res.status(400).json({
@@ -129,17 +124,7 @@ export const register = async (req: Request, res: Response, next: NextFunction):
       });
 
       // Generate tokens
-      const accessToken = generateAccessToken(user.id);
-      const refreshToken = generateRefreshToken(user.id);
-      
-      // Store refresh token
-      await prisma.refreshToken.create({
-        data: {
-          token: refreshToken,
-          userId: user.id,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
-        }
-      });
+      const { accessToken, refreshToken } = await createSession(user.id, getSessionMetadata(req));
 
       res.status(201).json({
         success: true,
@@ -184,31 +169,25 @@ export const register = async (req: Request, res: Response, next: NextFunction):
       });
 
       // Generate tokens
-      const accessToken = generateAccessToken(user.id);
-      const refreshToken = generateRefreshToken(user.id);
-
-      // Store refresh token
-      await tx.refreshToken.create({
-        data: {
-          token: refreshToken,
-          userId: user.id,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
-        }
-      });
+      const { accessToken, refreshToken } = await createSession(user.id, getSessionMetadata(req), tx);
 
       return { user, accessToken, refreshToken };
     });
 
+    // Delivery failures are logged; the user can request a new link later
+    await sendVerificationEmail(result.user);
+
     res.status(201).json({
       success: true,
-      message: 'User registered successfully',
+      message: 'User registered successfully. Please check your email to verify your address',
       data: {
         user: {
           id: result.user.id,
           email: result.user.email,
           firstName: result.user.firstName,
           lastName: result.user.lastName,
-          userType: result.user.userType
+          userType: result.user.userType,
+          emailVerified: result.user.emailVerified
         },
         accessToken: result.accessToken,
         refreshToken: result.refreshToken
@@ -260,25 +239,31 @@ export const login = async (req: Request, res: Response, next: NextFunction): Pr
       return;
     }
 
-    // Generate tokens using transaction
-    const result = await prisma.$transaction(async (tx) => {
-      const accessToken = generateAccessToken(user.id);
-      const refreshToken = generateRefreshToken(user.id);
+    if (!user.isActive) {
+      res.status(403).json({
+        success: false,
+        message: 'Account is deactivated'
+      });
+      return;
+    }
 
-      // Store refresh token
-      await tx.refreshToken.create({
+    // Tokens are only issued once the second factor has been checked at /2fa/verify
+    if (user.twoFactorEnabled) {
+      res.json({
+        success: true,
         data: {
-          token: refreshToken,
-          userId: user.id,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
+          twoFactorRequired: true,
+          challengeToken: createTwoFactorChallenge(user.id),
+          expiresIn: authConfig.twoFactor.challengeExpiresIn
         }
       });
+      return;
+    }
 
-      return { accessToken, refreshToken };
-    });
+    const result = await createSession(user.id, getSessionMetadata(req));
 
     // Remove password from user object
-    const { passwordHash: _, ...userWithoutPassword } = user;
+    const { passwordHash: _, twoFactorSecret: _secret, twoFactorLastUsedStep: _step, ...userWithoutPassword } = user;
 
     res.json({
       success: true,
@@ -294,6 +279,10 @@ export const login = async (req: Request, res: Response, next: NextFunction): Pr
   }
 };
 
+/**
+ * Exchange a refresh token for a new token pair
+ * Refresh tokens are single use; replaying an old one revokes the whole session
+ */
 export const refreshToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { refreshToken: token } = req.body;
@@ -306,65 +295,333 @@ export const refreshToken = async (req: Request, res: Response, next: NextFuncti
       return;
     }
 
-    try {
-      // Verify refresh token
-      const decoded = jwt.verify(token, REFRESH_TOKEN_SECRET) as { userId: number };
+    const rotation = await rotateRefreshToken(token, getSessionMetadata(req));
 
-      // Get user
-      const user = await prisma.user.findUnique({
-        where: { id: decoded.userId },
-        include: {
-          providerProfile: true
-        }
+    if (rotation.status === 'reused') {
+      res.status(401).json({
+        success: false,
+        message: 'Refresh token has already been used. Please log in again'
+      });
+      return;
+    }
+
+    if (rotation.status === 'invalid') {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid refresh token'
+      });
+      return;
+    }
+
+    if (rotation.status === 'deactivated') {
+      res.status(403).json({
+        success: false,
+        message: 'Account is deactivated'
+      });
+      return;
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { id: rotation.userId },
+      include: {
+        providerProfile: true
+      }
+    });
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found'
       });
+      return;
+    }
+
+    const { passwordHash: _, twoFactorSecret: _secret, twoFactorLastUsedStep: _step, ...userWithoutPassword } = user;
 
-      if (!user) {
-        res.status(404).json({
-          success: false,
-          message: 'User not found'
-        });
-        return;
+    res.json({
+      success: true,
+      data: {
+        accessToken: rotation.accessToken,
+        refreshToken: rotation.refreshToken,
+        user: userWithoutPassword
       }
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    next(error);
+  }
+};
 
-      // Generate new tokens
-      const newAccessToken = generateAccessToken(user.id);
-      const newRefreshToken = generateRefreshToken(user.id);
+/**
+ * Sign out of the current session
+ * Takes the refresh token so it also works after the access token has expired
+ */
+export const logout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { refreshToken: token } = req.body;
 
-      // Store the new refresh token and invalidate the old one
-      await prisma.$transaction(async (tx) => {
-        // Invalidate old token
-        await tx.refreshToken.deleteMany({
-          where: { token }
-        });
+    if (!token) {
+      res.status(400).json({
+        success: false,
+        message: 'Refresh token is required'
+      });
+      return;
+    }
+
+    await revokeSessionByRefreshToken(token, 'logout');
 
-        // Create new token
-        await tx.refreshToken.create({
-          data: {
-            token: newRefreshToken,
-            userId: user.id,
-            expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
-          }
-        });
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Sign out of every session on all devices
+ */
+export const logoutAll = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const revokedSessions = await revokeAllSessions(req.user!.id, 'logout_all');
+
+    res.json({
+      success: true,
+      data: { revokedSessions },
+      message: 'Logged out of all sessions'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Confirm an email address using the token from the verification email
+ */
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { token } = req.body;
+
+    const payload = token ? verifyEmailVerificationToken(token) : null;
+    if (!payload) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid or expired verification link'
       });
+      return;
+    }
 
-      const { passwordHash: _, ...userWithoutPassword } = user;
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId }
+    });
 
-      res.json({
-        success: true,
+    // Links issued for a previous email address are no longer valid
+    if (!user || user.email !== payload.email) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid or expired verification link'
+      });
+      return;
+    }
+
+    if (!user.emailVerified) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerified: true }
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Send a new verification email
+ * Always responds the same way so it cannot be used to discover registered addresses
+ */
+export const resendVerification = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      res.status(400).json({
+        success: false,
+        message: 'Email is required'
+      });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email }
+    });
+
+    if (user && user.isActive && !user.emailVerified) {
+      await sendVerificationEmail(user);
+    }
+
+    res.json({
+      success: true,
+      message: 'If an unverified account exists for this email, a new verification link has been sent'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Email a password reset link
+ * Always responds the same way so it cannot be used to discover registered addresses
+ */
+export const forgotPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      res.status(400).json({
+        success: false,
+        message: 'Email is required'
+      });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email }
+    });
+
+    if (user && user.isActive) {
+      await sendPasswordResetEmail(user);
+    }
+
+    res.json({
+      success: true,
+      message: 'If an account exists for this email, a password reset link has been sent'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Set a new password using the token from the reset email
+ * Signs the user out everywhere by revoking all sessions
+ */
+export const resetPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      res.status(400).json({
+        success: false,
+        message: 'Token and new password are required'
+      });
+      return;
+    }
+
+    const passwordValidation = validatePasswordComplexity(password);
+    if (!passwordValidation.isValid) {
+      res.status(400).json({
+        success: false,
+        message: 'Password does not meet complexity requirements',
+        errors: passwordValidation.errors
+      });
+      return;
+    }
+
+    const passwordHash = await bcrypt.hash(password, 10);
+
+    await prisma.$transaction(async (tx) => {
+      const userId = await consumePasswordResetToken(token, tx);
+
+      await tx.user.update({
+        where: { id: userId },
         data: {
-          accessToken: newAccessToken,
-          refreshToken: newRefreshToken,
-          user: userWithoutPassword
+          passwordHash,
+          lastPasswordChange: new Date()
+        }
+      });
+
+      await revokeAllSessions(userId, 'password_reset', tx);
+    });
+
+    res.json({
+      success: true,
+      message: 'Password has been reset. Please log in with your new password'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Second step of a two-factor login
+ * Exchanges the login challenge and an authenticator or recovery code for tokens
+ */
+export const verifyTwoFactorLogin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      res.status(400).json({
+        success: false,
+        message: 'Challenge token and a verification or recovery code are required'
+      });
+      return;
+    }
+
+    const userId = verifyTwoFactorChallenge(challengeToken);
+    const user = userId
+      ? await prisma.user.findUnique({
+        where: { id: userId },
+        include: {
+          providerProfile: true
         }
+      })
+      : null;
+
+    if (!user || !user.twoFactorEnabled) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid or expired login challenge'
       });
-    } catch (error) {
+      return;
+    }
+
+    if (!user.isActive) {
+      res.status(403).json({
+        success: false,
+        message: 'Account is deactivated'
+      });
+      return;
+    }
+
+    if (!await verifySecondFactor(user, { code, recoveryCode })) {
       res.status(401).json({
         success: false,
-        message: 'Invalid refresh token'
+        message: 'Invalid verification code'
       });
+      return;
     }
+
+    const result = await createSession(user.id, getSessionMetadata(req));
+
+    const { passwordHash: _, twoFactorSecret: _secret, twoFactorLastUsedStep: _step, ...userWithoutPassword } = user;
+
+    res.json({
+      success: true,
+      data: {
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
+        user: userWithoutPassword
+      }
+    });
   } catch (error) {
-    console.error('Refresh token error:', error);
     next(error);
   }
-};
\ No newline at end of file
+};
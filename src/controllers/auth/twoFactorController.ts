@@ -0,0 +1,225 @@
+// src/controllers/auth/twoFactorController.ts
+import { Request, Response, NextFunction } from 'express';
+import bcrypt from 'bcrypt';
+import prisma from '../../config/prisma';
+import { authConfig } from '../../config/auth.config';
+import { buildOtpauthUri, generateTotpSecret } from '../../utils/totp';
+import {
+  encryptTwoFactorSecret,
+  generateRecoveryCodes,
+  verifySecondFactor
+} from '../../services/twoFactorService';
+
+/**
+ * Start two-factor enrolment
+ * Returns the secret and otpauth URI for the authenticator app; 2FA is only enabled once a code is confirmed
+ */
+export const setupTwoFactor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    if (user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled'
+      });
+      return;
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorSecret: encryptTwoFactorSecret(secret),
+        twoFactorLastUsedStep: null
+      }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, authConfig.twoFactor.issuer)
+      },
+      message: 'Scan the code with your authenticator app and confirm it with a generated code'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Confirm enrolment with a code from the authenticator app
+ * Enables 2FA and returns the recovery codes, which are only shown this once
+ */
+export const confirmTwoFactor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { code } = req.body;
+
+    if (user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled'
+      });
+      return;
+    }
+
+    if (!user.twoFactorSecret) {
+      res.status(400).json({
+        success: false,
+        message: 'Start two-factor setup first'
+      });
+      return;
+    }
+
+    if (!code) {
+      res.status(400).json({
+        success: false,
+        message: 'Verification code is required'
+      });
+      return;
+    }
+
+    const recoveryCodes = await prisma.$transaction(async (tx) => {
+      if (!await verifySecondFactor(user, { code }, tx)) {
+        return null;
+      }
+
+      await tx.user.update({
+        where: { id: user.id },
+        data: { twoFactorEnabled: true }
+      });
+
+      return generateRecoveryCodes(user.id, tx);
+    });
+
+    if (!recoveryCodes) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid verification code'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Turn off two-factor authentication
+ * Requires the password and a current code (or a recovery code)
+ */
+export const disableTwoFactor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { password, code, recoveryCode } = req.body;
+
+    if (!user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled'
+      });
+      return;
+    }
+
+    if (!password || !await bcrypt.compare(password, user.passwordHash)) {
+      res.status(400).json({
+        success: false,
+        message: 'Password is incorrect'
+      });
+      return;
+    }
+
+    const disabled = await prisma.$transaction(async (tx) => {
+      if (!await verifySecondFactor(user, { code, recoveryCode }, tx)) {
+        return false;
+      }
+
+      await tx.user.update({
+        where: { id: user.id },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorLastUsedStep: null
+        }
+      });
+
+      await tx.twoFactorRecoveryCode.deleteMany({
+        where: { userId: user.id }
+      });
+
+      return true;
+    });
+
+    if (!disabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid verification code'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replace all recovery codes, e.g. after most of them have been used
+ */
+export const regenerateRecoveryCodes = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { code } = req.body;
+
+    if (!user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled'
+      });
+      return;
+    }
+
+    const recoveryCodes = await prisma.$transaction(async (tx) => {
+      if (!code || !await verifySecondFactor(user, { code }, tx)) {
+        return null;
+      }
+
+      return generateRecoveryCodes(user.id, tx);
+    });
+
+    if (!recoveryCodes) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid verification code'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes
+};
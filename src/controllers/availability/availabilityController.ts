@@ -0,0 +1,379 @@
+// src/controllers/availability/availabilityController.ts
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../../config/prisma';
+import { availabilityConfig } from '../../config/availability.config';
+import { getAvailableSlots } from '../../services/availabilityService';
+import { parseTimeOfDay } from '../../utils/dateTime';
+
+interface WeeklyHoursInput {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validates a list of weekly working hours
+ * Returns an error message, or null when the list is valid
+ */
+const validateWeeklyHours = (weeklyHours: WeeklyHoursInput[]): string | null => {
+  for (const hours of weeklyHours) {
+    if (typeof hours !== 'object' || hours === null) {
+      return 'Each entry must have a day of week, start time and end time';
+    }
+
+    const dayOfWeek = Number(hours.dayOfWeek);
+    if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+      return 'Day of week must be between 0 (Sunday) and 6 (Saturday)';
+    }
+
+    const start = parseTimeOfDay(hours.startTime);
+    const end = parseTimeOfDay(hours.endTime);
+    if (start === null || end === null) {
+      return 'Times must be in HH:mm format';
+    }
+
+    if (start >= end) {
+      return 'Start time must be before end time';
+    }
+  }
+
+  // Intervals on the same day must not overlap
+  for (let day = 0; day <= 6; day++) {
+    const dayHours = weeklyHours
+      .filter(hours => Number(hours.dayOfWeek) === day)
+      .map(hours => [parseTimeOfDay(hours.startTime)!, parseTimeOfDay(hours.endTime)!])
+      .sort((a, b) => a[0] - b[0]);
+
+    for (let i = 1; i < dayHours.length; i++) {
+      if (dayHours[i][0] < dayHours[i - 1][1]) {
+        return 'Working hours on the same day cannot overlap';
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Get the free time slots of a service
+ * Supports optional from/to range (defaults to the next 7 days)
+ */
+export const getServiceAvailability = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const serviceId = Number(req.params.id);
+    const { from, to, durationHours } = req.query;
+
+    if (!Number.isSafeInteger(serviceId) || serviceId <= 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid service ID'
+      });
+      return;
+    }
+
+    const fromDate = from ? new Date(from as string) : new Date();
+    const toDate = to
+      ? new Date(to as string)
+      : new Date(fromDate.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate >= toDate) {
+      res.status(400).json({
+        success: false,
+        message: 'A valid date range is required'
+      });
+      return;
+    }
+
+    const rangeDays = (toDate.getTime() - fromDate.getTime()) / (24 * 60 * 60 * 1000);
+    if (rangeDays > availabilityConfig.maxRangeDays) {
+      res.status(400).json({
+        success: false,
+        message: `Date range cannot exceed ${availabilityConfig.maxRangeDays} days`
+      });
+      return;
+    }
+
+    const parsedDuration = durationHours ? parseFloat(durationHours as string) : null;
+    if (parsedDuration !== null && (isNaN(parsedDuration) || parsedDuration <= 0)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid duration'
+      });
+      return;
+    }
+
+    const availability = await getAvailableSlots(serviceId, fromDate, toDate, parsedDuration);
+
+    res.json({
+      success: true,
+      data: availability
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the current provider's weekly hours and upcoming exceptions
+ */
+export const getMyAvailability = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    const provider = await prisma.providerProfile.findUnique({
+      where: { userId },
+      include: {
+        availability: {
+          orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+        },
+        availabilityExceptions: {
+          where: {
+            date: { gte: new Date(new Date().toISOString().slice(0, 10)) }
+          },
+          orderBy: { date: 'asc' }
+        }
+      }
+    });
+
+    if (!provider) {
+      res.status(403).json({ success: false, message: 'Only providers can manage availability' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        weeklyHours: provider.availability,
+        exceptions: provider.availabilityExceptions
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replace the current provider's weekly working hours
+ */
+export const updateWeeklyAvailability = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { weeklyHours } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    if (!Array.isArray(weeklyHours)) {
+      res.status(400).json({
+        success: false,
+        message: 'Weekly hours must be an array'
+      });
+      return;
+    }
+
+    const validationError = validateWeeklyHours(weeklyHours);
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        message: validationError
+      });
+      return;
+    }
+
+    const provider = await prisma.providerProfile.findUnique({
+      where: { userId }
+    });
+
+    if (!provider) {
+      res.status(403).json({ success: false, message: 'Only providers can manage availability' });
+      return;
+    }
+
+    const availability = await prisma.$transaction(async (tx) => {
+      await tx.providerAvailability.deleteMany({
+        where: { providerId: provider.id }
+      });
+
+      await tx.providerAvailability.createMany({
+        data: weeklyHours.map((hours: WeeklyHoursInput) => ({
+          providerId: provider.id,
+          dayOfWeek: Number(hours.dayOfWeek),
+          startTime: hours.startTime,
+          endTime: hours.endTime
+        }))
+      });
+
+      return tx.providerAvailability.findMany({
+        where: { providerId: provider.id },
+        orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+      });
+    });
+
+    res.json({
+      success: true,
+      data: availability,
+      message: 'Working hours updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create or replace an exception (day off or custom hours) for a date
+ */
+export const createAvailabilityException = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { date, isAvailable = false, startTime, endTime, reason } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    if (!date || !DATE_ONLY_REGEX.test(date) || isNaN(new Date(date).getTime())) {
+      res.status(400).json({
+        success: false,
+        message: 'Date is required in YYYY-MM-DD format'
+      });
+      return;
+    }
+
+    if (isAvailable) {
+      const start = parseTimeOfDay(startTime || '');
+      const end = parseTimeOfDay(endTime || '');
+      if (start === null || end === null || start >= end) {
+        res.status(400).json({
+          success: false,
+          message: 'Valid start and end times are required for custom hours'
+        });
+        return;
+      }
+    }
+
+    const provider = await prisma.providerProfile.findUnique({
+      where: { userId }
+    });
+
+    if (!provider) {
+      res.status(403).json({ success: false, message: 'Only providers can manage availability' });
+      return;
+    }
+
+    const exceptionData = {
+      isAvailable: Boolean(isAvailable),
+      startTime: isAvailable ? startTime : null,
+      endTime: isAvailable ? endTime : null,
+      reason: reason || null
+    };
+
+    const exception = await prisma.availabilityException.upsert({
+      where: {
+        providerId_date: {
+          providerId: provider.id,
+          date: new Date(date)
+        }
+      },
+      update: exceptionData,
+      create: {
+        providerId: provider.id,
+        date: new Date(date),
+        ...exceptionData
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: exception
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete one of the current provider's exceptions
+ */
+export const deleteAvailabilityException = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const exceptionId = Number(req.params.id);
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    if (!Number.isSafeInteger(exceptionId) || exceptionId <= 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid exception ID'
+      });
+      return;
+    }
+
+    const exception = await prisma.availabilityException.findUnique({
+      where: { id: exceptionId },
+      include: { provider: true }
+    });
+
+    if (!exception) {
+      res.status(404).json({ success: false, message: 'Exception not found' });
+      return;
+    }
+
+    if (exception.provider.userId !== userId) {
+      res.status(403).json({ success: false, message: 'Not authorized to delete this exception' });
+      return;
+    }
+
+    await prisma.availabilityException.delete({
+      where: { id: exceptionId }
+    });
+
+    res.json({
+      success: true,
+      message: 'Exception deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getServiceAvailability,
+  getMyAvailability,
+  updateWeeklyAvailability,
+  createAvailabilityException,
+  deleteAvailabilityException
+};
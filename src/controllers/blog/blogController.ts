@@ -0,0 +1,594 @@
+// src/controllers/blog/blogController.ts
+import { Request, Response, NextFunction } from 'express';
+import { BlogPost, BlogStatus, Prisma } from '@prisma/client';
+import prisma from '../../config/prisma';
+import { blogConfig } from '../../config/blog.config';
+import { validateBlogPost } from '../../utils/validation';
+import { parsePagination } from '../../utils/pagination';
+import { recordAdminAction } from '../../services/auditService';
+import {
+  buildExcerpt,
+  getRelatedServices,
+  publishedPostsWhere,
+  savePostRelations,
+  saveWithUniqueSlug,
+  slugify,
+  uniquePostSlug
+} from '../../services/blogService';
+
+const postInclude = {
+  author: {
+    select: { id: true, firstName: true, lastName: true }
+  },
+  category: true,
+  tags: { include: { tag: true } },
+  serviceCategories: {
+    include: { category: { select: { id: true, name: true } } }
+  }
+} satisfies Prisma.BlogPostInclude;
+
+type PostWithRelations = Prisma.BlogPostGetPayload<{ include: typeof postInclude }>;
+
+// Flattens the join tables into plain tag and category lists
+const formatPost = (post: PostWithRelations) => ({
+  ...post,
+  tags: post.tags.map(({ tag }) => tag),
+  serviceCategories: post.serviceCategories.map(({ category }) => category)
+});
+
+// Authors manage their own posts, admins manage every post
+const canManagePost = (user: Express.Request['user'], post: Pick<BlogPost, 'authorId'>): boolean =>
+  user!.userType === 'admin' || post.authorId === user!.id;
+
+/**
+ * List published posts, newest first
+ * Supports category and tag (slugs) and serviceCategoryId filters
+ */
+export const listPublishedPosts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { category, tag, serviceCategoryId } = req.query;
+    const { page, limit, skip } = parsePagination(req.query, blogConfig.pagination);
+
+    const where: Prisma.BlogPostWhereInput = publishedPostsWhere();
+
+    if (category) {
+      where.category = { slug: category as string };
+    }
+
+    if (tag) {
+      where.tags = { some: { tag: { slug: tag as string } } };
+    }
+
+    if (serviceCategoryId) {
+      const categoryId = parseInt(serviceCategoryId as string);
+      if (isNaN(categoryId)) {
+        res.status(400).json({ success: false, message: 'Invalid service category ID' });
+        return;
+      }
+      where.serviceCategories = { some: { categoryId } };
+    }
+
+    const [posts, totalCount] = await Promise.all([
+      prisma.blogPost.findMany({
+        where,
+        include: postInclude,
+        orderBy: [{ publishedAt: 'desc' }, { id: 'desc' }],
+        skip,
+        take: limit
+      }),
+      prisma.blogPost.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      // Listings carry an excerpt instead of the full article
+      data: posts.map(post => {
+        const { content, ...summary } = formatPost(post);
+        return { ...summary, excerpt: buildExcerpt(post.excerpt, content) };
+      }),
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        pages: Math.ceil(totalCount / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a published post by its slug, with services from its linked service categories
+ */
+export const getPublishedPost = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const post = await prisma.blogPost.findFirst({
+      where: { ...publishedPostsWhere(), slug: req.params.slug },
+      include: postInclude
+    });
+
+    if (!post) {
+      res.status(404).json({ success: false, message: 'Post not found' });
+      return;
+    }
+
+    const relatedServices = await getRelatedServices(post.serviceCategories.map(link => link.categoryId));
+
+    res.json({
+      success: true,
+      data: {
+        ...formatPost(post),
+        excerpt: buildExcerpt(post.excerpt, post.content),
+        relatedServices
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List posts in any status for editing
+ * Authors see their own posts, admins see all posts
+ */
+export const listManagedPosts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { status } = req.query;
+    const { page, limit, skip } = parsePagination(req.query, blogConfig.pagination);
+
+    const where: Prisma.BlogPostWhereInput = {};
+
+    if (req.user!.userType !== 'admin') {
+      where.authorId = req.user!.id;
+    }
+
+    if (status) {
+      if (!Object.values(BlogStatus).includes(status as BlogStatus)) {
+        res.status(400).json({ success: false, message: 'Invalid status' });
+        return;
+      }
+      where.status = status as BlogStatus;
+    }
+
+    const [posts, totalCount] = await Promise.all([
+      prisma.blogPost.findMany({
+        where,
+        include: postInclude,
+        orderBy: { updatedAt: 'desc' },
+        skip,
+        take: limit
+      }),
+      prisma.blogPost.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: posts.map(formatPost),
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        pages: Math.ceil(totalCount / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get any post for editing or previewing
+ */
+export const getManagedPost = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const post = await prisma.blogPost.findUnique({
+      where: { id: parseInt(req.params.id) },
+      include: postInclude
+    });
+
+    if (!post || !canManagePost(req.user, post)) {
+      res.status(404).json({ success: false, message: 'Post not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: formatPost(post)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a draft post (providers and admins)
+ * The slug is generated from the title unless one is given
+ */
+export const createPost = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { error, value } = validateBlogPost(req.body);
+    if (error) {
+      res.status(400).json({ success: false, message: error.message });
+      return;
+    }
+
+    if (value.categoryId && !await prisma.blogCategory.findUnique({ where: { id: value.categoryId } })) {
+      res.status(400).json({ success: false, message: 'Blog category not found' });
+      return;
+    }
+
+    const post = await saveWithUniqueSlug(() => prisma.$transaction(async (tx) => {
+      const created = await tx.blogPost.create({
+        data: {
+          title: value.title,
+          slug: await uniquePostSlug(value.slug || slugify(value.title), null, tx),
+          excerpt: value.excerpt || null,
+          content: value.content,
+          categoryId: value.categoryId ?? null,
+          authorId: req.user!.id,
+          status: BlogStatus.draft
+        }
+      });
+
+      await savePostRelations(tx, created.id, {
+        tags: value.tags,
+        serviceCategoryIds: value.serviceCategoryIds
+      });
+
+      return tx.blogPost.findUniqueOrThrow({
+        where: { id: created.id },
+        include: postInclude
+      });
+    }));
+
+    res.status(201).json({
+      success: true,
+      data: formatPost(post)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a post
+ * Authors can only edit their drafts; once published a post is edited by admins
+ */
+export const updatePost = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const postId = parseInt(req.params.id);
+    const existing = await prisma.blogPost.findUnique({ where: { id: postId } });
+
+    if (!existing || !canManagePost(req.user, existing)) {
+      res.status(404).json({ success: false, message: 'Post not found' });
+      return;
+    }
+
+    if (req.user!.userType !== 'admin' && existing.status !== BlogStatus.draft) {
+      res.status(403).json({ success: false, message: 'Only drafts can be edited by their author' });
+      return;
+    }
+
+    const { error, value } = validateBlogPost(req.body, true);
+    if (error) {
+      res.status(400).json({ success: false, message: error.message });
+      return;
+    }
+
+    if (value.categoryId && !await prisma.blogCategory.findUnique({ where: { id: value.categoryId } })) {
+      res.status(400).json({ success: false, message: 'Blog category not found' });
+      return;
+    }
+
+    const post = await saveWithUniqueSlug(() => prisma.$transaction(async (tx) => {
+      await tx.blogPost.update({
+        where: { id: postId },
+        data: {
+          title: value.title,
+          slug: value.slug && value.slug !== existing.slug
+            ? await uniquePostSlug(value.slug, postId, tx)
+            : undefined,
+          excerpt: value.excerpt !== undefined ? value.excerpt || null : undefined,
+          content: value.content,
+          categoryId: value.categoryId
+        }
+      });
+
+      await savePostRelations(tx, postId, {
+        tags: value.tags,
+        serviceCategoryIds: value.serviceCategoryIds
+      });
+
+      return tx.blogPost.findUniqueOrThrow({
+        where: { id: postId },
+        include: postInclude
+      });
+    }));
+
+    res.json({
+      success: true,
+      data: formatPost(post)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a post
+ * Authors can delete their drafts, admins any post
+ */
+export const deletePost = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const postId = parseInt(req.params.id);
+    const post = await prisma.blogPost.findUnique({ where: { id: postId } });
+
+    if (!post || !canManagePost(req.user, post)) {
+      res.status(404).json({ success: false, message: 'Post not found' });
+      return;
+    }
+
+    if (req.user!.userType !== 'admin' && post.status !== BlogStatus.draft) {
+      res.status(403).json({ success: false, message: 'Only drafts can be deleted by their author' });
+      return;
+    }
+
+    await prisma.blogPost.delete({ where: { id: postId } });
+
+    if (req.user!.userType === 'admin') {
+      await recordAdminAction(req.user!.id, {
+        action: 'blog_post.delete',
+        targetType: 'blog_post',
+        targetId: postId,
+        details: { title: post.title, authorId: post.authorId }
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Post deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Move a post to another status (admin only)
+ * Publishing sets publishedAt the first time; a future publishedAt schedules the post
+ */
+const changePostStatus = (status: BlogStatus, action: string) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const postId = parseInt(req.params.id);
+    const existing = await prisma.blogPost.findUnique({ where: { id: postId } });
+
+    if (!existing) {
+      res.status(404).json({ success: false, message: 'Post not found' });
+      return;
+    }
+
+    let publishedAt = existing.publishedAt;
+    if (status === BlogStatus.published) {
+      const requested = req.body.publishedAt ? new Date(req.body.publishedAt) : null;
+      if (requested && isNaN(requested.getTime())) {
+        res.status(400).json({ success: false, message: 'Invalid publication date' });
+        return;
+      }
+      publishedAt = requested ?? existing.publishedAt ?? new Date();
+    }
+
+    const post = await prisma.$transaction(async (tx) => {
+      const updated = await tx.blogPost.update({
+        where: { id: postId },
+        data: { status, publishedAt },
+        include: postInclude
+      });
+
+      await recordAdminAction(req.user!.id, {
+        action: `blog_post.${action}`,
+        targetType: 'blog_post',
+        targetId: postId,
+        details: { previousStatus: existing.status, status, publishedAt }
+      }, tx);
+
+      return updated;
+    });
+
+    res.json({
+      success: true,
+      data: formatPost(post)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const publishPost = changePostStatus(BlogStatus.published, 'publish');
+export const archivePost = changePostStatus(BlogStatus.archived, 'archive');
+// Takes a post offline again for editing by its author
+export const unpublishPost = changePostStatus(BlogStatus.draft, 'unpublish');
+
+/**
+ * List blog categories with their number of published posts
+ */
+export const listBlogCategories = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const categories = await prisma.blogCategory.findMany({
+      orderBy: { name: 'asc' },
+      include: {
+        _count: { select: { posts: { where: publishedPostsWhere() } } }
+      }
+    });
+
+    res.json({
+      success: true,
+      data: categories.map(({ _count, ...category }) => ({ ...category, postCount: _count.posts }))
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List tags used by published posts
+ */
+export const listBlogTags = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const tags = await prisma.blogTag.findMany({
+      where: { posts: { some: { post: publishedPostsWhere() } } },
+      orderBy: { name: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: tags
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a blog category (admin only)
+ */
+export const createBlogCategory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    const slug = slugify(req.body.slug || name);
+
+    if (!name || !slug) {
+      res.status(400).json({ success: false, message: 'Category name is required' });
+      return;
+    }
+
+    const existing = await prisma.blogCategory.findFirst({
+      where: { OR: [{ name }, { slug }] }
+    });
+
+    if (existing) {
+      res.status(400).json({ success: false, message: 'Blog category with this name already exists' });
+      return;
+    }
+
+    const category = await prisma.$transaction(async (tx) => {
+      const created = await tx.blogCategory.create({
+        data: { name, slug, description: req.body.description || null }
+      });
+
+      await recordAdminAction(req.user!.id, {
+        action: 'blog_category.create',
+        targetType: 'blog_category',
+        targetId: created.id,
+        details: { name }
+      }, tx);
+
+      return created;
+    });
+
+    res.status(201).json({
+      success: true,
+      data: category
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a blog category (admin only); its posts become uncategorized
+ */
+export const deleteBlogCategory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const categoryId = parseInt(req.params.id);
+    const category = await prisma.blogCategory.findUnique({ where: { id: categoryId } });
+
+    if (!category) {
+      res.status(404).json({ success: false, message: 'Blog category not found' });
+      return;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.blogCategory.delete({ where: { id: categoryId } });
+
+      await recordAdminAction(req.user!.id, {
+        action: 'blog_category.delete',
+        targetType: 'blog_category',
+        targetId: categoryId,
+        details: { name: category.name }
+      }, tx);
+    });
+
+    res.json({
+      success: true,
+      message: 'Blog category deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  listPublishedPosts,
+  getPublishedPost,
+  listManagedPosts,
+  getManagedPost,
+  createPost,
+  updatePost,
+  deletePost,
+  publishPost,
+  archivePost,
+  unpublishPost,
+  listBlogCategories,
+  listBlogTags,
+  createBlogCategory,
+  deleteBlogCategory
+};
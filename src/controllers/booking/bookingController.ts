@@ -2,6 +2,81 @@
 import { Request, Response, NextFunction } from 'express';
 import prisma from '../../config/prisma';
 import { BookingStatus, BookingType, DisputeStatus } from '@prisma/client';
+import { calculateBookingQuote } from '../../services/pricingService';
+import { ensureSlotAvailable, getBookingEndDate } from '../../services/availabilityService';
+import { notifyBookingParty } from '../../services/notification/notificationService';
+import { recordAdminAction } from '../../services/auditService';
+import { recordCancellationPenalty } from '../../services/cancellationService';
+import { refreshProviderReliability } from '../../services/reliabilityService';
+import { getTravelFee } from '../../services/coverageService';
+import { selectBookingOptions } from '../../services/packageService';
+import { userSecretsOmit } from '../../services/userService';
+
+// Status changes that count towards the provider's reliability score
+const affectsReliability = (status: BookingStatus): boolean =>
+  status === BookingStatus.completed ||
+  status === BookingStatus.cancelled ||
+  status === BookingStatus.no_show_provider;
+
+// The city the provider travels to: from the request, else the customer's profile city
+const getBookingCityId = (req: Request): number | null => {
+  const cityId = req.body.cityId !== undefined ? parseInt(req.body.cityId) : req.user?.cityId;
+  return cityId && cityId > 0 ? cityId : null;
+};
+
+/**
+ * Get an itemised price quote for a prospective booking
+ * Uses the same pricing engine as createBooking so the quote matches the final price
+ */
+export const getBookingQuote = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { serviceId, bookingDate, durationHours, packageId, addOnIds } = req.body;
+
+    if (!serviceId || !bookingDate) {
+      res.status(400).json({
+        success: false,
+        message: 'Service ID and booking date are required'
+      });
+      return;
+    }
+
+    const service = await prisma.service.findUnique({
+      where: { id: parseInt(serviceId) },
+      include: {
+        packages: true,
+        addOns: true
+      }
+    });
+
+    if (!service || !service.isActive) {
+      res.status(404).json({
+        success: false,
+        message: 'Service not found'
+      });
+      return;
+    }
+
+    const options = selectBookingOptions(service, packageId, addOnIds);
+    const quote = calculateBookingQuote(service, {
+      bookingDate: new Date(bookingDate),
+      durationHours,
+      package: options.package,
+      addOns: options.addOns,
+      travelFee: await getTravelFee(service.id, getBookingCityId(req))
+    });
+
+    res.json({
+      success: true,
+      data: quote
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
 /**
  * Create a booking for a service
@@ -13,7 +88,7 @@ export const createBooking = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { serviceId, bookingDate, totalPrice } = req.body;
+    const { serviceId, bookingDate, durationHours, packageId, addOnIds } = req.body;
     const customerId = req.user?.id;
 
     if (!customerId) {
@@ -37,11 +112,13 @@ export const createBooking = async (
     const service = await prisma.service.findUnique({
       where: { id: parseInt(serviceId) },
       include: {
-        provider: true
+        provider: true,
+        packages: true,
+        addOns: true
       }
     });
 
-    if (!service) {
+    if (!service || !service.isActive) {
       res.status(404).json({
         success: false,
         message: 'Service not found'
@@ -58,56 +135,88 @@ export const createBooking = async (
       return;
     }
 
-    // Validate booking date is in the future
+    // Price the booking server-side (also validates the date and duration)
     const bookingDateObj = new Date(bookingDate);
-    if (bookingDateObj <= new Date()) {
-      res.status(400).json({
-        success: false,
-        message: 'Booking date must be in the future'
-      });
-      return;
-    }
+    const options = selectBookingOptions(service, packageId, addOnIds);
+    const quote = calculateBookingQuote(service, {
+      bookingDate: bookingDateObj,
+      durationHours,
+      package: options.package,
+      addOns: options.addOns,
+      travelFee: await getTravelFee(service.id, getBookingCityId(req))
+    });
 
     // Set initial status based on booking type
     const initialStatus = service.bookingType === BookingType.DIRECT 
       ? BookingStatus.confirmed 
       : BookingStatus.pending;
 
-    // Calculate total price if not provided
-    const calculatedTotalPrice = totalPrice || service.price;
+    const endDate = getBookingEndDate(bookingDateObj, service.slotDurationMinutes, quote.durationHours);
 
-    // Create the booking
-    const booking = await prisma.booking.create({
-      data: {
-        serviceId: parseInt(serviceId),
-        customerId,
-        bookingDate: bookingDateObj,
-        status: initialStatus,
-        totalPrice: calculatedTotalPrice,
-        // Add initial status history for audit trail
-        statusHistory: {
-          create: {
-            previousStatus: BookingStatus.pending,
-            newStatus: initialStatus,
-            changedBy: customerId,
-            reason: 'Booking created'
-          }
-        }
-      },
-      include: {
-        service: {
-          include: {
-            provider: {
-              include: {
-                user: true
-              }
+    // Check the slot and create the booking atomically so two customers
+    // cannot book the same provider for overlapping times
+    const booking = await prisma.$transaction(async (tx) => {
+      await ensureSlotAvailable(tx, service.providerId, {
+        start: bookingDateObj,
+        end: endDate
+      });
+
+      return tx.booking.create({
+        data: {
+          serviceId: parseInt(serviceId),
+          customerId,
+          bookingDate: bookingDateObj,
+          endDate,
+          status: initialStatus,
+          totalPrice: quote.total,
+          currency: quote.currency,
+          durationHours: quote.durationHours,
+          // Snapshot the chosen options so later price changes do not alter the booking
+          packageId: options.package?.id ?? null,
+          packageName: options.package?.name ?? null,
+          packagePrice: options.package?.price ?? null,
+          addOns: {
+            create: options.addOns.map(addOn => ({
+              addOnId: addOn.id,
+              name: addOn.name,
+              price: addOn.price
+            }))
+          },
+          lineItems: {
+            create: quote.items
+          },
+          // Add initial status history for audit trail
+          statusHistory: {
+            create: {
+              previousStatus: BookingStatus.pending,
+              newStatus: initialStatus,
+              changedBy: customerId,
+              reason: 'Booking created'
             }
           }
         },
-        customer: true
-      }
+        include: {
+          service: {
+            include: {
+              provider: {
+                include: {
+                  user: { omit: userSecretsOmit }
+                }
+              }
+            }
+          },
+          customer: { omit: userSecretsOmit },
+          lineItems: true,
+          addOns: true
+        }
+      });
     });
 
+    await notifyBookingParty(booking, 'provider', 'booking_created');
+    if (initialStatus === BookingStatus.confirmed) {
+      await notifyBookingParty(booking, 'customer', 'booking_confirmed');
+    }
+
     res.status(201).json({
       success: true,
       data: booking,
@@ -151,7 +260,7 @@ export const updateBookingStatus = async (
             provider: true
           }
         },
-        customer: true
+        customer: { omit: userSecretsOmit }
       }
     });
 
@@ -166,42 +275,84 @@ export const updateBookingStatus = async (
     // Note: Status transition validation is handled by middleware
     // This just performs the update
 
-    const updatedBooking = await prisma.booking.update({
-      where: { id: parseInt(id) },
-      data: {
-        status: status as BookingStatus,
-        statusHistory: {
-          create: {
-            previousStatus: booking.status,
-            newStatus: status as BookingStatus,
-            changedBy: userId,
-            reason: statusChangeReason
-          }
+    const updatedBooking = await prisma.$transaction(async (tx) => {
+      const updated = await tx.booking.update({
+        where: { id: parseInt(id) },
+        data: {
+          status: status as BookingStatus,
+          statusHistory: {
+            create: {
+              previousStatus: booking.status,
+              newStatus: status as BookingStatus,
+              changedBy: userId,
+              reason: statusChangeReason
+            }
+          },
+          ...(status === BookingStatus.cancelled && {
+            cancelledBy: userId,
+            cancellationTime: new Date(),
+            cancellationReason: statusChangeReason
+          })
         },
-        ...(status === BookingStatus.cancelled && {
-          cancelledBy: userId,
-          cancellationTime: new Date(),
-          cancellationReason: statusChangeReason
-        })
-      },
-      include: {
-        service: {
-          include: {
-            provider: {
-              include: {
-                user: true
+        include: {
+          service: {
+            include: {
+              provider: {
+                include: {
+                  user: { omit: userSecretsOmit }
+                }
               }
             }
+          },
+          customer: { omit: userSecretsOmit },
+          statusHistory: {
+            orderBy: { changedAt: 'desc' },
+            take: 5
           }
-        },
-        customer: true,
-        statusHistory: {
-          orderBy: { changedAt: 'desc' },
-          take: 5
         }
+      });
+
+      // Late cancellation penalties are calculated by calculateCancellationPenalties
+      if (status === BookingStatus.cancelled && res.locals.cancellationPenalty) {
+        const { userId: penalisedUserId, ...penalty } = res.locals.cancellationPenalty;
+        await recordCancellationPenalty(updated, penalisedUserId, penalty, tx);
+      }
+
+      if (affectsReliability(status)) {
+        await refreshProviderReliability(updated.service.providerId, tx);
       }
+
+      return updated;
     });
 
+    // Let the other party know about the change
+    const otherParty = booking.service.provider.userId === userId ? 'customer' : 'provider';
+
+    if (status === BookingStatus.confirmed) {
+      await notifyBookingParty(updatedBooking, 'customer', 'booking_confirmed');
+    } else if (status === BookingStatus.cancelled) {
+      await notifyBookingParty(updatedBooking, otherParty, 'booking_cancelled', {
+        reason: statusChangeReason
+      });
+    } else if (status === BookingStatus.disputed) {
+      await notifyBookingParty(updatedBooking, otherParty, 'booking_disputed', {
+        reason: statusChangeReason
+      });
+    }
+
+    // Penalties are calculated by calculateCancellationPenalties
+    if (status === BookingStatus.cancelled && res.locals.sendProviderPenaltyNotification) {
+      await notifyBookingParty(updatedBooking, 'provider', 'cancellation_penalty', {
+        amount: res.locals.penaltyAmount,
+        withinHours: res.locals.cancellationPenalty?.withinHours
+      });
+    } else if (status === BookingStatus.cancelled && res.locals.sendCustomerPenaltyNotification) {
+      await notifyBookingParty(updatedBooking, 'customer', 'cancellation_penalty', {
+        amount: res.locals.penaltyAmount,
+        withinHours: res.locals.cancellationPenalty?.withinHours
+      });
+    }
+
     res.json({
       success: true,
       data: updatedBooking,
@@ -305,15 +456,19 @@ export const markBookingCompletion = async (
           include: {
             provider: {
               include: {
-                user: true
+                user: { omit: userSecretsOmit }
               }
             }
           }
         },
-        customer: true
+        customer: { omit: userSecretsOmit }
       }
     });
     
+    if (updateData.status === BookingStatus.completed) {
+      await refreshProviderReliability(booking.service.providerId);
+    }
+    
     res.json({
       success: true,
       data: updatedBooking,
@@ -390,15 +545,20 @@ export const handleDispute = async (
           include: {
             provider: {
               include: {
-                user: true
+                user: { omit: userSecretsOmit }
               }
             }
           }
         },
-        customer: true
+        customer: { omit: userSecretsOmit }
       }
     });
     
+    const otherParty = booking.service.provider.userId === userId ? 'customer' : 'provider';
+    await notifyBookingParty(updatedBooking, otherParty, 'booking_disputed', {
+      reason: disputeReason
+    });
+
     res.json({
       success: true,
       data: updatedBooking,
@@ -412,7 +572,7 @@ export const handleDispute = async (
 
 /**
  * Resolve a dispute
- * Only available to system administrators or moderators
+ * Only available to administrators (enforced by requireRole on the route)
  */
 export const resolveDispute = async (
   req: Request,
@@ -424,18 +584,6 @@ export const resolveDispute = async (
     const { resolution, resolutionNotes } = req.body;
     const userId = req.user?.id;
     
-    // TODO: Add proper role check for administrators/moderators
-    const isAdmin = req.user?.id === Number(process.env.ADMIN_USER_ID) || 
-                req.headers['x-admin-key'] === process.env.ADMIN_SECRET_KEY;
-    
-    if (!isAdmin) {
-      res.status(403).json({
-        success: false,
-        message: 'Only administrators can resolve disputes'
-      });
-      return;
-    }
-    
     // Validate resolution input
     if (!resolution || !Object.values(DisputeStatus).includes(resolution as DisputeStatus)) {
       res.status(400).json({
@@ -449,7 +597,7 @@ export const resolveDispute = async (
       where: { id: parseInt(id) },
       include: {
         service: true,
-        customer: true
+        customer: { omit: userSecretsOmit }
       }
     });
     
@@ -485,40 +633,51 @@ export const resolveDispute = async (
       newStatus = BookingStatus.disputed;
     }
     
-    // Update booking with resolution
-    const updatedBooking = await prisma.booking.update({
-      where: { id: parseInt(id) },
-      data: {
-        disputeStatus: resolution as DisputeStatus,
-        disputeResolvedAt: new Date(),
-        status: newStatus,
-        reviewEligible,
-        ...(reviewEligible && {
-          reviewEligibleUntil: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000)
-        }),
-        statusHistory: {
-          create: {
-            previousStatus: booking.status,
-            newStatus: newStatus,
-            changedBy: userId || 0,
-            reason: `Dispute resolved: ${resolutionNotes}`
-          }
-        }
-      },
-      include: {
-        service: {
-          include: {
-            provider: {
-              include: {
-                user: true
-              }
+    // Update booking with resolution and record it in the same transaction
+    const updatedBooking = await prisma.$transaction(async (tx) => {
+      const updated = await tx.booking.update({
+        where: { id: parseInt(id) },
+        data: {
+          disputeStatus: resolution as DisputeStatus,
+          disputeResolvedAt: new Date(),
+          status: newStatus,
+          reviewEligible,
+          ...(reviewEligible && {
+            reviewEligibleUntil: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000)
+          }),
+          statusHistory: {
+            create: {
+              previousStatus: booking.status,
+              newStatus: newStatus,
+              changedBy: userId || 0,
+              reason: `Dispute resolved: ${resolutionNotes}`
             }
           }
         },
-        customer: true
-      }
+        include: {
+          service: {
+            include: {
+              provider: {
+                include: {
+                  user: { omit: userSecretsOmit }
+                }
+              }
+            }
+          },
+          customer: { omit: userSecretsOmit }
+        }
+      });
+
+      await recordAdminAction(req.user!.id, {
+        action: 'booking.resolve_dispute',
+        targetType: 'booking',
+        targetId: booking.id,
+        details: { resolution, resolutionNotes: resolutionNotes || null }
+      }, tx);
+
+      return updated;
     });
-    
+
     res.json({
       success: true,
       data: updatedBooking,
@@ -685,16 +844,18 @@ export const getBookingById = async (
           include: {
             provider: {
               include: {
-                user: true
+                user: { omit: userSecretsOmit }
               }
             },
             serviceImages: true
           }
         },
-        customer: true,
+        customer: { omit: userSecretsOmit },
         statusHistory: {
           orderBy: { changedAt: 'desc' }
         },
+        lineItems: true,
+        addOns: true,
         review: true
       }
     });
@@ -730,6 +891,7 @@ export const getBookingById = async (
 };
 
 export default {
+  getBookingQuote,
   createBooking,
   updateBookingStatus,
   markBookingCompletion,
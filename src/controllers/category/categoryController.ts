@@ -1,6 +1,7 @@
 // src/controllers/category/categoryController.ts
 import { Request, Response, NextFunction } from 'express';
 import prisma from '../../config/prisma';
+import { recordAdminAction } from '../../services/auditService';
 
 // Get all categories
 export const getCategories = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -68,12 +69,23 @@ export const createCategory = async (req: Request, res: Response, next: NextFunc
       return;
     }
 
-    const category = await prisma.category.create({
-      data: {
-        name,
-        description,
-        parentId: parentId ? parseInt(parentId) : null
-      }
+    const category = await prisma.$transaction(async (tx) => {
+      const created = await tx.category.create({
+        data: {
+          name,
+          description,
+          parentId: parentId ? parseInt(parentId) : null
+        }
+      });
+
+      await recordAdminAction(req.user!.id, {
+        action: 'category.create',
+        targetType: 'category',
+        targetId: created.id,
+        details: { name }
+      }, tx);
+
+      return created;
     });
 
     res.status(201).json({
@@ -119,13 +131,24 @@ export const updateCategory = async (req: Request, res: Response, next: NextFunc
       }
     }
 
-    const category = await prisma.category.update({
-      where: { id: parseInt(id) },
-      data: {
-        name,
-        description,
-        parentId: parentId ? parseInt(parentId) : null
-      }
+    const category = await prisma.$transaction(async (tx) => {
+      const updated = await tx.category.update({
+        where: { id: parseInt(id) },
+        data: {
+          name,
+          description,
+          parentId: parentId ? parseInt(parentId) : null
+        }
+      });
+
+      await recordAdminAction(req.user!.id, {
+        action: 'category.update',
+        targetType: 'category',
+        targetId: updated.id,
+        details: { previousName: existingCategory.name, name: updated.name }
+      }, tx);
+
+      return updated;
     });
 
     res.json({
@@ -168,8 +191,17 @@ export const deleteCategory = async (req: Request, res: Response, next: NextFunc
       return;
     }
 
-    await prisma.category.delete({
-      where: { id: parseInt(id) }
+    await prisma.$transaction(async (tx) => {
+      await tx.category.delete({
+        where: { id: parseInt(id) }
+      });
+
+      await recordAdminAction(req.user!.id, {
+        action: 'category.delete',
+        targetType: 'category',
+        targetId: category.id,
+        details: { name: category.name }
+      }, tx);
     });
 
     res.json({
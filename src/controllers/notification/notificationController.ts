@@ -0,0 +1,149 @@
+// src/controllers/notification/notificationController.ts
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../../config/prisma';
+
+/**
+ * Get the current user's notifications, newest first
+ * Supports pagination and an unreadOnly filter
+ */
+export const getNotifications = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { page = '1', limit = '20', unreadOnly } = req.query;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 20, 1), 100);
+    const skip = (pageNum - 1) * limitNum;
+
+    const whereClause = {
+      userId,
+      ...(unreadOnly === 'true' && { readAt: null })
+    };
+
+    const [notifications, totalCount, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: whereClause,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limitNum
+      }),
+      prisma.notification.count({ where: whereClause }),
+      prisma.notification.count({ where: { userId, readAt: null } })
+    ]);
+
+    res.json({
+      success: true,
+      data: notifications,
+      unreadCount,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: totalCount,
+        pages: Math.ceil(totalCount / limitNum)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Mark one of the current user's notifications as read
+ */
+export const markNotificationRead = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const notificationId = parseInt(req.params.id);
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const notification = await prisma.notification.findUnique({
+      where: { id: notificationId }
+    });
+
+    // Other users' notifications are reported as missing rather than forbidden
+    if (!notification || notification.userId !== userId) {
+      res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
+      return;
+    }
+
+    const updatedNotification = notification.readAt
+      ? notification
+      : await prisma.notification.update({
+        where: { id: notificationId },
+        data: { readAt: new Date() }
+      });
+
+    res.json({
+      success: true,
+      data: updatedNotification
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Mark all of the current user's notifications as read
+ */
+export const markAllNotificationsRead = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() }
+    });
+
+    res.json({
+      success: true,
+      data: { updated: result.count },
+      message: 'All notifications marked as read'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead
+};
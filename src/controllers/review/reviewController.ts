@@ -1,6 +1,58 @@
 // src/controllers/review/reviewController.ts
 import { Request, Response, NextFunction } from 'express';
+import { Prisma, ReviewModerationStatus, ReviewReportReason } from '@prisma/client';
 import prisma from '../../config/prisma';
+import { reviewConfig } from '../../config/review.config';
+import {
+  SUB_RATING_FIELDS,
+  applyReviewToRatings,
+  getRatingSummary,
+  isReviewVisible,
+  ratingAggregateSelect,
+  visibleReviewWhere
+} from '../../services/reviewService';
+import {
+  notificationRecipientSelect,
+  notifyBookingParty
+} from '../../services/notification/notificationService';
+import {
+  deleteImageFiles,
+  processImage,
+  saveProcessedImage,
+  ServiceImageVariants
+} from '../../services/imageService';
+
+// Moderation details are only shown to admins
+const moderationFieldsOmit = {
+  isHidden: true,
+  hiddenAt: true,
+  hiddenReason: true,
+  moderationStatus: true,
+  moderationReason: true,
+  moderatedById: true,
+  moderatedAt: true
+} satisfies Prisma.ReviewOmit;
+
+const reviewPartiesInclude = {
+  booking: {
+    include: {
+      service: {
+        include: {
+          provider: {
+            include: {
+              user: { select: notificationRecipientSelect }
+            }
+          }
+        }
+      },
+      customer: { select: notificationRecipientSelect }
+    }
+  }
+} satisfies Prisma.ReviewInclude;
+
+const reviewImagesInclude = {
+  images: { orderBy: { sortOrder: 'asc' } }
+} satisfies Prisma.ReviewInclude;
 
 /**
  * Create a review for a completed booking
@@ -45,64 +97,84 @@ export const createReview = async (
       return;
     }
 
-    // Create the review
-    const review = await prisma.review.create({
-      data: {
-        bookingId: parseInt(bookingId),
-        rating,
-        comment: comment || null
-      },
-      include: {
-        booking: {
-          include: {
-            service: {
-              include: {
-                provider: true
-              }
+    // Reviews flagged by detectReviewManipulation wait for an admin
+    const moderationReason: string | undefined = res.locals.flagForModeration;
+
+    // Decode every photo before saving anything, so an unreadable file rejects the request
+    const files = Array.isArray(req.files) ? req.files : [];
+    const processedImages = [];
+    for (const file of files) {
+      processedImages.push(await processImage(file.buffer));
+    }
+
+    const savedImages: ServiceImageVariants[] = [];
+    for (let i = 0; i < processedImages.length; i++) {
+      savedImages.push(await saveProcessedImage(processedImages[i], files[i].originalname));
+    }
+
+    // Create the review; it counts towards the ratings unless held for moderation
+    let review;
+    try {
+      review = await prisma.$transaction(async (tx) => {
+        const created = await tx.review.create({
+          data: {
+            bookingId: parseInt(bookingId),
+            rating,
+            ...Object.fromEntries(SUB_RATING_FIELDS.map(field => [field, req.body[field] ?? null])),
+            comment: comment || null,
+            ...(moderationReason && {
+              moderationStatus: ReviewModerationStatus.pending,
+              moderationReason
+            }),
+            images: {
+              create: savedImages.map((variants, sortOrder) => ({ ...variants, sortOrder }))
             }
-          }
+          },
+          include: { ...reviewPartiesInclude, ...reviewImagesInclude }
+        });
+
+        if (!moderationReason) {
+          await applyReviewToRatings({
+            rating,
+            serviceId: booking.serviceId,
+            providerId: booking.service.providerId
+          }, 1, tx);
         }
+
+        return created;
+      });
+    } catch (error) {
+      // Don't leave the saved photos behind without a review
+      for (const image of savedImages) {
+        await deleteImageFiles(image).catch(cleanupError =>
+          console.error('Failed to delete review image:', cleanupError)
+        );
       }
-    });
+      throw error;
+    }
 
-    // Update provider's rating
     const provider = booking.service.provider;
-    
-    // Get all reviews for this provider's services
-    const providerReviews = await prisma.review.findMany({
-      where: {
-        booking: {
-          service: {
-            providerId: provider.id
-          }
-        }
-      }
-    });
-    
-    // Calculate new average rating
-    const totalRating = providerReviews.reduce((sum, review) => sum + review.rating, 0);
-    const avgRating = totalRating / providerReviews.length;
-    
-    // Update provider's rating
-    await prisma.providerProfile.update({
-      where: { id: provider.id },
-      data: {
-        rating: avgRating
-      }
-    });
 
-    // Check if we need to flag for moderation
-    if (res.locals.flagForModeration) {
-      // In a real implementation, you'd add this to a moderation queue
+    if (moderationReason) {
       console.warn('Review flagged for moderation:', {
         reviewId: review.id,
         userId,
         providerId: provider.id,
         rating,
+        reason: moderationReason,
         timestamp: new Date().toISOString()
       });
+
+      res.status(201).json({
+        success: true,
+        data: review,
+        message: 'Review submitted and awaiting moderation'
+      });
+      return;
     }
 
+    await notifyBookingParty(review.booking, 'provider', 'review_received', { rating });
+
     res.status(201).json({
       success: true,
       data: review,
@@ -143,6 +215,7 @@ export const getServiceReviews = async (
     // Get total count for pagination
     const totalCount = await prisma.review.count({
       where: {
+        ...visibleReviewWhere,
         booking: {
           serviceId: parseInt(serviceId)
         }
@@ -152,6 +225,7 @@ export const getServiceReviews = async (
     // Get reviews with pagination
     const reviews = await prisma.review.findMany({
       where: {
+        ...visibleReviewWhere,
         booking: {
           serviceId: parseInt(serviceId)
         }
@@ -167,16 +241,26 @@ export const getServiceReviews = async (
               }
             }
           }
-        }
+        },
+        ...reviewImagesInclude
       },
+      omit: moderationFieldsOmit,
       orderBy: { createdAt: 'desc' },
       skip,
       take: limitNum
     });
 
+    const service = await prisma.service.findUnique({
+      where: { id: parseInt(serviceId) },
+      select: ratingAggregateSelect
+    });
+
     res.json({
       success: true,
       data: reviews,
+      summary: service
+        ? await getRatingSummary(service, { booking: { serviceId: parseInt(serviceId) } })
+        : null,
       pagination: {
         page: pageNum,
         limit: limitNum,
@@ -210,6 +294,7 @@ export const getProviderReviews = async (
     // Get total count for pagination
     const totalCount = await prisma.review.count({
       where: {
+        ...visibleReviewWhere,
         booking: {
           service: {
             providerId: parseInt(providerId)
@@ -221,6 +306,7 @@ export const getProviderReviews = async (
     // Get reviews with pagination
     const reviews = await prisma.review.findMany({
       where: {
+        ...visibleReviewWhere,
         booking: {
           service: {
             providerId: parseInt(providerId)
@@ -244,16 +330,26 @@ export const getProviderReviews = async (
               }
             }
           }
-        }
+        },
+        ...reviewImagesInclude
       },
+      omit: moderationFieldsOmit,
       orderBy: { createdAt: 'desc' },
       skip,
       take: limitNum
     });
 
+    const provider = await prisma.providerProfile.findUnique({
+      where: { id: parseInt(providerId) },
+      select: ratingAggregateSelect
+    });
+
     res.json({
       success: true,
       data: reviews,
+      summary: provider
+        ? await getRatingSummary(provider, { booking: { service: { providerId: parseInt(providerId) } } })
+        : null,
       pagination: {
         page: pageNum,
         limit: limitNum,
@@ -267,8 +363,167 @@ export const getProviderReviews = async (
   }
 };
 
+/**
+ * Post the provider's public reply to a review of one of their bookings
+ * Each review can be answered once
+ */
+export const replyToReview = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const reviewId = parseInt(req.params.id);
+    const reply = typeof req.body.reply === 'string' ? req.body.reply.trim() : '';
+
+    if (!reply || reply.length > reviewConfig.maxReplyLength) {
+      res.status(400).json({
+        success: false,
+        message: `Reply must be between 1 and ${reviewConfig.maxReplyLength} characters`
+      });
+      return;
+    }
+
+    const review = await prisma.review.findUnique({
+      where: { id: reviewId },
+      include: reviewPartiesInclude
+    });
+
+    if (!review || !isReviewVisible(review)) {
+      res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+      return;
+    }
+
+    if (review.booking.service.provider.userId !== req.user!.id) {
+      res.status(403).json({
+        success: false,
+        message: 'Only the provider of the booking can reply to this review'
+      });
+      return;
+    }
+
+    // Only the first of concurrent replies is saved
+    const { count } = await prisma.review.updateMany({
+      where: { id: reviewId, reply: null },
+      data: {
+        reply,
+        repliedAt: new Date()
+      }
+    });
+
+    if (count === 0) {
+      res.status(409).json({
+        success: false,
+        message: 'This review already has a reply'
+      });
+      return;
+    }
+
+    const updated = await prisma.review.findUniqueOrThrow({
+      where: { id: reviewId },
+      omit: moderationFieldsOmit
+    });
+
+    await notifyBookingParty(review.booking, 'customer', 'review_replied');
+
+    res.json({
+      success: true,
+      data: updated,
+      message: 'Reply posted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Report a review as abusive, fake or off-topic for moderation
+ */
+export const reportReview = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const reviewId = parseInt(req.params.id);
+    const userId = req.user!.id;
+    const { reason } = req.body;
+    const details = typeof req.body.details === 'string' ? req.body.details.trim() : '';
+
+    if (!Object.values(ReviewReportReason).includes(reason)) {
+      res.status(400).json({
+        success: false,
+        message: `Reason must be one of: ${Object.values(ReviewReportReason).join(', ')}`
+      });
+      return;
+    }
+
+    if (details.length > reviewConfig.maxReportDetailsLength) {
+      res.status(400).json({
+        success: false,
+        message: `Details cannot exceed ${reviewConfig.maxReportDetailsLength} characters`
+      });
+      return;
+    }
+
+    const review = await prisma.review.findUnique({
+      where: { id: reviewId },
+      include: {
+        booking: { select: { customerId: true } },
+        reports: { where: { reporterId: userId } }
+      }
+    });
+
+    if (!review || !isReviewVisible(review)) {
+      res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+      return;
+    }
+
+    if (review.booking.customerId === userId) {
+      res.status(400).json({
+        success: false,
+        message: 'You cannot report your own review'
+      });
+      return;
+    }
+
+    if (review.reports.length > 0) {
+      res.status(409).json({
+        success: false,
+        message: 'You have already reported this review'
+      });
+      return;
+    }
+
+    const report = await prisma.reviewReport.create({
+      data: {
+        reviewId,
+        reporterId: userId,
+        reason,
+        details: details || null
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: report,
+      message: 'Review reported for moderation'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export default {
   createReview,
   getServiceReviews,
-  getProviderReviews
+  getProviderReviews,
+  replyToReview,
+  reportReview
 };
\ No newline at end of file
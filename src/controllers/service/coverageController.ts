@@ -0,0 +1,159 @@
+// src/controllers/service/coverageController.ts
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../../config/prisma';
+import { parseCoverageAreas } from '../../services/coverageService';
+
+const coverageInclude = {
+  city: { select: { id: true, name: true, nameBg: true } },
+  state: { select: { id: true, name: true, nameBg: true } }
+} as const;
+
+/**
+ * Get the areas a service's provider travels to, with the travel fee for each
+ */
+export const getServiceCoverage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const serviceId = Number(req.params.id);
+
+    if (!Number.isSafeInteger(serviceId) || serviceId <= 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid service ID'
+      });
+      return;
+    }
+
+    const service = await prisma.service.findUnique({
+      where: { id: serviceId },
+      select: { id: true }
+    });
+
+    if (!service) {
+      res.status(404).json({
+        success: false,
+        message: 'Service not found'
+      });
+      return;
+    }
+
+    const areas = await prisma.serviceCoverageArea.findMany({
+      where: { serviceId },
+      include: coverageInclude,
+      orderBy: { id: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: areas
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replace the coverage areas of one of the current provider's services
+ * An empty list means the service is only offered at its own address
+ */
+export const updateServiceCoverage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const serviceId = Number(req.params.id);
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    if (!Number.isSafeInteger(serviceId) || serviceId <= 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid service ID'
+      });
+      return;
+    }
+
+    const service = await prisma.service.findUnique({
+      where: { id: serviceId },
+      select: {
+        latitude: true,
+        longitude: true,
+        provider: { select: { userId: true } }
+      }
+    });
+
+    if (!service) {
+      res.status(404).json({
+        success: false,
+        message: 'Service not found'
+      });
+      return;
+    }
+
+    if (service.provider.userId !== userId) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to update this service'
+      });
+      return;
+    }
+
+    const serviceLocation = service.latitude !== null && service.longitude !== null
+      ? { latitude: service.latitude, longitude: service.longitude }
+      : null;
+    const areas = parseCoverageAreas(req.body.areas, serviceLocation);
+
+    // Referenced cities and regions must exist
+    const cityIds = [...new Set(areas.flatMap(area => area.cityId ? [area.cityId] : []))];
+    const stateIds = [...new Set(areas.flatMap(area => area.stateId ? [area.stateId] : []))];
+    const [cityCount, stateCount] = await Promise.all([
+      cityIds.length ? prisma.city.count({ where: { id: { in: cityIds } } }) : 0,
+      stateIds.length ? prisma.state.count({ where: { id: { in: stateIds } } }) : 0
+    ]);
+
+    if (cityCount !== cityIds.length || stateCount !== stateIds.length) {
+      res.status(400).json({
+        success: false,
+        message: 'Unknown city or state in coverage areas'
+      });
+      return;
+    }
+
+    const coverage = await prisma.$transaction(async (tx) => {
+      await tx.serviceCoverageArea.deleteMany({
+        where: { serviceId }
+      });
+
+      await tx.serviceCoverageArea.createMany({
+        data: areas.map(area => ({ ...area, serviceId }))
+      });
+
+      return tx.serviceCoverageArea.findMany({
+        where: { serviceId },
+        include: coverageInclude,
+        orderBy: { id: 'asc' }
+      });
+    });
+
+    res.json({
+      success: true,
+      data: coverage,
+      message: 'Coverage areas updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getServiceCoverage,
+  updateServiceCoverage
+};
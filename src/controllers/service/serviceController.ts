@@ -1,9 +1,59 @@
 // src/controllers/service/serviceController.ts
 import { Request, Response, NextFunction } from 'express';
 import prisma from '../../config/prisma';
-import { storage } from '../../config/storage.config';
 import { ServiceRequest } from '../../types/middleware';
 import { PriceType, Currency, Prisma, BookingType } from '@prisma/client';
+import { availabilityConfig } from '../../config/availability.config';
+import { getCancellationPolicy, parseCancellationPolicy } from '../../services/cancellationService';
+import { normalizeSearchQuery, searchServices, ServiceSearchHit } from '../../services/searchService';
+import {
+  distanceOrderSql,
+  geocodeCity,
+  GeoPoint,
+  getServiceDistances,
+  parseGeoPoint,
+  withinRadiusSql
+} from '../../services/geoService';
+import { findListingPage, ListingQuery } from '../../services/serviceListingService';
+import { searchConfig } from '../../config/search.config';
+import { findServicesCoveringCity } from '../../services/coverageService';
+import { getStartingPrice, parseServiceOptions, saveServiceOptions } from '../../services/packageService';
+import {
+  getExchangeRates,
+  parseCurrency,
+  priceOrderSql,
+  priceRangeFilter,
+  priceRangeSql,
+  toDisplayPrice
+} from '../../services/currencyService';
+import { currencyConfig } from '../../config/currency.config';
+import { deleteImageFiles, processImage, saveProcessedImage } from '../../services/imageService';
+import { userSecretsOmit } from '../../services/userService';
+
+// Returns the parsed slot duration, or null when the value is out of range
+const parseSlotDuration = (value: any): number | null => {
+  const { minMinutes, maxMinutes } = availabilityConfig.slotDuration;
+  const minutes = parseInt(value);
+  if (isNaN(minutes) || minutes < minMinutes || minutes > maxMinutes) {
+    return null;
+  }
+  return minutes;
+};
+
+// ILIKE pattern matching the text anywhere, with its wildcards escaped
+const containsPattern = (text: string): string => `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+
+// Exposes the provider's verification status as a top-level badge
+const withVerifiedBadge = <T extends { provider: { isVerified: boolean } }>(service: T) => ({
+  ...service,
+  isVerifiedProvider: service.provider.isVerified
+});
+
+// Only the packages and add-ons customers can still choose
+const activeOptionsInclude = {
+  packages: { where: { isActive: true }, orderBy: { sortOrder: 'asc' } },
+  addOns: { where: { isActive: true }, orderBy: { sortOrder: 'asc' } }
+} satisfies Prisma.ServiceInclude;
 
 export const createService = async (req: ServiceRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -20,10 +70,20 @@ export const createService = async (req: ServiceRequest, res: Response, next: Ne
       categoryId,
       price,
       priceType,
-      bookingType
+      bookingType,
+      slotDurationMinutes,
+      cancellationPolicy,
+      currency,
+      packages,
+      addOns
     } = req.body;
 
-    if (!title || !description || !categoryId || !price || !priceType) {
+    // With packages the service is listed from the price of the cheapest one
+    const parsedPackages = packages !== undefined ? parseServiceOptions(packages, 'packages') : [];
+    const parsedAddOns = addOns !== undefined ? parseServiceOptions(addOns, 'add-ons') : [];
+    const startingPrice = getStartingPrice(parsedPackages);
+
+    if (!title || !description || !categoryId || (!price && startingPrice === null) || !priceType) {
       res.status(400).json({ 
         success: false, 
         message: 'Missing required fields' 
@@ -33,7 +93,7 @@ export const createService = async (req: ServiceRequest, res: Response, next: Ne
 
     // Validate numeric values
     const parsedCategoryId = parseInt(categoryId);
-    const parsedPrice = parseFloat(price);
+    const parsedPrice = startingPrice ?? parseFloat(price);
     
     if (isNaN(parsedCategoryId) || parsedCategoryId <= 0) {
       res.status(400).json({ 
@@ -61,6 +121,16 @@ export const createService = async (req: ServiceRequest, res: Response, next: Ne
       return;
     }
 
+    // Validate currency; prices default to leva
+    const parsedCurrency = currency ? parseCurrency(currency) : Currency.BGN;
+    if (!parsedCurrency) {
+      res.status(400).json({ 
+        success: false, 
+        message: 'Currency must be BGN or EUR' 
+      });
+      return;
+    }
+
     // Validate booking type
     const validBookingTypes = ['DIRECT', 'INQUIRY'];
     const normalizedBookingType = bookingType?.toUpperCase() || 'DIRECT';
@@ -72,6 +142,30 @@ export const createService = async (req: ServiceRequest, res: Response, next: Ne
       return;
     }
 
+    // Validate slot duration
+    const parsedSlotDuration = slotDurationMinutes !== undefined
+      ? parseSlotDuration(slotDurationMinutes)
+      : availabilityConfig.slotDuration.defaultMinutes;
+    if (parsedSlotDuration === null) {
+      res.status(400).json({ 
+        success: false, 
+        message: 'Invalid slot duration' 
+      });
+      return;
+    }
+
+    // Without a policy of its own the service uses the default cancellation policy
+    const parsedCancellationPolicy = cancellationPolicy
+      ? parseCancellationPolicy(cancellationPolicy)
+      : undefined;
+    if (parsedCancellationPolicy === null) {
+      res.status(400).json({ 
+        success: false, 
+        message: 'Invalid cancellation policy' 
+      });
+      return;
+    }
+
     const provider = await prisma.providerProfile.findUnique({
       where: { userId }
     });
@@ -88,6 +182,15 @@ export const createService = async (req: ServiceRequest, res: Response, next: Ne
       postalCode
     } = req.body;
 
+    // Place the service on the map using the seeded city
+    const coordinates = await geocodeCity({ city, state, postalCode });
+
+    // Decode and resize uploads before saving anything, so an unreadable file rejects the request
+    const processedImages = [];
+    for (const file of Array.isArray(req.files) ? req.files : []) {
+      processedImages.push({ file, image: await processImage(file.buffer) });
+    }
+
     // First create the service
     const service = await prisma.service.create({
       data: {
@@ -98,28 +201,46 @@ export const createService = async (req: ServiceRequest, res: Response, next: Ne
         price: parsedPrice,
         priceType: priceType.toUpperCase() as PriceType,
         bookingType: normalizedBookingType as BookingType,
-        currency: Currency.BGN,
+        slotDurationMinutes: parsedSlotDuration,
+        cancellationPolicy: parsedCancellationPolicy,
+        currency: parsedCurrency,
         address,
         city,
         state,
         postalCode,
-        isActive: true
+        latitude: coordinates?.latitude ?? null,
+        longitude: coordinates?.longitude ?? null,
+        isActive: true,
+        packages: {
+          create: parsedPackages.map((option, sortOrder) => ({
+            name: option.name,
+            description: option.description,
+            price: option.price,
+            sortOrder
+          }))
+        },
+        addOns: {
+          create: parsedAddOns.map((option, sortOrder) => ({
+            name: option.name,
+            description: option.description,
+            price: option.price,
+            sortOrder
+          }))
+        }
       }
     });
 
-    // Handle image uploads
-    if (req.files && Array.isArray(req.files)) {
-      for (let i = 0; i < req.files.length; i++) {
-        const file = req.files[i];
-        const imageUrl = await storage.saveFile(file.buffer, file.originalname);
-        await prisma.serviceImage.create({
-          data: {
-            serviceId: service.id,
-            imageUrl,
-            isMain: i === 0
-          }
-        });
-      }
+    // Save the resized variants of each upload
+    for (let i = 0; i < processedImages.length; i++) {
+      const { file, image } = processedImages[i];
+      const variants = await saveProcessedImage(image, file.originalname);
+      await prisma.serviceImage.create({
+        data: {
+          serviceId: service.id,
+          ...variants,
+          isMain: i === 0
+        }
+      });
     }
 
     // Fetch the complete service with relations
@@ -128,12 +249,13 @@ export const createService = async (req: ServiceRequest, res: Response, next: Ne
       include: {
         provider: {
           include: {
-            user: true
+            user: { omit: userSecretsOmit }
           }
         },
         category: true,
         bookings: true,
-        serviceImages: true
+        serviceImages: true,
+        ...activeOptionsInclude
       }
     });
 
@@ -149,13 +271,20 @@ export const createService = async (req: ServiceRequest, res: Response, next: Ne
 export const getServices = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { 
+      q,
       categoryId, 
       city, 
       priceMin, 
       priceMax, 
+      verifiedOnly,
+      lat,
+      lng,
+      radiusKm,
+      cityId,
+      displayCurrency,
+      priceCurrency,
       page = '1', 
-      limit = '10',
-      sortBy = 'newest'
+      limit = '10'
     } = req.query;
 
     // Validate and sanitize numeric inputs
@@ -163,91 +292,282 @@ export const getServices = async (req: Request, res: Response, next: NextFunctio
     const limitNum = Math.min(50, Math.max(1, parseInt(limit as string) || 10)); // Cap at 50
     const skip = (pageNum - 1) * limitNum;
 
-    // Build where clause safely
+    // Validate geo search parameters
+    let origin: GeoPoint | null = null;
+    if (lat !== undefined || lng !== undefined) {
+      origin = parseGeoPoint(lat, lng);
+      if (!origin) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid coordinates'
+        });
+        return;
+      }
+    }
+
+    let radius: number | null = null;
+    if (radiusKm !== undefined) {
+      radius = parseFloat(radiusKm as string);
+      if (!origin || isNaN(radius) || radius <= 0 || radius > searchConfig.geo.maxRadiusKm) {
+        res.status(400).json({
+          success: false,
+          message: `Radius search requires lat, lng and a radius of up to ${searchConfig.geo.maxRadiusKm} km`
+        });
+        return;
+      }
+    }
+
+    // Prices are also shown in the requested currency, or else the user's preferred one
+    const targetCurrency = displayCurrency !== undefined
+      ? parseCurrency(displayCurrency)
+      : parseCurrency(req.user?.currency);
+    // Price filters are given in the display currency unless stated otherwise
+    const filterCurrency = priceCurrency !== undefined
+      ? parseCurrency(priceCurrency)
+      : targetCurrency ?? currencyConfig.defaultCurrency as Currency;
+
+    if ((displayCurrency !== undefined && !targetCurrency) || !filterCurrency) {
+      res.status(400).json({
+        success: false,
+        message: 'Currency must be BGN or EUR'
+      });
+      return;
+    }
+
+    const rates = await getExchangeRates();
+
+    // Validate the customer's city for coverage matching
+    let customerCity = null;
+    if (cityId !== undefined) {
+      const cityIdNum = parseInt(cityId as string);
+      customerCity = cityIdNum > 0
+        ? await prisma.city.findUnique({
+          where: { id: cityIdNum },
+          select: { id: true, name: true, nameBg: true, stateId: true, latitude: true, longitude: true }
+        })
+        : null;
+
+      if (!customerCity) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid city ID'
+        });
+        return;
+      }
+    }
+
+    // Build where clause safely; the SQL conditions mirror it for listings ordered in the database
     const where: Prisma.ServiceWhereInput = {
-      isActive: true
+      isActive: true,
+      // Services of deactivated accounts are not listed
+      provider: {
+        user: { isActive: true }
+      }
     };
+    const conditions: Prisma.Sql[] = [Prisma.sql`s."isActive" = true`, Prisma.sql`u."isActive" = true`];
+
+    // Filters that narrow the listing to a set of services
+    const filters: Prisma.ServiceWhereInput[] = [];
 
     // Safely add categoryId filter if provided
     if (categoryId) {
       const categoryIdNum = parseInt(categoryId as string);
       if (!isNaN(categoryIdNum) && categoryIdNum > 0) {
         where.categoryId = categoryIdNum;
+        conditions.push(Prisma.sql`s."categoryId" = ${categoryIdNum}`);
       }
     }
 
-    // Safely add price range filters
-    if (priceMin) {
-      const priceMinNum = parseFloat(priceMin as string);
-      if (!isNaN(priceMinNum) && priceMinNum >= 0) {
-        where.price = {
-          ...(where.price as object || {}),
-          gte: priceMinNum
-        };
-      }
-    }
+    // Safely add price range filters; prices in other currencies are converted before comparing
+    const priceMinNum = priceMin ? parseFloat(priceMin as string) : NaN;
+    const priceMaxNum = priceMax ? parseFloat(priceMax as string) : NaN;
+    const priceRange = {
+      min: !isNaN(priceMinNum) && priceMinNum >= 0 ? priceMinNum : null,
+      max: !isNaN(priceMaxNum) && priceMaxNum > 0 ? priceMaxNum : null
+    };
 
-    if (priceMax) {
-      const priceMaxNum = parseFloat(priceMax as string);
-      if (!isNaN(priceMaxNum) && priceMaxNum > 0) {
-        where.price = {
-          ...(where.price as object || {}),
-          lte: priceMaxNum
-        };
-      }
+    if (priceRange.min !== null || priceRange.max !== null) {
+      filters.push(priceRangeFilter(priceRange, filterCurrency, rates));
+      conditions.push(priceRangeSql(priceRange, filterCurrency, rates));
     }
 
     // Safely add city filter if provided
     if (city && typeof city === 'string') {
       where.provider = {
+        ...(where.provider as Prisma.ProviderProfileWhereInput),
         city: {
           contains: city,
           mode: 'insensitive'
         }
       };
+      conditions.push(Prisma.sql`p."city" ILIKE ${containsPattern(city)}`);
+    }
+
+    // Only show services from providers with verified documents
+    if (verifiedOnly === 'true') {
+      where.provider = {
+        ...(where.provider as Prisma.ProviderProfileWhereInput),
+        isVerified: true
+      };
+      conditions.push(Prisma.sql`p."isVerified" = true`);
+    }
+
+    // Geo search narrows the listing to services within the radius
+    if (origin && radius !== null) {
+      conditions.push(withinRadiusSql(origin, radius));
+    }
+
+    // Mobile providers are matched by their coverage areas, everyone else by the city they work in
+    let travelFees: Map<number, number> | null = null;
+    if (customerCity) {
+      travelFees = await findServicesCoveringCity(customerCity);
+      const coveringIds = [...travelFees.keys()];
+      const cityNames = [customerCity.name, customerCity.nameBg].filter((name): name is string => !!name);
+      filters.push({
+        OR: [
+          { id: { in: coveringIds } },
+          {
+            coverageAreas: { none: {} },
+            OR: cityNames.map(name => ({ city: { equals: name, mode: 'insensitive' as const } }))
+          }
+        ]
+      });
+      conditions.push(Prisma.sql`(
+        ${coveringIds.length > 0 ? Prisma.sql`s."id" IN (${Prisma.join(coveringIds)})` : Prisma.sql`false`}
+        OR (
+          NOT EXISTS (SELECT 1 FROM "ServiceCoverageArea" a WHERE a."serviceId" = s."id")
+          AND lower(s."city") IN (${Prisma.join(cityNames.map(name => Prisma.sql`lower(${name})`))})
+        )
+      )`);
+    }
+
+    if (filters.length > 0) {
+      where.AND = filters;
     }
 
-    // Determine sort order safely
-    let orderBy: Prisma.ServiceOrderByWithRelationInput = {};
+    // Keyword search narrows the listing to matching services
+    const query = normalizeSearchQuery(q);
+
+    // Searches are ranked by relevance unless another order is requested
+    const sortBy = req.query.sortBy || (query ? 'relevance' : 'newest');
+
+    if (sortBy === 'distance' && !origin) {
+      res.status(400).json({
+        success: false,
+        message: 'Sorting by distance requires lat and lng'
+      });
+      return;
+    }
+
+    // Determine sort order safely; sqlOrderBy is the same order for listings ordered in the database
+    let orderBy: Prisma.ServiceOrderByWithRelationInput | Prisma.ServiceOrderByWithRelationInput[] = {};
+    let sqlOrderBy: Prisma.Sql[] = [];
     switch (sortBy) {
       case 'oldest':
         orderBy = { createdAt: 'asc' };
+        sqlOrderBy = [Prisma.sql`s."createdAt" ASC`];
         break;
-      case 'price-low':
-        orderBy = { price: 'asc' };
+      case 'rating':
+        // Bayesian score, so a handful of perfect reviews does not beat a long track record
+        orderBy = [
+          { ratingScore: { sort: 'desc', nulls: 'last' } },
+          { ratingCount: 'desc' },
+          { createdAt: 'desc' }
+        ];
+        sqlOrderBy = [
+          Prisma.sql`s."ratingScore" DESC NULLS LAST`,
+          Prisma.sql`s."ratingCount" DESC`,
+          Prisma.sql`s."createdAt" DESC`
+        ];
         break;
+      case 'distance':
+        sqlOrderBy = origin ? [distanceOrderSql(origin)] : [];
+        break;
+      case 'price-low':
       case 'price-high':
-        orderBy = { price: 'desc' };
+        // Compare prices in one currency
+        sqlOrderBy = [priceOrderSql(sortBy === 'price-low' ? 'asc' : 'desc', rates)];
         break;
-      case 'rating':
+      case 'relevance':
+        // Searches are ranked by the search itself; plain listings show the newest first
         orderBy = { createdAt: 'desc' };
         break;
       case 'newest':
       default:
         orderBy = { createdAt: 'desc' };
+        sqlOrderBy = [Prisma.sql`s."createdAt" DESC`];
     }
 
-    // Execute count query first for pagination
-    const totalCount = await prisma.service.count({ where });
-
-    // Execute main query with pagination
-    const services = await prisma.service.findMany({
-      where,
-      include: {
-        provider: {
-          include: { user: true }
-        },
-        category: true,
-        serviceImages: true
+    const include = {
+      provider: {
+        include: { user: { omit: userSecretsOmit } }
       },
-      orderBy,
-      skip,
-      take: limitNum
-    });
+      category: true,
+      serviceImages: true
+    } satisfies Prisma.ServiceInclude;
+
+    let totalCount: number;
+    let services;
+    let searchHits: Map<number, ServiceSearchHit> | null = null;
+    let pageIds: number[] | null = null;
+    const listing: ListingQuery = { conditions, orderBy: sqlOrderBy, skip, take: limitNum };
+
+    if (query) {
+      // The search applies the filters, the order and the page in one query
+      const { total, hits } = await searchServices(query, listing);
+      searchHits = new Map(hits.map(hit => [hit.serviceId, hit]));
+      totalCount = total;
+      pageIds = hits.map(hit => hit.serviceId);
+    } else if (radius !== null || sortBy === 'distance' || sortBy === 'price-low' || sortBy === 'price-high') {
+      // Distances and converted prices only exist in SQL, so filter, order and paginate there
+      const page = await findListingPage(listing);
+      totalCount = page.total;
+      pageIds = page.serviceIds;
+    } else {
+      // Execute count query first for pagination
+      totalCount = await prisma.service.count({ where });
+    }
+
+    if (pageIds) {
+      const order = pageIds;
+      services = (await prisma.service.findMany({
+        where: { id: { in: order } },
+        include
+      })).sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+    } else {
+      // Execute main query with pagination
+      services = await prisma.service.findMany({
+        where,
+        include,
+        orderBy,
+        skip,
+        take: limitNum
+      });
+    }
+
+    // Show how far each result is from the searched point
+    let distances = new Map<number, number | null>();
+    if (origin) {
+      const pageDistances = await getServiceDistances(origin, services.map(service => service.id));
+      distances = new Map(pageDistances.map(service => [service.serviceId, service.distanceKm]));
+    }
 
     res.json({
       success: true,
-      data: services,
+      data: services.map(service => {
+        const hit = searchHits?.get(service.id);
+        return {
+          ...withVerifiedBadge(service),
+          ...(targetCurrency && {
+            displayPrice: toDisplayPrice(service.price, service.currency, targetCurrency, rates)
+          }),
+          ...(origin && { distanceKm: distances.get(service.id) ?? null }),
+          ...(travelFees && { travelFee: travelFees.get(service.id) ?? 0 }),
+          ...(hit && {
+            search: { rank: hit.rank, matchType: hit.matchType, highlights: hit.highlights }
+          })
+        };
+      }),
       pagination: {
         total: totalCount,
         page: pageNum,
@@ -280,16 +600,27 @@ export const getService = async (req: Request, res: Response, next: NextFunction
       include: {
         provider: {
           include: {
-            user: true
+            user: { omit: userSecretsOmit }
           }
         },
         category: true,
         bookings: true,
-        serviceImages: true
+        serviceImages: true,
+        ...activeOptionsInclude,
+        coverageAreas: {
+          include: {
+            city: { select: { id: true, name: true, nameBg: true } },
+            state: { select: { id: true, name: true, nameBg: true } }
+          },
+          orderBy: { id: 'asc' }
+        }
       }
     });
 
-    if (!service) {
+    // Hidden services are only visible to their provider and administrators
+    const canSeeHidden = req.user?.id === service?.provider.userId || req.user?.userType === 'admin';
+
+    if (!service || (!service.isActive && !canSeeHidden)) {
       res.status(404).json({
         success: false,
         message: 'Service not found'
@@ -297,9 +628,25 @@ export const getService = async (req: Request, res: Response, next: NextFunction
       return;
     }
 
+    // Show prices in the requested or preferred currency alongside the original ones
+    const targetCurrency = parseCurrency(req.query.displayCurrency) ?? parseCurrency(req.user?.currency);
+    const rates = targetCurrency ? await getExchangeRates() : null;
+    const withDisplayPrice = <T extends { price: number }>(item: T) => ({
+      ...item,
+      ...(targetCurrency && rates && {
+        displayPrice: toDisplayPrice(item.price, service.currency, targetCurrency, rates)
+      })
+    });
+
     res.json({
       success: true,
-      data: service
+      data: {
+        ...withDisplayPrice(withVerifiedBadge(service)),
+        packages: service.packages.map(withDisplayPrice),
+        addOns: service.addOns.map(withDisplayPrice),
+        // Always show the policy that applies, including the default one
+        cancellationPolicy: getCancellationPolicy(service)
+      }
     });
   } catch (error) {
     console.error('Error in getService:', error);
@@ -367,7 +714,7 @@ export const getProviderServices = async (req: Request, res: Response, next: Nex
       },
       include: {
         provider: {
-          include: { user: true }
+          include: { user: { omit: userSecretsOmit } }
         },
         category: true,
         serviceImages: true,
@@ -419,7 +766,7 @@ export const updateService = async (
 
     const existingService = await prisma.service.findUnique({
       where: { id: serviceId },
-      select: { providerId: true }
+      select: { providerId: true, city: true, state: true, postalCode: true }
     });
 
     if (!existingService) {
@@ -444,15 +791,24 @@ export const updateService = async (
       price,
       priceType,
       bookingType,
+      slotDurationMinutes,
+      cancellationPolicy,
       address,
       city,
       state,
-      postalCode
+      postalCode,
+      currency,
+      packages,
+      addOns
     } = req.body;
 
     // Build update data object
     const updateData: any = {};
 
+    // Replace packages and add-ons if provided
+    const parsedPackages = packages !== undefined ? parseServiceOptions(packages, 'packages') : undefined;
+    const parsedAddOns = addOns !== undefined ? parseServiceOptions(addOns, 'add-ons') : undefined;
+
     // Update title if provided
     if (title !== undefined) {
       updateData.title = title;
@@ -487,6 +843,12 @@ export const updateService = async (
       updateData.price = parsedPrice;
     }
 
+    // The listed price follows the cheapest package
+    const startingPrice = parsedPackages ? getStartingPrice(parsedPackages) : null;
+    if (startingPrice !== null) {
+      updateData.price = startingPrice;
+    }
+
     // Update priceType if provided and valid
     if (priceType !== undefined) {
       const validPriceTypes = ['FIXED', 'HOURLY'];
@@ -499,6 +861,18 @@ export const updateService = async (
       updateData.priceType = priceType.toUpperCase() as PriceType;
     }
     
+    // Update currency if provided and valid
+    if (currency !== undefined) {
+      const parsedCurrency = parseCurrency(currency);
+      if (!parsedCurrency) {
+        return res.status(400).json({ 
+          success: false, 
+          message: 'Currency must be BGN or EUR' 
+        });
+      }
+      updateData.currency = parsedCurrency;
+    }
+    
     // Update bookingType if provided and valid
     if (bookingType !== undefined) {
       const validBookingTypes = ['DIRECT', 'INQUIRY'];
@@ -511,20 +885,64 @@ export const updateService = async (
       updateData.bookingType = bookingType.toUpperCase() as BookingType;
     }
 
+    // Update slot duration if provided and valid
+    if (slotDurationMinutes !== undefined) {
+      const parsedSlotDuration = parseSlotDuration(slotDurationMinutes);
+      if (parsedSlotDuration === null) {
+        return res.status(400).json({ 
+          success: false, 
+          message: 'Invalid slot duration' 
+        });
+      }
+      updateData.slotDurationMinutes = parsedSlotDuration;
+    }
+
+    // Update cancellation policy if provided; an empty value restores the default policy
+    if (cancellationPolicy !== undefined) {
+      if (cancellationPolicy === null || cancellationPolicy === '') {
+        updateData.cancellationPolicy = Prisma.DbNull;
+      } else {
+        const parsedCancellationPolicy = parseCancellationPolicy(cancellationPolicy);
+        if (!parsedCancellationPolicy) {
+          return res.status(400).json({ 
+            success: false, 
+            message: 'Invalid cancellation policy' 
+          });
+        }
+        updateData.cancellationPolicy = parsedCancellationPolicy;
+      }
+    }
+
     // Update location fields if provided
     if (address !== undefined) updateData.address = address;
     if (city !== undefined) updateData.city = city;
     if (state !== undefined) updateData.state = state;
     if (postalCode !== undefined) updateData.postalCode = postalCode;
 
+    // Geocode again when the location changes
+    if (city !== undefined || state !== undefined || postalCode !== undefined) {
+      const coordinates = await geocodeCity({
+        city: city !== undefined ? city : existingService.city,
+        state: state !== undefined ? state : existingService.state,
+        postalCode: postalCode !== undefined ? postalCode : existingService.postalCode
+      });
+      updateData.latitude = coordinates?.latitude ?? null;
+      updateData.longitude = coordinates?.longitude ?? null;
+    }
+
     // Update service
-    const updatedService = await prisma.service.update({
-      where: { id: serviceId },
-      data: updateData,
-      include: {
-        serviceImages: true,
-        provider: true
-      }
+    const updatedService = await prisma.$transaction(async (tx) => {
+      await saveServiceOptions(tx, serviceId, { packages: parsedPackages, addOns: parsedAddOns });
+
+      return tx.service.update({
+        where: { id: serviceId },
+        data: updateData,
+        include: {
+          serviceImages: true,
+          provider: true,
+          ...activeOptionsInclude
+        }
+      });
     });
 
     return res.json({
@@ -553,7 +971,7 @@ export const deleteServiceImage = async (req: Request, res: Response): Promise<v
         service: {
           include: {
             provider: {
-              include: { user: true }
+              include: { user: { omit: userSecretsOmit } }
             }
           }
         }
@@ -569,7 +987,7 @@ export const deleteServiceImage = async (req: Request, res: Response): Promise<v
     }
 
     // Delete from storage and database
-    await storage.deleteFile(image.imageUrl);
+    await deleteImageFiles(image);
     await prisma.serviceImage.delete({
       where: { id: imageId }
     });
@@ -599,7 +1017,7 @@ export const deleteService = async (req: Request, res: Response, next: NextFunct
       include: {
         provider: {
           include: {
-            user: true
+            user: { omit: userSecretsOmit }
           }
         },
         serviceImages: true
@@ -618,7 +1036,7 @@ export const deleteService = async (req: Request, res: Response, next: NextFunct
 
     // Delete associated images from storage
     for (const image of service.serviceImages) {
-      await storage.deleteFile(image.imageUrl);
+      await deleteImageFiles(image);
     }
 
     // Delete the service (this will cascade delete the images in the database)
@@ -2,6 +2,7 @@
 import { Request, Response, NextFunction } from 'express';
 import prisma from '../../config/prisma';
 import bcrypt from 'bcrypt';
+import { listActiveSessions, revokeUserSession } from '../../services/sessionService';
 
 // Get current user profile
 export const getCurrentUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -31,10 +32,17 @@ export const getCurrentUser = async (req: Request, res: Response, next: NextFunc
       return;
     }
 
-    const { passwordHash, ...userWithoutPassword } = user;
+    const unreadNotifications = await prisma.notification.count({
+      where: { userId, readAt: null }
+    });
+
+    const { passwordHash, twoFactorSecret, twoFactorLastUsedStep, ...userWithoutPassword } = user;
     res.json({
       success: true,
-      data: userWithoutPassword
+      data: {
+        ...userWithoutPassword,
+        unreadNotifications
+      }
     });
   } catch (error) {
     next(error);
@@ -156,7 +164,7 @@ export const updateProfile = async (req: Request, res: Response, next: NextFunct
       }
     });
 
-    const { passwordHash, ...userWithoutPassword } = updatedUser;
+    const { passwordHash, twoFactorSecret, twoFactorLastUsedStep, ...userWithoutPassword } = updatedUser;
     res.json({
       success: true,
       data: userWithoutPassword
@@ -316,7 +324,7 @@ export const upgradeToProvider = async (req: Request, res: Response, next: NextF
       }
     });
 
-    const { passwordHash, ...userWithoutPassword } = updatedUser;
+    const { passwordHash, twoFactorSecret, twoFactorLastUsedStep, ...userWithoutPassword } = updatedUser;
     res.json({
       success: true,
       data: {
@@ -403,4 +411,102 @@ export const getUserStats = async (req: Request, res: Response, next: NextFuncti
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * List the devices the user is signed in on
+ * The session making the request is marked as current
+ */
+export const getSessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const sessions = await listActiveSessions(req.user!.id);
+
+    res.json({
+      success: true,
+      data: sessions.map(session => ({
+        ...session,
+        current: session.id === req.sessionId
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Sign out a single session, e.g. a lost device
+ */
+export const revokeSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const sessionId = parseInt(req.params.id);
+
+    if (isNaN(sessionId) || !await revokeUserSession(req.user!.id, sessionId)) {
+      res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Session revoked'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List the late cancellation penalties recorded against the user
+ * Totals are grouped by currency
+ */
+export const getPenalties = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+    const { page = '1', limit = '20' } = req.query;
+
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 20, 1), 100);
+    const skip = (pageNum - 1) * limitNum;
+
+    const [penalties, totalCount, totals] = await Promise.all([
+      prisma.cancellationPenalty.findMany({
+        where: { userId },
+        include: {
+          booking: {
+            select: {
+              id: true,
+              bookingDate: true,
+              totalPrice: true,
+              service: { select: { id: true, title: true } }
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limitNum
+      }),
+      prisma.cancellationPenalty.count({ where: { userId } }),
+      prisma.cancellationPenalty.groupBy({
+        by: ['currency'],
+        where: { userId },
+        _sum: { amount: true }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: penalties,
+      totals: totals.map(total => ({ currency: total.currency, amount: total._sum.amount || 0 })),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: totalCount,
+        pages: Math.ceil(totalCount / limitNum)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
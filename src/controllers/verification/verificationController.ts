@@ -0,0 +1,394 @@
+// src/controllers/verification/verificationController.ts
+import { Request, Response, NextFunction } from 'express';
+import { VerificationDocumentType, VerificationStatus } from '@prisma/client';
+import prisma from '../../config/prisma';
+import { privateStorage } from '../../config/storage.config';
+import { recordAdminAction } from '../../services/auditService';
+import { notificationRecipientSelect, notify } from '../../services/notification/notificationService';
+
+// Document fields that are safe to return; the private storage key is never exposed
+const documentSelect = {
+  id: true,
+  documentType: true,
+  originalName: true,
+  mimeType: true,
+  size: true,
+  createdAt: true
+} as const;
+
+/**
+ * Parses the document type of every uploaded file
+ * Accepts an array, a JSON array or a comma-separated list aligned with the files;
+ * returns null when a type is not recognised
+ */
+const parseDocumentTypes = (value: unknown, fileCount: number): VerificationDocumentType[] | null => {
+  let types: unknown[] = [];
+
+  if (Array.isArray(value)) {
+    types = value;
+  } else if (typeof value === 'string' && value.trim().startsWith('[')) {
+    try {
+      types = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  } else if (typeof value === 'string' && value) {
+    types = value.split(',');
+  }
+
+  const parsed: VerificationDocumentType[] = [];
+  for (let i = 0; i < fileCount; i++) {
+    const type = String(types[i] ?? VerificationDocumentType.OTHER).trim().toUpperCase();
+    if (!Object.values(VerificationDocumentType).includes(type as VerificationDocumentType)) {
+      return null;
+    }
+    parsed.push(type as VerificationDocumentType);
+  }
+
+  return parsed;
+};
+
+/**
+ * Submit identity/business documents for verification
+ * Only one request can be pending at a time
+ */
+export const submitVerification = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const savedFiles: string[] = [];
+
+  try {
+    const userId = req.user?.id;
+    const { documentTypes, notes } = req.body;
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    const provider = await prisma.providerProfile.findUnique({
+      where: { userId }
+    });
+
+    if (!provider) {
+      res.status(403).json({ success: false, message: 'Only providers can request verification' });
+      return;
+    }
+
+    if (provider.isVerified) {
+      res.status(400).json({ success: false, message: 'Your profile is already verified' });
+      return;
+    }
+
+    if (files.length === 0) {
+      res.status(400).json({ success: false, message: 'At least one document is required' });
+      return;
+    }
+
+    const types = parseDocumentTypes(documentTypes, files.length);
+    if (!types) {
+      res.status(400).json({
+        success: false,
+        message: `Document type must be one of: ${Object.values(VerificationDocumentType).join(', ')}`
+      });
+      return;
+    }
+
+    const pendingRequest = await prisma.verificationRequest.findFirst({
+      where: { providerId: provider.id, status: VerificationStatus.PENDING }
+    });
+
+    if (pendingRequest) {
+      res.status(409).json({
+        success: false,
+        message: 'You already have a verification request awaiting review'
+      });
+      return;
+    }
+
+    const documents = [];
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      const fileKey = await privateStorage.saveFile(file.buffer, file.originalname);
+      savedFiles.push(fileKey);
+      documents.push({
+        documentType: types[i],
+        fileKey,
+        originalName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size
+      });
+    }
+
+    const verificationRequest = await prisma.verificationRequest.create({
+      data: {
+        providerId: provider.id,
+        notes: notes || null,
+        documents: {
+          create: documents
+        }
+      },
+      include: {
+        documents: { select: documentSelect }
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: verificationRequest,
+      message: 'Documents submitted for review'
+    });
+  } catch (error) {
+    // Don't leave orphaned documents behind if the request could not be stored
+    await Promise.all(savedFiles.map(fileKey => privateStorage.deleteFile(fileKey).catch(() => undefined)));
+    next(error);
+  }
+};
+
+/**
+ * Get the current provider's verification status and past requests
+ */
+export const getMyVerification = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    const provider = await prisma.providerProfile.findUnique({
+      where: { userId },
+      include: {
+        verificationRequests: {
+          include: {
+            documents: { select: documentSelect }
+          },
+          orderBy: { createdAt: 'desc' }
+        }
+      }
+    });
+
+    if (!provider) {
+      res.status(403).json({ success: false, message: 'Only providers can request verification' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        isVerified: provider.isVerified,
+        documentsVerified: provider.documentsVerified,
+        requests: provider.verificationRequests
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List verification requests for review (admin only)
+ * Defaults to pending requests, oldest first
+ */
+export const listVerificationRequests = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const status = (req.query.status as string | undefined)?.toUpperCase() || VerificationStatus.PENDING;
+
+    if (!Object.values(VerificationStatus).includes(status as VerificationStatus)) {
+      res.status(400).json({ success: false, message: 'Invalid verification status' });
+      return;
+    }
+
+    const requests = await prisma.verificationRequest.findMany({
+      where: { status: status as VerificationStatus },
+      include: {
+        provider: {
+          include: {
+            user: {
+              select: { id: true, email: true, firstName: true, lastName: true, phone: true }
+            }
+          }
+        },
+        documents: { select: documentSelect }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: requests
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Download a submitted document (admin only)
+ */
+export const getVerificationDocument = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = parseInt(req.params.id);
+    const documentId = parseInt(req.params.documentId);
+
+    const document = await prisma.verificationDocument.findFirst({
+      where: { id: documentId, requestId },
+      include: {
+        request: { select: { providerId: true } }
+      }
+    });
+
+    if (!document) {
+      res.status(404).json({ success: false, message: 'Document not found' });
+      return;
+    }
+
+    // Backends that support it hand out a short-lived link instead of streaming the file
+    const signedUrl = await privateStorage.getSignedUrl(document.fileKey);
+    const file = signedUrl ? null : await privateStorage.getFile(document.fileKey);
+
+    // Access to identity documents is audited
+    await recordAdminAction(req.user!.id, {
+      action: 'verification.view_document',
+      targetType: 'provider',
+      targetId: document.request.providerId,
+      details: { requestId, documentId }
+    });
+
+    if (signedUrl) {
+      res.setHeader('Cache-Control', 'no-store');
+      res.redirect(signedUrl);
+      return;
+    }
+
+    res.setHeader('Content-Type', document.mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="${document.originalName}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(file);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Approve or reject a pending verification request (admin only)
+ */
+const reviewVerification = (approve: boolean) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const adminId = req.user!.id;
+    const requestId = parseInt(req.params.id);
+    const { reason } = req.body;
+
+    if (!approve && (!reason || !String(reason).trim())) {
+      res.status(400).json({ success: false, message: 'A reason is required when rejecting a request' });
+      return;
+    }
+
+    const verificationRequest = await prisma.verificationRequest.findUnique({
+      where: { id: requestId },
+      include: {
+        provider: {
+          include: {
+            user: { select: notificationRecipientSelect }
+          }
+        }
+      }
+    });
+
+    if (!verificationRequest) {
+      res.status(404).json({ success: false, message: 'Verification request not found' });
+      return;
+    }
+
+    const updatedRequest = await prisma.$transaction(async (tx) => {
+      // Claim the request so concurrent decisions cannot both apply
+      const { count } = await tx.verificationRequest.updateMany({
+        where: { id: requestId, status: VerificationStatus.PENDING },
+        data: {
+          status: approve ? VerificationStatus.APPROVED : VerificationStatus.REJECTED,
+          rejectionReason: approve ? null : String(reason).trim(),
+          reviewedBy: adminId,
+          reviewedAt: new Date()
+        }
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      const updated = await tx.verificationRequest.findUniqueOrThrow({
+        where: { id: requestId },
+        include: {
+          documents: { select: documentSelect }
+        }
+      });
+
+      await tx.providerProfile.update({
+        where: { id: verificationRequest.providerId },
+        data: {
+          isVerified: approve,
+          documentsVerified: approve
+        }
+      });
+
+      await recordAdminAction(adminId, {
+        action: approve ? 'verification.approve' : 'verification.reject',
+        targetType: 'provider',
+        targetId: verificationRequest.providerId,
+        details: { requestId, reason: approve ? null : String(reason).trim() }
+      }, tx);
+
+      return updated;
+    });
+
+    if (!updatedRequest) {
+      res.status(409).json({ success: false, message: 'This request has already been reviewed' });
+      return;
+    }
+
+    await notify(
+      verificationRequest.provider.user,
+      approve ? 'verification_approved' : 'verification_rejected',
+      { reason: updatedRequest.rejectionReason }
+    );
+
+    res.json({
+      success: true,
+      data: updatedRequest,
+      message: approve ? 'Provider verified successfully' : 'Verification request rejected'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const approveVerification = reviewVerification(true);
+export const rejectVerification = reviewVerification(false);
+
+export default {
+  submitVerification,
+  getMyVerification,
+  listVerificationRequests,
+  getVerificationDocument,
+  approveVerification,
+  rejectVerification
+};
@@ -1,6 +1,8 @@
 // src/jobs/autoCompleteBookings.ts
 import { PrismaClient, BookingStatus } from '@prisma/client';
 import { subHours } from 'date-fns';
+import { notifyBookingParty } from '../services/notification/notificationService';
+import { refreshProviderReliability } from '../services/reliabilityService';
 
 const prisma = new PrismaClient();
 
@@ -36,7 +38,11 @@ export async function autoCompleteBookings(): Promise<void> {
       include: {
         service: {
           include: {
-            provider: true
+            provider: {
+              include: {
+                user: true
+              }
+            }
           }
         },
         customer: true
@@ -73,9 +79,11 @@ export async function autoCompleteBookings(): Promise<void> {
       });
       
       console.log(`Auto-completed booking #${booking.id}`);
-      
-      // Here you would typically also send notifications to both parties
-      // TODO: Add notification sending logic
+
+      await refreshProviderReliability(booking.service.providerId, prisma);
+
+      await notifyBookingParty(booking, 'customer', 'booking_auto_completed');
+      await notifyBookingParty(booking, 'provider', 'booking_auto_completed');
     }
     
     console.log('Auto-completion job completed successfully');
@@ -2,16 +2,22 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import prisma from '../config/prisma';
+import { authConfig, VerifiedEmailAction } from '../config/auth.config';
+import { isSessionActive } from '../services/sessionService';
 import { UserWithProfile } from '../types/prisma';
 
+type UserRole = UserWithProfile['userType'];
+
 interface JwtPayload {
   userId: number;
+  sid?: number;
 }
 
 declare global {
   namespace Express {
     interface Request {
       user?: UserWithProfile;
+      sessionId?: number;
     }
   }
 }
@@ -52,6 +58,15 @@ export const authenticateToken = async (
       
       const decoded = jwt.verify(token, secret) as JwtPayload;
 
+      // Access tokens stop working as soon as their session is revoked (logout, reuse detection)
+      if (decoded.sid !== undefined && !await isSessionActive(decoded.sid)) {
+        res.status(401).json({
+          success: false,
+          message: 'Session has been revoked'
+        });
+        return;
+      }
+
       const user = await prisma.user.findUnique({
         where: { id: decoded.userId },
         include: {
@@ -85,7 +100,16 @@ export const authenticateToken = async (
         return;
       }
 
+      if (!user.isActive) {
+        res.status(403).json({
+          success: false,
+          message: 'Account is deactivated'
+        });
+        return;
+      }
+
       req.user = user;
+      req.sessionId = decoded.sid;
       next();
     } catch (jwtError) {
       console.error('JWT verification error:', jwtError);
@@ -101,4 +125,48 @@ export const authenticateToken = async (
       message: 'Authentication process failed'
     });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Restricts a route to users with one of the given roles
+ * Authenticates the request first unless authenticateToken already ran
+ */
+export const requireRole = (...roles: UserRole[]) => {
+  const checkRole = (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user || !roles.includes(req.user.userType)) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to perform this action'
+      });
+      return;
+    }
+
+    next();
+  };
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (req.user) {
+      checkRole(req, res, next);
+      return;
+    }
+
+    await authenticateToken(req, res, () => checkRole(req, res, next));
+  };
+};
+
+/**
+ * Blocks users who have not verified their email address from the given action
+ * Which actions require verification is configured in authConfig.emailVerification
+ */
+export const requireVerifiedEmail = (action: VerifiedEmailAction) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (authConfig.emailVerification.requiredFor[action] && !req.user?.emailVerified) {
+      res.status(403).json({
+        success: false,
+        message: 'Please verify your email address before continuing'
+      });
+      return;
+    }
+
+    next();
+  };
@@ -1,7 +1,9 @@
 // src/middleware/bookingSecurityChecks.ts
 import { Request, Response, NextFunction } from 'express';
 import prisma from '../config/prisma';
-import { BookingStatus, UserType } from '@prisma/client';
+import { BookingStatus, PenaltyParty, UserType } from '@prisma/client';
+import { cancellationConfig } from '../config/cancellation.config';
+import { calculateCancellationPenalty, getCancellationPolicy } from '../services/cancellationService';
 
 /**
  * This middleware checks for suspicious activity patterns
@@ -177,25 +179,24 @@ export const calculateCancellationPenalties = async (
     const isProvider = booking.service.provider.userId === userId;
     const isCustomer = booking.customerId === userId;
     
-    // Check cancellation time vs booking time
-    const now = new Date();
-    const bookingDate = new Date(booking.bookingDate);
-    const hoursUntilBooking = (bookingDate.getTime() - now.getTime()) / (60 * 60 * 1000);
+    // Penalties follow the service's cancellation policy (or the default policy)
+    const policy = getCancellationPolicy(booking.service);
     
     // Set cancellation penalties and notifications
     if (isProvider) {
       // Provider cancellations
-      if (hoursUntilBooking < 24) {
-        // Cancelling less than 24 hours before service
-        req.body.providerPenalty = true;
-        req.body.providerPenaltyAmount = booking.totalPrice * 0.15; // 15% penalty
+      const penalty = calculateCancellationPenalty(policy, PenaltyParty.PROVIDER, booking);
+      if (penalty) {
+        // Recorded in the penalty ledger by updateBookingStatus
+        res.locals.cancellationPenalty = { ...penalty, userId };
         
         // For notification purposes
         res.locals.sendProviderPenaltyNotification = true;
-        res.locals.penaltyAmount = req.body.providerPenaltyAmount;
+        res.locals.penaltyAmount = penalty.amount;
       }
       
       // Track pattern of last-minute cancellations
+      const { windowDays, threshold } = cancellationConfig.frequentCancellations;
       const recentCancellations = await prisma.booking.count({
         where: {
           service: {
@@ -204,12 +205,12 @@ export const calculateCancellationPenalties = async (
           status: BookingStatus.cancelled,
           cancelledBy: userId,
           cancellationTime: {
-            gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) // Last 30 days
+            gte: new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000)
           }
         }
       });
       
-      if (recentCancellations >= 3) {
+      if (recentCancellations >= threshold) {
         console.warn('SECURITY ALERT: Provider has frequent cancellations', {
           providerId: booking.service.providerId,
           userId,
@@ -219,14 +220,13 @@ export const calculateCancellationPenalties = async (
       }
     } else if (isCustomer) {
       // Customer cancellations
-      if (hoursUntilBooking < 24) {
-        // If customer cancels less than 24 hours before service
-        req.body.customerPenalty = true;
-        req.body.customerPenaltyAmount = booking.totalPrice * 0.10; // 10% penalty
+      const penalty = calculateCancellationPenalty(policy, PenaltyParty.CUSTOMER, booking);
+      if (penalty) {
+        res.locals.cancellationPenalty = { ...penalty, userId };
         
         // For notification purposes
         res.locals.sendCustomerPenaltyNotification = true;
-        res.locals.penaltyAmount = req.body.customerPenaltyAmount;
+        res.locals.penaltyAmount = penalty.amount;
       }
     }
     
@@ -2,6 +2,8 @@
 import { Request, Response, NextFunction } from 'express';
 import prisma from '../config/prisma';
 import { BookingStatus } from '@prisma/client';
+import { reviewConfig } from '../config/review.config';
+import { SUB_RATING_FIELDS } from '../services/reviewService';
 
 /**
  * Validates that a review can only be created for eligible bookings
@@ -129,13 +131,31 @@ export const validateReviewInput = (
   
   const ratingValue = Number(rating);
   
-  if (isNaN(ratingValue) || ratingValue < 1 || ratingValue > 5) {
+  if (!Number.isInteger(ratingValue) || ratingValue < 1 || ratingValue > 5) {
     res.status(400).json({
       success: false,
-      message: 'Rating must be between 1 and 5'
+      message: 'Rating must be a whole number between 1 and 5'
     });
     return; // Don't call next() if sending response
   }
+
+  // Sub-ratings are optional but follow the same scale
+  for (const field of SUB_RATING_FIELDS) {
+    const value = req.body[field];
+    if (value === undefined || value === null || value === '') {
+      req.body[field] = null;
+      continue;
+    }
+
+    if (!Number.isInteger(Number(value)) || Number(value) < 1 || Number(value) > 5) {
+      res.status(400).json({
+        success: false,
+        message: `${field} must be a whole number between 1 and 5`
+      });
+      return; // Don't call next() if sending response
+    }
+    req.body[field] = Number(value);
+  }
   
   // Validate comment if present
   if (comment && typeof comment === 'string' && comment.length > 1000) {
@@ -146,6 +166,15 @@ export const validateReviewInput = (
     return; // Don't call next() if sending response
   }
   
+  const images = Array.isArray(req.files) ? req.files : [];
+  if (images.length > reviewConfig.maxImages) {
+    res.status(400).json({
+      success: false,
+      message: `You can attach at most ${reviewConfig.maxImages} images`
+    });
+    return; // Don't call next() if sending response
+  }
+
   // Sanitize inputs
   req.body.rating = ratingValue;
   req.body.comment = comment ? comment.trim() : null;
@@ -236,8 +265,9 @@ export const detectReviewManipulation = async (
             timestamp: new Date().toISOString()
           });
           
-          // We don't block this but flag it for moderation
-          res.locals.flagForModeration = true;
+          // We don't block this but hold the review for moderation
+          res.locals.flagForModeration = `Drastic rating change: ${currentRating} after an average of ` +
+            `${avgPreviousRating.toFixed(1)} from the same customer in the last 30 days`;
         }
       }
     }
@@ -317,7 +317,7 @@ export const configureSecurityMiddleware = (app: Express): void => {
   
   // Apply rate limiters to specific paths
   app.use('/api', apiLimiter);
-  app.use(['/api/auth/login', '/api/auth/register', '/api/auth/refresh'], authLimiter);
+  app.use(['/api/auth/login', '/api/auth/register', '/api/auth/refresh', '/api/auth/resend-verification', '/api/auth/forgot-password', '/api/auth/reset-password', '/api/auth/2fa/verify'], authLimiter);
   app.use(['/api/profile', '/api/services/create', '/api/services/update'], sensitiveActionLimiter);
   app.use('/uploads', createAdvancedRateLimiter(securityConfig.rateLimiting.uploads));
 
@@ -28,7 +28,7 @@ const ERROR_MESSAGES = {
   FILE_SIZE: (maxSize: number) => 
     `File too large. Maximum size is ${maxSize / (1024 * 1024)}MB`,
   FILE_COUNT: (maxFiles: number) => 
-    `Too many files. Maximum is ${maxFiles} images`,
+    `Too many files. Maximum is ${maxFiles} files`,
   FILE_TYPE: (extensions: string[]) => 
     `Invalid file type. Allowed types are: ${extensions.join(', ')}`,
   FILE_EXTENSION: (extensions: string[]) => 
@@ -37,8 +37,17 @@ const ERROR_MESSAGES = {
 
 const storage = multer.memoryStorage();
 
+// Rules a set of uploads is validated against
+interface UploadRules {
+  maxFileSize: number;
+  allowedMimeTypes: readonly string[];
+  allowedExtensions: readonly string[];
+  sanitizeFilenames: boolean;
+  maxFilesPerRequest: number;
+}
+
 // Enhanced file filter with logging and security checks
-const fileFilter = (
+const createFileFilter = (rules: UploadRules) => (
   _req: Request,
   file: Express.Multer.File,
   callback: multer.FileFilterCallback
@@ -50,29 +59,29 @@ const fileFilter = (
   }
 
   // Check file size (already handled by limits, but double-check)
-  const maxSize = securityConfig.uploadSecurity.maxFileSize;
+  const maxSize = rules.maxFileSize;
   if (file.size > maxSize) {
     callback(new Error(`File size exceeds the limit of ${maxSize / (1024 * 1024)}MB`));
     return;
   }
 
   // Check file type
-  const allowedMimeTypes = securityConfig.uploadSecurity.allowedMimeTypes;
-  if (!allowedMimeTypes.includes(file.mimetype as any)) {
+  const allowedMimeTypes = rules.allowedMimeTypes;
+  if (!allowedMimeTypes.includes(file.mimetype)) {
     callback(new Error(`File type not allowed. Allowed types: ${allowedMimeTypes.join(', ')}`));
     return;
   }
 
   // Check file extension
   const fileExtension = path.extname(file.originalname).toLowerCase();
-  const allowedExtensions = securityConfig.uploadSecurity.allowedExtensions;
-  if (!allowedExtensions.includes(fileExtension as any)) {
+  const allowedExtensions = rules.allowedExtensions;
+  if (!allowedExtensions.includes(fileExtension)) {
     callback(new Error(`File extension not allowed. Allowed extensions: ${allowedExtensions.join(', ')}`));
     return;
   }
 
   // Sanitize filename if configured
-  if (securityConfig.uploadSecurity.sanitizeFilenames) {
+  if (rules.sanitizeFilenames) {
     const originalName = file.originalname;
     const sanitizedName = originalName
       .replace(/[^\w\s.-]/g, '_')
@@ -88,18 +97,25 @@ const fileFilter = (
   callback(null, true);
 };
 
-// Configure multer with our settings
-const uploadConfig = multer({
+// Configure multer with the given rules
+const createUploadConfig = (rules: UploadRules) => multer({
   storage,
   limits: {
-    fileSize: FILE_LIMITS.MAX_FILE_SIZE,
-    files: FILE_LIMITS.MAX_FILES
+    fileSize: rules.maxFileSize,
+    files: rules.maxFilesPerRequest
   },
-  fileFilter
+  fileFilter: createFileFilter(rules)
 });
 
-// Middleware that handles file uploads with proper error responses
-export const uploadMiddleware = (
+const uploadConfig = createUploadConfig(securityConfig.uploadSecurity);
+const documentUploadConfig = createUploadConfig(securityConfig.documentUploadSecurity);
+
+// Creates a middleware that handles file uploads with proper error responses
+const createUploadMiddleware = (
+  config: multer.Multer,
+  fieldName: string,
+  rules: UploadRules
+) => (
   req: Request, 
   res: Response, 
   next: NextFunction
@@ -125,7 +141,7 @@ export const uploadMiddleware = (
 
   console.log('Starting file upload process');
 
-  uploadConfig.array('images', FILE_LIMITS.MAX_FILES)(req, res, (error: any) => {
+  config.array(fieldName, rules.maxFilesPerRequest)(req, res, (error: any) => {
     if (error instanceof multer.MulterError) {
       console.error('Multer error:', error);
       
@@ -133,13 +149,13 @@ export const uploadMiddleware = (
         case 'LIMIT_FILE_SIZE':
           res.status(400).json({
             success: false,
-            message: ERROR_MESSAGES.FILE_SIZE(FILE_LIMITS.MAX_FILE_SIZE)
+            message: ERROR_MESSAGES.FILE_SIZE(rules.maxFileSize)
           });
           break;
         case 'LIMIT_FILE_COUNT':
           res.status(400).json({
             success: false,
-            message: ERROR_MESSAGES.FILE_COUNT(FILE_LIMITS.MAX_FILES)
+            message: ERROR_MESSAGES.FILE_COUNT(rules.maxFilesPerRequest)
           });
           break;
         default:
@@ -167,4 +183,14 @@ export const uploadMiddleware = (
   });
 };
 
+// Service images
+export const uploadMiddleware = createUploadMiddleware(uploadConfig, 'images', securityConfig.uploadSecurity);
+
+// Provider verification documents (PDFs allowed)
+export const documentUploadMiddleware = createUploadMiddleware(
+  documentUploadConfig,
+  'documents',
+  securityConfig.documentUploadSecurity
+);
+
 export default uploadConfig;
\ No newline at end of file
@@ -0,0 +1,71 @@
+// src/routes/admin.ts
+import { Router } from 'express';
+import { requireRole } from '../middleware/auth';
+import {
+  listUsers,
+  deactivateUser,
+  reactivateUser,
+  hideService,
+  unhideService,
+  getProviderHistory,
+  getAuditLog
+} from '../controllers/admin/adminController';
+import {
+  listVerificationRequests,
+  getVerificationDocument,
+  approveVerification,
+  rejectVerification
+} from '../controllers/verification/verificationController';
+import { listExchangeRates, updateExchangeRate } from '../controllers/admin/exchangeRateController';
+import {
+  listPendingReviews,
+  approveReview,
+  rejectReview,
+  listReviewReports,
+  hideReview,
+  restoreReview,
+  removeReviewImage,
+  dismissReviewReport
+} from '../controllers/admin/reviewModerationController';
+
+const router = Router();
+
+// Every admin route requires an authenticated administrator
+router.use(requireRole('admin'));
+
+// User moderation
+router.get('/users', listUsers);
+router.put('/users/:id/deactivate', deactivateUser);
+router.put('/users/:id/reactivate', reactivateUser);
+
+// Service moderation
+router.put('/services/:id/hide', hideService);
+router.put('/services/:id/unhide', unhideService);
+
+// Provider history
+router.get('/providers/:id/history', getProviderHistory);
+
+// Provider verification
+router.get('/verifications', listVerificationRequests);
+router.get('/verifications/:id/documents/:documentId', getVerificationDocument);
+router.put('/verifications/:id/approve', approveVerification);
+router.put('/verifications/:id/reject', rejectVerification);
+
+// Review moderation
+router.get('/reviews/pending', listPendingReviews);
+router.put('/reviews/:id/approve', approveReview);
+router.put('/reviews/:id/reject', rejectReview);
+router.get('/review-reports', listReviewReports);
+router.put('/review-reports/:id/dismiss', dismissReviewReport);
+router.put('/reviews/:id/hide', hideReview);
+router.put('/reviews/:id/restore', restoreReview);
+router.delete('/reviews/:id/images/:imageId', removeReviewImage);
+
+// Currency exchange rates
+router.get('/exchange-rates', listExchangeRates);
+router.put('/exchange-rates/:base/:quote', updateExchangeRate);
+
+// Audit log
+router.get('/audit-log', getAuditLog);
+
+export default router;
@@ -1,6 +1,24 @@
 // src/routes/auth.ts
 import { Router } from 'express';
-import { register, login, refreshToken } from '../controllers/auth/authController';
+import {
+  register,
+  login,
+  refreshToken,
+  logout,
+  logoutAll,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword,
+  verifyTwoFactorLogin
+} from '../controllers/auth/authController';
+import {
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes
+} from '../controllers/auth/twoFactorController';
+import { authenticateToken } from '../middleware/auth';
 
 const router = Router();
 
@@ -16,5 +34,22 @@ router.post('/register', register);
 router.post('/login', login);
 router.post('/refresh-token', refreshToken);
 router.post('/refresh', refreshToken); // Add this route to support both endpoints
+router.post('/logout', logout);
+router.post('/logout-all', authenticateToken, logoutAll);
+
+// Email verification
+router.post('/verify-email', verifyEmail);
+router.post('/resend-verification', resendVerification);
+
+// Password reset
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
+
+// Two-factor authentication
+router.post('/2fa/verify', verifyTwoFactorLogin);
+router.post('/2fa/setup', authenticateToken, setupTwoFactor);
+router.post('/2fa/confirm', authenticateToken, confirmTwoFactor);
+router.post('/2fa/disable', authenticateToken, disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticateToken, regenerateRecoveryCodes);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,22 @@
+// src/routes/availability.ts
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import {
+  getMyAvailability,
+  updateWeeklyAvailability,
+  createAvailabilityException,
+  deleteAvailabilityException
+} from '../controllers/availability/availabilityController';
+
+const router = Router();
+
+// All availability management routes require authentication
+router.use(authenticateToken);
+
+// Provider schedule routes
+router.get('/', getMyAvailability);
+router.put('/weekly', updateWeeklyAvailability);
+router.post('/exceptions', createAvailabilityException);
+router.delete('/exceptions/:id', deleteAvailabilityException);
+
+export default router;
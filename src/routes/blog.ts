@@ -0,0 +1,48 @@
+// src/routes/blog.ts
+import { Router } from 'express';
+import { requireRole } from '../middleware/auth';
+import {
+  listPublishedPosts,
+  getPublishedPost,
+  listManagedPosts,
+  getManagedPost,
+  createPost,
+  updatePost,
+  deletePost,
+  publishPost,
+  archivePost,
+  unpublishPost,
+  listBlogCategories,
+  listBlogTags,
+  createBlogCategory,
+  deleteBlogCategory
+} from '../controllers/blog/blogController';
+
+const router = Router();
+
+const requireAuthor = requireRole('provider', 'admin');
+const requireAdmin = requireRole('admin');
+
+// Public routes
+router.get('/', listPublishedPosts);
+router.get('/categories', listBlogCategories);
+router.get('/tags', listBlogTags);
+
+// Authoring (providers and admins)
+router.get('/manage', requireAuthor, listManagedPosts);
+router.get('/manage/:id', requireAuthor, getManagedPost);
+router.post('/', requireAuthor, createPost);
+router.put('/:id', requireAuthor, updatePost);
+router.delete('/:id', requireAuthor, deletePost);
+
+// Publishing workflow and categories (admin only)
+router.put('/:id/publish', requireAdmin, publishPost);
+router.put('/:id/archive', requireAdmin, archivePost);
+router.put('/:id/unpublish', requireAdmin, unpublishPost);
+router.post('/categories', requireAdmin, createBlogCategory);
+router.delete('/categories/:id', requireAdmin, deleteBlogCategory);
+
+// Published post by slug; registered last so it does not shadow the routes above
+router.get('/:slug', getPublishedPost);
+
+export default router;
@@ -1,7 +1,8 @@
 // src/routes/booking.ts
 import { Router } from 'express';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireRole, requireVerifiedEmail } from '../middleware/auth';
 import { 
+  getBookingQuote,
   createBooking,
   updateBookingStatus,
   markBookingCompletion,
@@ -27,7 +28,8 @@ const router = Router();
 router.use(authenticateToken);
 
 // Simple routes
-router.post('/', createBooking);
+router.post('/quote', getBookingQuote);
+router.post('/', requireVerifiedEmail('bookings'), createBooking);
 router.get('/my-bookings', getMyBookings);
 
 // Routes with ownership validation
@@ -66,7 +68,7 @@ router.post(
 
 router.put(
   '/:id/resolve-dispute', 
-  validateBookingOwnership,         // First verify ownership
+  requireRole('admin'),             // Only administrators resolve disputes
   resolveDispute                    // Resolve the dispute
 );
 
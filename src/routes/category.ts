@@ -7,7 +7,7 @@ import {
   updateCategory, 
   deleteCategory 
 } from '../controllers/category/categoryController';
-import { authenticateToken } from '../middleware/auth';
+import { requireRole } from '../middleware/auth';
 
 const router = Router();
 
@@ -16,7 +16,7 @@ router.get('/', getCategories);
 router.get('/:id', getCategory);
 
 // Protected routes (admin only)
-router.use(authenticateToken);
+router.use(requireRole('admin'));
 router.post('/', createCategory);
 router.put('/:id', updateCategory);
 router.delete('/:id', deleteCategory);
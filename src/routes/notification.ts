@@ -0,0 +1,19 @@
+// src/routes/notification.ts
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead
+} from '../controllers/notification/notificationController';
+
+const router = Router();
+
+// All notification routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getNotifications);
+router.put('/read-all', markAllNotificationsRead);
+router.put('/:id/read', markNotificationRead);
+
+export default router;
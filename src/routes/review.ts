@@ -1,10 +1,13 @@
 // src/routes/review.ts
 import { Router } from 'express';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { uploadMiddleware } from '../middleware/upload';
 import { 
   createReview, 
   getServiceReviews, 
-  getProviderReviews 
+  getProviderReviews,
+  replyToReview,
+  reportReview
 } from '../controllers/review/reviewController';
 import {
   validateReviewEligibility,
@@ -23,10 +26,14 @@ router.use(authenticateToken);
 
 // Apply validation middleware in the correct order
 router.post('/', 
+  uploadMiddleware,             // Parse the optional photos of the job
   validateReviewInput,          // First validate inputs
   validateReviewEligibility,    // Then check eligibility 
   detectReviewManipulation,     // Then detect manipulation attempts
   createReview                  // Finally create the review
 );
 
+router.post('/:id/reply', requireRole('provider'), replyToReview);
+router.post('/:id/report', requireRole('customer', 'provider'), reportReview);
+
 export default router;
\ No newline at end of file
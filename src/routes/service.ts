@@ -1,7 +1,7 @@
 // src/routes/service.ts
 import { Router } from 'express';
 import { Request, Response, NextFunction } from 'express';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireVerifiedEmail } from '../middleware/auth';
 import { uploadMiddleware } from '../middleware/upload';
 import {
   createService, 
@@ -11,6 +11,8 @@ import {
   getProviderServices,
   getServices
 } from '../controllers/service/serviceController';
+import { getServiceAvailability } from '../controllers/availability/availabilityController';
+import { getServiceCoverage, updateServiceCoverage } from '../controllers/service/coverageController';
 import { ServiceRequest } from '../types/middleware';
 
 const router = Router();
@@ -35,8 +37,11 @@ router.use(authenticateToken);
 // Service routes
 router.get('/provider', handleServiceRequest(getProviderServices));
 router.get('/', handleServiceRequest(getServices));
-router.post('/', uploadMiddleware, handleServiceRequest(createService));
+router.post('/', requireVerifiedEmail('services'), uploadMiddleware, handleServiceRequest(createService));
 router.get('/:id', handleServiceRequest(getService));
+router.get('/:id/availability', handleServiceRequest(getServiceAvailability));
+router.get('/:id/coverage', handleServiceRequest(getServiceCoverage));
+router.put('/:id/coverage', handleServiceRequest(updateServiceCoverage));
 router.put('/:id', uploadMiddleware, handleServiceRequest(updateService));
 router.delete('/:id', handleServiceRequest(deleteService));
 
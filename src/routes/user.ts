@@ -8,7 +8,10 @@ import {
   deleteAccount,
   getUserStats,
   updateSecuritySettings,
-  updateNotificationSettings
+  updateNotificationSettings,
+  getSessions,
+  revokeSession,
+  getPenalties
 } from '../controllers/user/userController';
 
 const router = Router();
@@ -22,9 +25,14 @@ router.put('/profile', updateProfile);
 router.post('/upgrade-to-provider', upgradeToProvider);
 router.delete('/account', deleteAccount);
 router.get('/stats', getUserStats);
+router.get('/penalties', getPenalties);
 
 // Settings routes
 router.put('/settings/security', updateSecuritySettings);
 router.put('/settings/notifications', updateNotificationSettings);
 
+// Session management
+router.get('/sessions', getSessions);
+router.delete('/sessions/:id', revokeSession);
+
 export default router;
\ No newline at end of file
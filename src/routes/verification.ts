@@ -0,0 +1,19 @@
+// src/routes/verification.ts
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { documentUploadMiddleware } from '../middleware/upload';
+import {
+  submitVerification,
+  getMyVerification
+} from '../controllers/verification/verificationController';
+
+const router = Router();
+
+// All verification routes require authentication
+router.use(authenticateToken);
+
+// Provider verification routes
+router.get('/', getMyVerification);
+router.post('/', documentUploadMiddleware, submitVerification);
+
+export default router;
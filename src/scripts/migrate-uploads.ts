@@ -0,0 +1,43 @@
+// src/scripts/migrate-uploads.ts
+// Moves service and review images from the local uploads directory to the configured storage backend
+// Usage: npm run migrate-uploads -- [--dry-run] [--delete-local]
+import prisma from '../config/prisma';
+import { LocalStorageService, storage, storageConfig } from '../config/storage.config';
+import { migrateLocalUploads } from '../services/uploadMigrationService';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const deleteSource = args.includes('--delete-local');
+
+  if (storageConfig.driver === 'local') {
+    throw new Error('Set STORAGE_DRIVER to the backend to migrate to; uploads are already stored locally');
+  }
+
+  console.log(`Migrating local uploads to ${storageConfig.driver}${dryRun ? ' (dry run)' : ''}...`);
+
+  const result = await migrateLocalUploads({
+    source: new LocalStorageService(),
+    target: storage,
+    dryRun,
+    deleteSource
+  });
+
+  console.log(`${dryRun ? 'Would migrate' : 'Migrated'} ${result.files} files of ${result.images} images`);
+  for (const failure of result.failed) {
+    console.error(`${failure.model} ${failure.imageId}: could not migrate ${failure.url}: ${failure.error}`);
+  }
+
+  if (result.failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('Failed to migrate uploads:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
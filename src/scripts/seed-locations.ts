@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { geocodeCity } from '../services/geoService';
 
 const prisma = new PrismaClient();
 
@@ -71,278 +72,278 @@ async function main() {
       console.log(`Region created: ${stateObj.name} with ID: ${stateObj.id}`);
     }
 
-    // Cities data by region with postal codes
+    // Cities data by region with postal codes and approximate centre coordinates
     const citiesData = [
       // Blagoevgrad region
-      { name: 'Blagoevgrad', nameBg: 'Благоевград', state: 'Blagoevgrad', postalCode: '2700' },
-      { name: 'Bansko', nameBg: 'Банско', state: 'Blagoevgrad', postalCode: '2770' },
-      { name: 'Petrich', nameBg: 'Петрич', state: 'Blagoevgrad', postalCode: '2850' },
-      { name: 'Sandanski', nameBg: 'Сандански', state: 'Blagoevgrad', postalCode: '2800' },
-      { name: 'Razlog', nameBg: 'Разлог', state: 'Blagoevgrad', postalCode: '2760' },
-      { name: 'Gotse Delchev', nameBg: 'Гоце Делчев', state: 'Blagoevgrad', postalCode: '2900' },
-      { name: 'Simitli', nameBg: 'Симитли', state: 'Blagoevgrad', postalCode: '2730' },
-      { name: 'Kresna', nameBg: 'Кресна', state: 'Blagoevgrad', postalCode: '2840' },
-      { name: 'Yakoruda', nameBg: 'Якоруда', state: 'Blagoevgrad', postalCode: '2790' },
-      { name: 'Belitsa', nameBg: 'Белица', state: 'Blagoevgrad', postalCode: '2780' },
-      { name: 'Dobrinishte', nameBg: 'Добринище', state: 'Blagoevgrad', postalCode: '2777' },
+      { name: 'Blagoevgrad', nameBg: 'Благоевград', state: 'Blagoevgrad', postalCode: '2700', lat: 42.02, lng: 23.10 },
+      { name: 'Bansko', nameBg: 'Банско', state: 'Blagoevgrad', postalCode: '2770', lat: 41.84, lng: 23.49 },
+      { name: 'Petrich', nameBg: 'Петрич', state: 'Blagoevgrad', postalCode: '2850', lat: 41.40, lng: 23.21 },
+      { name: 'Sandanski', nameBg: 'Сандански', state: 'Blagoevgrad', postalCode: '2800', lat: 41.57, lng: 23.28 },
+      { name: 'Razlog', nameBg: 'Разлог', state: 'Blagoevgrad', postalCode: '2760', lat: 41.89, lng: 23.47 },
+      { name: 'Gotse Delchev', nameBg: 'Гоце Делчев', state: 'Blagoevgrad', postalCode: '2900', lat: 41.57, lng: 23.73 },
+      { name: 'Simitli', nameBg: 'Симитли', state: 'Blagoevgrad', postalCode: '2730', lat: 41.89, lng: 23.11 },
+      { name: 'Kresna', nameBg: 'Кресна', state: 'Blagoevgrad', postalCode: '2840', lat: 41.73, lng: 23.16 },
+      { name: 'Yakoruda', nameBg: 'Якоруда', state: 'Blagoevgrad', postalCode: '2790', lat: 42.03, lng: 23.68 },
+      { name: 'Belitsa', nameBg: 'Белица', state: 'Blagoevgrad', postalCode: '2780', lat: 41.95, lng: 23.57 },
+      { name: 'Dobrinishte', nameBg: 'Добринище', state: 'Blagoevgrad', postalCode: '2777', lat: 41.82, lng: 23.56 },
       
       // Burgas region
-      { name: 'Burgas', nameBg: 'Бургас', state: 'Burgas', postalCode: '8000' },
-      { name: 'Nesebar', nameBg: 'Несебър', state: 'Burgas', postalCode: '8230' },
-      { name: 'Pomorie', nameBg: 'Поморие', state: 'Burgas', postalCode: '8200' },
-      { name: 'Sozopol', nameBg: 'Созопол', state: 'Burgas', postalCode: '8130' },
-      { name: 'Karnobat', nameBg: 'Карнобат', state: 'Burgas', postalCode: '8400' },
-      { name: 'Sunny Beach', nameBg: 'Слънчев бряг', state: 'Burgas', postalCode: '8240' },
-      { name: 'Primorsko', nameBg: 'Приморско', state: 'Burgas', postalCode: '8290' },
-      { name: 'Ahtopol', nameBg: 'Ахтопол', state: 'Burgas', postalCode: '8280' },
-      { name: 'Aheloy', nameBg: 'Ахелой', state: 'Burgas', postalCode: '8217' },
-      { name: 'Ravda', nameBg: 'Равда', state: 'Burgas', postalCode: '8238' },
-      { name: 'Sveti Vlas', nameBg: 'Свети Влас', state: 'Burgas', postalCode: '8256' },
-      { name: 'Obzor', nameBg: 'Обзор', state: 'Burgas', postalCode: '8250' },
-      { name: 'Tsarevo', nameBg: 'Царево', state: 'Burgas', postalCode: '8260' },
-      { name: 'Lozenets', nameBg: 'Лозенец', state: 'Burgas', postalCode: '8277' },
-      { name: 'Chernomorets', nameBg: 'Черноморец', state: 'Burgas', postalCode: '8142' },
-      { name: 'Sinemorets', nameBg: 'Синеморец', state: 'Burgas', postalCode: '8279' },
-      { name: 'Kiten', nameBg: 'Китен', state: 'Burgas', postalCode: '8183' },
-      { name: 'Aytos', nameBg: 'Айтос', state: 'Burgas', postalCode: '8500' },
-      { name: 'Malko Tarnovo', nameBg: 'Малко Търново', state: 'Burgas', postalCode: '8162' },
-      { name: 'Sredets', nameBg: 'Средец', state: 'Burgas', postalCode: '8300' },
-      { name: 'Kameno', nameBg: 'Камено', state: 'Burgas', postalCode: '8120' },
-      { name: 'Sungurlare', nameBg: 'Сунгурларе', state: 'Burgas', postalCode: '8470' },
-      { name: 'Ruen', nameBg: 'Руен', state: 'Burgas', postalCode: '8540' },
-      { name: 'Sarafovo', nameBg: 'Сарафово', state: 'Burgas', postalCode: '8015' },
-      { name: 'Duni', nameBg: 'Дюни', state: 'Burgas', postalCode: '8133' },
-      { name: 'Dyulevo', nameBg: 'Дюлево', state: 'Burgas', postalCode: '8239' },
+      { name: 'Burgas', nameBg: 'Бургас', state: 'Burgas', postalCode: '8000', lat: 42.50, lng: 27.47 },
+      { name: 'Nesebar', nameBg: 'Несебър', state: 'Burgas', postalCode: '8230', lat: 42.66, lng: 27.73 },
+      { name: 'Pomorie', nameBg: 'Поморие', state: 'Burgas', postalCode: '8200', lat: 42.56, lng: 27.64 },
+      { name: 'Sozopol', nameBg: 'Созопол', state: 'Burgas', postalCode: '8130', lat: 42.42, lng: 27.70 },
+      { name: 'Karnobat', nameBg: 'Карнобат', state: 'Burgas', postalCode: '8400', lat: 42.65, lng: 26.98 },
+      { name: 'Sunny Beach', nameBg: 'Слънчев бряг', state: 'Burgas', postalCode: '8240', lat: 42.69, lng: 27.71 },
+      { name: 'Primorsko', nameBg: 'Приморско', state: 'Burgas', postalCode: '8290', lat: 42.27, lng: 27.76 },
+      { name: 'Ahtopol', nameBg: 'Ахтопол', state: 'Burgas', postalCode: '8280', lat: 42.10, lng: 27.94 },
+      { name: 'Aheloy', nameBg: 'Ахелой', state: 'Burgas', postalCode: '8217', lat: 42.65, lng: 27.65 },
+      { name: 'Ravda', nameBg: 'Равда', state: 'Burgas', postalCode: '8238', lat: 42.64, lng: 27.68 },
+      { name: 'Sveti Vlas', nameBg: 'Свети Влас', state: 'Burgas', postalCode: '8256', lat: 42.71, lng: 27.76 },
+      { name: 'Obzor', nameBg: 'Обзор', state: 'Burgas', postalCode: '8250', lat: 42.82, lng: 27.88 },
+      { name: 'Tsarevo', nameBg: 'Царево', state: 'Burgas', postalCode: '8260', lat: 42.17, lng: 27.85 },
+      { name: 'Lozenets', nameBg: 'Лозенец', state: 'Burgas', postalCode: '8277', lat: 42.21, lng: 27.81 },
+      { name: 'Chernomorets', nameBg: 'Черноморец', state: 'Burgas', postalCode: '8142', lat: 42.44, lng: 27.64 },
+      { name: 'Sinemorets', nameBg: 'Синеморец', state: 'Burgas', postalCode: '8279', lat: 42.06, lng: 27.98 },
+      { name: 'Kiten', nameBg: 'Китен', state: 'Burgas', postalCode: '8183', lat: 42.23, lng: 27.78 },
+      { name: 'Aytos', nameBg: 'Айтос', state: 'Burgas', postalCode: '8500', lat: 42.70, lng: 27.25 },
+      { name: 'Malko Tarnovo', nameBg: 'Малко Търново', state: 'Burgas', postalCode: '8162', lat: 41.98, lng: 27.53 },
+      { name: 'Sredets', nameBg: 'Средец', state: 'Burgas', postalCode: '8300', lat: 42.35, lng: 27.18 },
+      { name: 'Kameno', nameBg: 'Камено', state: 'Burgas', postalCode: '8120', lat: 42.57, lng: 27.30 },
+      { name: 'Sungurlare', nameBg: 'Сунгурларе', state: 'Burgas', postalCode: '8470', lat: 42.77, lng: 26.78 },
+      { name: 'Ruen', nameBg: 'Руен', state: 'Burgas', postalCode: '8540', lat: 42.80, lng: 27.28 },
+      { name: 'Sarafovo', nameBg: 'Сарафово', state: 'Burgas', postalCode: '8015', lat: 42.56, lng: 27.52 },
+      { name: 'Duni', nameBg: 'Дюни', state: 'Burgas', postalCode: '8133', lat: 42.35, lng: 27.72 },
+      { name: 'Dyulevo', nameBg: 'Дюлево', state: 'Burgas', postalCode: '8239', lat: 42.37, lng: 27.17 },
       
       // Dobrich region
-      { name: 'Tervel', nameBg: 'Тервел', state: 'Dobrich', postalCode: '9450' },
-      { name: 'Krushari', nameBg: 'Крушари', state: 'Dobrich', postalCode: '9410' },
-      { name: 'Dobrich', nameBg: 'Добрич', state: 'Dobrich', postalCode: '9300' },
-      { name: 'Balchik', nameBg: 'Балчик', state: 'Dobrich', postalCode: '9600' },
-      { name: 'Kavarna', nameBg: 'Каварна', state: 'Dobrich', postalCode: '9650' },
-      { name: 'Shabla', nameBg: 'Шабла', state: 'Dobrich', postalCode: '9680' },
-      { name: 'General Toshevo', nameBg: 'Генерал Тошево', state: 'Dobrich', postalCode: '9500' },
-      { name: 'Durankulak', nameBg: 'Дуранкулак', state: 'Dobrich', postalCode: '9670' },
-      { name: 'Ezerets', nameBg: 'Езерец', state: 'Dobrich', postalCode: '9683' },
+      { name: 'Tervel', nameBg: 'Тервел', state: 'Dobrich', postalCode: '9450', lat: 43.75, lng: 27.41 },
+      { name: 'Krushari', nameBg: 'Крушари', state: 'Dobrich', postalCode: '9410', lat: 43.82, lng: 27.75 },
+      { name: 'Dobrich', nameBg: 'Добрич', state: 'Dobrich', postalCode: '9300', lat: 43.57, lng: 27.83 },
+      { name: 'Balchik', nameBg: 'Балчик', state: 'Dobrich', postalCode: '9600', lat: 43.41, lng: 28.16 },
+      { name: 'Kavarna', nameBg: 'Каварна', state: 'Dobrich', postalCode: '9650', lat: 43.43, lng: 28.34 },
+      { name: 'Shabla', nameBg: 'Шабла', state: 'Dobrich', postalCode: '9680', lat: 43.54, lng: 28.53 },
+      { name: 'General Toshevo', nameBg: 'Генерал Тошево', state: 'Dobrich', postalCode: '9500', lat: 43.70, lng: 28.04 },
+      { name: 'Durankulak', nameBg: 'Дуранкулак', state: 'Dobrich', postalCode: '9670', lat: 43.69, lng: 28.53 },
+      { name: 'Ezerets', nameBg: 'Езерец', state: 'Dobrich', postalCode: '9683', lat: 43.59, lng: 28.56 },
       
       // Gabrovo region
-      { name: 'Gabrovo', nameBg: 'Габрово', state: 'Gabrovo', postalCode: '5300' },
-      { name: 'Sevlievo', nameBg: 'Севлиево', state: 'Gabrovo', postalCode: '5400' },
-      { name: 'Dryanovo', nameBg: 'Дряново', state: 'Gabrovo', postalCode: '5370' },
-      { name: 'Tryavna', nameBg: 'Трявна', state: 'Gabrovo', postalCode: '5350' },
-      { name: 'Plachkovtsi', nameBg: 'Плачковци', state: 'Gabrovo', postalCode: '5360' },
-      { name: 'Kran', nameBg: 'Кран', state: 'Gabrovo', postalCode: '5347' },
+      { name: 'Gabrovo', nameBg: 'Габрово', state: 'Gabrovo', postalCode: '5300', lat: 42.87, lng: 25.32 },
+      { name: 'Sevlievo', nameBg: 'Севлиево', state: 'Gabrovo', postalCode: '5400', lat: 43.03, lng: 25.10 },
+      { name: 'Dryanovo', nameBg: 'Дряново', state: 'Gabrovo', postalCode: '5370', lat: 42.98, lng: 25.48 },
+      { name: 'Tryavna', nameBg: 'Трявна', state: 'Gabrovo', postalCode: '5350', lat: 42.87, lng: 25.49 },
+      { name: 'Plachkovtsi', nameBg: 'Плачковци', state: 'Gabrovo', postalCode: '5360', lat: 42.81, lng: 25.48 },
+      { name: 'Kran', nameBg: 'Кран', state: 'Gabrovo', postalCode: '5347', lat: 42.65, lng: 25.39 },
       
       // Haskovo region
-      { name: 'Simeonovgrad', nameBg: 'Симеоновград', state: 'Haskovo', postalCode: '6490' },
-      { name: 'Lyubimets', nameBg: 'Любимец', state: 'Haskovo', postalCode: '6550' },
-      { name: 'Madzharovo', nameBg: 'Маджарово', state: 'Haskovo', postalCode: '6480' },
-      { name: 'Topolovgrad', nameBg: 'Тополовград', state: 'Haskovo', postalCode: '6560' },
-      { name: 'Stambolovo', nameBg: 'Стамболово', state: 'Haskovo', postalCode: '6362' },
-      { name: 'Mineralni Bani', nameBg: 'Минерални Бани', state: 'Haskovo', postalCode: '6343' },
+      { name: 'Simeonovgrad', nameBg: 'Симеоновград', state: 'Haskovo', postalCode: '6490', lat: 42.03, lng: 25.83 },
+      { name: 'Lyubimets', nameBg: 'Любимец', state: 'Haskovo', postalCode: '6550', lat: 41.84, lng: 26.08 },
+      { name: 'Madzharovo', nameBg: 'Маджарово', state: 'Haskovo', postalCode: '6480', lat: 41.64, lng: 25.86 },
+      { name: 'Topolovgrad', nameBg: 'Тополовград', state: 'Haskovo', postalCode: '6560', lat: 42.09, lng: 26.34 },
+      { name: 'Stambolovo', nameBg: 'Стамболово', state: 'Haskovo', postalCode: '6362', lat: 41.80, lng: 25.63 },
+      { name: 'Mineralni Bani', nameBg: 'Минерални Бани', state: 'Haskovo', postalCode: '6343', lat: 41.93, lng: 25.34 },
       
       // Kardzhali region
-      { name: 'Kardzhali', nameBg: 'Кърджали', state: 'Kardzhali', postalCode: '6600' },
-      { name: 'Momchilgrad', state: 'Kardzhali', postalCode: '6800' },
-      { name: 'Krumovgrad', state: 'Kardzhali', postalCode: '6900' },
-      { name: 'Ardino', state: 'Kardzhali', postalCode: '6750' },
+      { name: 'Kardzhali', nameBg: 'Кърджали', state: 'Kardzhali', postalCode: '6600', lat: 41.65, lng: 25.37 },
+      { name: 'Momchilgrad', state: 'Kardzhali', postalCode: '6800', lat: 41.53, lng: 25.41 },
+      { name: 'Krumovgrad', state: 'Kardzhali', postalCode: '6900', lat: 41.47, lng: 25.65 },
+      { name: 'Ardino', state: 'Kardzhali', postalCode: '6750', lat: 41.58, lng: 25.14 },
       
       // Kyustendil region
-      { name: 'Kyustendil', nameBg: 'Кюстендил', state: 'Kyustendil', postalCode: '2500' },
-      { name: 'Dupnitsa', state: 'Kyustendil', postalCode: '2600' },
-      { name: 'Bobov Dol', state: 'Kyustendil', postalCode: '2670' },
-      { name: 'Sapareva Banya', state: 'Kyustendil', postalCode: '2650' },
+      { name: 'Kyustendil', nameBg: 'Кюстендил', state: 'Kyustendil', postalCode: '2500', lat: 42.28, lng: 22.69 },
+      { name: 'Dupnitsa', state: 'Kyustendil', postalCode: '2600', lat: 42.26, lng: 23.12 },
+      { name: 'Bobov Dol', state: 'Kyustendil', postalCode: '2670', lat: 42.36, lng: 23.00 },
+      { name: 'Sapareva Banya', state: 'Kyustendil', postalCode: '2650', lat: 42.29, lng: 23.26 },
       
       // Lovech region
-      { name: 'Lovech', nameBg: 'Ловеч', state: 'Lovech', postalCode: '5500' },
-      { name: 'Troyan', state: 'Lovech', postalCode: '5600' },
-      { name: 'Teteven', state: 'Lovech', postalCode: '5700' },
-      { name: 'Lukovit', state: 'Lovech', postalCode: '5770' },
+      { name: 'Lovech', nameBg: 'Ловеч', state: 'Lovech', postalCode: '5500', lat: 43.14, lng: 24.72 },
+      { name: 'Troyan', state: 'Lovech', postalCode: '5600', lat: 42.89, lng: 24.71 },
+      { name: 'Teteven', state: 'Lovech', postalCode: '5700', lat: 42.92, lng: 24.26 },
+      { name: 'Lukovit', state: 'Lovech', postalCode: '5770', lat: 43.21, lng: 24.16 },
       
       // Montana region
-      { name: 'Montana', nameBg: 'Монтана', state: 'Montana', postalCode: '3400' },
-      { name: 'Lom', state: 'Montana', postalCode: '3600' },
-      { name: 'Berkovitsa', state: 'Montana', postalCode: '3500' },
-      { name: 'Chiprovtsi', state: 'Montana', postalCode: '3460' },
+      { name: 'Montana', nameBg: 'Монтана', state: 'Montana', postalCode: '3400', lat: 43.41, lng: 23.23 },
+      { name: 'Lom', state: 'Montana', postalCode: '3600', lat: 43.82, lng: 23.24 },
+      { name: 'Berkovitsa', state: 'Montana', postalCode: '3500', lat: 43.24, lng: 23.13 },
+      { name: 'Chiprovtsi', state: 'Montana', postalCode: '3460', lat: 43.38, lng: 22.88 },
       
       // Pazardzhik region
-      { name: 'Pazardzhik', nameBg: 'Пазарджик', state: 'Pazardzhik', postalCode: '4400' },
-      { name: 'Velingrad', state: 'Pazardzhik', postalCode: '4600' },
-      { name: 'Panagyurishte', state: 'Pazardzhik', postalCode: '4500' },
-      { name: 'Septemvri', state: 'Pazardzhik', postalCode: '4490' },
-      { name: 'Batak', state: 'Pazardzhik', postalCode: '4580' },
+      { name: 'Pazardzhik', nameBg: 'Пазарджик', state: 'Pazardzhik', postalCode: '4400', lat: 42.19, lng: 24.33 },
+      { name: 'Velingrad', state: 'Pazardzhik', postalCode: '4600', lat: 42.03, lng: 23.99 },
+      { name: 'Panagyurishte', state: 'Pazardzhik', postalCode: '4500', lat: 42.51, lng: 24.19 },
+      { name: 'Septemvri', state: 'Pazardzhik', postalCode: '4490', lat: 42.22, lng: 24.13 },
+      { name: 'Batak', state: 'Pazardzhik', postalCode: '4580', lat: 41.94, lng: 24.22 },
       
       // Pernik region
-      { name: 'Pernik', nameBg: 'Перник', state: 'Pernik', postalCode: '2300' },
-      { name: 'Radomir', state: 'Pernik', postalCode: '2400' },
-      { name: 'Breznik', state: 'Pernik', postalCode: '2360' },
-      { name: 'Tran', state: 'Pernik', postalCode: '2460' },
+      { name: 'Pernik', nameBg: 'Перник', state: 'Pernik', postalCode: '2300', lat: 42.61, lng: 23.03 },
+      { name: 'Radomir', state: 'Pernik', postalCode: '2400', lat: 42.55, lng: 22.96 },
+      { name: 'Breznik', state: 'Pernik', postalCode: '2360', lat: 42.74, lng: 22.91 },
+      { name: 'Tran', state: 'Pernik', postalCode: '2460', lat: 42.84, lng: 22.65 },
       
       // Pleven region
-      { name: 'Pleven', nameBg: 'Плевен', state: 'Pleven', postalCode: '5800' },
-      { name: 'Levski', state: 'Pleven', postalCode: '5900' },
-      { name: 'Cherven Bryag', state: 'Pleven', postalCode: '5980' },
-      { name: 'Belene', state: 'Pleven', postalCode: '5930' },
-      { name: 'Knezha', state: 'Pleven', postalCode: '5835' },
+      { name: 'Pleven', nameBg: 'Плевен', state: 'Pleven', postalCode: '5800', lat: 43.42, lng: 24.61 },
+      { name: 'Levski', state: 'Pleven', postalCode: '5900', lat: 43.37, lng: 25.14 },
+      { name: 'Cherven Bryag', state: 'Pleven', postalCode: '5980', lat: 43.28, lng: 24.10 },
+      { name: 'Belene', state: 'Pleven', postalCode: '5930', lat: 43.65, lng: 25.13 },
+      { name: 'Knezha', state: 'Pleven', postalCode: '5835', lat: 43.50, lng: 24.08 },
       
       // Plovdiv region
-      { name: 'Plovdiv', nameBg: 'Пловдив', state: 'Plovdiv', postalCode: '4000' },
-      { name: 'Asenovgrad', state: 'Plovdiv', postalCode: '4230' },
-      { name: 'Karlovo', state: 'Plovdiv', postalCode: '4300' },
-      { name: 'Sopot', state: 'Plovdiv', postalCode: '4330' },
-      { name: 'Hisarya', state: 'Plovdiv', postalCode: '4180' },
-      { name: 'Stamboliyski', nameBg: 'Стамболийски', state: 'Plovdiv', postalCode: '4210' },
-      { name: 'Perushtitsa', nameBg: 'Перущица', state: 'Plovdiv', postalCode: '4225' },
-      { name: 'Krichim', nameBg: 'Кричим', state: 'Plovdiv', postalCode: '4220' },
-      { name: 'Rakovski', nameBg: 'Раковски', state: 'Plovdiv', postalCode: '4150' },
-      { name: 'Brezovo', nameBg: 'Брезово', state: 'Plovdiv', postalCode: '4160' },
-      { name: 'Sadovo', nameBg: 'Садово', state: 'Plovdiv', postalCode: '4122' },
-      { name: 'Kaloyanovo', nameBg: 'Калояново', state: 'Plovdiv', postalCode: '4173' },
-      { name: 'Saedinenie', nameBg: 'Съединение', state: 'Plovdiv', postalCode: '4190' },
+      { name: 'Plovdiv', nameBg: 'Пловдив', state: 'Plovdiv', postalCode: '4000', lat: 42.14, lng: 24.75 },
+      { name: 'Asenovgrad', state: 'Plovdiv', postalCode: '4230', lat: 42.01, lng: 24.87 },
+      { name: 'Karlovo', state: 'Plovdiv', postalCode: '4300', lat: 42.64, lng: 24.81 },
+      { name: 'Sopot', state: 'Plovdiv', postalCode: '4330', lat: 42.65, lng: 24.75 },
+      { name: 'Hisarya', state: 'Plovdiv', postalCode: '4180', lat: 42.50, lng: 24.70 },
+      { name: 'Stamboliyski', nameBg: 'Стамболийски', state: 'Plovdiv', postalCode: '4210', lat: 42.13, lng: 24.53 },
+      { name: 'Perushtitsa', nameBg: 'Перущица', state: 'Plovdiv', postalCode: '4225', lat: 42.06, lng: 24.55 },
+      { name: 'Krichim', nameBg: 'Кричим', state: 'Plovdiv', postalCode: '4220', lat: 42.05, lng: 24.47 },
+      { name: 'Rakovski', nameBg: 'Раковски', state: 'Plovdiv', postalCode: '4150', lat: 42.30, lng: 24.96 },
+      { name: 'Brezovo', nameBg: 'Брезово', state: 'Plovdiv', postalCode: '4160', lat: 42.35, lng: 25.08 },
+      { name: 'Sadovo', nameBg: 'Садово', state: 'Plovdiv', postalCode: '4122', lat: 42.13, lng: 24.94 },
+      { name: 'Kaloyanovo', nameBg: 'Калояново', state: 'Plovdiv', postalCode: '4173', lat: 42.36, lng: 24.73 },
+      { name: 'Saedinenie', nameBg: 'Съединение', state: 'Plovdiv', postalCode: '4190', lat: 42.27, lng: 24.55 },
       
       // Razgrad region
-      { name: 'Razgrad', nameBg: 'Разград', state: 'Razgrad', postalCode: '7200' },
-      { name: 'Isperih', state: 'Razgrad', postalCode: '7400' },
-      { name: 'Kubrat', state: 'Razgrad', postalCode: '7300' },
-      { name: 'Zavet', state: 'Razgrad', postalCode: '7330' },
+      { name: 'Razgrad', nameBg: 'Разград', state: 'Razgrad', postalCode: '7200', lat: 43.53, lng: 26.52 },
+      { name: 'Isperih', state: 'Razgrad', postalCode: '7400', lat: 43.72, lng: 26.83 },
+      { name: 'Kubrat', state: 'Razgrad', postalCode: '7300', lat: 43.80, lng: 26.50 },
+      { name: 'Zavet', state: 'Razgrad', postalCode: '7330', lat: 43.76, lng: 26.68 },
       
       // Ruse region
-      { name: 'Ruse', nameBg: 'Русе', state: 'Ruse', postalCode: '7000' },
-      { name: 'Byala', state: 'Ruse', postalCode: '7100' },
-      { name: 'Slivo Pole', state: 'Ruse', postalCode: '7060' },
-      { name: 'Borovo', state: 'Ruse', postalCode: '7174' },
-      { name: 'Dve Mogili', nameBg: 'Две Могили', state: 'Ruse', postalCode: '7150' },
-      { name: 'Vetovo', nameBg: 'Ветово', state: 'Ruse', postalCode: '7080' },
-      { name: 'Tsenovo', nameBg: 'Ценово', state: 'Ruse', postalCode: '7139' },
-      { name: 'Ivanovo', nameBg: 'Иваново', state: 'Ruse', postalCode: '7088' },
-      { name: 'Marten', nameBg: 'Мартен', state: 'Ruse', postalCode: '7040' },
-      { name: 'Nikolovo', nameBg: 'Николово', state: 'Ruse', postalCode: '7057' },
+      { name: 'Ruse', nameBg: 'Русе', state: 'Ruse', postalCode: '7000', lat: 43.85, lng: 25.96 },
+      { name: 'Byala', state: 'Ruse', postalCode: '7100', lat: 43.46, lng: 25.73 },
+      { name: 'Slivo Pole', state: 'Ruse', postalCode: '7060', lat: 43.94, lng: 26.21 },
+      { name: 'Borovo', state: 'Ruse', postalCode: '7174', lat: 43.43, lng: 25.81 },
+      { name: 'Dve Mogili', nameBg: 'Две Могили', state: 'Ruse', postalCode: '7150', lat: 43.59, lng: 25.88 },
+      { name: 'Vetovo', nameBg: 'Ветово', state: 'Ruse', postalCode: '7080', lat: 43.70, lng: 26.27 },
+      { name: 'Tsenovo', nameBg: 'Ценово', state: 'Ruse', postalCode: '7139', lat: 43.54, lng: 25.65 },
+      { name: 'Ivanovo', nameBg: 'Иваново', state: 'Ruse', postalCode: '7088', lat: 43.69, lng: 25.96 },
+      { name: 'Marten', nameBg: 'Мартен', state: 'Ruse', postalCode: '7040', lat: 43.92, lng: 26.08 },
+      { name: 'Nikolovo', nameBg: 'Николово', state: 'Ruse', postalCode: '7057', lat: 43.84, lng: 26.04 },
       
       // Shumen region
-      { name: 'Shumen', nameBg: 'Шумен', state: 'Shumen', postalCode: '9700' },
-      { name: 'Novi Pazar', state: 'Shumen', postalCode: '9900' },
-      { name: 'Veliki Preslav', state: 'Shumen', postalCode: '9850' },
-      { name: 'Kaspichan', state: 'Shumen', postalCode: '9930' },
+      { name: 'Shumen', nameBg: 'Шумен', state: 'Shumen', postalCode: '9700', lat: 43.27, lng: 26.93 },
+      { name: 'Novi Pazar', state: 'Shumen', postalCode: '9900', lat: 43.34, lng: 27.19 },
+      { name: 'Veliki Preslav', state: 'Shumen', postalCode: '9850', lat: 43.16, lng: 26.81 },
+      { name: 'Kaspichan', state: 'Shumen', postalCode: '9930', lat: 43.31, lng: 27.16 },
       
       // Silistra region
-      { name: 'Silistra', nameBg: 'Силистра', state: 'Silistra', postalCode: '7500' },
-      { name: 'Tutrakan', state: 'Silistra', postalCode: '7600' },
-      { name: 'Dulovo', state: 'Silistra', postalCode: '7650' },
-      { name: 'Glavinitsa', state: 'Silistra', postalCode: '7630' },
+      { name: 'Silistra', nameBg: 'Силистра', state: 'Silistra', postalCode: '7500', lat: 44.12, lng: 27.26 },
+      { name: 'Tutrakan', state: 'Silistra', postalCode: '7600', lat: 44.05, lng: 26.61 },
+      { name: 'Dulovo', state: 'Silistra', postalCode: '7650', lat: 43.82, lng: 27.14 },
+      { name: 'Glavinitsa', state: 'Silistra', postalCode: '7630', lat: 43.91, lng: 26.83 },
       
       // Sliven region
-      { name: 'Sliven', nameBg: 'Сливен', state: 'Sliven', postalCode: '8800' },
-      { name: 'Nova Zagora', state: 'Sliven', postalCode: '8900' },
-      { name: 'Kotel', state: 'Sliven', postalCode: '8970' },
-      { name: 'Tvarditsa', state: 'Sliven', postalCode: '8890' },
+      { name: 'Sliven', nameBg: 'Сливен', state: 'Sliven', postalCode: '8800', lat: 42.68, lng: 26.32 },
+      { name: 'Nova Zagora', state: 'Sliven', postalCode: '8900', lat: 42.49, lng: 26.01 },
+      { name: 'Kotel', state: 'Sliven', postalCode: '8970', lat: 42.89, lng: 26.45 },
+      { name: 'Tvarditsa', state: 'Sliven', postalCode: '8890', lat: 42.70, lng: 25.90 },
       
       // Smolyan region
-      { name: 'Smolyan', nameBg: 'Смолян', state: 'Smolyan', postalCode: '4700' },
-      { name: 'Chepelare', state: 'Smolyan', postalCode: '4850' },
-      { name: 'Devin', state: 'Smolyan', postalCode: '4800' },
-      { name: 'Zlatograd', state: 'Smolyan', postalCode: '4980' },
-      { name: 'Madan', state: 'Smolyan', postalCode: '4900' },
+      { name: 'Smolyan', nameBg: 'Смолян', state: 'Smolyan', postalCode: '4700', lat: 41.58, lng: 24.70 },
+      { name: 'Chepelare', state: 'Smolyan', postalCode: '4850', lat: 41.72, lng: 24.69 },
+      { name: 'Devin', state: 'Smolyan', postalCode: '4800', lat: 41.74, lng: 24.40 },
+      { name: 'Zlatograd', state: 'Smolyan', postalCode: '4980', lat: 41.38, lng: 25.09 },
+      { name: 'Madan', state: 'Smolyan', postalCode: '4900', lat: 41.50, lng: 24.94 },
       
       // Sofia-city region
-      { name: 'Sofia', nameBg: 'София', state: 'Sofia-city', postalCode: '1000' },
-      { name: 'Bankya', nameBg: 'Банкя', state: 'Sofia-city', postalCode: '1320' },
-      { name: 'Novi Iskar', nameBg: 'Нови Искър', state: 'Sofia-city', postalCode: '1280' },
-      { name: 'Bistritsa', nameBg: 'Бистрица', state: 'Sofia-city', postalCode: '1444' },
-      { name: 'Pancharevo', nameBg: 'Панчарево', state: 'Sofia-city', postalCode: '1137' },
-      { name: 'Boyana', nameBg: 'Бояна', state: 'Sofia-city', postalCode: '1616' },
-      { name: 'Lozenets', nameBg: 'Лозенец', state: 'Sofia-city', postalCode: '1407' },
-      { name: 'Mladost', nameBg: 'Младост', state: 'Sofia-city', postalCode: '1750' },
-      { name: 'Lyulin', nameBg: 'Люлин', state: 'Sofia-city', postalCode: '1336' },
-      { name: 'Druzhba', nameBg: 'Дружба', state: 'Sofia-city', postalCode: '1582' },
-      { name: 'Iztok', nameBg: 'Изток', state: 'Sofia-city', postalCode: '1113' },
-      { name: 'Manastirski Livadi', nameBg: 'Манастирски ливади', state: 'Sofia-city', postalCode: '1404' },
+      { name: 'Sofia', nameBg: 'София', state: 'Sofia-city', postalCode: '1000', lat: 42.70, lng: 23.32 },
+      { name: 'Bankya', nameBg: 'Банкя', state: 'Sofia-city', postalCode: '1320', lat: 42.71, lng: 23.15 },
+      { name: 'Novi Iskar', nameBg: 'Нови Искър', state: 'Sofia-city', postalCode: '1280', lat: 42.81, lng: 23.36 },
+      { name: 'Bistritsa', nameBg: 'Бистрица', state: 'Sofia-city', postalCode: '1444', lat: 42.59, lng: 23.36 },
+      { name: 'Pancharevo', nameBg: 'Панчарево', state: 'Sofia-city', postalCode: '1137', lat: 42.60, lng: 23.41 },
+      { name: 'Boyana', nameBg: 'Бояна', state: 'Sofia-city', postalCode: '1616', lat: 42.65, lng: 23.27 },
+      { name: 'Lozenets', nameBg: 'Лозенец', state: 'Sofia-city', postalCode: '1407', lat: 42.67, lng: 23.32 },
+      { name: 'Mladost', nameBg: 'Младост', state: 'Sofia-city', postalCode: '1750', lat: 42.65, lng: 23.38 },
+      { name: 'Lyulin', nameBg: 'Люлин', state: 'Sofia-city', postalCode: '1336', lat: 42.71, lng: 23.25 },
+      { name: 'Druzhba', nameBg: 'Дружба', state: 'Sofia-city', postalCode: '1582', lat: 42.66, lng: 23.40 },
+      { name: 'Iztok', nameBg: 'Изток', state: 'Sofia-city', postalCode: '1113', lat: 42.67, lng: 23.35 },
+      { name: 'Manastirski Livadi', nameBg: 'Манастирски ливади', state: 'Sofia-city', postalCode: '1404', lat: 42.67, lng: 23.29 },
       
       // Sofia province region
-      { name: 'Botevgrad', nameBg: 'Ботевград', state: 'Sofia-province', postalCode: '2140' },
-      { name: 'Samokov', nameBg: 'Самоков', state: 'Sofia-province', postalCode: '2000' },
-      { name: 'Svoge', nameBg: 'Своге', state: 'Sofia-province', postalCode: '2260' },
-      { name: 'Kostinbrod', nameBg: 'Костинброд', state: 'Sofia-province', postalCode: '2230' },
-      { name: 'Slivnitsa', nameBg: 'Сливница', state: 'Sofia-province', postalCode: '2200' },
-      { name: 'Elin Pelin', nameBg: 'Елин Пелин', state: 'Sofia-province', postalCode: '2100' },
-      { name: 'Pirdop', nameBg: 'Пирдоп', state: 'Sofia-province', postalCode: '2070' },
-      { name: 'Etropole', nameBg: 'Етрополе', state: 'Sofia-province', postalCode: '2180' },
-      { name: 'Buhovo', nameBg: 'Бухово', state: 'Sofia-province', postalCode: '1830' },
-      { name: 'Pravets', nameBg: 'Правец', state: 'Sofia-province', postalCode: '2161' },
-      { name: 'Zlatitsa', nameBg: 'Златица', state: 'Sofia-province', postalCode: '2080' },
-      { name: 'Koprivshtitsa', nameBg: 'Копривщица', state: 'Sofia-province', postalCode: '2077' },
-      { name: 'Dolna Banya', nameBg: 'Долна Баня', state: 'Sofia-province', postalCode: '2040' },
-      { name: 'Bov', nameBg: 'Бов', state: 'Sofia-province', postalCode: '2270' },
+      { name: 'Botevgrad', nameBg: 'Ботевград', state: 'Sofia-province', postalCode: '2140', lat: 42.91, lng: 23.79 },
+      { name: 'Samokov', nameBg: 'Самоков', state: 'Sofia-province', postalCode: '2000', lat: 42.34, lng: 23.56 },
+      { name: 'Svoge', nameBg: 'Своге', state: 'Sofia-province', postalCode: '2260', lat: 42.96, lng: 23.35 },
+      { name: 'Kostinbrod', nameBg: 'Костинброд', state: 'Sofia-province', postalCode: '2230', lat: 42.82, lng: 23.22 },
+      { name: 'Slivnitsa', nameBg: 'Сливница', state: 'Sofia-province', postalCode: '2200', lat: 42.85, lng: 23.04 },
+      { name: 'Elin Pelin', nameBg: 'Елин Пелин', state: 'Sofia-province', postalCode: '2100', lat: 42.67, lng: 23.60 },
+      { name: 'Pirdop', nameBg: 'Пирдоп', state: 'Sofia-province', postalCode: '2070', lat: 42.70, lng: 24.18 },
+      { name: 'Etropole', nameBg: 'Етрополе', state: 'Sofia-province', postalCode: '2180', lat: 42.83, lng: 24.00 },
+      { name: 'Buhovo', nameBg: 'Бухово', state: 'Sofia-province', postalCode: '1830', lat: 42.77, lng: 23.56 },
+      { name: 'Pravets', nameBg: 'Правец', state: 'Sofia-province', postalCode: '2161', lat: 42.89, lng: 23.92 },
+      { name: 'Zlatitsa', nameBg: 'Златица', state: 'Sofia-province', postalCode: '2080', lat: 42.71, lng: 24.14 },
+      { name: 'Koprivshtitsa', nameBg: 'Копривщица', state: 'Sofia-province', postalCode: '2077', lat: 42.64, lng: 24.36 },
+      { name: 'Dolna Banya', nameBg: 'Долна Баня', state: 'Sofia-province', postalCode: '2040', lat: 42.31, lng: 23.76 },
+      { name: 'Bov', nameBg: 'Бов', state: 'Sofia-province', postalCode: '2270', lat: 42.99, lng: 23.35 },
       
       // Stara Zagora region
-      { name: 'Stara Zagora', nameBg: 'Стара Загора', state: 'Stara Zagora', postalCode: '6000' },
-      { name: 'Kazanlak', state: 'Stara Zagora', postalCode: '6100' },
-      { name: 'Chirpan', state: 'Stara Zagora', postalCode: '6200' },
-      { name: 'Radnevo', state: 'Stara Zagora', postalCode: '6260' },
-      { name: 'Gurkovo', state: 'Stara Zagora', postalCode: '6199' },
-      { name: 'Pavel Banya', state: 'Stara Zagora', postalCode: '6155' },
+      { name: 'Stara Zagora', nameBg: 'Стара Загора', state: 'Stara Zagora', postalCode: '6000', lat: 42.43, lng: 25.64 },
+      { name: 'Kazanlak', state: 'Stara Zagora', postalCode: '6100', lat: 42.62, lng: 25.40 },
+      { name: 'Chirpan', state: 'Stara Zagora', postalCode: '6200', lat: 42.20, lng: 25.33 },
+      { name: 'Radnevo', state: 'Stara Zagora', postalCode: '6260', lat: 42.29, lng: 25.93 },
+      { name: 'Gurkovo', state: 'Stara Zagora', postalCode: '6199', lat: 42.66, lng: 25.80 },
+      { name: 'Pavel Banya', state: 'Stara Zagora', postalCode: '6155', lat: 42.60, lng: 25.20 },
       
       // Targovishte region
-      { name: 'Targovishte', nameBg: 'Търговище', state: 'Targovishte', postalCode: '7700' },
-      { name: 'Popovo', state: 'Targovishte', postalCode: '7800' },
-      { name: 'Omurtag', state: 'Targovishte', postalCode: '7900' },
-      { name: 'Antonovo', state: 'Targovishte', postalCode: '7970' },
+      { name: 'Targovishte', nameBg: 'Търговище', state: 'Targovishte', postalCode: '7700', lat: 43.25, lng: 26.57 },
+      { name: 'Popovo', state: 'Targovishte', postalCode: '7800', lat: 43.35, lng: 26.23 },
+      { name: 'Omurtag', state: 'Targovishte', postalCode: '7900', lat: 43.11, lng: 26.42 },
+      { name: 'Antonovo', state: 'Targovishte', postalCode: '7970', lat: 43.15, lng: 26.17 },
       
       // Varna region
-      { name: 'Varna', nameBg: 'Варна', state: 'Varna', postalCode: '9000' },
-      { name: 'Byala', nameBg: 'Бяла', state: 'Varna', postalCode: '9101' },
-      { name: 'Golden Sands', nameBg: 'Златни пясъци', state: 'Varna', postalCode: '9007' },
-      { name: 'Provadia', nameBg: 'Провадия', state: 'Varna', postalCode: '9200' },
-      { name: 'Devnya', nameBg: 'Девня', state: 'Varna', postalCode: '9160' },
-      { name: 'Aksakovo', nameBg: 'Аксаково', state: 'Varna', postalCode: '9154' },
-      { name: 'Sv. Sv. Konstantin i Elena', nameBg: 'Св. Св. Константин и Елена', state: 'Varna', postalCode: '9006' },
-      { name: 'Kavarna', nameBg: 'Каварна', state: 'Varna', postalCode: '9650' },
-      { name: 'Kranevo', nameBg: 'Кранево', state: 'Varna', postalCode: '9649' },
-      { name: 'Shkorpilovtsi', nameBg: 'Шкорпиловци', state: 'Varna', postalCode: '9110' },
-      { name: 'Kazashko', nameBg: 'Казашко', state: 'Varna', postalCode: '9023' },
-      { name: 'Asparuhovo', nameBg: 'Аспарухово', state: 'Varna', postalCode: '9003' },
-      { name: 'Dolni Chiflik', nameBg: 'Долни Чифлик', state: 'Varna', postalCode: '9120' },
-      { name: 'Dalgopol', nameBg: 'Дългопол', state: 'Varna', postalCode: '9250' },
-      { name: 'Suvorovo', nameBg: 'Суворово', state: 'Varna', postalCode: '9170' },
-      { name: 'Avren', nameBg: 'Аврен', state: 'Varna', postalCode: '9135' },
-      { name: 'Beloslav', nameBg: 'Белослав', state: 'Varna', postalCode: '9178' },
-      { name: 'Zvezditsa', nameBg: 'Звездица', state: 'Varna', postalCode: '9040' },
-      { name: 'Kamenar', nameBg: 'Каменар', state: 'Varna', postalCode: '9010' },
-      { name: 'Topoli', nameBg: 'Тополи', state: 'Varna', postalCode: '9109' },
+      { name: 'Varna', nameBg: 'Варна', state: 'Varna', postalCode: '9000', lat: 43.21, lng: 27.91 },
+      { name: 'Byala', nameBg: 'Бяла', state: 'Varna', postalCode: '9101', lat: 42.88, lng: 27.89 },
+      { name: 'Golden Sands', nameBg: 'Златни пясъци', state: 'Varna', postalCode: '9007', lat: 43.28, lng: 28.04 },
+      { name: 'Provadia', nameBg: 'Провадия', state: 'Varna', postalCode: '9200', lat: 43.18, lng: 27.44 },
+      { name: 'Devnya', nameBg: 'Девня', state: 'Varna', postalCode: '9160', lat: 43.22, lng: 27.57 },
+      { name: 'Aksakovo', nameBg: 'Аксаково', state: 'Varna', postalCode: '9154', lat: 43.26, lng: 27.82 },
+      { name: 'Sv. Sv. Konstantin i Elena', nameBg: 'Св. Св. Константин и Елена', state: 'Varna', postalCode: '9006', lat: 43.23, lng: 28.01 },
+      { name: 'Kavarna', nameBg: 'Каварна', state: 'Varna', postalCode: '9650', lat: 43.43, lng: 28.34 },
+      { name: 'Kranevo', nameBg: 'Кранево', state: 'Varna', postalCode: '9649', lat: 43.34, lng: 28.06 },
+      { name: 'Shkorpilovtsi', nameBg: 'Шкорпиловци', state: 'Varna', postalCode: '9110', lat: 42.96, lng: 27.88 },
+      { name: 'Kazashko', nameBg: 'Казашко', state: 'Varna', postalCode: '9023', lat: 43.20, lng: 27.79 },
+      { name: 'Asparuhovo', nameBg: 'Аспарухово', state: 'Varna', postalCode: '9003', lat: 43.18, lng: 27.90 },
+      { name: 'Dolni Chiflik', nameBg: 'Долни Чифлик', state: 'Varna', postalCode: '9120', lat: 42.99, lng: 27.72 },
+      { name: 'Dalgopol', nameBg: 'Дългопол', state: 'Varna', postalCode: '9250', lat: 43.05, lng: 27.35 },
+      { name: 'Suvorovo', nameBg: 'Суворово', state: 'Varna', postalCode: '9170', lat: 43.33, lng: 27.59 },
+      { name: 'Avren', nameBg: 'Аврен', state: 'Varna', postalCode: '9135', lat: 43.11, lng: 27.67 },
+      { name: 'Beloslav', nameBg: 'Белослав', state: 'Varna', postalCode: '9178', lat: 43.19, lng: 27.70 },
+      { name: 'Zvezditsa', nameBg: 'Звездица', state: 'Varna', postalCode: '9040', lat: 43.16, lng: 27.86 },
+      { name: 'Kamenar', nameBg: 'Каменар', state: 'Varna', postalCode: '9010', lat: 43.26, lng: 27.87 },
+      { name: 'Topoli', nameBg: 'Тополи', state: 'Varna', postalCode: '9109', lat: 43.21, lng: 27.81 },
       
       // Veliko Tarnovo region
-      { name: 'Veliko Tarnovo', nameBg: 'Велико Търново', state: 'Veliko Tarnovo', postalCode: '5000' },
-      { name: 'Gorna Oryahovitsa', state: 'Veliko Tarnovo', postalCode: '5100' },
-      { name: 'Svishtov', state: 'Veliko Tarnovo', postalCode: '5250' },
-      { name: 'Pavlikeni', state: 'Veliko Tarnovo', postalCode: '5200' },
-      { name: 'Elena', state: 'Veliko Tarnovo', postalCode: '5070' },
-      { name: 'Lyaskovets', state: 'Veliko Tarnovo', postalCode: '5140' },
-      { name: 'Polski Trambesh', nameBg: 'Полски Тръмбеш', state: 'Veliko Tarnovo', postalCode: '5180' },
-      { name: 'Strazhitsa', nameBg: 'Стражица', state: 'Veliko Tarnovo', postalCode: '5150' },
-      { name: 'Zlataritsa', nameBg: 'Златарица', state: 'Veliko Tarnovo', postalCode: '5090' },
-      { name: 'Suhindol', nameBg: 'Сухиндол', state: 'Veliko Tarnovo', postalCode: '5240' },
-      { name: 'Byala Cherkva', nameBg: 'Бяла Черква', state: 'Veliko Tarnovo', postalCode: '5220' },
-      { name: 'Debelets', nameBg: 'Дебелец', state: 'Veliko Tarnovo', postalCode: '5030' },
-      { name: 'Kilifarevo', nameBg: 'Килифарево', state: 'Veliko Tarnovo', postalCode: '5050' },
-      { name: 'Dolna Oryahovitsa', nameBg: 'Долна Оряховица', state: 'Veliko Tarnovo', postalCode: '5130' },
+      { name: 'Veliko Tarnovo', nameBg: 'Велико Търново', state: 'Veliko Tarnovo', postalCode: '5000', lat: 43.08, lng: 25.63 },
+      { name: 'Gorna Oryahovitsa', state: 'Veliko Tarnovo', postalCode: '5100', lat: 43.13, lng: 25.69 },
+      { name: 'Svishtov', state: 'Veliko Tarnovo', postalCode: '5250', lat: 43.62, lng: 25.35 },
+      { name: 'Pavlikeni', state: 'Veliko Tarnovo', postalCode: '5200', lat: 43.24, lng: 25.32 },
+      { name: 'Elena', state: 'Veliko Tarnovo', postalCode: '5070', lat: 42.93, lng: 25.88 },
+      { name: 'Lyaskovets', state: 'Veliko Tarnovo', postalCode: '5140', lat: 43.11, lng: 25.72 },
+      { name: 'Polski Trambesh', nameBg: 'Полски Тръмбеш', state: 'Veliko Tarnovo', postalCode: '5180', lat: 43.37, lng: 25.64 },
+      { name: 'Strazhitsa', nameBg: 'Стражица', state: 'Veliko Tarnovo', postalCode: '5150', lat: 43.23, lng: 25.97 },
+      { name: 'Zlataritsa', nameBg: 'Златарица', state: 'Veliko Tarnovo', postalCode: '5090', lat: 43.05, lng: 25.90 },
+      { name: 'Suhindol', nameBg: 'Сухиндол', state: 'Veliko Tarnovo', postalCode: '5240', lat: 43.19, lng: 25.18 },
+      { name: 'Byala Cherkva', nameBg: 'Бяла Черква', state: 'Veliko Tarnovo', postalCode: '5220', lat: 43.20, lng: 25.30 },
+      { name: 'Debelets', nameBg: 'Дебелец', state: 'Veliko Tarnovo', postalCode: '5030', lat: 43.04, lng: 25.62 },
+      { name: 'Kilifarevo', nameBg: 'Килифарево', state: 'Veliko Tarnovo', postalCode: '5050', lat: 42.99, lng: 25.63 },
+      { name: 'Dolna Oryahovitsa', nameBg: 'Долна Оряховица', state: 'Veliko Tarnovo', postalCode: '5130', lat: 43.16, lng: 25.74 },
       
       // Vidin region
-      { name: 'Vidin', nameBg: 'Видин', state: 'Vidin', postalCode: '3700' },
-      { name: 'Belogradchik', state: 'Vidin', postalCode: '3900' },
-      { name: 'Kula', state: 'Vidin', postalCode: '3800' },
-      { name: 'Dunavtsi', state: 'Vidin', postalCode: '3820' },
+      { name: 'Vidin', nameBg: 'Видин', state: 'Vidin', postalCode: '3700', lat: 43.99, lng: 22.88 },
+      { name: 'Belogradchik', state: 'Vidin', postalCode: '3900', lat: 43.63, lng: 22.68 },
+      { name: 'Kula', state: 'Vidin', postalCode: '3800', lat: 43.89, lng: 22.52 },
+      { name: 'Dunavtsi', state: 'Vidin', postalCode: '3820', lat: 43.92, lng: 22.82 },
       
       // Vratsa region
-      { name: 'Vratsa', nameBg: 'Враца', state: 'Vratsa', postalCode: '3000' },
-      { name: 'Mezdra', state: 'Vratsa', postalCode: '3100' },
-      { name: 'Kozloduy', state: 'Vratsa', postalCode: '3320' },
-      { name: 'Byala Slatina', state: 'Vratsa', postalCode: '3200' },
-      { name: 'Oryahovo', state: 'Vratsa', postalCode: '3300' },
+      { name: 'Vratsa', nameBg: 'Враца', state: 'Vratsa', postalCode: '3000', lat: 43.21, lng: 23.55 },
+      { name: 'Mezdra', state: 'Vratsa', postalCode: '3100', lat: 43.14, lng: 23.71 },
+      { name: 'Kozloduy', state: 'Vratsa', postalCode: '3320', lat: 43.78, lng: 23.73 },
+      { name: 'Byala Slatina', state: 'Vratsa', postalCode: '3200', lat: 43.47, lng: 23.94 },
+      { name: 'Oryahovo', state: 'Vratsa', postalCode: '3300', lat: 43.73, lng: 23.96 },
       
       // Yambol region
-      { name: 'Yambol', nameBg: 'Ямбол', state: 'Yambol', postalCode: '8600' },
-      { name: 'Elhovo', state: 'Yambol', postalCode: '8700' },
-      { name: 'Straldzha', state: 'Yambol', postalCode: '8680' },
-      { name: 'Bolyarovo', state: 'Yambol', postalCode: '8720' }
+      { name: 'Yambol', nameBg: 'Ямбол', state: 'Yambol', postalCode: '8600', lat: 42.48, lng: 26.50 },
+      { name: 'Elhovo', state: 'Yambol', postalCode: '8700', lat: 42.17, lng: 26.57 },
+      { name: 'Straldzha', state: 'Yambol', postalCode: '8680', lat: 42.60, lng: 26.69 },
+      { name: 'Bolyarovo', state: 'Yambol', postalCode: '8720', lat: 42.15, lng: 26.81 }
     ];
 
     // Process each city with the correct state ID
@@ -356,11 +357,13 @@ async function main() {
       }
 
       const city = await prisma.$queryRaw`
-        INSERT INTO "City" ("name", "nameBg", "stateId", "postalCode", "createdAt", "updatedAt")
-        VALUES (${cityData.name}, ${cityData.nameBg}, ${state.id}, ${cityData.postalCode}, NOW(), NOW())
+        INSERT INTO "City" ("name", "nameBg", "stateId", "postalCode", "latitude", "longitude", "createdAt", "updatedAt")
+        VALUES (${cityData.name}, ${cityData.nameBg}, ${state.id}, ${cityData.postalCode}, ${cityData.lat}, ${cityData.lng}, NOW(), NOW())
         ON CONFLICT ("name", "stateId") DO UPDATE
         SET "postalCode" = ${cityData.postalCode}, 
             "nameBg" = ${cityData.nameBg},
+            "latitude" = ${cityData.lat},
+            "longitude" = ${cityData.lng},
             "updatedAt" = NOW()
         RETURNING *
       `;
@@ -369,6 +372,23 @@ async function main() {
       console.log(`City created: ${cityObj.name} with postal code ${cityObj.postalCode}`);
     }
 
+    // Geocode services saved before their city had coordinates
+    console.log('Geocoding existing services...');
+    const services = await prisma.service.findMany({
+      where: { latitude: null, city: { not: null } },
+      select: { id: true, city: true, state: true, postalCode: true }
+    });
+
+    let geocoded = 0;
+    for (const service of services) {
+      const coordinates = await geocodeCity(service, prisma);
+      if (coordinates) {
+        await prisma.service.update({ where: { id: service.id }, data: coordinates });
+        geocoded++;
+      }
+    }
+    console.log(`Geocoded ${geocoded} of ${services.length} services`);
+
     console.log('Location data seeded successfully');
   } catch (error) {
     console.error('Error seeding location data:', error);
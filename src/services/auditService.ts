@@ -0,0 +1,37 @@
+// src/services/auditService.ts
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma';
+
+export type AuditTargetType = 'user' | 'service' | 'provider' | 'booking' | 'category' | 'exchange_rate'
+  | 'blog_post' | 'blog_category' | 'review';
+
+export interface AuditEntry {
+  action: string;
+  targetType: AuditTargetType;
+  targetId: number;
+  details?: Prisma.InputJsonValue;
+}
+
+/**
+ * Records an admin action in the audit log
+ * Pass the transaction client so the entry is only kept if the action succeeds
+ */
+export const recordAdminAction = async (
+  adminId: number,
+  entry: AuditEntry,
+  client: Prisma.TransactionClient = prisma
+) => {
+  return client.adminAuditLog.create({
+    data: {
+      adminId,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      details: entry.details
+    }
+  });
+};
+
+export default {
+  recordAdminAction
+};
@@ -0,0 +1,308 @@
+// src/services/availabilityService.ts
+import { BookingStatus, Prisma } from '@prisma/client';
+import prisma from '../config/prisma';
+import { ApiError } from '../middleware/error';
+import { availabilityConfig } from '../config/availability.config';
+import {
+  APP_TIMEZONE,
+  getZonedParts,
+  parseTimeOfDay,
+  toLocalDateKey,
+  zonedTimeToUtc
+} from '../utils/dateTime';
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface WeeklyHours {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface ScheduleException {
+  date: Date;
+  isAvailable: boolean;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+export interface SlotOptions {
+  intervals: TimeInterval[];
+  busy: TimeInterval[];
+  stepMinutes: number;
+  lengthMinutes: number;
+  from: Date;
+  to: Date;
+  earliestStart: Date;
+}
+
+// Bookings in these statuses occupy the provider's time
+export const BLOCKING_STATUSES: BookingStatus[] = [
+  BookingStatus.pending,
+  BookingStatus.confirmed,
+  BookingStatus.in_progress
+];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const overlaps = (a: TimeInterval, b: TimeInterval): boolean => a.start < b.end && b.start < a.end;
+
+// @db.Date columns come back as UTC midnight, so the ISO date is the calendar day
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Expands the weekly schedule and exceptions into concrete working intervals
+ * for every local calendar day touched by the [from, to) range
+ */
+export const getWorkingIntervals = (
+  from: Date,
+  to: Date,
+  weekly: WeeklyHours[],
+  exceptions: ScheduleException[],
+  timeZone: string = APP_TIMEZONE
+): TimeInterval[] => {
+  const exceptionsByDate = new Map(exceptions.map(exception => [toDateKey(exception.date), exception]));
+  const firstDay = getZonedParts(from, timeZone);
+  const intervals: TimeInterval[] = [];
+
+  for (let offset = 0; ; offset++) {
+    const day = new Date(Date.UTC(firstDay.year, firstDay.month - 1, firstDay.day + offset));
+    const year = day.getUTCFullYear();
+    const month = day.getUTCMonth() + 1;
+    const date = day.getUTCDate();
+
+    if (zonedTimeToUtc(year, month, date, 0, timeZone) >= to) {
+      break;
+    }
+
+    const exception = exceptionsByDate.get(toDateKey(day));
+    let ranges: Array<[string, string]>;
+
+    if (exception) {
+      ranges = exception.isAvailable && exception.startTime && exception.endTime
+        ? [[exception.startTime, exception.endTime]]
+        : [];
+    } else {
+      ranges = weekly
+        .filter(hours => hours.dayOfWeek === day.getUTCDay())
+        .map(hours => [hours.startTime, hours.endTime] as [string, string]);
+    }
+
+    for (const [startTime, endTime] of ranges) {
+      const startMinutes = parseTimeOfDay(startTime);
+      const endMinutes = parseTimeOfDay(endTime);
+      if (startMinutes === null || endMinutes === null || startMinutes >= endMinutes) {
+        continue;
+      }
+
+      intervals.push({
+        start: zonedTimeToUtc(year, month, date, startMinutes, timeZone),
+        end: zonedTimeToUtc(year, month, date, endMinutes, timeZone)
+      });
+    }
+  }
+
+  return intervals;
+};
+
+/**
+ * Splits working intervals into bookable slots, skipping slots that
+ * overlap existing bookings or start before the earliest allowed time
+ */
+export const generateSlots = (options: SlotOptions): TimeInterval[] => {
+  const { intervals, busy, stepMinutes, lengthMinutes, from, to, earliestStart } = options;
+  const slots: TimeInterval[] = [];
+
+  for (const interval of intervals) {
+    for (
+      let start = interval.start.getTime();
+      start + lengthMinutes * MINUTE_MS <= interval.end.getTime();
+      start += stepMinutes * MINUTE_MS
+    ) {
+      const slot = {
+        start: new Date(start),
+        end: new Date(start + lengthMinutes * MINUTE_MS)
+      };
+
+      if (slot.start < from || slot.start < earliestStart || slot.end > to) {
+        continue;
+      }
+
+      if (busy.some(booking => overlaps(slot, booking))) {
+        continue;
+      }
+
+      slots.push(slot);
+    }
+  }
+
+  return slots;
+};
+
+/**
+ * Calculates when a booking ends based on the requested duration
+ * or the service's slot length
+ */
+export const getBookingEndDate = (
+  bookingDate: Date,
+  slotDurationMinutes: number,
+  durationHours?: number | null
+): Date => {
+  const minutes = durationHours ? durationHours * 60 : slotDurationMinutes;
+  return new Date(bookingDate.getTime() + minutes * MINUTE_MS);
+};
+
+/**
+ * Loads the provider's bookings that occupy time within the given range
+ */
+const loadBusyIntervals = async (
+  client: Prisma.TransactionClient,
+  providerId: number,
+  from: Date,
+  to: Date
+): Promise<TimeInterval[]> => {
+  const bookings = await client.booking.findMany({
+    where: {
+      service: { providerId },
+      status: { in: BLOCKING_STATUSES },
+      bookingDate: {
+        lt: to,
+        // Bookings never last longer than a day, so older ones cannot overlap
+        gte: new Date(from.getTime() - DAY_MS)
+      }
+    },
+    select: {
+      bookingDate: true,
+      endDate: true,
+      service: {
+        select: { slotDurationMinutes: true }
+      }
+    }
+  });
+
+  return bookings
+    .map(booking => ({
+      start: booking.bookingDate,
+      end: booking.endDate || getBookingEndDate(booking.bookingDate, booking.service.slotDurationMinutes)
+    }))
+    .filter(interval => interval.end > from);
+};
+
+/**
+ * Loads a provider's weekly hours and the exceptions relevant to a date range
+ */
+const loadSchedule = async (
+  client: Prisma.TransactionClient,
+  providerId: number,
+  from: Date,
+  to: Date
+) => {
+  const [weekly, exceptions] = await Promise.all([
+    client.providerAvailability.findMany({
+      where: { providerId }
+    }),
+    client.availabilityException.findMany({
+      where: {
+        providerId,
+        date: {
+          gte: new Date(toLocalDateKey(from)),
+          lte: new Date(toLocalDateKey(to))
+        }
+      }
+    })
+  ]);
+
+  return { weekly, exceptions };
+};
+
+/**
+ * Returns the free slots of a service between two dates
+ */
+export const getAvailableSlots = async (
+  serviceId: number,
+  from: Date,
+  to: Date,
+  durationHours?: number | null
+) => {
+  const service = await prisma.service.findUnique({
+    where: { id: serviceId },
+    select: {
+      id: true,
+      providerId: true,
+      isActive: true,
+      slotDurationMinutes: true
+    }
+  });
+
+  if (!service || !service.isActive) {
+    throw new ApiError(404, 'Service not found');
+  }
+
+  const [schedule, busy] = await Promise.all([
+    loadSchedule(prisma, service.providerId, from, to),
+    loadBusyIntervals(prisma, service.providerId, from, to)
+  ]);
+
+  const intervals = getWorkingIntervals(from, to, schedule.weekly, schedule.exceptions);
+  const slots = generateSlots({
+    intervals,
+    busy,
+    stepMinutes: service.slotDurationMinutes,
+    lengthMinutes: durationHours ? durationHours * 60 : service.slotDurationMinutes,
+    from,
+    to,
+    earliestStart: new Date(Date.now() + availabilityConfig.minLeadTimeMinutes * MINUTE_MS)
+  });
+
+  return {
+    serviceId: service.id,
+    timezone: APP_TIMEZONE,
+    slotDurationMinutes: service.slotDurationMinutes,
+    scheduleConfigured: schedule.weekly.length > 0,
+    slots
+  };
+};
+
+/**
+ * Verifies a time slot is free and within working hours
+ * Must run inside the booking transaction - the provider row is locked so that
+ * concurrent bookings for the same provider are serialised
+ */
+export const ensureSlotAvailable = async (
+  tx: Prisma.TransactionClient,
+  providerId: number,
+  slot: TimeInterval
+): Promise<void> => {
+  await tx.$queryRaw`SELECT "id" FROM "ProviderProfile" WHERE "id" = ${providerId} FOR UPDATE`;
+
+  const schedule = await loadSchedule(tx, providerId, slot.start, slot.end);
+
+  // Providers without a weekly schedule accept bookings at any time
+  if (schedule.weekly.length > 0) {
+    const intervals = getWorkingIntervals(slot.start, slot.end, schedule.weekly, schedule.exceptions);
+    const withinWorkingHours = intervals.some(
+      interval => interval.start <= slot.start && interval.end >= slot.end
+    );
+
+    if (!withinWorkingHours) {
+      throw new ApiError(400, 'Selected time is outside the provider\'s working hours');
+    }
+  }
+
+  const busy = await loadBusyIntervals(tx, providerId, slot.start, slot.end);
+  if (busy.some(booking => overlaps(slot, booking))) {
+    throw new ApiError(409, 'Selected time slot is no longer available');
+  }
+};
+
+export default {
+  getWorkingIntervals,
+  generateSlots,
+  getBookingEndDate,
+  getAvailableSlots,
+  ensureSlotAvailable
+};
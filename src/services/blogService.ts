@@ -0,0 +1,207 @@
+// src/services/blogService.ts
+import { BlogStatus, Prisma } from '@prisma/client';
+import prisma from '../config/prisma';
+import { ApiError } from '../middleware/error';
+import { blogConfig } from '../config/blog.config';
+
+// Streamlined system used for Bulgarian road signs and passports
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ж: 'zh', з: 'z', и: 'i', й: 'y',
+  к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u',
+  ф: 'f', х: 'h', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'sht', ъ: 'a', ь: 'y', ю: 'yu', я: 'ya'
+};
+
+/**
+ * Turns a title or name into a URL slug, transliterating Bulgarian text
+ */
+export const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[а-я]/g, char => CYRILLIC_TO_LATIN[char] ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, blogConfig.maxSlugLength)
+    .replace(/-+$/, '');
+
+/**
+ * Returns the slug, or the first free numbered variant of it
+ */
+export const uniquePostSlug = async (
+  slug: string,
+  excludePostId: number | null = null,
+  client: Prisma.TransactionClient = prisma
+): Promise<string> => {
+  const base = slug || 'post';
+  const taken = new Set(
+    (await client.blogPost.findMany({
+      where: {
+        slug: { startsWith: base },
+        ...(excludePostId !== null && { id: { not: excludePostId } })
+      },
+      select: { slug: true }
+    })).map(post => post.slug)
+  );
+
+  let candidate = base;
+  for (let suffix = 2; taken.has(candidate); suffix++) {
+    candidate = `${base}-${suffix}`;
+  }
+  return candidate;
+};
+
+const isSlugConflict = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === 'P2002' &&
+  String(error.meta?.target).includes('slug');
+
+/**
+ * Runs a save that picks its slug with uniquePostSlug, starting over when a concurrent
+ * save took the same slug first and the unique index rejected this one
+ */
+export const saveWithUniqueSlug = async <T>(save: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await save();
+    } catch (error) {
+      if (!isSlugConflict(error)) {
+        throw error;
+      }
+      if (attempt >= blogConfig.slugSaveAttempts) {
+        throw new ApiError(409, 'A post with this slug already exists');
+      }
+    }
+  }
+};
+
+/**
+ * Uses the given excerpt, or the start of the content cut at a word boundary
+ */
+export const buildExcerpt = (excerpt: string | null | undefined, content: string): string => {
+  if (excerpt) {
+    return excerpt;
+  }
+
+  const text = content.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  if (text.length <= blogConfig.autoExcerptLength) {
+    return text;
+  }
+  const cut = text.slice(0, blogConfig.autoExcerptLength);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+};
+
+/**
+ * Only published posts whose publication date has passed are public
+ */
+export const publishedPostsWhere = (now: Date = new Date()): Prisma.BlogPostWhereInput => ({
+  status: BlogStatus.published,
+  publishedAt: { lte: now }
+});
+
+/**
+ * Replaces the tags and linked service categories of a post
+ * Tags are matched by slug and created on first use; omitted lists are left unchanged
+ */
+export const savePostRelations = async (
+  tx: Prisma.TransactionClient,
+  postId: number,
+  relations: { tags?: string[]; serviceCategoryIds?: number[] }
+): Promise<void> => {
+  if (relations.tags) {
+    const tagsBySlug = new Map<string, string>();
+    for (const name of relations.tags) {
+      const slug = slugify(name);
+      if (!slug) {
+        throw new ApiError(400, `Invalid tag "${name}"`);
+      }
+      if (!tagsBySlug.has(slug)) {
+        tagsBySlug.set(slug, name);
+      }
+    }
+
+    const tagIds: number[] = [];
+    for (const [slug, name] of tagsBySlug) {
+      const tag = await tx.blogTag.upsert({
+        where: { slug },
+        create: { slug, name },
+        update: {}
+      });
+      tagIds.push(tag.id);
+    }
+
+    await tx.blogPostTag.deleteMany({ where: { postId } });
+    await tx.blogPostTag.createMany({ data: tagIds.map(tagId => ({ postId, tagId })) });
+  }
+
+  if (relations.serviceCategoryIds) {
+    const categoryIds = [...new Set(relations.serviceCategoryIds)];
+    const found = await tx.category.count({ where: { id: { in: categoryIds } } });
+    if (found !== categoryIds.length) {
+      throw new ApiError(400, 'Unknown service category');
+    }
+
+    await tx.blogPostServiceCategory.deleteMany({ where: { postId } });
+    await tx.blogPostServiceCategory.createMany({
+      data: categoryIds.map(categoryId => ({ postId, categoryId }))
+    });
+  }
+};
+
+/**
+ * Finds the best rated active services in the given service categories
+ */
+export const getRelatedServices = async (
+  categoryIds: number[],
+  client: Prisma.TransactionClient = prisma
+) => {
+  if (categoryIds.length === 0) {
+    return [];
+  }
+
+  return client.service.findMany({
+    where: {
+      categoryId: { in: categoryIds },
+      isActive: true,
+      provider: { user: { isActive: true } }
+    },
+    orderBy: [
+      { ratingScore: { sort: 'desc', nulls: 'last' } },
+      { createdAt: 'desc' }
+    ],
+    take: blogConfig.relatedServicesLimit,
+    select: {
+      id: true,
+      title: true,
+      price: true,
+      currency: true,
+      priceType: true,
+      city: true,
+      categoryId: true,
+      rating: true,
+      ratingCount: true,
+      provider: {
+        select: {
+          id: true,
+          companyName: true,
+          rating: true,
+          isVerified: true
+        }
+      },
+      serviceImages: {
+        where: { isMain: true },
+        take: 1
+      }
+    }
+  });
+};
+
+export default {
+  slugify,
+  uniquePostSlug,
+  saveWithUniqueSlug,
+  buildExcerpt,
+  publishedPostsWhere,
+  savePostRelations,
+  getRelatedServices
+};
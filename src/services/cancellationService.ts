@@ -0,0 +1,150 @@
+// src/services/cancellationService.ts
+import { Booking, PenaltyParty, Prisma, Service } from '@prisma/client';
+import prisma from '../config/prisma';
+import { cancellationConfig } from '../config/cancellation.config';
+import { roundMoney } from './pricingService';
+
+// Type aliases (not interfaces) so policies can be stored in a Json column as-is
+export type CancellationTier = {
+  withinHours: number;
+  customerPercent: number;
+  providerPercent: number;
+};
+
+export type CancellationPolicy = {
+  tiers: CancellationTier[];
+};
+
+export interface CancellationPenaltyQuote {
+  party: PenaltyParty;
+  percent: number;
+  amount: number;
+  withinHours: number;
+  hoursBeforeStart: number;
+}
+
+const isPercent = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= cancellationConfig.limits.maxPercent;
+
+/**
+ * Validates a provider-defined cancellation policy
+ * Accepts the policy object, its JSON string or a bare array of tiers;
+ * returns null when the policy is invalid
+ */
+export const parseCancellationPolicy = (value: unknown): CancellationPolicy | null => {
+  let parsed = value;
+
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return null;
+    }
+  }
+
+  const tiers = Array.isArray(parsed) ? parsed : (parsed as CancellationPolicy | null)?.tiers;
+  if (!Array.isArray(tiers) || tiers.length > cancellationConfig.limits.maxTiers) {
+    return null;
+  }
+
+  const normalized: CancellationTier[] = [];
+  for (const tier of tiers) {
+    const withinHours = Number(tier?.withinHours);
+    const customerPercent = Number(tier?.customerPercent);
+    const providerPercent = Number(tier?.providerPercent);
+
+    if (
+      !(withinHours > 0 && withinHours <= cancellationConfig.limits.maxHours) ||
+      !isPercent(customerPercent) ||
+      !isPercent(providerPercent)
+    ) {
+      return null;
+    }
+
+    normalized.push({ withinHours, customerPercent, providerPercent });
+  }
+
+  // Each hours threshold may only appear once
+  if (new Set(normalized.map(tier => tier.withinHours)).size !== normalized.length) {
+    return null;
+  }
+
+  return { tiers: normalized.sort((a, b) => b.withinHours - a.withinHours) };
+};
+
+/**
+ * Returns the policy that applies to a service, falling back to the default policy
+ */
+export const getCancellationPolicy = (service: Pick<Service, 'cancellationPolicy'>): CancellationPolicy => {
+  return parseCancellationPolicy(service.cancellationPolicy) ?? {
+    tiers: cancellationConfig.defaultPolicy.tiers.map(tier => ({ ...tier }))
+  };
+};
+
+/**
+ * Works out the penalty for a cancellation, or null when it is free
+ * The tightest tier the cancellation falls into applies
+ */
+export const calculateCancellationPenalty = (
+  policy: CancellationPolicy,
+  party: PenaltyParty,
+  booking: Pick<Booking, 'bookingDate' | 'totalPrice'>,
+  now: Date = new Date()
+): CancellationPenaltyQuote | null => {
+  const hoursBeforeStart = (booking.bookingDate.getTime() - now.getTime()) / (60 * 60 * 1000);
+
+  const tier = policy.tiers
+    .filter(t => hoursBeforeStart < t.withinHours)
+    .sort((a, b) => a.withinHours - b.withinHours)[0];
+
+  if (!tier) {
+    return null;
+  }
+
+  const percent = party === PenaltyParty.PROVIDER ? tier.providerPercent : tier.customerPercent;
+  if (percent <= 0) {
+    return null;
+  }
+
+  return {
+    party,
+    percent,
+    amount: roundMoney(booking.totalPrice * percent / 100),
+    withinHours: tier.withinHours,
+    hoursBeforeStart: Math.round(hoursBeforeStart * 100) / 100
+  };
+};
+
+/**
+ * Records a penalty in the ledger
+ * A booking can only be penalised once per user
+ */
+export const recordCancellationPenalty = async (
+  booking: Pick<Booking, 'id' | 'currency'>,
+  userId: number,
+  penalty: CancellationPenaltyQuote,
+  client: Prisma.TransactionClient = prisma
+) => {
+  return client.cancellationPenalty.upsert({
+    where: {
+      bookingId_userId: { bookingId: booking.id, userId }
+    },
+    create: {
+      bookingId: booking.id,
+      userId,
+      party: penalty.party,
+      percent: penalty.percent,
+      amount: penalty.amount,
+      currency: booking.currency,
+      hoursBeforeStart: penalty.hoursBeforeStart
+    },
+    update: {}
+  });
+};
+
+export default {
+  parseCancellationPolicy,
+  getCancellationPolicy,
+  calculateCancellationPenalty,
+  recordCancellationPenalty
+};
@@ -0,0 +1,226 @@
+// src/services/coverageService.ts
+import { City, CoverageAreaType, Prisma, ServiceCoverageArea } from '@prisma/client';
+import prisma from '../config/prisma';
+import { ApiError } from '../middleware/error';
+import { coverageConfig } from '../config/coverage.config';
+import { roundMoney } from './pricingService';
+import { GeoPoint, haversineKm, parseGeoPoint } from './geoService';
+
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+export interface CoverageAreaInput {
+  type: CoverageAreaType;
+  cityId: number | null;
+  stateId: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  radiusKm: number | null;
+  travelFee: number;
+}
+
+export type CoverageCity = Pick<City, 'id' | 'name' | 'stateId' | 'latitude' | 'longitude'>;
+
+export interface TravelFee {
+  amount: number;
+  zone: string;
+}
+
+const parseId = (value: unknown): number | null => {
+  const id = Number(value);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+};
+
+/**
+ * Validates a provider's list of coverage areas
+ * RADIUS areas without a base point are centred on the service location
+ */
+export const parseCoverageAreas = (value: unknown, serviceLocation: GeoPoint | null): CoverageAreaInput[] => {
+  if (!Array.isArray(value)) {
+    throw new ApiError(400, 'Coverage areas must be a list');
+  }
+
+  if (value.length > coverageConfig.maxAreas) {
+    throw new ApiError(400, `A service can have at most ${coverageConfig.maxAreas} coverage areas`);
+  }
+
+  return value.map((area): CoverageAreaInput => {
+    const travelFee = area?.travelFee === undefined || area?.travelFee === null ? 0 : Number(area.travelFee);
+    if (!Number.isFinite(travelFee) || travelFee < 0 || travelFee > coverageConfig.maxTravelFee) {
+      throw new ApiError(400, `Travel fee must be between 0 and ${coverageConfig.maxTravelFee}`);
+    }
+
+    const base = {
+      cityId: null,
+      stateId: null,
+      latitude: null,
+      longitude: null,
+      radiusKm: null,
+      travelFee: roundMoney(travelFee)
+    };
+
+    switch (area?.type) {
+      case CoverageAreaType.CITY: {
+        const cityId = parseId(area.cityId);
+        if (!cityId) {
+          throw new ApiError(400, 'City areas require a valid city ID');
+        }
+        return { ...base, type: CoverageAreaType.CITY, cityId };
+      }
+      case CoverageAreaType.STATE: {
+        const stateId = parseId(area.stateId);
+        if (!stateId) {
+          throw new ApiError(400, 'State areas require a valid state ID');
+        }
+        return { ...base, type: CoverageAreaType.STATE, stateId };
+      }
+      case CoverageAreaType.RADIUS: {
+        const center = area.latitude !== undefined || area.longitude !== undefined
+          ? parseGeoPoint(area.latitude, area.longitude)
+          : serviceLocation;
+        if (!center) {
+          throw new ApiError(400, 'Radius areas require valid coordinates or a service with a known location');
+        }
+
+        const radiusKm = Number(area.radiusKm);
+        if (!(radiusKm > 0 && radiusKm <= coverageConfig.maxRadiusKm)) {
+          throw new ApiError(400, `Radius must be between 0 and ${coverageConfig.maxRadiusKm} km`);
+        }
+        return { ...base, type: CoverageAreaType.RADIUS, ...center, radiusKm };
+      }
+      default:
+        throw new ApiError(400, 'Coverage area type must be CITY, STATE or RADIUS');
+    }
+  });
+};
+
+const coversCity = (area: ServiceCoverageArea, city: CoverageCity): boolean => {
+  switch (area.type) {
+    case CoverageAreaType.CITY:
+      return area.cityId === city.id;
+    case CoverageAreaType.STATE:
+      return area.stateId === city.stateId;
+    case CoverageAreaType.RADIUS:
+      return (
+        area.latitude !== null && area.longitude !== null && area.radiusKm !== null &&
+        city.latitude !== null && city.longitude !== null &&
+        haversineKm(
+          { latitude: area.latitude, longitude: area.longitude },
+          { latitude: city.latitude, longitude: city.longitude }
+        ) <= area.radiusKm
+      );
+    default:
+      return false;
+  }
+};
+
+// Most specific first: the city itself, then the tightest radius, then the whole region
+const specificity = (area: ServiceCoverageArea): number => {
+  switch (area.type) {
+    case CoverageAreaType.CITY:
+      return 0;
+    case CoverageAreaType.RADIUS:
+      return 1 + area.radiusKm! / (coverageConfig.maxRadiusKm + 1);
+    default:
+      return 2;
+  }
+};
+
+/**
+ * Picks the coverage area whose travel fee applies to a city, or null when the city is not covered
+ * Nested zones are supported: the most specific matching area wins
+ */
+export const findCoverageMatch = (
+  areas: ServiceCoverageArea[],
+  city: CoverageCity
+): ServiceCoverageArea | null => {
+  return areas
+    .filter(area => coversCity(area, city))
+    .sort((a, b) => specificity(a) - specificity(b) || a.travelFee - b.travelFee)[0] || null;
+};
+
+const describeZone = (area: ServiceCoverageArea, city: CoverageCity): string => {
+  return area.type === CoverageAreaType.RADIUS
+    ? `${coverageConfig.travelFeeDescription} (${city.name}, within ${area.radiusKm} km)`
+    : `${coverageConfig.travelFeeDescription} (${city.name})`;
+};
+
+/**
+ * Finds the active services that travel to a city, with the travel fee each would charge
+ * Radius areas are narrowed by their base point's latitude before exact distances are checked
+ */
+export const findServicesCoveringCity = async (
+  city: CoverageCity,
+  client: Prisma.TransactionClient = prisma
+): Promise<Map<number, number>> => {
+  const or: Prisma.ServiceCoverageAreaWhereInput[] = [
+    { type: CoverageAreaType.CITY, cityId: city.id },
+    { type: CoverageAreaType.STATE, stateId: city.stateId }
+  ];
+
+  if (city.latitude !== null) {
+    const latitudeDelta = coverageConfig.maxRadiusKm / KM_PER_DEGREE_LATITUDE;
+    or.push({
+      type: CoverageAreaType.RADIUS,
+      latitude: { gte: city.latitude - latitudeDelta, lte: city.latitude + latitudeDelta }
+    });
+  }
+
+  const areas = await client.serviceCoverageArea.findMany({
+    where: { OR: or, service: { isActive: true } }
+  });
+
+  const byService = new Map<number, ServiceCoverageArea[]>();
+  for (const area of areas) {
+    byService.set(area.serviceId, [...(byService.get(area.serviceId) || []), area]);
+  }
+
+  const fees = new Map<number, number>();
+  for (const [serviceId, serviceAreas] of byService) {
+    const match = findCoverageMatch(serviceAreas, city);
+    if (match) {
+      fees.set(serviceId, match.travelFee);
+    }
+  }
+
+  return fees;
+};
+
+/**
+ * Works out the travel fee for booking a service in a city
+ * Services without coverage areas are booked at their own address and charge no travel fee
+ */
+export const getTravelFee = async (
+  serviceId: number,
+  cityId: number | null,
+  client: Prisma.TransactionClient = prisma
+): Promise<TravelFee | null> => {
+  const areas = await client.serviceCoverageArea.findMany({ where: { serviceId } });
+  if (areas.length === 0) {
+    return null;
+  }
+
+  const city = cityId
+    ? await client.city.findUnique({
+      where: { id: cityId },
+      select: { id: true, name: true, stateId: true, latitude: true, longitude: true }
+    })
+    : null;
+
+  if (!city) {
+    throw new ApiError(400, 'A city is required because this provider travels to the customer');
+  }
+
+  const match = findCoverageMatch(areas, city);
+  if (!match) {
+    throw new ApiError(400, 'This service does not cover the selected city');
+  }
+
+  return { amount: match.travelFee, zone: describeZone(match, city) };
+};
+
+export default {
+  parseCoverageAreas,
+  findCoverageMatch,
+  findServicesCoveringCity,
+  getTravelFee
+};
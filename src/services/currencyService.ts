@@ -0,0 +1,148 @@
+// src/services/currencyService.ts
+import { Currency, Prisma } from '@prisma/client';
+import prisma from '../config/prisma';
+import { ApiError } from '../middleware/error';
+import { currencyConfig } from '../config/currency.config';
+import { roundMoney } from './pricingService';
+
+// Conversion rates keyed by "FROM:TO"
+export type RateTable = Map<string, number>;
+
+export interface DisplayPrice {
+  amount: number;
+  currency: Currency;
+}
+
+const pairKey = (from: Currency, to: Currency): string => `${from}:${to}`;
+
+/**
+ * Parses a currency code from request input; returns null when it is not supported
+ */
+export const parseCurrency = (value: unknown): Currency | null => {
+  const code = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  return (Object.values(Currency) as string[]).includes(code) ? code as Currency : null;
+};
+
+/**
+ * Loads the conversion rates between all supported currencies
+ * Stored rates override the fixed peg, and missing reverse directions are derived
+ */
+export const getExchangeRates = async (
+  client: Prisma.TransactionClient = prisma
+): Promise<RateTable> => {
+  const rows = await client.exchangeRate.findMany();
+  const rates: RateTable = new Map();
+
+  for (const row of [...currencyConfig.fixedRates, ...rows]) {
+    rates.set(pairKey(row.baseCurrency as Currency, row.quoteCurrency as Currency), row.rate);
+  }
+
+  for (const [key, rate] of [...rates]) {
+    const [from, to] = key.split(':') as Currency[];
+    if (!rates.has(pairKey(to, from))) {
+      rates.set(pairKey(to, from), 1 / rate);
+    }
+  }
+
+  return rates;
+};
+
+const getRate = (from: Currency, to: Currency, rates: RateTable): number => {
+  if (from === to) {
+    return 1;
+  }
+
+  const rate = rates.get(pairKey(from, to));
+  if (rate === undefined) {
+    throw new ApiError(500, `No exchange rate from ${from} to ${to}`);
+  }
+  return rate;
+};
+
+/**
+ * Converts an amount between currencies, rounded to whole cents
+ */
+export const convertAmount = (
+  amount: number,
+  from: Currency,
+  to: Currency,
+  rates: RateTable
+): number => {
+  return from === to ? amount : roundMoney(amount * getRate(from, to, rates));
+};
+
+/**
+ * Returns a price in the customer's display currency
+ */
+export const toDisplayPrice = (
+  amount: number,
+  from: Currency,
+  to: Currency,
+  rates: RateTable
+): DisplayPrice => ({
+  amount: convertAmount(amount, from, to, rates),
+  currency: to
+});
+
+/**
+ * Builds a filter matching services whose price, converted to the given currency, is within range
+ * Each currency gets its own bounds so the price index can still be used
+ */
+export const priceRangeFilter = (
+  range: { min: number | null; max: number | null },
+  currency: Currency,
+  rates: RateTable
+): Prisma.ServiceWhereInput => ({
+  OR: Object.values(Currency).map(serviceCurrency => {
+    const rate = getRate(currency, serviceCurrency, rates);
+    return {
+      currency: serviceCurrency,
+      price: {
+        ...(range.min !== null && { gte: range.min * rate }),
+        ...(range.max !== null && { lte: range.max * rate })
+      }
+    };
+  })
+});
+
+/**
+ * Condition matching services whose converted price is within range, as priceRangeFilter does
+ */
+export const priceRangeSql = (
+  range: { min: number | null; max: number | null },
+  currency: Currency,
+  rates: RateTable
+): Prisma.Sql => Prisma.sql`(${Prisma.join(
+  Object.values(Currency).map(serviceCurrency => {
+    const rate = getRate(currency, serviceCurrency, rates);
+    return Prisma.join([
+      Prisma.sql`s."currency"::text = ${serviceCurrency}`,
+      ...(range.min !== null ? [Prisma.sql`s."price" >= ${range.min * rate}`] : []),
+      ...(range.max !== null ? [Prisma.sql`s."price" <= ${range.max * rate}`] : [])
+    ], ' AND ', '(', ')');
+  }),
+  ' OR '
+)})`;
+
+/**
+ * Orders services by price converted to a common currency, cheapest first unless descending
+ */
+export const priceOrderSql = (direction: 'asc' | 'desc', rates: RateTable): Prisma.Sql => {
+  const base = currencyConfig.defaultCurrency;
+  const toBase = Prisma.join(
+    Object.values(Currency).map(currency => Prisma.sql`WHEN ${currency} THEN ${getRate(currency, base, rates)}::float8`),
+    ' '
+  );
+
+  return Prisma.sql`s."price" * (CASE s."currency"::text ${toBase} END) ${Prisma.raw(direction === 'asc' ? 'ASC' : 'DESC')}`;
+};
+
+export default {
+  parseCurrency,
+  getExchangeRates,
+  convertAmount,
+  toDisplayPrice,
+  priceRangeFilter,
+  priceRangeSql,
+  priceOrderSql
+};
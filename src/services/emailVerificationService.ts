@@ -0,0 +1,63 @@
+// src/services/emailVerificationService.ts
+import jwt from 'jsonwebtoken';
+import { User } from '@prisma/client';
+import { authConfig } from '../config/auth.config';
+import { notificationConfig } from '../config/notification.config';
+import { sendAccountEmail } from './notification/notificationService';
+
+interface EmailVerificationPayload {
+  userId: number;
+  email: string;
+  purpose: 'email_verification';
+}
+
+/**
+ * Creates a signed, expiring email verification token
+ * The address is part of the token so changing the email invalidates old links
+ */
+export const createEmailVerificationToken = (user: Pick<User, 'id' | 'email'>): string => {
+  const payload: EmailVerificationPayload = {
+    userId: user.id,
+    email: user.email,
+    purpose: 'email_verification'
+  };
+
+  return jwt.sign(payload, authConfig.emailVerification.getSecret(), {
+    expiresIn: authConfig.emailVerification.expiresIn
+  });
+};
+
+/**
+ * Returns the token payload, or null when the token is invalid or expired
+ */
+export const verifyEmailVerificationToken = (token: string): { userId: number; email: string } | null => {
+  try {
+    const payload = jwt.verify(token, authConfig.emailVerification.getSecret()) as EmailVerificationPayload;
+    if (payload.purpose !== 'email_verification') {
+      return null;
+    }
+    return { userId: payload.userId, email: payload.email };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Emails the user a link to confirm their address
+ */
+export const sendVerificationEmail = async (
+  user: Pick<User, 'id' | 'email' | 'firstName'>
+): Promise<boolean> => {
+  const token = createEmailVerificationToken(user);
+
+  return sendAccountEmail(user, 'email_verification', {
+    actionUrl: `${notificationConfig.frontendUrl}/verify-email?token=${encodeURIComponent(token)}`,
+    expiresIn: '24 hours'
+  });
+};
+
+export default {
+  createEmailVerificationToken,
+  verifyEmailVerificationToken,
+  sendVerificationEmail
+};
@@ -0,0 +1,147 @@
+// src/services/geoService.ts
+import { Prisma, Service } from '@prisma/client';
+import prisma from '../config/prisma';
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ServiceDistance {
+  serviceId: number;
+  distanceKm: number | null;
+}
+
+/**
+ * Parses a latitude/longitude pair from request input; returns null when invalid
+ */
+export const parseGeoPoint = (lat: unknown, lng: unknown): GeoPoint | null => {
+  const latitude = typeof lat === 'string' || typeof lat === 'number' ? Number(lat) : NaN;
+  const longitude = typeof lng === 'string' || typeof lng === 'number' ? Number(lng) : NaN;
+
+  if (
+    !Number.isFinite(latitude) || latitude < -90 || latitude > 90 ||
+    !Number.isFinite(longitude) || longitude < -180 || longitude > 180
+  ) {
+    return null;
+  }
+
+  return { latitude, longitude };
+};
+
+/**
+ * Great-circle (haversine) distance in km between two points
+ */
+export const haversineKm = (from: GeoPoint, to: GeoPoint): number => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const a = Math.sin(toRadians(to.latitude - from.latitude) / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) *
+    Math.sin(toRadians(to.longitude - from.longitude) / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Looks up the coordinates of a seeded city by its English or Bulgarian name
+ * Postal code and region disambiguate cities that share a name
+ */
+export const geocodeCity = async (
+  location: Pick<Service, 'city' | 'state' | 'postalCode'>,
+  client: Prisma.TransactionClient = prisma
+): Promise<GeoPoint | null> => {
+  const name = location.city?.trim();
+  if (!name) {
+    return null;
+  }
+
+  const cities = await client.city.findMany({
+    where: {
+      OR: [
+        { name: { equals: name, mode: 'insensitive' } },
+        { nameBg: { equals: name, mode: 'insensitive' } }
+      ],
+      latitude: { not: null },
+      longitude: { not: null }
+    },
+    include: {
+      state: { select: { name: true, nameBg: true } }
+    },
+    orderBy: { id: 'asc' }
+  });
+
+  const state = location.state?.trim().toLowerCase();
+  const city =
+    cities.find(c => location.postalCode && c.postalCode === location.postalCode.trim()) ||
+    cities.find(c => state && (c.state.name.toLowerCase() === state || c.state.nameBg?.toLowerCase() === state)) ||
+    cities[0];
+
+  return city ? { latitude: city.latitude!, longitude: city.longitude! } : null;
+};
+
+// Great-circle (haversine) distance in km between a service and the origin
+const distanceSql = (origin: GeoPoint): Prisma.Sql => Prisma.sql`(
+  2 * ${EARTH_RADIUS_KM} * asin(least(1, sqrt(
+    power(sin(radians(s."latitude" - ${origin.latitude}) / 2), 2) +
+    cos(radians(${origin.latitude})) * cos(radians(s."latitude")) *
+    power(sin(radians(s."longitude" - ${origin.longitude}) / 2), 2)
+  )))
+)::float8`;
+
+/**
+ * Condition matching services within a radius of the origin
+ * A bounding box on the indexed coordinates narrows the rows before exact distances are computed
+ */
+export const withinRadiusSql = (origin: GeoPoint, radiusKm: number): Prisma.Sql => {
+  const latitudeDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const longitudeDelta = radiusKm /
+    (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos(origin.latitude * Math.PI / 180), 0.01));
+
+  return Prisma.sql`(
+    s."latitude" BETWEEN ${origin.latitude - latitudeDelta} AND ${origin.latitude + latitudeDelta}
+    AND s."longitude" BETWEEN ${origin.longitude - longitudeDelta} AND ${origin.longitude + longitudeDelta}
+    AND ${distanceSql(origin)} <= ${radiusKm}
+  )`;
+};
+
+/**
+ * Orders services nearest first; services without coordinates come last
+ */
+export const distanceOrderSql = (origin: GeoPoint): Prisma.Sql =>
+  Prisma.sql`${distanceSql(origin)} ASC NULLS LAST`;
+
+/**
+ * Returns the distance of each given service from the origin, nearest first
+ * Services without coordinates come last
+ */
+export const getServiceDistances = async (
+  origin: GeoPoint,
+  serviceIds: number[],
+  client: Prisma.TransactionClient = prisma
+): Promise<ServiceDistance[]> => {
+  if (serviceIds.length === 0) {
+    return [];
+  }
+
+  const rows = await client.$queryRaw<{ id: number; distanceKm: number | null }[]>`
+    SELECT s."id", ${distanceSql(origin)} AS "distanceKm"
+    FROM "Service" s
+    WHERE s."id" IN (${Prisma.join(serviceIds)})
+    ORDER BY ${distanceOrderSql(origin)}, s."id" DESC
+  `;
+
+  return rows.map(row => ({
+    serviceId: Number(row.id),
+    distanceKm: row.distanceKm === null ? null : Math.round(Number(row.distanceKm) * 10) / 10
+  }));
+};
+
+export default {
+  parseGeoPoint,
+  haversineKm,
+  geocodeCity,
+  withinRadiusSql,
+  distanceOrderSql,
+  getServiceDistances
+};
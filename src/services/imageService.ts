@@ -0,0 +1,135 @@
+// src/services/imageService.ts
+import path from 'path';
+import sharp, { Sharp } from 'sharp';
+import heicConvert from 'heic-convert';
+import { ServiceImage } from '@prisma/client';
+import { ApiError } from '../middleware/error';
+import { imageConfig } from '../config/image.config';
+import { storage, StorageService } from '../config/storage.config';
+
+export type ImageVariantName = keyof typeof imageConfig.variants;
+
+export interface ProcessedVariant {
+  buffer: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  extension: string;
+  variants: Record<ImageVariantName, ProcessedVariant>;
+}
+
+// Stored URLs and dimensions of every variant of an image
+export type ServiceImageVariants = Pick<
+  ServiceImage,
+  | 'imageUrl'
+  | 'thumbnailUrl' | 'thumbnailWidth' | 'thumbnailHeight'
+  | 'mediumUrl' | 'mediumWidth' | 'mediumHeight'
+  | 'largeUrl' | 'largeWidth' | 'largeHeight'
+>;
+
+// ISO base media brands used by HEIC photos, e.g. from iPhones
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs'];
+
+/**
+ * Checks the file signature for a HEIC image, which sharp cannot decode itself
+ */
+export const isHeic = (buffer: Buffer): boolean =>
+  buffer.length >= 12 &&
+  buffer.toString('ascii', 4, 8) === 'ftyp' &&
+  HEIC_BRANDS.includes(buffer.toString('ascii', 8, 12));
+
+const decodeImage = async (buffer: Buffer): Promise<Sharp> => {
+  try {
+    const input = isHeic(buffer)
+      ? Buffer.from(await heicConvert({ buffer, format: 'JPEG', quality: 1 }))
+      : buffer;
+    const image = sharp(input, { limitInputPixels: imageConfig.maxInputPixels });
+    // Reading the metadata fails fast on files that are not images
+    await image.metadata();
+    return image;
+  } catch {
+    throw new ApiError(400, 'Invalid image file. Upload a JPEG, PNG, WebP or HEIC image');
+  }
+};
+
+/**
+ * Decodes an upload and re-encodes it into every configured variant
+ * Orientation is applied to the pixels and all metadata, including EXIF GPS data, is dropped
+ */
+export const processImage = async (buffer: Buffer): Promise<ProcessedImage> => {
+  const source = (await decodeImage(buffer)).rotate();
+  const { format, quality, flattenBackground } = imageConfig;
+  const variants = {} as Record<ImageVariantName, ProcessedVariant>;
+
+  for (const name of Object.keys(imageConfig.variants) as ImageVariantName[]) {
+    const { width, height, fit } = imageConfig.variants[name];
+    let variant = source.clone().resize({ width, height, fit, withoutEnlargement: true });
+    if (format === 'jpeg') {
+      variant = variant.flatten({ background: flattenBackground });
+    }
+
+    const { data, info } = await variant
+      .toFormat(format, { quality })
+      .toBuffer({ resolveWithObject: true });
+    variants[name] = { buffer: data, width: info.width, height: info.height };
+  }
+
+  return { extension: format === 'jpeg' ? 'jpg' : format, variants };
+};
+
+/**
+ * Saves the variants of a processed image and returns their URLs and dimensions
+ */
+export const saveProcessedImage = async (
+  image: ProcessedImage,
+  originalname: string,
+  target: StorageService = storage
+): Promise<ServiceImageVariants> => {
+  const baseName = path.parse(originalname).name;
+  const save = async (name: ImageVariantName) => {
+    const { buffer, width, height } = image.variants[name];
+    const url = await target.saveFile(buffer, `${baseName}-${name}.${image.extension}`);
+    return { url, width, height };
+  };
+
+  const thumbnail = await save('thumbnail');
+  const medium = await save('medium');
+  const large = await save('large');
+
+  return {
+    imageUrl: large.url,
+    thumbnailUrl: thumbnail.url,
+    thumbnailWidth: thumbnail.width,
+    thumbnailHeight: thumbnail.height,
+    mediumUrl: medium.url,
+    mediumWidth: medium.width,
+    mediumHeight: medium.height,
+    largeUrl: large.url,
+    largeWidth: large.width,
+    largeHeight: large.height
+  };
+};
+
+/**
+ * Removes every stored file of an image, including uploads from before variants existed
+ */
+export const deleteImageFiles = async (
+  image: Pick<ServiceImage, 'imageUrl' | 'thumbnailUrl' | 'mediumUrl' | 'largeUrl'>,
+  target: StorageService = storage
+): Promise<void> => {
+  const urls = new Set([image.imageUrl, image.thumbnailUrl, image.mediumUrl, image.largeUrl]);
+  for (const url of urls) {
+    if (url) {
+      await target.deleteFile(url);
+    }
+  }
+};
+
+export default {
+  isHeic,
+  processImage,
+  saveProcessedImage,
+  deleteImageFiles
+};
@@ -0,0 +1,183 @@
+// src/services/notification/notificationService.ts
+import { Booking, ProviderProfile, Service, User } from '@prisma/client';
+import prisma from '../../config/prisma';
+import { notificationConfig } from '../../config/notification.config';
+import {
+  AccountEmailData,
+  AccountEmailType,
+  NotificationCategory,
+  NotificationData,
+  NotificationEvent,
+  renderAccountEmail,
+  renderNotification
+} from './templates';
+import { createTransport, EmailTransport, isDevelopmentTransport, SmsTransport } from './transports';
+
+export type NotificationChannel = 'email' | 'sms';
+
+export type NotificationRecipient = Pick<
+  User,
+  'id' | 'email' | 'phone' | 'firstName' | 'lastName' | 'emailNotifications' | 'smsNotifications' | 'promotionalEmails'
+>;
+
+// Fields needed to address a user; use in `select` to avoid loading the whole user
+export const notificationRecipientSelect = {
+  id: true,
+  email: true,
+  phone: true,
+  firstName: true,
+  lastName: true,
+  emailNotifications: true,
+  smsNotifications: true,
+  promotionalEmails: true
+} as const;
+
+// Booking loaded with both parties
+export type BookingWithParties = Booking & {
+  service: Service & {
+    provider: ProviderProfile & { user: NotificationRecipient };
+  };
+  customer: NotificationRecipient;
+};
+
+let emailTransport: EmailTransport = createTransport(notificationConfig.email.transport);
+let smsTransport: SmsTransport = createTransport(notificationConfig.sms.transport);
+
+/**
+ * Replaces the email and/or SMS transport, e.g. with a real provider integration
+ */
+export const setTransports = (transports: { email?: EmailTransport; sms?: SmsTransport }): void => {
+  if (transports.email) {
+    emailTransport = transports.email;
+  }
+  if (transports.sms) {
+    smsTransport = transports.sms;
+  }
+};
+
+/**
+ * Throws in production while email still goes through a development transport
+ * Sign-in and password reset links would otherwise never reach users
+ */
+export const assertEmailTransportConfigured = (): void => {
+  if (process.env.NODE_ENV === 'production' && isDevelopmentTransport(emailTransport)) {
+    throw new Error('No email provider configured: register one with setTransports() before starting in production');
+  }
+};
+
+/**
+ * Returns the channels a user has opted into for a category of message
+ */
+export const getEnabledChannels = (
+  recipient: NotificationRecipient,
+  category: NotificationCategory
+): NotificationChannel[] => {
+  const channels: NotificationChannel[] = [];
+
+  if (recipient.emailNotifications && (category !== 'promotional' || recipient.promotionalEmails)) {
+    channels.push('email');
+  }
+
+  // Promotional content is only ever sent by email
+  if (recipient.smsNotifications && category !== 'promotional' && recipient.phone) {
+    channels.push('sms');
+  }
+
+  return channels;
+};
+
+/**
+ * Adds a notification to the recipient's in-app feed and sends it over every enabled channel
+ * Delivery failures are logged and never propagate to the caller
+ */
+export const notify = async (
+  recipient: NotificationRecipient,
+  event: NotificationEvent,
+  data: Omit<NotificationData, 'recipientName'>
+): Promise<void> => {
+  try {
+    const message = renderNotification(event, { recipientName: recipient.firstName, ...data });
+    const channels = getEnabledChannels(recipient, message.category);
+
+    // The in-app feed always gets an entry; preferences only cover email and SMS
+    const deliveries: Array<[string, Promise<unknown>]> = [
+      ['in-app', prisma.notification.create({
+        data: {
+          userId: recipient.id,
+          type: event,
+          title: message.subject,
+          message: message.sms,
+          bookingId: data.bookingId
+        }
+      })],
+      ...channels.map((channel): [string, Promise<unknown>] => [
+        channel,
+        channel === 'email'
+          ? emailTransport.sendEmail({ to: recipient.email, subject: message.subject, text: message.text })
+          : smsTransport.sendSms({ to: recipient.phone, text: message.sms })
+      ])
+    ];
+
+    const results = await Promise.allSettled(deliveries.map(([, delivery]) => delivery));
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Failed to send ${event} ${deliveries[index][0]} notification to user ${recipient.id}:`, result.reason);
+      }
+    });
+  } catch (error) {
+    console.error(`Failed to send ${event} notification to user ${recipient.id}:`, error);
+  }
+};
+
+/**
+ * Notifies one party of a booking, filling in the booking details
+ */
+export const notifyBookingParty = async (
+  booking: BookingWithParties,
+  party: 'customer' | 'provider',
+  event: NotificationEvent,
+  extra: Partial<Omit<NotificationData, 'recipientName'>> = {}
+): Promise<void> => {
+  const providerUser = booking.service.provider.user;
+  const recipient = party === 'customer' ? booking.customer : providerUser;
+  const counterpartName = party === 'customer'
+    ? booking.service.provider.companyName || `${providerUser.firstName} ${providerUser.lastName}`
+    : `${booking.customer.firstName} ${booking.customer.lastName}`;
+
+  await notify(recipient, event, {
+    bookingId: booking.id,
+    serviceTitle: booking.service.title,
+    bookingDate: booking.bookingDate,
+    currency: booking.currency,
+    counterpartName,
+    ...extra
+  });
+};
+
+/**
+ * Sends an account email such as an address confirmation
+ * These bypass notification preferences; returns false when delivery failed
+ */
+export const sendAccountEmail = async (
+  recipient: Pick<User, 'id' | 'email' | 'firstName'>,
+  type: AccountEmailType,
+  data: Omit<AccountEmailData, 'recipientName'>
+): Promise<boolean> => {
+  try {
+    const message = renderAccountEmail(type, { recipientName: recipient.firstName, ...data });
+    await emailTransport.sendEmail({ to: recipient.email, subject: message.subject, text: message.text });
+    return true;
+  } catch (error) {
+    console.error(`Failed to send ${type} email to user ${recipient.id}:`, error);
+    return false;
+  }
+};
+
+export default {
+  setTransports,
+  getEnabledChannels,
+  notify,
+  notifyBookingParty,
+  sendAccountEmail
+};
@@ -0,0 +1,212 @@
+// src/services/notification/templates.ts
+import { notificationConfig } from '../../config/notification.config';
+import { APP_TIMEZONE } from '../../utils/dateTime';
+
+export type NotificationEvent =
+  | 'booking_created'
+  | 'booking_confirmed'
+  | 'booking_cancelled'
+  | 'booking_disputed'
+  | 'booking_auto_completed'
+  | 'cancellation_penalty'
+  | 'review_received'
+  | 'review_replied'
+  | 'verification_approved'
+  | 'verification_rejected';
+
+// Promotional messages additionally require the promotionalEmails opt-in
+export type NotificationCategory = 'transactional' | 'promotional';
+
+export interface NotificationData {
+  recipientName: string;
+  bookingId?: number;
+  serviceTitle?: string;
+  bookingDate?: Date;
+  counterpartName?: string;
+  reason?: string | null;
+  amount?: number;
+  currency?: string;
+  rating?: number;
+  withinHours?: number;
+}
+
+export interface RenderedNotification {
+  category: NotificationCategory;
+  subject: string;
+  text: string;
+  sms: string;
+}
+
+const formatDate = (date?: Date): string =>
+  date
+    ? new Intl.DateTimeFormat('en-GB', {
+      timeZone: APP_TIMEZONE,
+      dateStyle: 'medium',
+      timeStyle: 'short'
+    }).format(date)
+    : '';
+
+const bookingLink = (bookingId?: number): string =>
+  `${notificationConfig.frontendUrl}/bookings/${bookingId ?? ''}`;
+
+const verificationLink = (): string => `${notificationConfig.frontendUrl}/provider/verification`;
+
+const templates: Record<NotificationEvent, (data: NotificationData) => RenderedNotification> = {
+  booking_created: (data) => ({
+    category: 'transactional',
+    subject: `New booking request: ${data.serviceTitle}`,
+    text: [
+      `Hello ${data.recipientName},`,
+      `${data.counterpartName} booked "${data.serviceTitle}" for ${formatDate(data.bookingDate)}.`,
+      `View the booking: ${bookingLink(data.bookingId)}`
+    ].join('\n\n'),
+    sms: `New booking #${data.bookingId} for "${data.serviceTitle}" on ${formatDate(data.bookingDate)}.`
+  }),
+
+  booking_confirmed: (data) => ({
+    category: 'transactional',
+    subject: `Booking confirmed: ${data.serviceTitle}`,
+    text: [
+      `Hello ${data.recipientName},`,
+      `Your booking for "${data.serviceTitle}" on ${formatDate(data.bookingDate)} has been confirmed.`,
+      `View the booking: ${bookingLink(data.bookingId)}`
+    ].join('\n\n'),
+    sms: `Booking #${data.bookingId} for "${data.serviceTitle}" on ${formatDate(data.bookingDate)} is confirmed.`
+  }),
+
+  booking_cancelled: (data) => ({
+    category: 'transactional',
+    subject: `Booking cancelled: ${data.serviceTitle}`,
+    text: [
+      `Hello ${data.recipientName},`,
+      `${data.counterpartName} cancelled the booking for "${data.serviceTitle}" on ${formatDate(data.bookingDate)}.`,
+      ...(data.reason ? [`Reason: ${data.reason}`] : []),
+      `View the booking: ${bookingLink(data.bookingId)}`
+    ].join('\n\n'),
+    sms: `Booking #${data.bookingId} for "${data.serviceTitle}" was cancelled.`
+  }),
+
+  booking_disputed: (data) => ({
+    category: 'transactional',
+    subject: `Dispute opened: ${data.serviceTitle}`,
+    text: [
+      `Hello ${data.recipientName},`,
+      `${data.counterpartName} opened a dispute for the booking of "${data.serviceTitle}".`,
+      ...(data.reason ? [`Reason: ${data.reason}`] : []),
+      'Our team will review the case and contact both parties.',
+      `View the booking: ${bookingLink(data.bookingId)}`
+    ].join('\n\n'),
+    sms: `A dispute was opened for booking #${data.bookingId} ("${data.serviceTitle}").`
+  }),
+
+  booking_auto_completed: (data) => ({
+    category: 'transactional',
+    subject: `Booking completed: ${data.serviceTitle}`,
+    text: [
+      `Hello ${data.recipientName},`,
+      `The booking for "${data.serviceTitle}" was marked as completed automatically after 72 hours without a response.`,
+      `View the booking: ${bookingLink(data.bookingId)}`
+    ].join('\n\n'),
+    sms: `Booking #${data.bookingId} ("${data.serviceTitle}") was completed automatically.`
+  }),
+
+  cancellation_penalty: (data) => ({
+    category: 'transactional',
+    subject: `Late cancellation fee: ${data.serviceTitle}`,
+    text: [
+      `Hello ${data.recipientName},`,
+      `The booking for "${data.serviceTitle}" was cancelled less than ${data.withinHours ?? 24} hours before it was due to start.`,
+      `A late cancellation fee of ${data.amount?.toFixed(2)} ${data.currency} applies.`,
+      `View the booking: ${bookingLink(data.bookingId)}`
+    ].join('\n\n'),
+    sms: `A late cancellation fee of ${data.amount?.toFixed(2)} ${data.currency} applies to booking #${data.bookingId}.`
+  }),
+
+  review_received: (data) => ({
+    category: 'transactional',
+    subject: `New ${data.rating}-star review for ${data.serviceTitle}`,
+    text: [
+      `Hello ${data.recipientName},`,
+      `${data.counterpartName} left a ${data.rating}-star review for "${data.serviceTitle}".`,
+      `View the booking: ${bookingLink(data.bookingId)}`
+    ].join('\n\n'),
+    sms: `New ${data.rating}-star review for "${data.serviceTitle}".`
+  }),
+
+  review_replied: (data) => ({
+    category: 'transactional',
+    subject: `${data.counterpartName} replied to your review`,
+    text: [
+      `Hello ${data.recipientName},`,
+      `${data.counterpartName} replied to your review of "${data.serviceTitle}".`,
+      `View the booking: ${bookingLink(data.bookingId)}`
+    ].join('\n\n'),
+    sms: `${data.counterpartName} replied to your review of "${data.serviceTitle}".`
+  }),
+
+  verification_approved: (data) => ({
+    category: 'transactional',
+    subject: 'Your provider profile is verified',
+    text: [
+      `Hello ${data.recipientName},`,
+      'Your documents have been reviewed and your profile now shows the verified badge.',
+      `View your verification status: ${verificationLink()}`
+    ].join('\n\n'),
+    sms: 'Your provider profile has been verified.'
+  }),
+
+  verification_rejected: (data) => ({
+    category: 'transactional',
+    subject: 'Your verification request was not approved',
+    text: [
+      `Hello ${data.recipientName},`,
+      'We could not verify your profile with the documents you submitted.',
+      ...(data.reason ? [`Reason: ${data.reason}`] : []),
+      `You can submit new documents here: ${verificationLink()}`
+    ].join('\n\n'),
+    sms: 'Your verification request was not approved. Check your email for details.'
+  })
+};
+
+/**
+ * Renders the email and SMS content for a notification event
+ */
+export const renderNotification = (event: NotificationEvent, data: NotificationData): RenderedNotification =>
+  templates[event](data);
+
+// Account emails are always sent by email, regardless of notification preferences
+export type AccountEmailType = 'email_verification' | 'password_reset';
+
+export interface AccountEmailData {
+  recipientName: string;
+  actionUrl: string;
+  expiresIn: string;
+}
+
+const accountTemplates: Record<AccountEmailType, (data: AccountEmailData) => { subject: string; text: string }> = {
+  email_verification: (data) => ({
+    subject: 'Confirm your email address',
+    text: [
+      `Hello ${data.recipientName},`,
+      'Please confirm your email address to start booking and offering services on UslugiBG.',
+      `Confirm your email: ${data.actionUrl}`,
+      `This link expires in ${data.expiresIn}. If you did not create an account, you can ignore this email.`
+    ].join('\n\n')
+  }),
+
+  password_reset: (data) => ({
+    subject: 'Reset your password',
+    text: [
+      `Hello ${data.recipientName},`,
+      'We received a request to reset the password for your UslugiBG account.',
+      `Choose a new password: ${data.actionUrl}`,
+      `This link expires in ${data.expiresIn} and can only be used once. If you did not request a reset, you can ignore this email.`
+    ].join('\n\n')
+  })
+};
+
+/**
+ * Renders the subject and body of an account email
+ */
+export const renderAccountEmail = (type: AccountEmailType, data: AccountEmailData) =>
+  accountTemplates[type](data);
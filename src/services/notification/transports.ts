@@ -0,0 +1,95 @@
+// src/services/notification/transports.ts
+import fs from 'fs';
+import path from 'path';
+import { notificationConfig, TransportName } from '../../config/notification.config';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  sendEmail(message: EmailMessage): Promise<void>;
+}
+
+export interface SmsTransport {
+  sendSms(message: SmsMessage): Promise<void>;
+}
+
+/**
+ * Prints outgoing messages to the console
+ * Bodies carry sign-in and reset links, so in production only the recipient and subject are logged
+ */
+export class ConsoleTransport implements EmailTransport, SmsTransport {
+  private includeBody: boolean;
+
+  constructor(includeBody: boolean = process.env.NODE_ENV !== 'production') {
+    this.includeBody = includeBody;
+  }
+
+  async sendEmail(message: EmailMessage): Promise<void> {
+    console.log(`[email] to=${message.to} subject="${message.subject}"${this.body(message.text)}`);
+  }
+
+  async sendSms(message: SmsMessage): Promise<void> {
+    console.log(`[sms] to=${message.to}${this.body(message.text)}`);
+  }
+
+  private body(text: string): string {
+    return this.includeBody ? `\n${text}` : '';
+  }
+}
+
+/**
+ * Writes every outgoing message to its own JSON file so it can be inspected
+ */
+export class FileTransport implements EmailTransport, SmsTransport {
+  private outputDir: string;
+
+  constructor(outputDir: string = notificationConfig.outputDir) {
+    this.outputDir = outputDir;
+  }
+
+  async sendEmail(message: EmailMessage): Promise<void> {
+    await this.write('email', { from: notificationConfig.email.from, ...message });
+  }
+
+  async sendSms(message: SmsMessage): Promise<void> {
+    await this.write('sms', { from: notificationConfig.sms.sender, ...message });
+  }
+
+  private async write(channel: string, payload: object): Promise<void> {
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+    const filename = `${Date.now()}-${channel}-${Math.random().toString(36).slice(2, 8)}.json`;
+    await fs.promises.writeFile(
+      path.join(this.outputDir, filename),
+      JSON.stringify({ channel, sentAt: new Date().toISOString(), ...payload }, null, 2)
+    );
+  }
+}
+
+/**
+ * Whether a transport is one of the built-in ones meant for local development
+ */
+export const isDevelopmentTransport = (transport: EmailTransport | SmsTransport): boolean =>
+  transport instanceof ConsoleTransport || transport instanceof FileTransport;
+
+/**
+ * Creates one of the built-in transports by name
+ */
+export const createTransport = (name: TransportName): EmailTransport & SmsTransport => {
+  switch (name) {
+    case 'file':
+      return new FileTransport();
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown notification transport: ${name}`);
+  }
+};
@@ -0,0 +1,190 @@
+// src/services/packageService.ts
+import { Prisma, ServiceAddOn, ServicePackage } from '@prisma/client';
+import { ApiError } from '../middleware/error';
+import { pricingConfig } from '../config/pricing.config';
+import { roundMoney } from './pricingService';
+
+// A package or add-on as submitted by the provider; entries with an id update an existing option
+export interface ServiceOptionInput {
+  id?: number;
+  name: string;
+  description: string | null;
+  price: number;
+}
+
+export interface BookingOptions {
+  package: ServicePackage | null;
+  addOns: ServiceAddOn[];
+}
+
+/**
+ * Validates a list of packages or add-ons
+ * Multipart forms send the list as a JSON string
+ */
+export const parseServiceOptions = (
+  value: unknown,
+  label: 'packages' | 'add-ons'
+): ServiceOptionInput[] => {
+  const { maxPackages, maxAddOns, maxNameLength, maxDescriptionLength } = pricingConfig.options;
+  const maxItems = label === 'packages' ? maxPackages : maxAddOns;
+  let parsed = value;
+
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      throw new ApiError(400, `Invalid ${label}`);
+    }
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new ApiError(400, `Invalid ${label}`);
+  }
+
+  if (parsed.length > maxItems) {
+    throw new ApiError(400, `A service can have at most ${maxItems} ${label}`);
+  }
+
+  const options = parsed.map((option): ServiceOptionInput => {
+    const name = typeof option?.name === 'string' ? option.name.trim() : '';
+    if (!name || name.length > maxNameLength) {
+      throw new ApiError(400, `Each of the ${label} needs a name of up to ${maxNameLength} characters`);
+    }
+
+    const description = typeof option.description === 'string' && option.description.trim()
+      ? option.description.trim()
+      : null;
+    if (description && description.length > maxDescriptionLength) {
+      throw new ApiError(400, `Descriptions of ${label} cannot exceed ${maxDescriptionLength} characters`);
+    }
+
+    const price = Number(option.price);
+    if (!Number.isFinite(price) || price <= 0) {
+      throw new ApiError(400, `Invalid price for "${name}"`);
+    }
+
+    const id = option.id === undefined || option.id === null ? undefined : Number(option.id);
+    if (id !== undefined && !(Number.isSafeInteger(id) && id > 0)) {
+      throw new ApiError(400, `Invalid id for "${name}"`);
+    }
+
+    return { id, name, description, price: roundMoney(price) };
+  });
+
+  const names = options.map(option => option.name.toLowerCase());
+  if (new Set(names).size !== names.length) {
+    throw new ApiError(400, `Names of ${label} must be unique`);
+  }
+
+  return options;
+};
+
+/**
+ * Returns the "from" price shown and filtered on for a service with packages
+ */
+export const getStartingPrice = (packages: Pick<ServiceOptionInput, 'price'>[]): number | null => {
+  return packages.length > 0 ? Math.min(...packages.map(option => option.price)) : null;
+};
+
+interface OptionDelegate {
+  findMany(args: { where: { serviceId: number; isActive: boolean } }): Promise<{ id: number }[]>;
+  create(args: { data: Omit<ServiceOptionInput, 'id'> & { serviceId: number; sortOrder: number } }): Promise<unknown>;
+  update(args: { where: { id: number }; data: Omit<ServiceOptionInput, 'id'> & { sortOrder: number } }): Promise<unknown>;
+  updateMany(args: { where: { id: { in: number[] } }; data: { isActive: boolean } }): Promise<unknown>;
+}
+
+/**
+ * Brings a service's packages or add-ons in line with the submitted list
+ * Options left out are deactivated rather than deleted so past bookings keep their references
+ */
+const syncOptions = async (
+  delegate: OptionDelegate,
+  serviceId: number,
+  options: ServiceOptionInput[],
+  label: string
+): Promise<void> => {
+  const existing = await delegate.findMany({ where: { serviceId, isActive: true } });
+  const existingIds = new Set(existing.map(option => option.id));
+
+  for (const option of options) {
+    if (option.id !== undefined && !existingIds.has(option.id)) {
+      throw new ApiError(400, `Unknown ${label} id ${option.id}`);
+    }
+  }
+
+  const keptIds = new Set(options.map(option => option.id));
+  const removedIds = [...existingIds].filter(id => !keptIds.has(id));
+  if (removedIds.length > 0) {
+    await delegate.updateMany({ where: { id: { in: removedIds } }, data: { isActive: false } });
+  }
+
+  for (const [sortOrder, { id, ...data }] of options.entries()) {
+    if (id !== undefined) {
+      await delegate.update({ where: { id }, data: { ...data, sortOrder } });
+    } else {
+      await delegate.create({ data: { ...data, serviceId, sortOrder } });
+    }
+  }
+};
+
+/**
+ * Saves the packages and/or add-ons of a service; lists that are undefined are left unchanged
+ */
+export const saveServiceOptions = async (
+  tx: Prisma.TransactionClient,
+  serviceId: number,
+  options: { packages?: ServiceOptionInput[]; addOns?: ServiceOptionInput[] }
+): Promise<void> => {
+  if (options.packages) {
+    await syncOptions(tx.servicePackage, serviceId, options.packages, 'package');
+  }
+
+  if (options.addOns) {
+    await syncOptions(tx.serviceAddOn, serviceId, options.addOns, 'add-on');
+  }
+};
+
+/**
+ * Resolves the package and add-ons a customer picked for a booking
+ * A package must be chosen when the service offers any
+ */
+export const selectBookingOptions = (
+  service: { packages: ServicePackage[]; addOns: ServiceAddOn[] },
+  packageId: unknown,
+  addOnIds: unknown
+): BookingOptions => {
+  const activePackages = service.packages.filter(option => option.isActive);
+  const activeAddOns = service.addOns.filter(option => option.isActive);
+
+  let selectedPackage: ServicePackage | null = null;
+  if (packageId !== undefined && packageId !== null && packageId !== '') {
+    selectedPackage = activePackages.find(option => option.id === Number(packageId)) || null;
+    if (!selectedPackage) {
+      throw new ApiError(400, 'Package not found for this service');
+    }
+  } else if (activePackages.length > 0) {
+    throw new ApiError(400, 'Please choose a package');
+  }
+
+  if (addOnIds !== undefined && addOnIds !== null && !Array.isArray(addOnIds)) {
+    throw new ApiError(400, 'Add-ons must be a list');
+  }
+
+  const ids = [...new Set(((addOnIds as unknown[] | null | undefined) || []).map(Number))];
+  const addOns = ids.map(id => {
+    const addOn = activeAddOns.find(option => option.id === id);
+    if (!addOn) {
+      throw new ApiError(400, 'Add-on not found for this service');
+    }
+    return addOn;
+  });
+
+  return { package: selectedPackage, addOns };
+};
+
+export default {
+  parseServiceOptions,
+  getStartingPrice,
+  saveServiceOptions,
+  selectBookingOptions
+};
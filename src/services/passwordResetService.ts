@@ -0,0 +1,90 @@
+// src/services/passwordResetService.ts
+import crypto from 'crypto';
+import { Prisma, User } from '@prisma/client';
+import prisma from '../config/prisma';
+import { authConfig } from '../config/auth.config';
+import { notificationConfig } from '../config/notification.config';
+import { ApiError } from '../middleware/error';
+import { sendAccountEmail } from './notification/notificationService';
+
+/**
+ * Reset tokens are stored as SHA-256 hashes so a database leak cannot be used to take over accounts
+ */
+export const hashResetToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Issues a new reset token for the user and returns the raw value
+ * Any earlier unused tokens are invalidated
+ */
+export const createPasswordResetToken = async (
+  userId: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<string> => {
+  const token = crypto.randomBytes(authConfig.passwordReset.tokenBytes).toString('hex');
+
+  await client.passwordResetToken.deleteMany({
+    where: { userId, usedAt: null }
+  });
+
+  await client.passwordResetToken.create({
+    data: {
+      tokenHash: hashResetToken(token),
+      userId,
+      expiresAt: new Date(Date.now() + authConfig.passwordReset.expiresInMinutes * 60 * 1000)
+    }
+  });
+
+  return token;
+};
+
+/**
+ * Marks a reset token as used and returns the user it belongs to
+ * The token is claimed atomically so it can't be redeemed twice
+ */
+export const consumePasswordResetToken = async (
+  token: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+  const tokenHash = hashResetToken(token);
+
+  const resetToken = await client.passwordResetToken.findUnique({
+    where: { tokenHash }
+  });
+
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+    throw new ApiError(400, 'Invalid or expired reset link');
+  }
+
+  const claimed = await client.passwordResetToken.updateMany({
+    where: { id: resetToken.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  if (claimed.count === 0) {
+    throw new ApiError(400, 'Invalid or expired reset link');
+  }
+
+  return resetToken.userId;
+};
+
+/**
+ * Emails the user a link to choose a new password
+ */
+export const sendPasswordResetEmail = async (
+  user: Pick<User, 'id' | 'email' | 'firstName'>
+): Promise<boolean> => {
+  const token = await createPasswordResetToken(user.id);
+
+  return sendAccountEmail(user, 'password_reset', {
+    actionUrl: `${notificationConfig.frontendUrl}/reset-password?token=${token}`,
+    expiresIn: `${authConfig.passwordReset.expiresInMinutes} minutes`
+  });
+};
+
+export default {
+  hashResetToken,
+  createPasswordResetToken,
+  consumePasswordResetToken,
+  sendPasswordResetEmail
+};
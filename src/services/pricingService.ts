@@ -0,0 +1,208 @@
+// src/services/pricingService.ts
+import { Currency, LineItemType, PriceType, Service, ServiceAddOn, ServicePackage } from '@prisma/client';
+import { ApiError } from '../middleware/error';
+import { pricingConfig } from '../config/pricing.config';
+import { getZonedParts } from '../utils/dateTime';
+
+export type QuotableService = Pick<Service, 'id' | 'title' | 'price' | 'priceType' | 'currency'>;
+export type QuotablePackage = Pick<ServicePackage, 'id' | 'name' | 'price'>;
+export type QuotableAddOn = Pick<ServiceAddOn, 'id' | 'name' | 'price'>;
+
+export interface QuoteOptions {
+  bookingDate: Date;
+  durationHours?: number | string | null;
+  // The chosen package replaces the service price; it is priced the same way (FIXED or HOURLY)
+  package?: QuotablePackage | null;
+  addOns?: QuotableAddOn[];
+  // Charged by mobile providers for the customer's zone; never subject to surcharges
+  travelFee?: { amount: number; zone: string } | null;
+  now?: Date; // Injectable for tests
+}
+
+export interface QuoteLineItem {
+  type: LineItemType;
+  code: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface BookingQuote {
+  serviceId: number;
+  priceType: PriceType;
+  currency: Currency;
+  bookingDate: Date;
+  durationHours: number | null;
+  packageId: number | null;
+  addOnIds: number[];
+  items: QuoteLineItem[];
+  subtotal: number;
+  surchargesTotal: number;
+  travelFee: number;
+  total: number;
+}
+
+// Round to whole cents to avoid floating point artifacts in stored amounts
+export const roundMoney = (amount: number): number => {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+};
+
+/**
+ * Validates the requested duration for HOURLY services
+ * Durations must be within the configured range and a multiple of the increment
+ */
+const parseDurationHours = (value: number | string | null | undefined): number => {
+  const { minHours, maxHours, increment } = pricingConfig.hourly;
+  const hours = typeof value === 'string' ? parseFloat(value) : value;
+
+  if (hours === undefined || hours === null || isNaN(hours)) {
+    throw new ApiError(400, 'Duration in hours is required for hourly services');
+  }
+
+  if (hours < minHours || hours > maxHours) {
+    throw new ApiError(400, `Duration must be between ${minHours} and ${maxHours} hours`);
+  }
+
+  if (Math.abs(hours / increment - Math.round(hours / increment)) > 1e-9) {
+    throw new ApiError(400, `Duration must be in steps of ${increment} hours`);
+  }
+
+  return hours;
+};
+
+const percentOf = (base: number, percent: number): number => roundMoney(base * percent / 100);
+
+/**
+ * Builds the surcharge line items that apply to a booking date
+ */
+const calculateSurcharges = (base: number, bookingDate: Date, now: Date): QuoteLineItem[] => {
+  const { weekend, evening, shortNotice } = pricingConfig.surcharges;
+  const local = getZonedParts(bookingDate);
+  const items: QuoteLineItem[] = [];
+
+  const addSurcharge = (code: string, description: string, percent: number) => {
+    const amount = percentOf(base, percent);
+    items.push({
+      type: LineItemType.SURCHARGE,
+      code,
+      description: `${description} (${percent}%)`,
+      quantity: 1,
+      unitPrice: amount,
+      amount
+    });
+  };
+
+  if (weekend.enabled && (local.weekday === 0 || local.weekday === 6)) {
+    addSurcharge('weekend', weekend.description, weekend.percent);
+  }
+
+  if (evening.enabled && (local.hour >= evening.startHour || local.hour < evening.endHour)) {
+    addSurcharge('evening', evening.description, evening.percent);
+  }
+
+  const hoursUntilBooking = (bookingDate.getTime() - now.getTime()) / (60 * 60 * 1000);
+  if (shortNotice.enabled && hoursUntilBooking < shortNotice.withinHours) {
+    addSurcharge('short_notice', shortNotice.description, shortNotice.percent);
+  }
+
+  return items;
+};
+
+/**
+ * Calculates an itemised price quote for a booking
+ * The quote is always derived from the stored service price - client supplied totals are never trusted
+ */
+export const calculateBookingQuote = (
+  service: QuotableService,
+  options: QuoteOptions
+): BookingQuote => {
+  const now = options.now || new Date();
+  const { bookingDate } = options;
+
+  if (isNaN(bookingDate.getTime())) {
+    throw new ApiError(400, 'Invalid booking date');
+  }
+
+  if (bookingDate <= now) {
+    throw new ApiError(400, 'Booking date must be in the future');
+  }
+
+  const items: QuoteLineItem[] = [];
+  let durationHours: number | null = null;
+  const selectedPackage = options.package || null;
+  const basePrice = selectedPackage ? selectedPackage.price : service.price;
+  const title = selectedPackage ? `${service.title} - ${selectedPackage.name}` : service.title;
+
+  if (service.priceType === PriceType.HOURLY) {
+    durationHours = parseDurationHours(options.durationHours);
+    items.push({
+      type: LineItemType.BASE,
+      code: 'base',
+      description: `${title} (${durationHours} h)`,
+      quantity: durationHours,
+      unitPrice: basePrice,
+      amount: roundMoney(basePrice * durationHours)
+    });
+  } else {
+    items.push({
+      type: LineItemType.BASE,
+      code: 'base',
+      description: title,
+      quantity: 1,
+      unitPrice: basePrice,
+      amount: roundMoney(basePrice)
+    });
+  }
+
+  // Add-ons have a flat price, whatever the duration
+  const addOns = options.addOns || [];
+  for (const addOn of addOns) {
+    items.push({
+      type: LineItemType.ADD_ON,
+      code: 'add_on',
+      description: addOn.name,
+      quantity: 1,
+      unitPrice: addOn.price,
+      amount: roundMoney(addOn.price)
+    });
+  }
+
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.amount, 0));
+  const surcharges = calculateSurcharges(subtotal, bookingDate, now);
+  const surchargesTotal = roundMoney(surcharges.reduce((sum, item) => sum + item.amount, 0));
+
+  const travelItems: QuoteLineItem[] = [];
+  if (options.travelFee && options.travelFee.amount > 0) {
+    const amount = roundMoney(options.travelFee.amount);
+    travelItems.push({
+      type: LineItemType.TRAVEL_FEE,
+      code: 'travel_fee',
+      description: options.travelFee.zone,
+      quantity: 1,
+      unitPrice: amount,
+      amount
+    });
+  }
+  const travelFee = travelItems.length > 0 ? travelItems[0].amount : 0;
+
+  return {
+    serviceId: service.id,
+    priceType: service.priceType,
+    currency: service.currency,
+    bookingDate,
+    durationHours,
+    packageId: selectedPackage ? selectedPackage.id : null,
+    addOnIds: addOns.map(addOn => addOn.id),
+    items: [...items, ...surcharges, ...travelItems],
+    subtotal,
+    surchargesTotal,
+    travelFee,
+    total: roundMoney(subtotal + surchargesTotal + travelFee)
+  };
+};
+
+export default {
+  calculateBookingQuote,
+  roundMoney
+};
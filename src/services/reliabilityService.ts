@@ -0,0 +1,103 @@
+// src/services/reliabilityService.ts
+import { BookingStatus, PenaltyParty, Prisma } from '@prisma/client';
+import prisma from '../config/prisma';
+import { cancellationConfig } from '../config/cancellation.config';
+
+export interface ProviderReliability {
+  score: number | null;
+  completed: number;
+  cancellations: number;
+  lateCancellations: number;
+  noShows: number;
+}
+
+/**
+ * Calculates a provider's reliability over the configured window
+ * The score is a weighted completion rate (0-100): completed bookings against
+ * cancellations, late cancellations and no-shows by the provider
+ */
+export const calculateProviderReliability = async (
+  providerId: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<ProviderReliability> => {
+  const { windowDays, minBookings, weights } = cancellationConfig.reliability;
+  const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+  const provider = await client.providerProfile.findUnique({
+    where: { id: providerId },
+    select: { userId: true }
+  });
+
+  if (!provider) {
+    return { score: null, completed: 0, cancellations: 0, lateCancellations: 0, noShows: 0 };
+  }
+
+  const [completed, cancellations, noShows, lateCancellations] = await Promise.all([
+    client.booking.count({
+      where: {
+        service: { providerId },
+        status: BookingStatus.completed,
+        bookingDate: { gte: since }
+      }
+    }),
+    client.booking.count({
+      where: {
+        service: { providerId },
+        status: BookingStatus.cancelled,
+        cancelledBy: provider.userId,
+        cancellationTime: { gte: since }
+      }
+    }),
+    client.booking.count({
+      where: {
+        service: { providerId },
+        status: BookingStatus.no_show_provider,
+        bookingDate: { gte: since }
+      }
+    }),
+    client.cancellationPenalty.count({
+      where: {
+        userId: provider.userId,
+        party: PenaltyParty.PROVIDER,
+        createdAt: { gte: since }
+      }
+    })
+  ]);
+
+  const finished = completed + cancellations + noShows;
+  const penaltyPoints =
+    (cancellations - lateCancellations) * weights.cancellation +
+    lateCancellations * weights.lateCancellation +
+    noShows * weights.noShow;
+
+  const score = finished < minBookings || completed + penaltyPoints === 0
+    ? null
+    : Math.round(completed / (completed + penaltyPoints) * 1000) / 10;
+
+  return { score, completed, cancellations, lateCancellations, noShows };
+};
+
+/**
+ * Recalculates and stores the reliability score shown on the provider profile
+ */
+export const refreshProviderReliability = async (
+  providerId: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<ProviderReliability> => {
+  const reliability = await calculateProviderReliability(providerId, client);
+
+  await client.providerProfile.update({
+    where: { id: providerId },
+    data: {
+      reliabilityScore: reliability.score,
+      reliabilityUpdatedAt: new Date()
+    }
+  });
+
+  return reliability;
+};
+
+export default {
+  calculateProviderReliability,
+  refreshProviderReliability
+};
@@ -0,0 +1,143 @@
+// src/services/reviewService.ts
+import { Prisma, Review, ReviewModerationStatus } from '@prisma/client';
+import prisma from '../config/prisma';
+import { reviewConfig } from '../config/review.config';
+
+// Optional 1-5 scores a customer can give next to the overall rating
+export const SUB_RATING_FIELDS = [
+  'punctualityRating',
+  'qualityRating',
+  'communicationRating',
+  'valueRating'
+] as const;
+
+export type SubRatingField = typeof SUB_RATING_FIELDS[number];
+
+const HISTOGRAM_FIELDS = ['rating1Count', 'rating2Count', 'rating3Count', 'rating4Count', 'rating5Count'] as const;
+
+type RatingCounters = Pick<
+  Prisma.ServiceUncheckedUpdateInput & Prisma.ProviderProfileUncheckedUpdateInput,
+  'ratingCount' | 'ratingSum' | typeof HISTOGRAM_FIELDS[number]
+>;
+
+// Aggregate columns shared by services and provider profiles
+export const ratingAggregateSelect = {
+  rating: true,
+  ratingCount: true,
+  ratingSum: true,
+  rating1Count: true,
+  rating2Count: true,
+  rating3Count: true,
+  rating4Count: true,
+  rating5Count: true,
+  ratingScore: true
+} as const;
+
+type RatingAggregates = Prisma.ServiceGetPayload<{ select: typeof ratingAggregateSelect }>;
+
+// Reviews shown to customers and counted in ratings
+export const visibleReviewWhere: Prisma.ReviewWhereInput = {
+  isHidden: false,
+  moderationStatus: ReviewModerationStatus.approved
+};
+
+/**
+ * Whether a review passes visibleReviewWhere
+ */
+export const isReviewVisible = (review: Pick<Review, 'isHidden' | 'moderationStatus'>): boolean =>
+  !review.isHidden && review.moderationStatus === ReviewModerationStatus.approved;
+
+/**
+ * Average and Bayesian-weighted score for the given totals; null without reviews
+ */
+export const calculateRatings = (ratingCount: number, ratingSum: number) => {
+  if (ratingCount <= 0) {
+    return { rating: null, ratingScore: null };
+  }
+
+  const { priorMean, priorWeight } = reviewConfig.bayesian;
+  return {
+    rating: ratingSum / ratingCount,
+    ratingScore: (priorMean * priorWeight + ratingSum) / (priorWeight + ratingCount)
+  };
+};
+
+/**
+ * Adds a review to (change 1) or removes it from (change -1) the rating aggregates
+ * of its service and provider. Call inside a transaction: the counter update locks
+ * the row until the averages are written from the new totals.
+ */
+export const applyReviewToRatings = async (
+  review: { rating: number; serviceId: number; providerId: number },
+  change: 1 | -1,
+  tx: Prisma.TransactionClient
+): Promise<void> => {
+  const counters: RatingCounters = {
+    ratingCount: { increment: change },
+    ratingSum: { increment: change * review.rating }
+  };
+  counters[HISTOGRAM_FIELDS[review.rating - 1]] = { increment: change };
+
+  const service = await tx.service.update({
+    where: { id: review.serviceId },
+    data: counters,
+    select: { ratingCount: true, ratingSum: true }
+  });
+  await tx.service.update({
+    where: { id: review.serviceId },
+    data: calculateRatings(service.ratingCount, service.ratingSum)
+  });
+
+  const provider = await tx.providerProfile.update({
+    where: { id: review.providerId },
+    data: counters,
+    select: { ratingCount: true, ratingSum: true }
+  });
+  await tx.providerProfile.update({
+    where: { id: review.providerId },
+    data: calculateRatings(provider.ratingCount, provider.ratingSum)
+  });
+};
+
+/**
+ * Summarizes the rating aggregates of a service or provider with the average
+ * of each sub-rating across the matching visible reviews
+ */
+export const getRatingSummary = async (
+  aggregates: RatingAggregates,
+  reviewWhere: Prisma.ReviewWhereInput,
+  client: Prisma.TransactionClient = prisma
+) => {
+  const subRatings = await client.review.aggregate({
+    where: { ...visibleReviewWhere, ...reviewWhere },
+    _avg: {
+      punctualityRating: true,
+      qualityRating: true,
+      communicationRating: true,
+      valueRating: true
+    }
+  });
+
+  return {
+    average: aggregates.rating,
+    count: aggregates.ratingCount,
+    score: aggregates.ratingScore,
+    histogram: Object.fromEntries(HISTOGRAM_FIELDS.map((field, index) => [index + 1, aggregates[field]])),
+    subRatings: {
+      punctuality: subRatings._avg.punctualityRating,
+      quality: subRatings._avg.qualityRating,
+      communication: subRatings._avg.communicationRating,
+      value: subRatings._avg.valueRating
+    }
+  };
+};
+
+export default {
+  SUB_RATING_FIELDS,
+  ratingAggregateSelect,
+  visibleReviewWhere,
+  isReviewVisible,
+  calculateRatings,
+  applyReviewToRatings,
+  getRatingSummary
+};
@@ -0,0 +1,213 @@
+// src/services/searchService.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import prisma from '../config/prisma';
+import { searchConfig } from '../config/search.config';
+import {
+  ListingQuery,
+  listingFromSql,
+  listingOrderSql,
+  listingPageSql,
+  listingWhereSql
+} from './serviceListingService';
+
+export type SearchMatchType = 'fulltext' | 'fuzzy';
+
+export interface ServiceSearchHit {
+  serviceId: number;
+  rank: number;
+  matchType: SearchMatchType;
+  highlights: {
+    title: string;
+    description: string;
+  };
+}
+
+export interface SearchPage {
+  total: number;
+  hits: ServiceSearchHit[];
+}
+
+interface SearchRow {
+  id: number;
+  rank: number;
+  title: string;
+  description: string;
+}
+
+// Control characters mark highlighted terms in ts_headline output so the text
+// can be HTML-escaped before the real highlight tags are inserted
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Turns ts_headline output into safe HTML with the configured highlight tags
+ */
+export const formatHighlight = (text: string): string => {
+  const { startTag, endTag } = searchConfig.highlight;
+  return escapeHtml(text.replace(/[\u0003-\u001f]/g, ' '))
+    .split(MATCH_START).join(startTag)
+    .split(MATCH_END).join(endTag);
+};
+
+/**
+ * Trims and collapses a search query; returns null when it is too short to search for
+ */
+export const normalizeSearchQuery = (value: unknown): string | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const query = value
+    .replace(/[\u0000-\u001f]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, searchConfig.query.maxLength);
+
+  return query.length >= searchConfig.query.minLength ? query : null;
+};
+
+const TITLE_HEADLINE_OPTIONS = `HighlightAll=true, StartSel=${MATCH_START}, StopSel=${MATCH_END}`;
+
+const descriptionHeadlineOptions = (): string => {
+  const { maxWords, minWords, maxFragments } = searchConfig.highlight;
+  return `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=${maxWords}, ` +
+    `MinWords=${minWords}, MaxFragments=${maxFragments}, FragmentDelimiter=" … "`;
+};
+
+// How a match type finds, ranks and highlights services; see fullTextMatch and fuzzyMatch
+interface SearchMatch {
+  type: SearchMatchType;
+  with: Prisma.Sql;
+  join: Prisma.Sql;
+  condition: Prisma.Sql;
+  rank: Prisma.Sql;
+  title: Prisma.Sql;
+  description: Prisma.Sql;
+}
+
+/**
+ * Full-text search over title and description in both Bulgarian and English
+ * Headlines are parsed with the English configuration, which leaves Cyrillic
+ * words as they are, so terms from either language are highlighted
+ */
+const fullTextMatch = (query: string): SearchMatch => ({
+  type: 'fulltext',
+  with: Prisma.sql`WITH search AS (
+    SELECT websearch_to_tsquery('bulgarian'::regconfig, ${query})
+      || websearch_to_tsquery('english'::regconfig, ${query}) AS tsq
+  )`,
+  join: Prisma.sql`CROSS JOIN search`,
+  condition: Prisma.sql`s."searchVector" @@ search.tsq`,
+  rank: Prisma.sql`ts_rank_cd(s."searchVector", search.tsq)::float8`,
+  title: Prisma.sql`ts_headline('english'::regconfig, s."title", search.tsq, ${TITLE_HEADLINE_OPTIONS})`,
+  description: Prisma.sql`ts_headline('english'::regconfig, s."description", search.tsq, ${descriptionHeadlineOptions()})`
+});
+
+/**
+ * Typo-tolerant fallback using trigram word similarity
+ * The <% operator can use the trigram indexes on title and description; it reads its threshold
+ * from pg_trgm.word_similarity_threshold, so it has to run after setFuzzyThreshold in one transaction
+ */
+const fuzzyMatch = (query: string): SearchMatch => ({
+  type: 'fuzzy',
+  with: Prisma.empty,
+  join: Prisma.empty,
+  condition: Prisma.sql`(${query} <% s."title" OR ${query} <% s."description")`,
+  rank: Prisma.sql`GREATEST(word_similarity(${query}, s."title"), word_similarity(${query}, s."description"))::float8`,
+  title: Prisma.sql`s."title"`,
+  description: Prisma.sql`left(s."description", 200)`
+});
+
+const setFuzzyThreshold = async (tx: Prisma.TransactionClient): Promise<void> => {
+  await tx.$executeRaw`
+    SELECT set_config('pg_trgm.word_similarity_threshold', ${String(searchConfig.fuzzyThreshold)}, true)
+  `;
+};
+
+const countMatches = async (
+  match: SearchMatch,
+  listing: ListingQuery,
+  client: Prisma.TransactionClient
+): Promise<number> => {
+  const [{ total }] = await client.$queryRaw<{ total: number }[]>`
+    ${match.with}
+    SELECT COUNT(*)::int AS "total"
+    FROM ${listingFromSql} ${match.join}
+    ${listingWhereSql(listing, match.condition)}
+  `;
+  return Number(total);
+};
+
+/**
+ * Returns the requested page of matches, in the listing order with the best matches first among equals
+ */
+const findMatches = async (
+  match: SearchMatch,
+  listing: ListingQuery,
+  client: Prisma.TransactionClient
+): Promise<ServiceSearchHit[]> => {
+  const rows = await client.$queryRaw<SearchRow[]>`
+    ${match.with}
+    SELECT s."id", ${match.rank} AS "rank", ${match.title} AS "title", ${match.description} AS "description"
+    FROM ${listingFromSql} ${match.join}
+    ${listingWhereSql(listing, match.condition)}
+    ${listingOrderSql(listing, Prisma.sql`${match.rank} DESC`)}
+    ${listingPageSql(listing)}
+  `;
+
+  return rows.map(row => ({
+    serviceId: Number(row.id),
+    rank: Number(row.rank),
+    matchType: match.type,
+    highlights: {
+      title: formatHighlight(row.title),
+      description: formatHighlight(row.description)
+    }
+  }));
+};
+
+// Runs fn in a transaction of its own unless the caller already passed one
+const inTransaction = <T>(
+  client: Prisma.TransactionClient,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> =>
+  '$transaction' in client ? (client as PrismaClient).$transaction(fn) : fn(client);
+
+/**
+ * Finds the services of a listing that match a keyword query, one page at a time
+ * Without a listing order the best matches come first; falls back to trigram
+ * similarity so misspelled queries still find results
+ */
+export const searchServices = async (
+  query: string,
+  listing: ListingQuery,
+  client: Prisma.TransactionClient = prisma
+): Promise<SearchPage> => {
+  const fullText = fullTextMatch(query);
+  const total = await countMatches(fullText, listing, client);
+
+  if (total > 0) {
+    return { total, hits: await findMatches(fullText, listing, client) };
+  }
+
+  return inTransaction(client, async tx => {
+    const fuzzy = fuzzyMatch(query);
+    await setFuzzyThreshold(tx);
+    const fuzzyTotal = await countMatches(fuzzy, listing, tx);
+    return { total: fuzzyTotal, hits: fuzzyTotal > 0 ? await findMatches(fuzzy, listing, tx) : [] };
+  });
+};
+
+export default {
+  normalizeSearchQuery,
+  formatHighlight,
+  searchServices
+};
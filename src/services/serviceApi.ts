@@ -1,6 +1,6 @@
 // src/services/serviceApi.ts
 import api, { ApiResponse } from './api';
-import { Service } from '../types/prisma';
+import { Service, ServiceCoverageArea } from '../types/prisma';
 
 interface ServiceParams {
   isActive?: boolean;
@@ -17,6 +17,14 @@ export const serviceApi = {
   },
 
   getServices: async (params?: {
+    q?: string;
+    sortBy?: 'relevance' | 'distance' | 'newest' | 'oldest' | 'price-low' | 'price-high' | 'rating';
+    lat?: number;
+    lng?: number;
+    radiusKm?: number;
+    cityId?: number;
+    displayCurrency?: 'BGN' | 'EUR';
+    priceCurrency?: 'BGN' | 'EUR';
     categoryId?: string;
     city?: string;
     priceMin?: number;
@@ -53,6 +61,19 @@ export const serviceApi = {
     });
   },
 
+  getCoverage: async (id: string | number): Promise<ApiResponse<ServiceCoverageArea[]>> => {
+    if (!id) throw new Error('Service ID is required');
+    return api.get(`/services/${id}/coverage`);
+  },
+
+  updateCoverage: async (
+    id: string | number,
+    areas: Array<Pick<ServiceCoverageArea, 'type' | 'cityId' | 'stateId' | 'latitude' | 'longitude' | 'radiusKm' | 'travelFee'>>
+  ): Promise<ApiResponse<ServiceCoverageArea[]>> => {
+    if (!id) throw new Error('Service ID is required');
+    return api.put(`/services/${id}/coverage`, { areas });
+  },
+
   deleteService: async (id: string | number): Promise<ApiResponse> => {
     if (!id) throw new Error('Service ID is required');
     return api.delete(`/services/${id}`);
@@ -0,0 +1,72 @@
+// src/services/serviceListingService.ts
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma';
+
+/**
+ * A filtered and ordered page of the service listing, for orders only the database can apply
+ * Conditions and orders refer to the service as s, its provider as p and the provider's account as u
+ */
+export interface ListingQuery {
+  conditions: Prisma.Sql[];
+  orderBy: Prisma.Sql[];
+  skip: number;
+  take: number;
+}
+
+export interface ListingPage {
+  total: number;
+  serviceIds: number[];
+}
+
+export const listingFromSql = Prisma.sql`"Service" s
+  JOIN "ProviderProfile" p ON p."id" = s."providerId"
+  JOIN "User" u ON u."id" = p."userId"`;
+
+/**
+ * WHERE clause for the listing conditions plus any extra ones, such as a search match
+ */
+export const listingWhereSql = (listing: ListingQuery, ...extra: Prisma.Sql[]): Prisma.Sql => {
+  const conditions = [...listing.conditions, ...extra];
+  return conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+};
+
+/**
+ * ORDER BY clause for the listing orders followed by the given tie-breakers
+ */
+export const listingOrderSql = (listing: ListingQuery, ...tieBreakers: Prisma.Sql[]): Prisma.Sql =>
+  Prisma.sql`ORDER BY ${Prisma.join([...listing.orderBy, ...tieBreakers, Prisma.sql`s."id" DESC`], ', ')}`;
+
+export const listingPageSql = (listing: ListingQuery): Prisma.Sql =>
+  Prisma.sql`LIMIT ${listing.take} OFFSET ${listing.skip}`;
+
+/**
+ * Counts the matching services and returns the ids on the requested page, in order
+ */
+export const findListingPage = async (
+  listing: ListingQuery,
+  client: Prisma.TransactionClient = prisma
+): Promise<ListingPage> => {
+  const [{ total }] = await client.$queryRaw<{ total: number }[]>`
+    SELECT COUNT(*)::int AS "total"
+    FROM ${listingFromSql}
+    ${listingWhereSql(listing)}
+  `;
+
+  if (total === 0) {
+    return { total: 0, serviceIds: [] };
+  }
+
+  const rows = await client.$queryRaw<{ id: number }[]>`
+    SELECT s."id"
+    FROM ${listingFromSql}
+    ${listingWhereSql(listing)}
+    ${listingOrderSql(listing)}
+    ${listingPageSql(listing)}
+  `;
+
+  return { total: Number(total), serviceIds: rows.map(row => Number(row.id)) };
+};
+
+export default {
+  findListingPage
+};
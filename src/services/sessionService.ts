@@ -0,0 +1,287 @@
+// src/services/sessionService.ts
+import crypto from 'crypto';
+import { Request } from 'express';
+import jwt, { Algorithm } from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma';
+
+// Configuration constants
+const JWT_ACCESS_TOKEN_EXPIRY = process.env.JWT_ACCESS_TOKEN_EXPIRY || '15m';  // 15 minutes
+const JWT_REFRESH_TOKEN_EXPIRY = process.env.JWT_REFRESH_TOKEN_EXPIRY || '7d';   // 7 days
+const REFRESH_TOKEN_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const ALGORITHM: Algorithm = 'HS256';
+
+// Secrets are read when used so they match what authenticateToken verifies against
+const jwtSecret = (): string => process.env.JWT_SECRET || 'your-secret-key';
+const refreshTokenSecret = (): string => process.env.REFRESH_TOKEN_SECRET || 'your-refresh-secret-key';
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'logout_all'
+  | 'revoked'
+  | 'token_reuse'
+  | 'password_reset'
+  | 'deactivated';
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  sessionId: number;
+  accessToken: string;
+  refreshToken: string;
+}
+
+export type RotationResult =
+  | ({ status: 'rotated'; userId: number } & SessionTokens)
+  | { status: 'invalid' }
+  | { status: 'reused' }
+  | { status: 'deactivated' };
+
+// Fields returned when listing sessions; tokens are never exposed
+export const sessionSelect = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true
+} as const;
+
+/**
+ * Reads the device and IP details stored with a session
+ */
+export const getSessionMetadata = (req: Request): SessionMetadata => ({
+  userAgent: req.get('user-agent')?.slice(0, 255),
+  ipAddress: req.ip
+});
+
+// The session id (sid) in the access token lets authenticateToken reject revoked sessions immediately
+const generateAccessToken = (userId: number, sessionId: number): string =>
+  jwt.sign({ userId, sid: sessionId }, jwtSecret(), {
+    expiresIn: JWT_ACCESS_TOKEN_EXPIRY,
+    algorithm: ALGORITHM
+  });
+
+// jti keeps tokens issued within the same second unique
+const generateRefreshToken = (userId: number, sessionId: number): string =>
+  jwt.sign({ userId, sid: sessionId, jti: crypto.randomUUID() }, refreshTokenSecret(), {
+    expiresIn: JWT_REFRESH_TOKEN_EXPIRY,
+    algorithm: ALGORITHM
+  });
+
+const issueTokens = async (
+  userId: number,
+  sessionId: number,
+  client: Prisma.TransactionClient
+): Promise<SessionTokens> => {
+  const accessToken = generateAccessToken(userId, sessionId);
+  const refreshToken = generateRefreshToken(userId, sessionId);
+
+  await client.refreshToken.create({
+    data: {
+      token: refreshToken,
+      userId,
+      sessionId,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_LIFETIME_MS)
+    }
+  });
+
+  return { sessionId, accessToken, refreshToken };
+};
+
+/**
+ * Starts a new session (token family) and issues its first access/refresh token pair
+ */
+export const createSession = async (
+  userId: number,
+  metadata: SessionMetadata,
+  client: Prisma.TransactionClient = prisma
+): Promise<SessionTokens> => {
+  const session = await client.userSession.create({
+    data: {
+      userId,
+      userAgent: metadata.userAgent,
+      ipAddress: metadata.ipAddress,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_LIFETIME_MS)
+    }
+  });
+
+  return issueTokens(userId, session.id, client);
+};
+
+/**
+ * Revokes a single session; returns false when it was not found or already revoked
+ */
+export const revokeSession = async (
+  sessionId: number,
+  reason: SessionRevokeReason,
+  client: Prisma.TransactionClient = prisma
+): Promise<boolean> => {
+  const revoked = await client.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+
+  return revoked.count > 0;
+};
+
+/**
+ * Revokes one of the user's own sessions; returns false when it is not theirs or not active
+ */
+export const revokeUserSession = async (userId: number, sessionId: number): Promise<boolean> => {
+  const revoked = await prisma.userSession.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: 'revoked' }
+  });
+
+  return revoked.count > 0;
+};
+
+/**
+ * Revokes every active session of a user, signing them out on all devices
+ */
+export const revokeAllSessions = async (
+  userId: number,
+  reason: SessionRevokeReason,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+  const revoked = await client.userSession.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+
+  return revoked.count;
+};
+
+/**
+ * Exchanges a refresh token for a new pair within the same session
+ * A token that was already rotated is treated as stolen and revokes the whole session,
+ * and so is any token of a deactivated account
+ */
+export const rotateRefreshToken = async (
+  token: string,
+  metadata: SessionMetadata
+): Promise<RotationResult> => {
+  let decoded: { userId: number };
+  try {
+    decoded = jwt.verify(token, refreshTokenSecret()) as { userId: number };
+  } catch {
+    return { status: 'invalid' };
+  }
+
+  const stored = await prisma.refreshToken.findUnique({
+    where: { token },
+    include: {
+      session: true,
+      user: { select: { isActive: true } }
+    }
+  });
+
+  if (
+    !stored ||
+    stored.userId !== decoded.userId ||
+    stored.session.revokedAt ||
+    stored.expiresAt <= new Date()
+  ) {
+    return { status: 'invalid' };
+  }
+
+  if (!stored.user.isActive) {
+    await revokeSession(stored.sessionId, 'deactivated');
+    return { status: 'deactivated' };
+  }
+
+  if (stored.usedAt) {
+    await revokeSession(stored.sessionId, 'token_reuse');
+    return { status: 'reused' };
+  }
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Claim the token atomically so two concurrent refreshes can't both succeed
+    const claimed = await tx.refreshToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    await tx.userSession.update({
+      where: { id: stored.sessionId },
+      data: {
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_LIFETIME_MS),
+        userAgent: metadata.userAgent,
+        ipAddress: metadata.ipAddress
+      }
+    });
+
+    return issueTokens(stored.userId, stored.sessionId, tx);
+  });
+
+  if (!rotated) {
+    await revokeSession(stored.sessionId, 'token_reuse');
+    return { status: 'reused' };
+  }
+
+  return { status: 'rotated', userId: stored.userId, ...rotated };
+};
+
+/**
+ * Revokes the session a refresh token belongs to
+ */
+export const revokeSessionByRefreshToken = async (
+  token: string,
+  reason: SessionRevokeReason
+): Promise<boolean> => {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { token },
+    select: { sessionId: true }
+  });
+
+  return stored ? revokeSession(stored.sessionId, reason) : false;
+};
+
+/**
+ * Checks that the session behind an access token has not been revoked
+ */
+export const isSessionActive = async (sessionId: number): Promise<boolean> => {
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true }
+  });
+
+  return !!session && !session.revokedAt;
+};
+
+/**
+ * Lists the user's sessions that can still be refreshed, most recently used first
+ */
+export const listActiveSessions = async (userId: number) => {
+  return prisma.userSession.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    select: sessionSelect,
+    orderBy: { lastUsedAt: 'desc' }
+  });
+};
+
+export default {
+  getSessionMetadata,
+  createSession,
+  revokeSession,
+  revokeUserSession,
+  revokeAllSessions,
+  rotateRefreshToken,
+  revokeSessionByRefreshToken,
+  isSessionActive,
+  listActiveSessions
+};
@@ -0,0 +1,140 @@
+// src/services/twoFactorService.ts
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Prisma, User } from '@prisma/client';
+import prisma from '../config/prisma';
+import { authConfig } from '../config/auth.config';
+import { verifyTotp } from '../utils/totp';
+
+interface TwoFactorChallengePayload {
+  userId: number;
+  purpose: '2fa_challenge';
+}
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+const encryptionKey = (): Buffer =>
+  crypto.createHash('sha256').update(authConfig.twoFactor.getEncryptionKey()).digest();
+
+/**
+ * Encrypts a TOTP secret for storage (AES-256-GCM, stored as iv:tag:ciphertext)
+ */
+export const encryptTwoFactorSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+};
+
+export const decryptTwoFactorSecret = (stored: string): string => {
+  const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+/**
+ * Creates the short-lived token returned by login when a second factor is required
+ */
+export const createTwoFactorChallenge = (userId: number): string => {
+  const payload: TwoFactorChallengePayload = { userId, purpose: '2fa_challenge' };
+
+  return jwt.sign(payload, authConfig.twoFactor.getChallengeSecret(), {
+    expiresIn: authConfig.twoFactor.challengeExpiresIn
+  });
+};
+
+/**
+ * Returns the user id of a login challenge, or null when it is invalid or expired
+ */
+export const verifyTwoFactorChallenge = (token: string): number | null => {
+  try {
+    const payload = jwt.verify(token, authConfig.twoFactor.getChallengeSecret()) as TwoFactorChallengePayload;
+    return payload.purpose === '2fa_challenge' ? payload.userId : null;
+  } catch {
+    return null;
+  }
+};
+
+const normalizeRecoveryCode = (code: string): string => code.replace(/[\s-]/g, '').toLowerCase();
+
+const hashRecoveryCode = (code: string): string =>
+  crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+/**
+ * Replaces the user's recovery codes and returns the new plain-text codes
+ * The plain codes are only shown once; only their hashes are stored
+ */
+export const generateRecoveryCodes = async (
+  userId: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<string[]> => {
+  const codes = Array.from({ length: authConfig.twoFactor.recoveryCodeCount }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await client.twoFactorRecoveryCode.deleteMany({
+    where: { userId }
+  });
+
+  await client.twoFactorRecoveryCode.createMany({
+    data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) }))
+  });
+
+  return codes;
+};
+
+/**
+ * Checks an authenticator code or a recovery code for the user
+ * Authenticator codes can't be replayed and recovery codes can only be used once
+ */
+export const verifySecondFactor = async (
+  user: Pick<User, 'id' | 'twoFactorSecret' | 'twoFactorLastUsedStep'>,
+  { code, recoveryCode }: SecondFactor,
+  client: Prisma.TransactionClient = prisma
+): Promise<boolean> => {
+  if (code && user.twoFactorSecret) {
+    const step = verifyTotp(
+      decryptTwoFactorSecret(user.twoFactorSecret),
+      code,
+      authConfig.twoFactor.window
+    );
+
+    if (step === null || (user.twoFactorLastUsedStep !== null && step <= user.twoFactorLastUsedStep)) {
+      return false;
+    }
+
+    await client.user.update({
+      where: { id: user.id },
+      data: { twoFactorLastUsedStep: step }
+    });
+
+    return true;
+  }
+
+  if (recoveryCode) {
+    const claimed = await client.twoFactorRecoveryCode.updateMany({
+      where: { userId: user.id, codeHash: hashRecoveryCode(recoveryCode), usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    return claimed.count > 0;
+  }
+
+  return false;
+};
+
+export default {
+  encryptTwoFactorSecret,
+  decryptTwoFactorSecret,
+  createTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  generateRecoveryCodes,
+  verifySecondFactor
+};
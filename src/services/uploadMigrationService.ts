@@ -0,0 +1,145 @@
+// src/services/uploadMigrationService.ts
+import path from 'path';
+import { Prisma, ServiceImage } from '@prisma/client';
+import prisma from '../config/prisma';
+import { StorageService } from '../config/storage.config';
+
+export interface UploadMigrationOptions {
+  // Where the existing files are read from
+  source: StorageService;
+  // The backend the files are copied to
+  target: StorageService;
+  // Report what would be moved without copying or updating anything
+  dryRun?: boolean;
+  // Remove the local copies once the images point at the target
+  deleteSource?: boolean;
+  batchSize?: number;
+}
+
+export type UploadImageModel = 'serviceImage' | 'reviewImage';
+
+export interface UploadMigrationResult {
+  images: number;
+  files: number;
+  failed: { model: UploadImageModel; imageId: number; url: string; error: string }[];
+}
+
+const LOCAL_PREFIX = '/uploads/';
+const URL_FIELDS = ['imageUrl', 'thumbnailUrl', 'mediumUrl', 'largeUrl'] as const;
+
+type UrlField = typeof URL_FIELDS[number];
+type ImageUrls = Pick<ServiceImage, 'id' | UrlField>;
+
+// Service and review images share their URL fields; this is all the migration needs of either table
+interface ImageTable {
+  // The next batch of images after lastId with at least one file still stored locally
+  findLocal(lastId: number, take: number): Promise<ImageUrls[]>;
+  update(id: number, data: Partial<Record<UrlField, string>>): Promise<unknown>;
+}
+
+const localImageQuery = (lastId: number, take: number) => ({
+  where: {
+    id: { gt: lastId },
+    OR: URL_FIELDS.map(field => ({ [field]: { startsWith: LOCAL_PREFIX } }))
+  },
+  orderBy: { id: 'asc' as const },
+  take
+});
+
+const imageTables = (client: Prisma.TransactionClient): Record<UploadImageModel, ImageTable> => ({
+  serviceImage: {
+    findLocal: (lastId, take) => client.serviceImage.findMany(localImageQuery(lastId, take)),
+    update: (id, data) => client.serviceImage.update({ where: { id }, data })
+  },
+  reviewImage: {
+    findLocal: (lastId, take) => client.reviewImage.findMany(localImageQuery(lastId, take)),
+    update: (id, data) => client.reviewImage.update({ where: { id }, data })
+  }
+});
+
+// Local filenames start with the upload timestamp, which the target adds again
+const originalName = (url: string): string => path.basename(url).replace(/^\d+-/, '');
+
+// Migrates one table in batches, adding to the shared result
+const migrateImageTable = async (
+  model: UploadImageModel,
+  table: ImageTable,
+  options: UploadMigrationOptions,
+  result: UploadMigrationResult
+): Promise<void> => {
+  const { source, target, dryRun = false, deleteSource = false, batchSize = 100 } = options;
+  let lastId = 0;
+
+  for (;;) {
+    const images = await table.findLocal(lastId, batchSize);
+
+    if (images.length === 0) {
+      return;
+    }
+    lastId = images[images.length - 1].id;
+
+    for (const image of images) {
+      // The same file can back several fields, e.g. imageUrl and largeUrl
+      const localUrls = [...new Set(
+        URL_FIELDS.map(field => image[field]).filter((url): url is string => !!url?.startsWith(LOCAL_PREFIX))
+      )];
+      const moved = new Map<string, string>();
+
+      if (dryRun) {
+        result.images++;
+        result.files += localUrls.length;
+        continue;
+      }
+
+      try {
+        for (const url of localUrls) {
+          moved.set(url, await target.saveFile(await source.getFile(url), originalName(url)));
+        }
+      } catch (error) {
+        const url = localUrls[moved.size];
+        result.failed.push({ model, imageId: image.id, url, error: error instanceof Error ? error.message : String(error) });
+        // Leave nothing behind for an image that still points at local files
+        await Promise.all([...moved.values()].map(copy => target.deleteFile(copy).catch(() => undefined)));
+        continue;
+      }
+
+      const data: Partial<Record<UrlField, string>> = {};
+      for (const field of URL_FIELDS) {
+        const url = image[field];
+        if (url && moved.has(url)) {
+          data[field] = moved.get(url);
+        }
+      }
+      await table.update(image.id, data);
+
+      if (deleteSource) {
+        await Promise.all(localUrls.map(url => source.deleteFile(url)));
+      }
+
+      result.images++;
+      result.files += moved.size;
+    }
+  }
+};
+
+/**
+ * Copies service and review images stored under /uploads to another storage backend and
+ * points the images at the copies. Images are only updated once all of their files were
+ * copied, so the migration can be re-run after a failure.
+ */
+export const migrateLocalUploads = async (
+  options: UploadMigrationOptions,
+  client: Prisma.TransactionClient = prisma
+): Promise<UploadMigrationResult> => {
+  const result: UploadMigrationResult = { images: 0, files: 0, failed: [] };
+  const tables = imageTables(client);
+
+  for (const model of Object.keys(tables) as UploadImageModel[]) {
+    await migrateImageTable(model, tables[model], options, result);
+  }
+  return result;
+};
+
+export default {
+  migrateLocalUploads
+};
@@ -0,0 +1,8 @@
+// src/services/userService.ts
+
+// Credentials left out whenever a user is loaded as a relation of a response
+export const userSecretsOmit = {
+  passwordHash: true,
+  twoFactorSecret: true,
+  twoFactorLastUsedStep: true
+} as const;
@@ -9,6 +9,12 @@ export interface User {
     lastName: string;
     phone: string;
     userType: 'provider' | 'customer' | 'admin';
+    cityId?: number | null;
+    currency?: string | null;
+    emailVerified: boolean;
+    twoFactorEnabled: boolean;
+    twoFactorSecret: string | null;
+    twoFactorLastUsedStep: number | null;
     createdAt: Date;
     updatedAt: Date;
   }
@@ -23,6 +29,8 @@ export interface User {
     city?: string | null;
     postalCode?: string | null;
     rating?: number | null;
+    ratingCount?: number;
+    ratingScore?: number | null;
     isVerified: boolean;
     documentsVerified: boolean;
     createdAt: Date;
@@ -47,6 +55,8 @@ export interface User {
       isActive: boolean;
       location: ServiceLocation;
       images: File[];
+      packages?: Array<Pick<ServicePackage, 'name' | 'description' | 'price'> & { id?: number }>;
+      addOns?: Array<Pick<ServiceAddOn, 'name' | 'description' | 'price'> & { id?: number }>;
   }
 
   export interface Service {
@@ -66,12 +76,70 @@ export interface User {
     state?: string | null;
     postalCode?: string | null;
     country?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+    rating?: number | null;
+    ratingCount?: number;
+    ratingScore?: number | null;
+    coverageAreas?: ServiceCoverageArea[];
+    travelFee?: number | null;
+    packages?: ServicePackage[];
+    addOns?: ServiceAddOn[];
+    displayPrice?: DisplayPrice;
+}
+
+// A price converted to the customer's display currency
+export interface DisplayPrice {
+  amount: number;
+  currency: Currency;
+}
+
+export interface ServicePackage {
+  id: number;
+  serviceId: number;
+  name: string;
+  description?: string | null;
+  price: number;
+  sortOrder: number;
+  displayPrice?: DisplayPrice;
+}
+
+export interface ServiceAddOn {
+  id: number;
+  serviceId: number;
+  name: string;
+  description?: string | null;
+  price: number;
+  sortOrder: number;
+  displayPrice?: DisplayPrice;
+}
+
+export interface ServiceCoverageArea {
+  id: number;
+  serviceId: number;
+  type: 'CITY' | 'STATE' | 'RADIUS';
+  cityId?: number | null;
+  stateId?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  radiusKm?: number | null;
+  travelFee: number;
+  createdAt: Date;
 }
 
 export interface ServiceImage {
   id: number;
   serviceId: number;
   imageUrl: string;
+  thumbnailUrl?: string | null;
+  thumbnailWidth?: number | null;
+  thumbnailHeight?: number | null;
+  mediumUrl?: string | null;
+  mediumWidth?: number | null;
+  mediumHeight?: number | null;
+  largeUrl?: string | null;
+  largeWidth?: number | null;
+  largeHeight?: number | null;
   isMain: boolean;
   createdAt: Date;
 }
@@ -0,0 +1,96 @@
+// src/utils/dateTime.ts
+
+// All business rules (working hours, surcharges) are evaluated in local Bulgarian time
+export const APP_TIMEZONE = process.env.APP_TIMEZONE || 'Europe/Sofia';
+
+export interface ZonedDateParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Returns the calendar parts of a date as seen in the given time zone
+ */
+export const getZonedParts = (date: Date, timeZone: string = APP_TIMEZONE): ZonedDateParts => {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short'
+  });
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour),
+    minute: parseInt(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+};
+
+/**
+ * Converts a wall-clock time in the given time zone to a UTC Date
+ * Handles DST transitions by re-checking the offset at the resulting instant
+ */
+export const zonedTimeToUtc = (
+  year: number,
+  month: number,
+  day: number,
+  minutesOfDay: number,
+  timeZone: string = APP_TIMEZONE
+): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutesOfDay);
+
+  const offsetAt = (instant: number): number => {
+    const parts = getZonedParts(new Date(instant), timeZone);
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    return asUtc - Math.floor(instant / 60000) * 60000;
+  };
+
+  let result = wallClock - offsetAt(wallClock);
+  const correctedOffset = offsetAt(result);
+  if (wallClock - correctedOffset !== result) {
+    result = wallClock - correctedOffset;
+  }
+
+  return new Date(result);
+};
+
+/**
+ * Parses an "HH:mm" string into minutes since midnight
+ * "24:00" is accepted to express the end of a day; returns null for malformed values
+ */
+export const parseTimeOfDay = (value: string): number | null => {
+  if (value === '24:00') {
+    return 24 * 60;
+  }
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  return parseInt(match[1]) * 60 + parseInt(match[2]);
+};
+
+/**
+ * Formats a date as "YYYY-MM-DD" for the given time zone
+ */
+export const toLocalDateKey = (date: Date, timeZone: string = APP_TIMEZONE): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
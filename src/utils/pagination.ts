@@ -0,0 +1,21 @@
+// src/utils/pagination.ts
+import { Request } from 'express';
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  skip: number;
+}
+
+/**
+ * Reads page and limit from the query string, falling back to the first page and
+ * clamping the limit to 1..maxLimit
+ */
+export const parsePagination = (
+  query: Request['query'],
+  { defaultLimit = 20, maxLimit = 100 }: { defaultLimit?: number; maxLimit?: number } = {}
+): Pagination => {
+  const page = Math.max(parseInt(query.page as string) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(query.limit as string) || defaultLimit, 1), maxLimit);
+  return { page, limit, skip: (page - 1) * limit };
+};
@@ -1,5 +1,6 @@
 // src/utils/validation.ts
 import Joi from 'joi';
+import { blogConfig } from '../config/blog.config';
 
 export const validateRegistration = (data: any) => {
   const schema = Joi.object({
@@ -61,22 +62,27 @@ export const validateBooking = (data: any) => {
   const schema = Joi.object({
     serviceId: Joi.number().required(),
     bookingDate: Joi.date().greater('now').required(),
-    totalPrice: Joi.number().positive().required(),
+    durationHours: Joi.number().positive().allow(null),
     status: Joi.string().valid('pending', 'confirmed', 'completed', 'cancelled').default('pending')
   });
 
   return schema.validate(data);
 };
 
-export const validateBlogPost = (data: any) => {
+// Status and publishedAt are changed through the publish workflow rather than by editing
+export const validateBlogPost = (data: any, partial: boolean = false) => {
   const schema = Joi.object({
-    title: Joi.string().required(),
+    title: Joi.string().trim().max(blogConfig.maxTitleLength).required(),
+    slug: Joi.string().trim().lowercase().max(blogConfig.maxSlugLength).pattern(/^[a-z0-9]+(?:-[a-z0-9]+)*$/)
+      .messages({ 'string.pattern.base': 'Slug may only contain letters, digits and hyphens' }),
+    excerpt: Joi.string().trim().max(blogConfig.maxExcerptLength).allow(null, ''),
     content: Joi.string().required(),
-    status: Joi.string().valid('draft', 'published', 'archived').default('draft'),
-    publishedAt: Joi.date().allow(null)
+    categoryId: Joi.number().integer().positive().allow(null),
+    tags: Joi.array().items(Joi.string().trim().min(1).max(blogConfig.maxTagLength)).max(blogConfig.maxTags),
+    serviceCategoryIds: Joi.array().items(Joi.number().integer().positive()).max(blogConfig.maxServiceCategories)
   });
 
-  return schema.validate(data);
+  return (partial ? schema.fork(['title', 'content'], field => field.optional()) : schema).validate(data);
 };
 
 /**
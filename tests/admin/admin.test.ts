@@ -0,0 +1,148 @@
+// tests/admin/admin.test.ts
+import request from 'supertest';
+import { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import startServer from '../../src/app';
+import prisma from '../../src/config/prisma';
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+
+describe('Admin API', () => {
+  let app: Express;
+  let adminId: number;
+  let adminToken: string;
+  let customerId: number;
+  let customerToken: string;
+  let providerToken: string;
+
+  const createUser = async (userType: string, email: string) => {
+    const user = await prisma.user.create({
+      data: {
+        email,
+        passwordHash: 'hash',
+        firstName: userType === 'customer' ? 'Maria' : 'Admin',
+        lastName: 'Test',
+        phone: '0888123456',
+        userType: userType as any
+      }
+    });
+
+    // Mock user ids are timestamps, so make sure they differ
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    const token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'test-jwt-secret', { expiresIn: '1h' });
+    return { id: user.id, token };
+  };
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+
+    const startedApp = await startServer();
+    if (!startedApp) {
+      throw new Error('Failed to start server');
+    }
+    app = startedApp;
+
+    const stamp = Date.now();
+    ({ id: adminId, token: adminToken } = await createUser('admin', `admin-${stamp}@example.com`));
+    ({ id: customerId, token: customerToken } = await createUser('customer', `maria-${stamp}@example.com`));
+    ({ token: providerToken } = await createUser('provider', `provider-${stamp}@example.com`));
+  });
+
+  afterAll(() => {
+    process.env.NODE_ENV = 'development';
+  });
+
+  it('should reject customers and providers', async () => {
+    for (const token of [customerToken, providerToken]) {
+      const response = await request(app)
+        .get('/api/admin/users')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(403);
+    }
+  });
+
+  it('should search users', async () => {
+    const response = await request(app)
+      .get('/api/admin/users?q=maria&userType=customer')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((user: any) => user.id)).toContain(customerId);
+    expect(response.body.data.every((user: any) => user.userType === 'customer')).toBe(true);
+  });
+
+  it('should deactivate a user and block their access', async () => {
+    const response = await request(app)
+      .put(`/api/admin/users/${customerId}/deactivate`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ reason: 'Spam' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.isActive).toBe(false);
+
+    const blocked = await request(app)
+      .get('/api/users/me')
+      .set('Authorization', `Bearer ${customerToken}`);
+
+    expect(blocked.status).toBe(403);
+  });
+
+  it('should reactivate a user', async () => {
+    const response = await request(app)
+      .put(`/api/admin/users/${customerId}/reactivate`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.isActive).toBe(true);
+
+    const profile = await request(app)
+      .get('/api/users/me')
+      .set('Authorization', `Bearer ${customerToken}`);
+
+    expect(profile.status).toBe(200);
+  });
+
+  it('should not let admins deactivate themselves', async () => {
+    const response = await request(app)
+      .put(`/api/admin/users/${adminId}/deactivate`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject IDs that are not numeric', async () => {
+    const requests = [
+      request(app).put('/api/admin/users/abc/deactivate'),
+      request(app).put('/api/admin/services/abc/hide'),
+      request(app).get('/api/admin/providers/abc/history')
+    ];
+
+    for (const pending of requests) {
+      const response = await pending.set('Authorization', `Bearer ${adminToken}`);
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it('should record every action with the acting admin', async () => {
+    const response = await request(app)
+      .get(`/api/admin/audit-log?targetType=user&targetId=${customerId}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((entry: any) => entry.action)).toEqual([
+      'user.reactivate',
+      'user.deactivate'
+    ]);
+    expect(response.body.data.every((entry: any) => entry.adminId === adminId)).toBe(true);
+    expect(response.body.data[1].details.reason).toBe('Spam');
+  });
+
+  it('should reject audit log filters that are not IDs', async () => {
+    const response = await request(app)
+      .get('/api/admin/audit-log?targetType=user&targetId=abc')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,129 @@
+// tests/auth/emailVerification.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import prisma from '../../src/config/prisma';
+import { authConfig } from '../../src/config/auth.config';
+import authRoutes from '../../src/routes/auth';
+import { authenticateToken, requireVerifiedEmail } from '../../src/middleware/auth';
+import { errorHandler } from '../../src/middleware/error';
+import { setTransports } from '../../src/services/notification/notificationService';
+import { EmailMessage } from '../../src/services/notification/transports';
+import { createEmailVerificationToken } from '../../src/services/emailVerificationService';
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+describe('Email verification', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/auth', authRoutes);
+  app.post('/api/protected', authenticateToken, requireVerifiedEmail('bookings'), (_req, res) => {
+    res.json({ success: true });
+  });
+  app.use(errorHandler);
+
+  const sentEmails: EmailMessage[] = [];
+  let user: any;
+  let accessToken: string;
+
+  beforeAll(async () => {
+    setTransports({
+      email: { sendEmail: async (message) => { sentEmails.push(message); } },
+      sms: { sendSms: async () => undefined }
+    });
+
+    user = await prisma.user.create({
+      data: {
+        email: `verify-${Date.now()}@example.com`,
+        passwordHash: 'hash',
+        firstName: 'Verify',
+        lastName: 'Email',
+        phone: '0888123456',
+        userType: 'customer' as any
+      }
+    });
+    accessToken = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'test-jwt-secret');
+  });
+
+  it('should block unverified users from protected actions', async () => {
+    const response = await request(app)
+      .post('/api/protected')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should send a verification link on request', async () => {
+    const response = await request(app)
+      .post('/api/auth/resend-verification')
+      .send({ email: user.email });
+
+    expect(response.status).toBe(200);
+    expect(sentEmails).toHaveLength(1);
+    expect(sentEmails[0].to).toBe(user.email);
+    expect(sentEmails[0].text).toContain('/verify-email?token=');
+  });
+
+  it('should respond the same way for unknown addresses', async () => {
+    const response = await request(app)
+      .post('/api/auth/resend-verification')
+      .send({ email: 'nobody@example.com' });
+
+    expect(response.status).toBe(200);
+    expect(sentEmails).toHaveLength(1);
+  });
+
+  it('should reject invalid and tampered tokens', async () => {
+    const invalid = await request(app)
+      .post('/api/auth/verify-email')
+      .send({ token: 'not-a-token' });
+    expect(invalid.status).toBe(400);
+
+    // A regular access token must not be accepted as a verification token
+    const wrongPurpose = await request(app)
+      .post('/api/auth/verify-email')
+      .send({ token: accessToken });
+    expect(wrongPurpose.status).toBe(400);
+  });
+
+  it('should reject expired tokens', async () => {
+    const expired = jwt.sign(
+      { userId: user.id, email: user.email, purpose: 'email_verification' },
+      authConfig.emailVerification.getSecret(),
+      { expiresIn: -10 }
+    );
+
+    const response = await request(app)
+      .post('/api/auth/verify-email')
+      .send({ token: expired });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should verify the email and unlock protected actions', async () => {
+    const token = sentEmails[0].text.match(/token=([^\s]+)/)![1];
+
+    const response = await request(app)
+      .post('/api/auth/verify-email')
+      .send({ token });
+
+    expect(response.status).toBe(200);
+
+    const updated = await prisma.user.findUnique({ where: { id: user.id } });
+    expect(updated?.emailVerified).toBe(true);
+
+    const protectedResponse = await request(app)
+      .post('/api/protected')
+      .set('Authorization', `Bearer ${accessToken}`);
+    expect(protectedResponse.status).toBe(200);
+  });
+
+  it('should reject links issued for a previous email address', async () => {
+    const token = createEmailVerificationToken({ id: user.id, email: 'old-address@example.com' });
+
+    const response = await request(app)
+      .post('/api/auth/verify-email')
+      .send({ token });
+
+    expect(response.status).toBe(400);
+  });
+});
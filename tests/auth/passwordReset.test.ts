@@ -0,0 +1,144 @@
+// tests/auth/passwordReset.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import bcrypt from 'bcrypt';
+import prisma from '../../src/config/prisma';
+import { mockPrisma } from '../helpers/prisma';
+import authRoutes from '../../src/routes/auth';
+import { errorHandler } from '../../src/middleware/error';
+import { setTransports } from '../../src/services/notification/notificationService';
+import { EmailMessage } from '../../src/services/notification/transports';
+import { hashResetToken } from '../../src/services/passwordResetService';
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+describe('Password reset', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/auth', authRoutes);
+  app.use(errorHandler);
+
+  const sentEmails: EmailMessage[] = [];
+  // In-memory stand-in for the PasswordResetToken table
+  const resetTokens: any[] = [];
+  let user: any;
+
+  const latestToken = (): string =>
+    sentEmails[sentEmails.length - 1].text.match(/token=([0-9a-f]+)/)![1];
+
+  beforeAll(async () => {
+    setTransports({
+      email: { sendEmail: async (message) => { sentEmails.push(message); } },
+      sms: { sendSms: async () => undefined }
+    });
+
+    mockPrisma({
+      passwordResetToken: {
+        deleteMany: async ({ where }) => {
+          const before = resetTokens.length;
+          for (let i = resetTokens.length - 1; i >= 0; i--) {
+            if (resetTokens[i].userId === where?.userId && resetTokens[i].usedAt === null) {
+              resetTokens.splice(i, 1);
+            }
+          }
+          return { count: before - resetTokens.length };
+        },
+        create: async ({ data }) => {
+          const created = { id: resetTokens.length + 1, usedAt: null, ...data };
+          resetTokens.push(created);
+          return created;
+        },
+        findUnique: async ({ where }) =>
+          resetTokens.find(t => t.tokenHash === where.tokenHash) || null,
+        updateMany: async ({ where, data }) => {
+          const matches = resetTokens.filter(t => t.id === where?.id && t.usedAt === null);
+          matches.forEach(t => Object.assign(t, data));
+          return { count: matches.length };
+        }
+      }
+    });
+
+    user = await prisma.user.create({
+      data: {
+        email: `reset-${Date.now()}@example.com`,
+        passwordHash: await bcrypt.hash('OldPassword1!', 10),
+        firstName: 'Reset',
+        lastName: 'Test',
+        phone: '0888123456',
+        userType: 'customer' as any
+      }
+    });
+  });
+
+  it('should respond the same way for unknown addresses', async () => {
+    const response = await request(app)
+      .post('/api/auth/forgot-password')
+      .send({ email: 'nobody@example.com' });
+
+    expect(response.status).toBe(200);
+    expect(sentEmails).toHaveLength(0);
+  });
+
+  it('should email a reset link and store only the token hash', async () => {
+    const response = await request(app)
+      .post('/api/auth/forgot-password')
+      .send({ email: user.email });
+
+    expect(response.status).toBe(200);
+    expect(sentEmails).toHaveLength(1);
+    expect(sentEmails[0].to).toBe(user.email);
+
+    const token = latestToken();
+    expect(resetTokens).toHaveLength(1);
+    expect(resetTokens[0].tokenHash).toBe(hashResetToken(token));
+    expect(resetTokens[0].tokenHash).not.toBe(token);
+  });
+
+  it('should reject passwords that do not meet complexity requirements', async () => {
+    const response = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token: latestToken(), password: 'weak' });
+
+    expect(response.status).toBe(400);
+    expect(resetTokens[0].usedAt).toBeNull();
+  });
+
+  it('should reset the password and revoke all sessions', async () => {
+    const revokeSessions = prisma.userSession.updateMany as jest.Mock;
+    revokeSessions.mockClear();
+
+    const response = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token: latestToken(), password: 'NewPassword1!' });
+
+    expect(response.status).toBe(200);
+
+    const updated = await prisma.user.findUnique({ where: { id: user.id } });
+    expect(await bcrypt.compare('NewPassword1!', updated!.passwordHash)).toBe(true);
+    expect(updated!.lastPasswordChange).toBeInstanceOf(Date);
+    expect(revokeSessions).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: user.id, revokedAt: null }
+    }));
+  });
+
+  it('should not accept the same token twice', async () => {
+    const response = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token: latestToken(), password: 'AnotherPassword1!' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject expired tokens', async () => {
+    await request(app)
+      .post('/api/auth/forgot-password')
+      .send({ email: user.email });
+
+    resetTokens[resetTokens.length - 1].expiresAt = new Date(Date.now() - 1000);
+
+    const response = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token: latestToken(), password: 'AnotherPassword1!' });
+
+    expect(response.status).toBe(400);
+  });
+});
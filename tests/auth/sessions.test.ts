@@ -0,0 +1,174 @@
+// tests/auth/sessions.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import prisma from '../../src/config/prisma';
+import authRoutes from '../../src/routes/auth';
+import userRoutes from '../../src/routes/user';
+import { errorHandler } from '../../src/middleware/error';
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+describe('Sessions and refresh token rotation', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/auth', authRoutes);
+  app.use('/api/users', userRoutes);
+  app.use(errorHandler);
+
+  const password = 'Password1!';
+  let user: any;
+
+  const login = async (device: string) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .set('User-Agent', device)
+      .send({ email: user.email, password });
+    return response.body.data as { accessToken: string; refreshToken: string };
+  };
+
+  const refresh = (refreshToken: string) =>
+    request(app).post('/api/auth/refresh').send({ refreshToken });
+
+  const listSessions = (accessToken: string) =>
+    request(app).get('/api/users/sessions').set('Authorization', `Bearer ${accessToken}`);
+
+  beforeAll(async () => {
+    user = await prisma.user.create({
+      data: {
+        email: `sessions-${Date.now()}@example.com`,
+        passwordHash: await bcrypt.hash(password, 10),
+        firstName: 'Session',
+        lastName: 'Test',
+        phone: '0888123456',
+        userType: 'customer' as any
+      }
+    });
+  });
+
+  it('should list active sessions with device details', async () => {
+    const laptop = await login('Laptop browser');
+    await login('Phone app');
+
+    const response = await listSessions(laptop.accessToken);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(2);
+    const current = response.body.data.find((s: any) => s.current);
+    expect(current.userAgent).toBe('Laptop browser');
+    expect(current.ipAddress).toBeDefined();
+    expect(response.body.data[0].token).toBeUndefined();
+  });
+
+  it('should rotate refresh tokens and revoke the family when an old one is reused', async () => {
+    const session = await login('Tablet');
+
+    const rotated = await refresh(session.refreshToken);
+    expect(rotated.status).toBe(200);
+    expect(rotated.body.data.refreshToken).not.toBe(session.refreshToken);
+
+    // Replaying the first token looks like theft: the whole session is revoked
+    const replayed = await refresh(session.refreshToken);
+    expect(replayed.status).toBe(401);
+
+    const afterReuse = await refresh(rotated.body.data.refreshToken);
+    expect(afterReuse.status).toBe(401);
+
+    const listed = await listSessions(rotated.body.data.accessToken);
+    expect(listed.status).toBe(401);
+  });
+
+  it('should revoke a single session', async () => {
+    const current = await login('Desktop');
+    const lost = await login('Lost phone');
+
+    const sessions = await listSessions(current.accessToken);
+    const lostSession = sessions.body.data.find((s: any) => s.userAgent === 'Lost phone');
+
+    const response = await request(app)
+      .delete(`/api/users/sessions/${lostSession.id}`)
+      .set('Authorization', `Bearer ${current.accessToken}`);
+
+    expect(response.status).toBe(200);
+    expect((await refresh(lost.refreshToken)).status).toBe(401);
+    expect((await listSessions(lost.accessToken)).status).toBe(401);
+    expect((await listSessions(current.accessToken)).status).toBe(200);
+  });
+
+  it('should not revoke sessions of other users', async () => {
+    const other = await prisma.user.create({
+      data: {
+        email: `sessions-other-${Date.now()}@example.com`,
+        passwordHash: await bcrypt.hash(password, 10),
+        firstName: 'Other',
+        lastName: 'User',
+        phone: '0888123456',
+        userType: 'customer' as any
+      }
+    });
+    const otherSession = await request(app)
+      .post('/api/auth/login')
+      .send({ email: other.email, password });
+    const mine = await login('Desktop');
+
+    const sessions = await listSessions(otherSession.body.data.accessToken);
+
+    const response = await request(app)
+      .delete(`/api/users/sessions/${sessions.body.data[0].id}`)
+      .set('Authorization', `Bearer ${mine.accessToken}`);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should log out the current session', async () => {
+    const session = await login('Shared computer');
+
+    const response = await request(app)
+      .post('/api/auth/logout')
+      .send({ refreshToken: session.refreshToken });
+
+    expect(response.status).toBe(200);
+    expect((await refresh(session.refreshToken)).status).toBe(401);
+    expect((await listSessions(session.accessToken)).status).toBe(401);
+  });
+
+  it('should log out every session', async () => {
+    const first = await login('Browser');
+    const second = await login('Phone');
+
+    const response = await request(app)
+      .post('/api/auth/logout-all')
+      .set('Authorization', `Bearer ${first.accessToken}`);
+
+    expect(response.status).toBe(200);
+    expect((await refresh(second.refreshToken)).status).toBe(401);
+    expect((await listSessions(first.accessToken)).status).toBe(401);
+  });
+
+  it('should revoke the session instead of rotating it once the account is deactivated', async () => {
+    const deactivated = await prisma.user.create({
+      data: {
+        email: `sessions-deactivated-${Date.now()}@example.com`,
+        passwordHash: await bcrypt.hash(password, 10),
+        firstName: 'Deactivated',
+        lastName: 'User',
+        phone: '0888123456',
+        userType: 'customer' as any
+      }
+    });
+    const session = await request(app)
+      .post('/api/auth/login')
+      .send({ email: deactivated.email, password });
+    const { refreshToken } = session.body.data;
+
+    await prisma.user.update({ where: { id: deactivated.id }, data: { isActive: false } });
+
+    const response = await refresh(refreshToken);
+    expect(response.status).toBe(403);
+    expect(response.body.data).toBeUndefined();
+
+    const { sid } = jwt.decode(refreshToken) as { sid: number };
+    const revoked = await prisma.userSession.findUnique({ where: { id: sid } });
+    expect(revoked?.revokedReason).toBe('deactivated');
+  });
+});
@@ -0,0 +1,215 @@
+// tests/auth/twoFactor.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcrypt';
+import { Prisma } from '@prisma/client';
+import prisma from '../../src/config/prisma';
+import { asArray, mockPrisma } from '../helpers/prisma';
+import authRoutes from '../../src/routes/auth';
+import serviceRoutes from '../../src/routes/service';
+import { errorHandler } from '../../src/middleware/error';
+import { generateTotp, getTimeStep, verifyTotp } from '../../src/utils/totp';
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+describe('Two-factor authentication', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/auth', authRoutes);
+  app.use('/api/services', serviceRoutes);
+  app.use(errorHandler);
+
+  // In-memory stand-in for the TwoFactorRecoveryCode table
+  const recoveryCodes: any[] = [];
+  const password = 'Password1!';
+  let user: any;
+  let accessToken: string;
+  let secret: string;
+  let codes: string[];
+
+  const login = () =>
+    request(app).post('/api/auth/login').send({ email: user.email, password });
+
+  beforeAll(async () => {
+    mockPrisma({
+      twoFactorRecoveryCode: {
+        deleteMany: async ({ where }) => {
+          const before = recoveryCodes.length;
+          recoveryCodes.splice(0, recoveryCodes.length, ...recoveryCodes.filter(c => c.userId !== where?.userId));
+          return { count: before - recoveryCodes.length };
+        },
+        createMany: async ({ data }) => {
+          const created = asArray(data);
+          created.forEach(d => recoveryCodes.push({ id: recoveryCodes.length + 1, usedAt: null, ...d }));
+          return { count: created.length };
+        },
+        updateMany: async ({ where, data }) => {
+          const matches = recoveryCodes.filter(c =>
+            c.userId === where?.userId && c.codeHash === where?.codeHash && c.usedAt === null);
+          matches.forEach(c => Object.assign(c, data));
+          return { count: matches.length };
+        }
+      }
+    });
+
+    user = await prisma.user.create({
+      data: {
+        email: `twofactor-${Date.now()}@example.com`,
+        passwordHash: await bcrypt.hash(password, 10),
+        firstName: 'Two',
+        lastName: 'Factor',
+        phone: '0888123456',
+        userType: 'customer' as any
+      }
+    });
+    accessToken = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'test-jwt-secret');
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    // Base32 of the ASCII secret "12345678901234567890"
+    const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+    expect(generateTotp(rfcSecret, getTimeStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(rfcSecret, getTimeStep(1111111109 * 1000))).toBe('081804');
+    expect(verifyTotp(rfcSecret, '081804', 1, 1111111109 * 1000 + 30 * 1000)).not.toBeNull();
+    expect(verifyTotp(rfcSecret, '081804', 1, 1111111109 * 1000 + 90 * 1000)).toBeNull();
+  });
+
+  it('should return a secret and otpauth URI on setup without enabling 2FA yet', async () => {
+    const response = await request(app)
+      .post('/api/auth/2fa/setup')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    expect(response.status).toBe(200);
+    secret = response.body.data.secret;
+    expect(response.body.data.otpauthUri).toContain(`secret=${secret}`);
+
+    // Only the encrypted secret is stored
+    const stored = await prisma.user.findUnique({ where: { id: user.id } });
+    expect(stored!.twoFactorSecret).toBeTruthy();
+    expect(stored!.twoFactorSecret).not.toContain(secret);
+    expect(stored!.twoFactorEnabled).toBeFalsy();
+
+    const loginResponse = await login();
+    expect(loginResponse.body.data.accessToken).toBeDefined();
+  });
+
+  it('should reject a wrong confirmation code', async () => {
+    const response = await request(app)
+      .post('/api/auth/2fa/confirm')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ code: '000000' === generateTotp(secret) ? '111111' : '000000' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should enable 2FA and return hashed recovery codes', async () => {
+    const response = await request(app)
+      .post('/api/auth/2fa/confirm')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ code: generateTotp(secret) });
+
+    expect(response.status).toBe(200);
+    codes = response.body.data.recoveryCodes;
+    expect(codes).toHaveLength(10);
+    expect(recoveryCodes.map(c => c.codeHash)).not.toContain(codes[0]);
+  });
+
+  it('should require a second step at login', async () => {
+    const response = await login();
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.twoFactorRequired).toBe(true);
+    expect(response.body.data.accessToken).toBeUndefined();
+
+    const wrongCode = await request(app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeToken: response.body.data.challengeToken, code: '12345' });
+    expect(wrongCode.status).toBe(401);
+
+    const verified = await request(app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeToken: response.body.data.challengeToken, code: generateTotp(secret, getTimeStep() + 1) });
+
+    expect(verified.status).toBe(200);
+    expect(verified.body.data.accessToken).toBeDefined();
+    expect(verified.body.data.refreshToken).toBeDefined();
+    expect(verified.body.data.user.twoFactorSecret).toBeUndefined();
+  });
+
+  it('should not return the secret with a provider loaded through a service', async () => {
+    mockPrisma({
+      service: {
+        // Loads the provider's user the way the include asks for it
+        findUnique: async ({ include }) => {
+          const owner = await prisma.user.findUnique({ where: { id: user.id } });
+          const provider = include?.provider;
+          const userArgs = typeof provider === 'object' ? provider.include?.user : undefined;
+          const omitted: Prisma.UserOmit = typeof userArgs === 'object' ? userArgs.omit ?? {} : {};
+          return {
+            id: 1, title: 'Cleaning', price: 50, currency: 'BGN', isActive: true,
+            packages: [], addOns: [],
+            provider: {
+              id: 1, userId: user.id, isVerified: false,
+              user: Object.fromEntries(Object.entries(owner!).filter(([field]) => !omitted[field as keyof Prisma.UserOmit]))
+            }
+          };
+        }
+      }
+    });
+
+    const response = await request(app)
+      .get('/api/services/1')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.provider.user.email).toBe(user.email);
+    expect(JSON.stringify(response.body)).not.toContain('twoFactorSecret');
+    expect(JSON.stringify(response.body)).not.toContain('passwordHash');
+  });
+
+  it('should not accept a code that was already used', async () => {
+    const { body } = await login();
+
+    const response = await request(app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeToken: body.data.challengeToken, code: generateTotp(secret, getTimeStep() + 1) });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should accept a recovery code only once', async () => {
+    const first = await login();
+    const response = await request(app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeToken: first.body.data.challengeToken, recoveryCode: codes[0] });
+    expect(response.status).toBe(200);
+
+    const second = await login();
+    const reused = await request(app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeToken: second.body.data.challengeToken, recoveryCode: codes[0] });
+    expect(reused.status).toBe(401);
+  });
+
+  it('should not accept an access token as a login challenge', async () => {
+    const response = await request(app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeToken: accessToken, recoveryCode: codes[1] });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should disable 2FA with the password and a recovery code', async () => {
+    const response = await request(app)
+      .post('/api/auth/2fa/disable')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ password, recoveryCode: codes[1] });
+
+    expect(response.status).toBe(200);
+    expect(recoveryCodes).toHaveLength(0);
+
+    const loginResponse = await login();
+    expect(loginResponse.body.data.accessToken).toBeDefined();
+  });
+});
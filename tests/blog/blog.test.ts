@@ -0,0 +1,240 @@
+// tests/blog/blog.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
+import prisma from '../../src/config/prisma';
+import { asArray, inFilter, mockPrisma } from '../helpers/prisma';
+import blogRoutes from '../../src/routes/blog';
+import { errorHandler } from '../../src/middleware/error';
+import { buildExcerpt, slugify } from '../../src/services/blogService';
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+describe('Blog', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/blog', blogRoutes);
+  app.use(errorHandler);
+
+  const tokens: Record<string, string> = {};
+  const users: Record<string, any> = {};
+
+  // In-memory stand-ins for the blog tables
+  const posts: any[] = [];
+  const tags: any[] = [];
+  const postTags: any[] = [];
+  const postCategories: any[] = [];
+  const serviceCategories = [{ id: 3, name: 'Cleaning' }];
+
+  const withRelations = (post: any) => ({
+    ...post,
+    author: { id: post.authorId },
+    category: null,
+    tags: postTags.filter(link => link.postId === post.id).map(link => ({ tag: tags.find(t => t.id === link.tagId) })),
+    serviceCategories: postCategories
+      .filter(link => link.postId === post.id)
+      .map(link => ({ ...link, category: serviceCategories.find(c => c.id === link.categoryId) }))
+  });
+
+  // Lets a test add a competing post between the slug lookup and the save
+  let afterSlugLookup: (() => void) | null = null;
+
+  // Enforces the unique index on slug like the database would
+  const checkSlugFree = (slug: unknown, postId?: number) => {
+    if (typeof slug === 'string' && posts.some(p => p.slug === slug && p.id !== postId)) {
+      throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed on the fields: (`slug`)', {
+        code: 'P2002',
+        clientVersion: 'test',
+        meta: { target: ['slug'] }
+      });
+    }
+  };
+
+  const matches = (post: any, where: any = {}) =>
+    (where.id === undefined || post.id === where.id) &&
+    (where.authorId === undefined || post.authorId === where.authorId) &&
+    (where.status === undefined || post.status === where.status) &&
+    (typeof where.slug !== 'string' || post.slug === where.slug) &&
+    (typeof where.slug !== 'object' || post.slug.startsWith(where.slug.startsWith)) &&
+    (!where.publishedAt?.lte || (post.publishedAt && post.publishedAt <= where.publishedAt.lte));
+
+  beforeAll(async () => {
+    for (const userType of ['provider', 'customer', 'admin']) {
+      users[userType] = await prisma.user.create({
+        data: {
+          email: `blog-${userType}-${Date.now()}@example.com`,
+          passwordHash: 'hash',
+          firstName: userType,
+          lastName: 'Test',
+          phone: '0888123456',
+          userType: userType as any
+        }
+      });
+      tokens[userType] = jwt.sign({ userId: users[userType].id }, process.env.JWT_SECRET || 'test-jwt-secret');
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    mockPrisma({
+      blogPost: {
+        findMany: async ({ where, select }) => {
+          const found = posts.filter(p => matches(p, where));
+          if (select) {
+            afterSlugLookup?.();
+            afterSlugLookup = null;
+          }
+          return select ? found.map(p => ({ slug: p.slug })) : found.map(withRelations);
+        },
+        count: async ({ where }) => posts.filter(p => matches(p, where)).length,
+        findFirst: async ({ where }) => {
+          const post = posts.find(p => matches(p, where));
+          return post ? withRelations(post) : null;
+        },
+        findUnique: async ({ where }) => {
+          const post = posts.find(p => p.id === where.id);
+          return post ? withRelations(post) : null;
+        },
+        findUniqueOrThrow: async ({ where }) => withRelations(posts.find(p => p.id === where.id)),
+        create: async ({ data }) => {
+          checkSlugFree(data.slug);
+          const post = { id: posts.length + 1, publishedAt: null, updatedAt: new Date(), ...data };
+          posts.push(post);
+          return post;
+        },
+        update: async ({ where, data }) => {
+          checkSlugFree(data.slug, where.id);
+          const post = posts.find(p => p.id === where.id);
+          Object.entries(data).forEach(([key, value]) => value !== undefined && (post[key] = value));
+          return withRelations(post);
+        }
+      },
+      blogCategory: { findUnique: async () => null },
+      blogTag: {
+        upsert: async ({ where, create }) => {
+          let tag = tags.find(t => t.slug === where.slug);
+          if (!tag) {
+            tag = { id: tags.length + 1, ...create };
+            tags.push(tag);
+          }
+          return tag;
+        }
+      },
+      blogPostTag: {
+        deleteMany: async ({ where }) => {
+          postTags.splice(0, postTags.length, ...postTags.filter(link => link.postId !== where?.postId));
+        },
+        createMany: async ({ data }) => {
+          postTags.push(...asArray(data));
+        }
+      },
+      blogPostServiceCategory: {
+        deleteMany: async ({ where }) => {
+          postCategories.splice(0, postCategories.length, ...postCategories.filter(link => link.postId !== where?.postId));
+        },
+        createMany: async ({ data }) => {
+          postCategories.push(...asArray(data));
+        }
+      },
+      category: {
+        count: async ({ where }) => serviceCategories.filter(c => inFilter(where?.id).includes(c.id)).length
+      },
+      service: {
+        findMany: async ({ where }) => inFilter(where?.categoryId).includes(3)
+          ? [{ id: 10, title: 'Deep cleaning', provider: { id: 1, rating: 4.9 } }]
+          : []
+      }
+    });
+  });
+
+  const api = (method: 'get' | 'post' | 'put' | 'delete', url: string, role?: string) => {
+    const req = request(app)[method](url);
+    return role ? req.set('Authorization', `Bearer ${tokens[role]}`) : req;
+  };
+
+  it('should build slugs and excerpts from Bulgarian text', () => {
+    expect(slugify('Как да почистим фурната?')).toBe('kak-da-pochistim-furnata');
+    expect(slugify('  Щастие & Юг — Café ')).toBe('shtastie-yug-cafe');
+    expect(buildExcerpt(null, '<p>Short article</p>')).toBe('Short article');
+    expect(buildExcerpt(null, 'word '.repeat(100)).endsWith('word…')).toBe(true);
+  });
+
+  it('should let providers write drafts that are not public yet', async () => {
+    const response = await api('post', '/api/blog', 'provider').send({
+      title: 'Как да почистим фурната',
+      content: 'Start with baking soda and vinegar. '.repeat(10),
+      tags: ['Почистване', 'почистване', 'Kitchen'],
+      serviceCategoryIds: [3]
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({ slug: 'kak-da-pochistim-furnata', status: 'draft', publishedAt: null });
+    expect(response.body.data.tags.map((t: any) => t.slug)).toEqual(['pochistvane', 'kitchen']);
+    expect(response.body.data.serviceCategories).toEqual([{ id: 3, name: 'Cleaning' }]);
+
+    expect((await api('get', '/api/blog/kak-da-pochistim-furnata')).status).toBe(404);
+    expect((await api('get', '/api/blog')).body.data).toHaveLength(0);
+  });
+
+  it('should keep slugs unique and reject invalid posts', async () => {
+    const duplicate = await api('post', '/api/blog', 'provider').send({ title: 'Как да почистим фурната', content: 'Again' });
+    expect(duplicate.body.data.slug).toBe('kak-da-pochistim-furnata-2');
+
+    expect((await api('post', '/api/blog', 'provider').send({ title: 'No content' })).status).toBe(400);
+    expect((await api('post', '/api/blog', 'provider').send({ title: 'Bad', content: 'x', slug: 'Not a slug!' })).status)
+      .toBe(400);
+    expect((await api('put', '/api/blog/2', 'provider').send({ serviceCategoryIds: [99] })).status).toBe(400);
+    expect((await api('post', '/api/blog', 'customer').send({ title: 'T', content: 'x' })).status).toBe(403);
+  });
+
+  it('should publish posts through the admin workflow', async () => {
+    expect((await api('put', '/api/blog/1/publish', 'provider')).status).toBe(403);
+
+    const published = await api('put', '/api/blog/1/publish', 'admin');
+    expect(published.status).toBe(200);
+    expect(published.body.data.status).toBe('published');
+    expect(published.body.data.publishedAt).toBeTruthy();
+
+    const listing = await api('get', '/api/blog');
+    expect(listing.body.data.map((p: any) => p.slug)).toEqual(['kak-da-pochistim-furnata']);
+    expect(listing.body.data[0].content).toBeUndefined();
+    expect(listing.body.data[0].excerpt).toMatch(/^Start with baking soda/);
+    expect(listing.body.pagination.total).toBe(1);
+
+    const post = await api('get', '/api/blog/kak-da-pochistim-furnata');
+    expect(post.status).toBe(200);
+    expect(post.body.data.relatedServices).toEqual([{ id: 10, title: 'Deep cleaning', provider: { id: 1, rating: 4.9 } }]);
+  });
+
+  it('should schedule posts published with a future date', async () => {
+    const scheduled = await api('put', '/api/blog/2/publish', 'admin').send({ publishedAt: '2999-01-01T00:00:00Z' });
+    expect(scheduled.status).toBe(200);
+
+    expect((await api('get', '/api/blog/kak-da-pochistim-furnata-2')).status).toBe(404);
+  });
+
+  it('should only let authors edit their drafts', async () => {
+    const locked = await api('put', '/api/blog/1', 'provider').send({ title: 'New title' });
+    expect(locked.status).toBe(403);
+
+    await api('put', '/api/blog/1/unpublish', 'admin');
+    const edited = await api('put', '/api/blog/1', 'provider').send({ title: 'New title', tags: [] });
+    expect(edited.status).toBe(200);
+    expect(edited.body.data).toMatchObject({ title: 'New title', slug: 'kak-da-pochistim-furnata', status: 'draft' });
+    expect(edited.body.data.tags).toEqual([]);
+    // Publishing again keeps the original publication date
+    expect(edited.body.data.publishedAt).toBeTruthy();
+
+    const managed = await api('get', '/api/blog/manage?status=draft', 'provider');
+    expect(managed.body.data.map((p: any) => p.id)).toEqual([1]);
+  });
+
+  it('should pick another slug when a concurrent save takes it first', async () => {
+    afterSlugLookup = () => {
+      posts.push({ id: posts.length + 1, slug: 'window-cleaning', authorId: users.admin.id, status: 'draft' });
+    };
+
+    const response = await api('post', '/api/blog', 'provider').send({ title: 'Window cleaning', content: 'Tips' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.slug).toBe('window-cleaning-2');
+  });
+});
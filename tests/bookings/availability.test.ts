@@ -0,0 +1,134 @@
+// tests/bookings/availability.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import prisma from '../../src/config/prisma';
+import availabilityRoutes from '../../src/routes/availability';
+import { errorHandler } from '../../src/middleware/error';
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import {
+  generateSlots,
+  getWorkingIntervals,
+  WeeklyHours
+} from '../../src/services/availabilityService';
+
+describe('Provider availability', () => {
+  // Monday to Friday, 09:00-17:00 local time
+  const weekly: WeeklyHours[] = [1, 2, 3, 4, 5].map(dayOfWeek => ({
+    dayOfWeek,
+    startTime: '09:00',
+    endTime: '17:00'
+  }));
+
+  // Monday 2030-03-11 to Sunday 2030-03-17 in Sofia (UTC+2)
+  const from = new Date('2030-03-10T22:00:00Z');
+  const to = new Date('2030-03-17T22:00:00Z');
+
+  it('should expand weekly hours into local working intervals', () => {
+    const intervals = getWorkingIntervals(from, to, weekly, []);
+
+    expect(intervals).toHaveLength(5);
+    expect(intervals[0].start.toISOString()).toBe('2030-03-11T07:00:00.000Z');
+    expect(intervals[0].end.toISOString()).toBe('2030-03-11T15:00:00.000Z');
+  });
+
+  it('should apply days off and custom hours from exceptions', () => {
+    const intervals = getWorkingIntervals(from, to, weekly, [
+      { date: new Date('2030-03-12'), isAvailable: false, startTime: null, endTime: null },
+      { date: new Date('2030-03-16'), isAvailable: true, startTime: '10:00', endTime: '12:00' }
+    ]);
+
+    const days = intervals.map(interval => interval.start.toISOString().slice(0, 10));
+    expect(days).toEqual(['2030-03-11', '2030-03-13', '2030-03-14', '2030-03-15', '2030-03-16']);
+    expect(intervals[4].start.toISOString()).toBe('2030-03-16T08:00:00.000Z');
+  });
+
+  it('should respect daylight saving time changes', () => {
+    // Sofia switches to UTC+3 on 2030-03-31
+    const intervals = getWorkingIntervals(
+      new Date('2030-03-31T21:00:00Z'),
+      new Date('2030-04-01T21:00:00Z'),
+      weekly,
+      []
+    );
+
+    expect(intervals[0].start.toISOString()).toBe('2030-04-01T06:00:00.000Z');
+  });
+
+  it('should skip slots that overlap existing bookings', () => {
+    const intervals = getWorkingIntervals(from, new Date('2030-03-11T22:00:00Z'), weekly, []);
+    const slots = generateSlots({
+      intervals,
+      busy: [{
+        start: new Date('2030-03-11T08:30:00Z'),
+        end: new Date('2030-03-11T09:30:00Z')
+      }],
+      stepMinutes: 60,
+      lengthMinutes: 60,
+      from,
+      to,
+      earliestStart: from
+    });
+
+    const starts = slots.map(slot => slot.start.toISOString().slice(11, 16));
+    expect(starts).toEqual(['07:00', '10:00', '11:00', '12:00', '13:00', '14:00']);
+  });
+
+  it('should only offer slots long enough for the requested duration', () => {
+    const intervals = getWorkingIntervals(from, new Date('2030-03-11T22:00:00Z'), weekly, []);
+    const slots = generateSlots({
+      intervals,
+      busy: [],
+      stepMinutes: 60,
+      lengthMinutes: 180,
+      from,
+      to,
+      earliestStart: from
+    });
+
+    expect(slots).toHaveLength(6);
+    expect(slots[slots.length - 1].end.toISOString()).toBe('2030-03-11T15:00:00.000Z');
+  });
+});
+
+describe('Availability API', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/availability', availabilityRoutes);
+  app.use(errorHandler);
+
+  let token: string;
+
+  beforeAll(async () => {
+    const user = await prisma.user.create({
+      data: {
+        email: `availability-${Date.now()}@example.com`,
+        passwordHash: 'hash',
+        firstName: 'Provider',
+        lastName: 'Test',
+        phone: '0888123456',
+        userType: 'provider' as any
+      }
+    });
+    token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'test-jwt-secret');
+  });
+
+  it('should reject weekly hours entries that are not objects', async () => {
+    const response = await request(app)
+      .put('/api/availability/weekly')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ weeklyHours: [{ dayOfWeek: 1, startTime: '09:00', endTime: '17:00' }, null] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('Each entry must have a day of week, start time and end time');
+  });
+
+  it('should reject non-numeric exception IDs', async () => {
+    const response = await request(app)
+      .delete('/api/availability/exceptions/abc')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('Invalid exception ID');
+  });
+});
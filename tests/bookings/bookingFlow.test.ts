@@ -0,0 +1,457 @@
+// tests/bookings/bookingFlow.test.ts
+import request from 'supertest';
+import { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import prisma from '../../src/config/prisma';
+import { asArray, mockPrisma } from '../helpers/prisma';
+import startServer from '../../src/app';
+import { setTransports } from '../../src/services/notification/notificationService';
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+
+describe('Booking, dispute and review flow', () => {
+  let app: Express;
+
+  const tokens: Record<string, string> = {};
+  const users: Record<string, any> = {};
+
+  // In-memory stand-ins for the booking and review tables
+  const profiles: any[] = [];
+  const services: any[] = [];
+  const bookings: any[] = [];
+  const reviews: any[] = [];
+  const penalties: any[] = [];
+  const coverageAreas: any[] = [];
+  const cities = [
+    { id: 1, stateId: 1, name: 'Sofia', latitude: 42.70, longitude: 23.32 },
+    { id: 2, stateId: 2, name: 'Pernik', latitude: 42.61, longitude: 23.03 },
+    { id: 3, stateId: 3, name: 'Varna', latitude: 43.21, longitude: 27.91 }
+  ];
+
+  const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  const createUser = async (role: string, userType: string) => {
+    const user = await prisma.user.create({
+      data: {
+        email: `${role}-${Date.now()}@example.com`,
+        passwordHash: 'hash',
+        firstName: role,
+        lastName: 'Test',
+        phone: '0888123456',
+        userType: userType as any
+      }
+    });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await prisma.user.update({ where: { id: user.id }, data: { emailVerified: true } });
+
+    users[role] = user;
+    tokens[role] = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'test-jwt-secret');
+    return user;
+  };
+
+  const findProfile = (where: any) =>
+    profiles.find(p => p.id === where.id || p.userId === where.userId) || null;
+
+  const withProvider = (service: any) => {
+    const provider = profiles.find(p => p.id === service.providerId);
+    return {
+      ...service,
+      provider: { ...provider, user: Object.values(users).find(u => u.id === provider.userId) }
+    };
+  };
+
+  const withRelations = (booking: any) => ({
+    ...booking,
+    service: withProvider(services.find(s => s.id === booking.serviceId)),
+    customer: Object.values(users).find(u => u.id === booking.customerId),
+    review: reviews.find(r => r.bookingId === booking.id) || null,
+    statusHistory: [...booking.statusHistory].reverse()
+  });
+
+  const matchesBooking = (booking: any, where: any = {}): boolean => {
+    const service = services.find(s => s.id === booking.serviceId);
+    const status = where.status?.in ? where.status.in.includes(booking.status) : (
+      where.status === undefined || booking.status === where.status
+    );
+
+    return status &&
+      (where.id === undefined || booking.id === where.id) &&
+      (where.serviceId === undefined || booking.serviceId === where.serviceId) &&
+      (where.customerId === undefined || booking.customerId === where.customerId) &&
+      (where.cancelledBy === undefined || booking.cancelledBy === where.cancelledBy) &&
+      (where.service?.providerId === undefined || service.providerId === where.service.providerId);
+  };
+
+  // Applies Prisma-style { increment } updates to a plain object
+  const applyUpdate = (target: any, data: any) => {
+    for (const [field, value] of Object.entries<any>(data)) {
+      target[field] = value?.increment !== undefined ? (target[field] ?? 0) + value.increment : value;
+    }
+    return target;
+  };
+
+  const matchesReview = (review: any, where: any = {}): boolean =>
+    matchesBooking(bookings.find(b => b.id === review.bookingId), where.booking);
+
+  const api = (method: 'get' | 'post' | 'put', url: string, role?: string) => {
+    const pending = request(app)[method](url);
+    return role ? pending.set('Authorization', `Bearer ${tokens[role]}`) : pending;
+  };
+
+  const setStatus = (bookingId: number, status: string, role: string, extra: object = {}) =>
+    api('put', `/api/bookings/${bookingId}/status`, role).send({ status, ...extra });
+
+  const book = async (serviceId: number, bookingDate: Date, extra: object = {}) => {
+    const response = await api('post', '/api/bookings', 'customer').send({
+      serviceId,
+      bookingDate: bookingDate.toISOString(),
+      ...extra
+    });
+    expect(response.status).toBe(201);
+    return response.body.data;
+  };
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+
+    const startedApp = await startServer();
+    if (!startedApp) {
+      throw new Error('Failed to start server');
+    }
+    app = startedApp;
+
+    setTransports({
+      email: { sendEmail: async () => undefined },
+      sms: { sendSms: async () => undefined }
+    });
+
+    const provider = await createUser('provider', 'provider');
+    await createUser('customer', 'customer');
+    await createUser('outsider', 'customer');
+    await createUser('admin', 'admin');
+
+    profiles.push({ id: 1, userId: provider.id, companyName: 'Sparkle Ltd', rating: 0, reliabilityScore: null });
+
+    const serviceDefaults = {
+      providerId: 1,
+      description: 'Test service',
+      categoryId: 1,
+      price: 100,
+      priceType: 'FIXED',
+      currency: 'BGN',
+      isActive: true,
+      slotDurationMinutes: 60,
+      cancellationPolicy: null,
+      packages: [],
+      addOns: []
+    };
+    services.push(
+      { ...serviceDefaults, id: 1, title: 'Deep cleaning', bookingType: 'INQUIRY' },
+      { ...serviceDefaults, id: 2, title: 'Window cleaning', bookingType: 'DIRECT' },
+      { ...serviceDefaults, id: 3, title: 'Mobile plumber', bookingType: 'DIRECT' },
+      {
+        ...serviceDefaults,
+        id: 4,
+        title: 'Apartment cleaning',
+        bookingType: 'DIRECT',
+        packages: [
+          { id: 1, name: 'Basic', price: 80, isActive: true },
+          { id: 2, name: 'Premium', price: 150, isActive: true },
+          { id: 3, name: 'Legacy', price: 50, isActive: false }
+        ],
+        addOns: [{ id: 1, name: 'Window washing', price: 20, isActive: true }]
+      }
+    );
+    coverageAreas.push(
+      { id: 1, serviceId: 3, type: 'CITY', cityId: 1, travelFee: 0 },
+      { id: 2, serviceId: 3, type: 'RADIUS', latitude: 42.70, longitude: 23.32, radiusKm: 40, travelFee: 15 }
+    );
+
+    mockPrisma({
+      $queryRaw: async () => [],
+      service: {
+        findUnique: async ({ where }) => {
+          const service = services.find(s => s.id === where.id);
+          return service ? withProvider(service) : null;
+        },
+        update: async ({ where, data }) => applyUpdate(services.find(s => s.id === where.id), data)
+      },
+      providerProfile: {
+        findUnique: async ({ where }) => findProfile(where),
+        update: async ({ where, data }) => applyUpdate(findProfile(where), data)
+      },
+      providerAvailability: { findMany: async () => [] },
+      availabilityException: { findMany: async () => [] },
+      booking: {
+        create: async ({ data }) => {
+          const { lineItems, statusHistory, ...fields } = data;
+          const booking = {
+            id: bookings.length + 1,
+            completedByCustomer: false,
+            completedByProvider: false,
+            hasDispute: false,
+            reviewEligible: false,
+            reviewEligibleUntil: null,
+            cancelledBy: null,
+            ...fields,
+            lineItems: asArray(lineItems?.create),
+            statusHistory: asArray(statusHistory?.create).map(entry => ({ ...entry, changedAt: new Date() }))
+          };
+          bookings.push(booking);
+          return withRelations(booking);
+        },
+        findUnique: async ({ where }) => {
+          const booking = bookings.find(b => b.id === where.id);
+          return booking ? withRelations(booking) : null;
+        },
+        findMany: async ({ where }) =>
+          bookings.filter(b => matchesBooking(b, where)).map(withRelations),
+        count: async ({ where }) => bookings.filter(b => matchesBooking(b, where)).length,
+        update: async ({ where, data }) => {
+          const booking = bookings.find(b => b.id === where.id);
+          const { statusHistory, ...fields } = data;
+          Object.assign(booking, fields);
+          if (statusHistory) {
+            booking.statusHistory.push(...asArray(statusHistory.create).map(entry => ({ ...entry, changedAt: new Date() })));
+          }
+          return withRelations(booking);
+        }
+      },
+      review: {
+        create: async ({ data }) => {
+          const review = { id: reviews.length + 1, createdAt: new Date(), ...data };
+          reviews.push(review);
+          return { ...review, booking: withRelations(bookings.find(b => b.id === review.bookingId)) };
+        },
+        findMany: async ({ where }) => reviews.filter(r => matchesReview(r, where)),
+        count: async ({ where }) => reviews.filter(r => matchesReview(r, where)).length,
+        aggregate: async ({ where }) => {
+          const found = reviews.filter(r => matchesReview(r, where) && r.punctualityRating);
+          return {
+            _avg: {
+              punctualityRating: found.length
+                ? found.reduce((sum, r) => sum + r.punctualityRating, 0) / found.length
+                : null
+            }
+          };
+        }
+      },
+      cancellationPenalty: {
+        upsert: async ({ where, create }) => {
+          const { bookingId, userId } = where.bookingId_userId!;
+          const existing = penalties.find(p => p.bookingId === bookingId && p.userId === userId);
+          if (existing) {
+            return existing;
+          }
+          penalties.push(create);
+          return create;
+        },
+        count: async ({ where }) =>
+          penalties.filter(p => p.userId === where?.userId && p.party === where?.party).length
+      },
+      country: {
+        findMany: async () => [{ id: 1, code: 'BG', name: 'Bulgaria', nameBg: 'България' }]
+      },
+      state: {
+        findMany: async ({ where }) => [{ id: 1, countryId: where?.countryId, name: 'Sofia City' }]
+      },
+      city: {
+        findMany: async ({ where }) => [{ id: 1, stateId: where?.stateId, name: 'Sofia' }],
+        findUnique: async ({ where }) => cities.find(c => c.id === where.id) || null
+      },
+      serviceCoverageArea: {
+        findMany: async ({ where }) => coverageAreas.filter(a => a.serviceId === where?.serviceId)
+      }
+    });
+  });
+
+  afterAll(() => {
+    process.env.NODE_ENV = 'development';
+  });
+
+  it('should serve location lookups', async () => {
+    const countries = await api('get', '/api/locations/countries?language=bg');
+    expect(countries.status).toBe(200);
+    expect(countries.body.data[0].name).toBe('България');
+
+    const cities = await api('get', '/api/locations/cities?stateId=1');
+    expect(cities.status).toBe(200);
+    expect(cities.body.data[0].name).toBe('Sofia');
+
+    const missingCountry = await api('get', '/api/locations/states');
+    expect(missingCountry.status).toBe(400);
+  });
+
+  it('should take a booking from request to review', async () => {
+    const booking = await book(1, hoursFromNow(72));
+    expect(booking.status).toBe('pending');
+    expect(booking.totalPrice).toBe(100);
+
+    // Only the provider can accept an inquiry
+    expect((await setStatus(booking.id, 'confirmed', 'customer')).status).toBe(403);
+    expect((await setStatus(booking.id, 'confirmed', 'provider')).body.data.status).toBe('confirmed');
+    expect((await setStatus(booking.id, 'in_progress', 'provider')).body.data.status).toBe('in_progress');
+
+    // Completion needs both parties
+    const customerDone = await api('put', `/api/bookings/${booking.id}/complete`, 'customer').send({});
+    expect(customerDone.status).toBe(200);
+    expect(customerDone.body.data.status).toBe('in_progress');
+
+    const providerDone = await api('put', `/api/bookings/${booking.id}/complete`, 'provider').send({});
+    expect(providerDone.status).toBe(200);
+    expect(providerDone.body.data.status).toBe('completed');
+    expect(providerDone.body.data.reviewEligible).toBe(true);
+
+    const review = await api('post', '/api/reviews', 'customer').send({
+      bookingId: booking.id,
+      rating: 4,
+      punctualityRating: 5,
+      comment: '  Spotless  '
+    });
+    expect(review.status).toBe(201);
+    expect(review.body.data.comment).toBe('Spotless');
+    expect(profiles[0].rating).toBe(4);
+    expect(services[0]).toMatchObject({ rating: 4, ratingCount: 1, rating4Count: 1 });
+
+    const duplicate = await api('post', '/api/reviews', 'customer').send({ bookingId: booking.id, rating: 5 });
+    expect(duplicate.status).toBe(400);
+
+    const listed = await api('get', '/api/reviews/service/1');
+    expect(listed.status).toBe(200);
+    expect(listed.body.pagination.total).toBe(1);
+    expect(listed.body.summary).toMatchObject({ average: 4, count: 1, subRatings: { punctuality: 5 } });
+
+    const history = await api('get', `/api/bookings/${booking.id}`, 'customer');
+    expect(history.status).toBe(200);
+    expect(history.body.data.statusHistory.map((h: any) => h.newStatus)).toEqual([
+      'completed', 'in_progress', 'confirmed', 'pending'
+    ]);
+  });
+
+  it('should keep bookings private to the parties involved', async () => {
+    const mine = await api('get', '/api/bookings/my-bookings', 'customer');
+    expect(mine.status).toBe(200);
+    expect(mine.body.data.length).toBeGreaterThan(0);
+
+    const response = await api('get', '/api/bookings/1', 'outsider');
+    expect(response.status).toBe(403);
+
+    const review = await api('post', '/api/reviews', 'outsider').send({ bookingId: 1, rating: 1 });
+    expect(review.status).toBe(403);
+  });
+
+  it('should not let providers book their own services', async () => {
+    const response = await api('post', '/api/bookings', 'provider').send({
+      serviceId: 2,
+      bookingDate: hoursFromNow(100).toISOString()
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should add the travel fee for the customer\'s zone', async () => {
+    const quote = await api('post', '/api/bookings/quote', 'customer').send({
+      serviceId: 3,
+      bookingDate: hoursFromNow(150).toISOString(),
+      cityId: 2
+    });
+    expect(quote.status).toBe(200);
+    expect(quote.body.data.travelFee).toBe(15);
+
+    const booking = await book(3, hoursFromNow(150), { cityId: 2 });
+    const travelItem = booking.lineItems.find((item: any) => item.type === 'TRAVEL_FEE');
+    expect(travelItem).toMatchObject({ amount: 15, description: 'Travel fee (Pernik, within 40 km)' });
+    expect(booking.totalPrice).toBe(quote.body.data.total);
+
+    const inCity = await book(3, hoursFromNow(200), { cityId: 1 });
+    expect(inCity.lineItems.some((item: any) => item.type === 'TRAVEL_FEE')).toBe(false);
+
+    // Outside every zone, or with no city to travel to
+    const outside = await api('post', '/api/bookings', 'customer').send({
+      serviceId: 3,
+      bookingDate: hoursFromNow(250).toISOString(),
+      cityId: 3
+    });
+    expect(outside.status).toBe(400);
+
+    const noCity = await api('post', '/api/bookings', 'customer').send({
+      serviceId: 3,
+      bookingDate: hoursFromNow(250).toISOString()
+    });
+    expect(noCity.status).toBe(400);
+  });
+
+  it('should snapshot the chosen package and add-ons', async () => {
+    const booking = await book(4, hoursFromNow(300), { packageId: 2, addOnIds: [1] });
+
+    expect(booking).toMatchObject({ packageId: 2, packageName: 'Premium', packagePrice: 150 });
+    expect(booking.addOns.create).toEqual([{ addOnId: 1, name: 'Window washing', price: 20 }]);
+    expect(booking.lineItems.slice(0, 2)).toMatchObject([
+      { type: 'BASE', amount: 150 },
+      { type: 'ADD_ON', amount: 20 }
+    ]);
+
+    const attempt = (extra: object) => api('post', '/api/bookings', 'customer').send({
+      serviceId: 4,
+      bookingDate: hoursFromNow(320).toISOString(),
+      ...extra
+    });
+
+    expect((await attempt({})).status).toBe(400);
+    expect((await attempt({ packageId: 3 })).status).toBe(400);
+    expect((await attempt({ packageId: 1, addOnIds: [9] })).status).toBe(400);
+  });
+
+  it('should raise a dispute and let an admin resolve it', async () => {
+    const booking = await book(2, hoursFromNow(96));
+    expect(booking.status).toBe('confirmed');
+
+    // Nothing to dispute before the work has started
+    const early = await api('post', `/api/bookings/${booking.id}/dispute`, 'customer')
+      .send({ hasDispute: true, disputeReason: 'Too early' });
+    expect(early.status).toBe(400);
+
+    await setStatus(booking.id, 'in_progress', 'provider');
+
+    const dispute = await api('post', `/api/bookings/${booking.id}/dispute`, 'customer')
+      .send({ hasDispute: true, disputeReason: 'Windows left streaky' });
+    expect(dispute.status).toBe(200);
+    expect(dispute.body.data.status).toBe('disputed');
+    expect(dispute.body.data.disputeStatus).toBe('OPEN');
+
+    const notAdmin = await api('put', `/api/bookings/${booking.id}/resolve-dispute`, 'customer')
+      .send({ resolution: 'RESOLVED_FOR_CUSTOMER' });
+    expect(notAdmin.status).toBe(403);
+
+    const resolved = await api('put', `/api/bookings/${booking.id}/resolve-dispute`, 'admin')
+      .send({ resolution: 'RESOLVED_FOR_CUSTOMER', resolutionNotes: 'Partial refund agreed' });
+    expect(resolved.status).toBe(200);
+    expect(resolved.body.data.status).toBe('completed');
+    expect(resolved.body.data.reviewEligible).toBe(true);
+  });
+
+  it('should charge a penalty for late cancellations', async () => {
+    const booking = await book(2, hoursFromNow(10));
+
+    const response = await setStatus(booking.id, 'cancelled', 'customer', {
+      statusChangeReason: 'Plans changed'
+    });
+    expect(response.status).toBe(200);
+    expect(response.body.data.status).toBe('cancelled');
+    expect(response.body.data.cancelledBy).toBe(users.customer.id);
+
+    expect(penalties).toHaveLength(1);
+    expect(penalties[0]).toMatchObject({ bookingId: booking.id, party: 'CUSTOMER', percent: 10 });
+    expect(penalties[0].amount).toBe(booking.totalPrice * 0.1);
+
+    const again = await setStatus(booking.id, 'cancelled', 'customer');
+    expect(again.status).toBe(400);
+  });
+
+  it('should cancel early bookings free of charge', async () => {
+    const booking = await book(2, hoursFromNow(120));
+
+    const response = await setStatus(booking.id, 'cancelled', 'provider');
+    expect(response.status).toBe(200);
+    expect(penalties).toHaveLength(1);
+  });
+});
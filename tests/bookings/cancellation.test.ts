@@ -0,0 +1,107 @@
+// tests/bookings/cancellation.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateCancellationPenalty,
+  getCancellationPolicy,
+  parseCancellationPolicy
+} from '../../src/services/cancellationService';
+import { calculateProviderReliability } from '../../src/services/reliabilityService';
+import { fakeClient } from '../helpers/prisma';
+
+describe('Cancellation policy and penalties', () => {
+  const now = new Date('2030-03-01T08:00:00Z');
+  const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+  const tieredPolicy = parseCancellationPolicy({
+    tiers: [
+      { withinHours: 2, customerPercent: 50, providerPercent: 30 },
+      { withinHours: 48, customerPercent: 20, providerPercent: 10 }
+    ]
+  })!;
+
+  it('should fall back to the default 24 hour policy', () => {
+    const policy = getCancellationPolicy({ cancellationPolicy: null });
+    const booking = { bookingDate: hoursFromNow(10), totalPrice: 200 };
+
+    expect(calculateCancellationPenalty(policy, 'CUSTOMER', booking, now)?.amount).toBe(20);
+    expect(calculateCancellationPenalty(policy, 'PROVIDER', booking, now)?.amount).toBe(30);
+    expect(calculateCancellationPenalty(policy, 'CUSTOMER', { ...booking, bookingDate: hoursFromNow(30) }, now))
+      .toBeNull();
+  });
+
+  it('should apply the tightest tier a cancellation falls into', () => {
+    const booking = { totalPrice: 100 };
+
+    const lastMinute = calculateCancellationPenalty(tieredPolicy, 'CUSTOMER', { ...booking, bookingDate: hoursFromNow(1) }, now);
+    expect(lastMinute?.percent).toBe(50);
+    expect(lastMinute?.withinHours).toBe(2);
+
+    const dayBefore = calculateCancellationPenalty(tieredPolicy, 'PROVIDER', { ...booking, bookingDate: hoursFromNow(24) }, now);
+    expect(dayBefore?.percent).toBe(10);
+    expect(dayBefore?.amount).toBe(10);
+    expect(dayBefore?.hoursBeforeStart).toBe(24);
+
+    expect(calculateCancellationPenalty(tieredPolicy, 'CUSTOMER', { ...booking, bookingDate: hoursFromNow(72) }, now))
+      .toBeNull();
+  });
+
+  it('should accept policies sent as JSON strings', () => {
+    const policy = parseCancellationPolicy('[{"withinHours": 12, "customerPercent": 25, "providerPercent": 25}]');
+
+    expect(policy?.tiers).toEqual([{ withinHours: 12, customerPercent: 25, providerPercent: 25 }]);
+  });
+
+  it('should reject invalid policies', () => {
+    expect(parseCancellationPolicy('not json')).toBeNull();
+    expect(parseCancellationPolicy({ tiers: [{ withinHours: 0, customerPercent: 10, providerPercent: 10 }] })).toBeNull();
+    expect(parseCancellationPolicy({ tiers: [{ withinHours: 24, customerPercent: 150, providerPercent: 10 }] })).toBeNull();
+    expect(parseCancellationPolicy({
+      tiers: [
+        { withinHours: 24, customerPercent: 10, providerPercent: 10 },
+        { withinHours: 24, customerPercent: 20, providerPercent: 20 }
+      ]
+    })).toBeNull();
+  });
+});
+
+describe('Provider reliability score', () => {
+  // Minimal stand-in for the Prisma client with fixed counts per booking status
+  const createClient = (counts: Record<string, number>, lateCancellations: number) => fakeClient({
+    providerProfile: {
+      findUnique: async () => ({ userId: 7 })
+    },
+    booking: {
+      count: async ({ where }) => counts[String(where?.status)] || 0
+    },
+    cancellationPenalty: {
+      count: async () => lateCancellations
+    }
+  });
+
+  it('should not score providers without enough history', async () => {
+    const reliability = await calculateProviderReliability(1, createClient({ completed: 2 }, 0));
+
+    expect(reliability.score).toBeNull();
+    expect(reliability.completed).toBe(2);
+  });
+
+  it('should score a provider with only completed bookings at 100', async () => {
+    const reliability = await calculateProviderReliability(1, createClient({ completed: 10 }, 0));
+
+    expect(reliability.score).toBe(100);
+  });
+
+  it('should weight late cancellations and no-shows more heavily', async () => {
+    // 10 completed; 2 cancellations (1 late) and 1 no-show => 1 + 2 + 3 = 6 penalty points
+    const reliability = await calculateProviderReliability(1, createClient({
+      completed: 10,
+      cancelled: 2,
+      no_show_provider: 1
+    }, 1));
+
+    expect(reliability.cancellations).toBe(2);
+    expect(reliability.lateCancellations).toBe(1);
+    expect(reliability.noShows).toBe(1);
+    expect(reliability.score).toBe(62.5);
+  });
+});
@@ -0,0 +1,124 @@
+// tests/bookings/pricing.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { calculateBookingQuote, QuotableService } from '../../src/services/pricingService';
+
+describe('Booking pricing engine', () => {
+  const now = new Date('2030-03-01T08:00:00Z');
+
+  const fixedService: QuotableService = {
+    id: 1,
+    title: 'Apartment cleaning',
+    price: 120,
+    priceType: 'FIXED',
+    currency: 'BGN'
+  };
+
+  const hourlyService: QuotableService = {
+    id: 2,
+    title: 'Plumbing repair',
+    price: 45,
+    priceType: 'HOURLY',
+    currency: 'BGN'
+  };
+
+  // Wednesday 10:00 in Sofia (UTC+2 in March)
+  const weekdayMorning = new Date('2030-03-13T08:00:00Z');
+
+  it('should price a fixed service from the stored service price', () => {
+    const quote = calculateBookingQuote(fixedService, { bookingDate: weekdayMorning, now });
+
+    expect(quote.items).toHaveLength(1);
+    expect(quote.items[0].code).toBe('base');
+    expect(quote.subtotal).toBe(120);
+    expect(quote.surchargesTotal).toBe(0);
+    expect(quote.total).toBe(120);
+    expect(quote.durationHours).toBeNull();
+  });
+
+  it('should multiply hourly services by the requested duration', () => {
+    const quote = calculateBookingQuote(hourlyService, {
+      bookingDate: weekdayMorning,
+      durationHours: '2.5',
+      now
+    });
+
+    expect(quote.durationHours).toBe(2.5);
+    expect(quote.items[0].quantity).toBe(2.5);
+    expect(quote.total).toBe(112.5);
+  });
+
+  it('should require a valid duration for hourly services', () => {
+    expect(() => calculateBookingQuote(hourlyService, { bookingDate: weekdayMorning, now }))
+      .toThrow('Duration in hours is required for hourly services');
+
+    expect(() => calculateBookingQuote(hourlyService, {
+      bookingDate: weekdayMorning,
+      durationHours: 1.25,
+      now
+    })).toThrow('Duration must be in steps of 0.5 hours');
+
+    expect(() => calculateBookingQuote(hourlyService, {
+      bookingDate: weekdayMorning,
+      durationHours: 48,
+      now
+    })).toThrow('Duration must be between 1 and 12 hours');
+  });
+
+  it('should add weekend and evening surcharges in local time', () => {
+    // Saturday 21:00 in Sofia
+    const saturdayEvening = new Date('2030-03-16T19:00:00Z');
+    const quote = calculateBookingQuote(fixedService, { bookingDate: saturdayEvening, now });
+
+    const codes = quote.items.map(item => item.code);
+    expect(codes).toEqual(['base', 'weekend', 'evening']);
+    expect(quote.surchargesTotal).toBe(30);
+    expect(quote.total).toBe(150);
+  });
+
+  it('should price the chosen package and add-ons', () => {
+    const quote = calculateBookingQuote(hourlyService, {
+      bookingDate: weekdayMorning,
+      durationHours: 2,
+      package: { id: 7, name: 'Premium', price: 60 },
+      addOns: [{ id: 3, name: 'Parts pickup', price: 20 }],
+      now
+    });
+
+    expect(quote.items.map(item => item.code)).toEqual(['base', 'add_on']);
+    expect(quote.items[0]).toMatchObject({ description: 'Plumbing repair - Premium (2 h)', unitPrice: 60, amount: 120 });
+    expect(quote.items[1]).toMatchObject({ type: 'ADD_ON', description: 'Parts pickup', amount: 20 });
+    expect(quote.packageId).toBe(7);
+    expect(quote.addOnIds).toEqual([3]);
+    expect(quote.total).toBe(140);
+  });
+
+  it('should add the travel fee without applying surcharges to it', () => {
+    const saturdayEvening = new Date('2030-03-16T19:00:00Z');
+    const quote = calculateBookingQuote(fixedService, {
+      bookingDate: saturdayEvening,
+      travelFee: { amount: 15, zone: 'Travel fee (Pernik)' },
+      now
+    });
+
+    const codes = quote.items.map(item => item.code);
+    expect(codes).toEqual(['base', 'weekend', 'evening', 'travel_fee']);
+    expect(quote.items[3]).toMatchObject({ type: 'TRAVEL_FEE', description: 'Travel fee (Pernik)', amount: 15 });
+    expect(quote.surchargesTotal).toBe(30);
+    expect(quote.travelFee).toBe(15);
+    expect(quote.total).toBe(165);
+  });
+
+  it('should add a short notice surcharge for bookings within 24 hours', () => {
+    const tomorrowMorning = new Date(now.getTime() + 12 * 60 * 60 * 1000);
+    const quote = calculateBookingQuote(fixedService, { bookingDate: tomorrowMorning, now });
+
+    expect(quote.items.some(item => item.code === 'short_notice')).toBe(true);
+  });
+
+  it('should reject booking dates in the past', () => {
+    expect(() => calculateBookingQuote(fixedService, {
+      bookingDate: new Date('2029-01-01T10:00:00Z'),
+      now
+    })).toThrow('Booking date must be in the future');
+  });
+});
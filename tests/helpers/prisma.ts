@@ -0,0 +1,50 @@
+// tests/helpers/prisma.ts
+import { Prisma } from '@prisma/client';
+import prisma from '../../src/config/prisma';
+
+type ModelName = Prisma.TypeMap['meta']['modelProps'];
+type Operations<M extends ModelName> = Prisma.TypeMap['model'][Capitalize<M>]['operations'];
+
+/**
+ * Stand-in for a Prisma delegate: any subset of its methods, taking the same arguments.
+ * Results are not checked so tests can return plain in-memory records.
+ */
+export type DelegateMock<M extends ModelName> = {
+  [Op in keyof Operations<M>]?: (args: Operations<M>[Op] extends { args: infer A } ? A : never) => Promise<unknown>;
+};
+
+export type PrismaMock = { [M in ModelName]?: DelegateMock<M> } & {
+  $queryRaw?: (query: TemplateStringsArray, ...values: unknown[]) => Promise<unknown>;
+  $executeRaw?: (query: TemplateStringsArray, ...values: unknown[]) => Promise<number>;
+};
+
+/**
+ * Replaces delegates of the mocked Prisma client (see tests/setup.ts) for the current test file
+ */
+export const mockPrisma = (mocks: PrismaMock): void => {
+  Object.assign(prisma, mocks);
+};
+
+/**
+ * A client made of the given delegates only, for services that take the client as an argument
+ */
+export const fakeClient = (mocks: PrismaMock): Prisma.TransactionClient =>
+  mocks as unknown as Prisma.TransactionClient;
+
+/**
+ * Records passed to createMany or a nested create, which take one record or a list
+ */
+export const asArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Values of an `in` filter such as { id: { in: [1, 2] } }; empty for any other filter
+ */
+export const inFilter = <T>(filter: T | { in?: T[] | object } | undefined): T[] =>
+  typeof filter === 'object' && filter !== null && 'in' in filter && Array.isArray(filter.in) ? filter.in : [];
+
+/** Value bound to the placeholder captured by the pattern, e.g. sqlParam(query, /LIMIT \$(\d+)/) */
+export const sqlParam = (query: Prisma.Sql, pattern: RegExp): unknown => {
+  const match = query.text.match(pattern);
+  return match ? query.values[Number(match[1]) - 1] : undefined;
+};
@@ -0,0 +1,139 @@
+// tests/notifications/inbox.test.ts
+import request from 'supertest';
+import { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import startServer from '../../src/app';
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { notify, setTransports } from '../../src/services/notification/notificationService';
+
+describe('Notification inbox API', () => {
+  let app: Express;
+  let accessToken: string;
+  let otherToken: string;
+
+  const registerUser = async (prefix: string) => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .set('X-Bypass-Rate-Limit', 'true')
+      .send({
+        email: `${prefix}-${Date.now()}@example.com`,
+        password: 'Test@123456',
+        firstName: 'Test',
+        lastName: 'User',
+        phone: '0888123456',
+        userType: 'customer'
+      });
+
+    // Sign with the secret the auth middleware verifies against at request time
+    const token = jwt.sign(
+      { userId: response.body.data.user.id },
+      process.env.JWT_SECRET || 'test-jwt-secret',
+      { expiresIn: '1h' }
+    );
+
+    return { user: response.body.data.user, token };
+  };
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+
+    const startedApp = await startServer();
+    if (!startedApp) {
+      throw new Error('Failed to start server');
+    }
+    app = startedApp;
+
+    setTransports({
+      email: { sendEmail: async () => undefined },
+      sms: { sendSms: async () => undefined }
+    });
+
+    const registered = await registerUser('inbox');
+    accessToken = registered.token;
+    otherToken = (await registerUser('inbox-other')).token;
+
+    const recipient = {
+      id: registered.user.id,
+      email: registered.user.email,
+      phone: '0888123456',
+      firstName: 'Test',
+      lastName: 'User',
+      emailNotifications: false,
+      smsNotifications: false,
+      promotionalEmails: false
+    };
+
+    await notify(recipient, 'booking_confirmed', { bookingId: 1, serviceTitle: 'Cleaning' });
+    await notify(recipient, 'booking_cancelled', { bookingId: 2, serviceTitle: 'Painting' });
+  });
+
+  afterAll(() => {
+    process.env.NODE_ENV = 'development';
+  });
+
+  it('should list the current user\'s notifications, newest first', async () => {
+    const response = await request(app)
+      .get('/api/notifications')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(2);
+    expect(response.body.data[0].type).toBe('booking_cancelled');
+    expect(response.body.unreadCount).toBe(2);
+  });
+
+  it('should include the unread count on the profile', async () => {
+    const response = await request(app)
+      .get('/api/users/me')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.unreadNotifications).toBe(2);
+  });
+
+  it('should not let other users read someone else\'s notification', async () => {
+    const list = await request(app)
+      .get('/api/notifications')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    const response = await request(app)
+      .put(`/api/notifications/${list.body.data[0].id}/read`)
+      .set('Authorization', `Bearer ${otherToken}`);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should mark a single notification as read', async () => {
+    const list = await request(app)
+      .get('/api/notifications')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    const response = await request(app)
+      .put(`/api/notifications/${list.body.data[0].id}/read`)
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.readAt).toBeTruthy();
+
+    const unread = await request(app)
+      .get('/api/notifications?unreadOnly=true')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    expect(unread.body.data).toHaveLength(1);
+  });
+
+  it('should mark all notifications as read', async () => {
+    const response = await request(app)
+      .put('/api/notifications/read-all')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.updated).toBe(1);
+
+    const profile = await request(app)
+      .get('/api/users/me')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    expect(profile.body.data.unreadNotifications).toBe(0);
+  });
+});
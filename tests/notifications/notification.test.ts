@@ -0,0 +1,113 @@
+// tests/notifications/notification.test.ts
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  assertEmailTransportConfigured,
+  getEnabledChannels,
+  notify,
+  NotificationRecipient,
+  setTransports
+} from '../../src/services/notification/notificationService';
+import { ConsoleTransport, EmailMessage, FileTransport, SmsMessage } from '../../src/services/notification/transports';
+
+describe('Notification service', () => {
+  const sentEmails: EmailMessage[] = [];
+  const sentSms: SmsMessage[] = [];
+
+  const recipient: NotificationRecipient = {
+    id: 1,
+    email: 'provider@example.com',
+    phone: '+359888123456',
+    firstName: 'Ivan',
+    lastName: 'Petrov',
+    emailNotifications: true,
+    smsNotifications: true,
+    promotionalEmails: false
+  };
+
+  beforeEach(() => {
+    sentEmails.length = 0;
+    sentSms.length = 0;
+    setTransports({
+      email: { sendEmail: async (message) => { sentEmails.push(message); } },
+      sms: { sendSms: async (message) => { sentSms.push(message); } }
+    });
+  });
+
+  it('should respect the email and SMS preferences', () => {
+    expect(getEnabledChannels(recipient, 'transactional')).toEqual(['email', 'sms']);
+    expect(getEnabledChannels({ ...recipient, smsNotifications: false }, 'transactional')).toEqual(['email']);
+    expect(getEnabledChannels({ ...recipient, emailNotifications: false }, 'transactional')).toEqual(['sms']);
+  });
+
+  it('should only send promotional messages to users who opted in', () => {
+    expect(getEnabledChannels(recipient, 'promotional')).toEqual([]);
+    expect(getEnabledChannels({ ...recipient, promotionalEmails: true }, 'promotional')).toEqual(['email']);
+  });
+
+  it('should render and deliver a booking notification', async () => {
+    await notify(recipient, 'booking_created', {
+      bookingId: 42,
+      serviceTitle: 'Plumbing repair',
+      bookingDate: new Date('2030-03-11T08:00:00Z'),
+      counterpartName: 'Maria Ivanova'
+    });
+
+    expect(sentEmails).toHaveLength(1);
+    expect(sentEmails[0].to).toBe('provider@example.com');
+    expect(sentEmails[0].subject).toContain('Plumbing repair');
+    expect(sentEmails[0].text).toContain('Maria Ivanova');
+    expect(sentSms).toHaveLength(1);
+    expect(sentSms[0].text).toContain('#42');
+  });
+
+  it('should not send anything when all notifications are disabled', async () => {
+    await notify(
+      { ...recipient, emailNotifications: false, smsNotifications: false },
+      'review_received',
+      { serviceTitle: 'Plumbing repair', rating: 5, counterpartName: 'Maria Ivanova' }
+    );
+
+    expect(sentEmails).toHaveLength(0);
+    expect(sentSms).toHaveLength(0);
+  });
+
+  it('should not throw when a transport fails', async () => {
+    setTransports({
+      email: { sendEmail: async () => { throw new Error('SMTP unavailable'); } }
+    });
+
+    await expect(notify(recipient, 'booking_confirmed', { serviceTitle: 'Plumbing repair' }))
+      .resolves.toBeUndefined();
+    expect(sentSms).toHaveLength(1);
+  });
+
+  it('should keep message bodies out of the console log in production', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const message = { to: recipient.email, subject: 'Reset your password', text: 'https://example.com/reset?token=secret' };
+
+    await new ConsoleTransport(false).sendEmail(message);
+    await new ConsoleTransport(true).sendEmail(message);
+    const [redacted, full] = log.mock.calls.map(call => call[0]);
+    log.mockRestore();
+
+    expect(redacted).toBe('[email] to=provider@example.com subject="Reset your password"');
+    expect(full).toContain('token=secret');
+  });
+
+  it('should refuse to run in production without a real email provider', () => {
+    const environment = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'production';
+
+    try {
+      for (const transport of [new ConsoleTransport(), new FileTransport()]) {
+        setTransports({ email: transport });
+        expect(() => assertEmailTransportConfigured()).toThrow('No email provider configured');
+      }
+
+      setTransports({ email: { sendEmail: async () => undefined } });
+      expect(() => assertEmailTransportConfigured()).not.toThrow();
+    } finally {
+      process.env.NODE_ENV = environment;
+    }
+  });
+});
@@ -0,0 +1,411 @@
+// tests/reviews/moderation.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import sharp from 'sharp';
+import prisma from '../../src/config/prisma';
+import { asArray, mockPrisma } from '../helpers/prisma';
+import { storage } from '../../src/config/storage.config';
+import reviewRoutes from '../../src/routes/review';
+import adminRoutes from '../../src/routes/admin';
+import { errorHandler } from '../../src/middleware/error';
+import { setTransports } from '../../src/services/notification/notificationService';
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+
+describe('Review replies and moderation', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/reviews', reviewRoutes);
+  app.use('/api/admin', adminRoutes);
+  app.use(errorHandler);
+
+  const tokens: Record<string, string> = {};
+  const users: Record<string, any> = {};
+  const sentEmails: any[] = [];
+
+  // In-memory stand-ins for the review tables
+  const aggregates = () => ({
+    rating: 3, ratingCount: 2, ratingSum: 6, ratingScore: 46 / 12,
+    rating1Count: 1, rating2Count: 0, rating3Count: 0, rating4Count: 0, rating5Count: 1
+  });
+  const profile: any = { id: 1, companyName: 'Clean Co', ...aggregates() };
+  const service: any = { id: 1, ...aggregates() };
+  const reviews: any[] = [];
+  const reports: any[] = [];
+  const reviewImages: any[] = [];
+  const savedFiles = new Map<string, Buffer>();
+
+  const withBooking = (review: any) => ({
+    ...review,
+    booking: {
+      id: review.bookingId,
+      customerId: users.customer.id,
+      bookingDate: new Date(),
+      currency: 'BGN',
+      customer: { ...users.customer, emailNotifications: true },
+      service: {
+        id: 1,
+        title: 'Deep cleaning',
+        providerId: profile.id,
+        provider: { ...profile, user: { ...users.provider, emailNotifications: true } }
+      }
+    },
+    reports: reports.filter(r => r.reviewId === review.id),
+    images: reviewImages.filter(image => image.reviewId === review.id)
+  });
+
+  // Applies Prisma-style { increment } updates to a plain object
+  const applyUpdate = (target: any, data: any) => {
+    for (const [field, value] of Object.entries<any>(data)) {
+      target[field] = value?.increment !== undefined ? target[field] + value.increment : value;
+    }
+    return target;
+  };
+
+  const matchesReview = (review: any, where: any = {}) =>
+    (where.id === undefined || review.id === where.id) &&
+    (where.reply !== null || review.reply === null) &&
+    (where.isHidden === undefined || review.isHidden === where.isHidden) &&
+    (where.moderationStatus === undefined || review.moderationStatus === where.moderationStatus) &&
+    (!where.createdAt?.gte || review.createdAt >= where.createdAt.gte);
+
+  const matchesReport = (report: any, where: any = {}) =>
+    (where.reviewId === undefined || report.reviewId === where.reviewId) &&
+    (where.status === undefined || report.status === where.status);
+
+  beforeAll(async () => {
+    for (const userType of ['provider', 'customer', 'admin']) {
+      users[userType] = await prisma.user.create({
+        data: {
+          email: `moderation-${userType}-${Date.now()}@example.com`,
+          passwordHash: 'hash',
+          firstName: userType,
+          lastName: 'Test',
+          phone: '0888123456',
+          userType: userType as any
+        }
+      });
+      tokens[userType] = jwt.sign({ userId: users[userType].id }, process.env.JWT_SECRET || 'test-jwt-secret');
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    profile.userId = users.provider.id;
+
+    const review = { reply: null, isHidden: false, moderationStatus: 'approved', createdAt: new Date() };
+    reviews.push(
+      { ...review, id: 1, bookingId: 1, rating: 5, comment: 'Spotless' },
+      {
+        ...review,
+        id: 2,
+        bookingId: 2,
+        rating: 1,
+        comment: 'Buy my stuff at spam.example',
+        createdAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000)
+      }
+    );
+
+    jest.spyOn(storage, 'saveFile').mockImplementation(async (buffer, filename) => {
+      const url = `/uploads/${savedFiles.size}-${filename}`;
+      savedFiles.set(url, buffer);
+      return url;
+    });
+    jest.spyOn(storage, 'deleteFile').mockImplementation(async (url) => {
+      savedFiles.delete(url);
+    });
+
+    setTransports({
+      email: { sendEmail: async (message: any) => { sentEmails.push(message); } },
+      sms: { sendSms: async () => undefined }
+    });
+
+    mockPrisma({
+      review: {
+        findUnique: async ({ where }) => {
+          const review = reviews.find(r => r.id === where.id);
+          return review ? withBooking(review) : null;
+        },
+        findMany: async ({ where }) => reviews.filter(r => matchesReview(r, where)).map(withBooking),
+        count: async ({ where }) => reviews.filter(r => matchesReview(r, where)).length,
+        aggregate: async ({ where }) => {
+          const rated = reviews.filter(r => matchesReview(r, where) && r.qualityRating);
+          return {
+            _avg: {
+              punctualityRating: null,
+              qualityRating: rated.length ? rated.reduce((sum, r) => sum + r.qualityRating, 0) / rated.length : null,
+              communicationRating: null,
+              valueRating: null
+            }
+          };
+        },
+        create: async ({ data }) => {
+          const { images, ...fields } = data;
+          const review = {
+            id: reviews.length + 1,
+            reply: null,
+            isHidden: false,
+            moderationStatus: 'approved',
+            createdAt: new Date(),
+            ...fields
+          };
+          reviews.push(review);
+          for (const image of asArray(images?.create)) {
+            reviewImages.push({ id: reviewImages.length + 1, reviewId: review.id, ...image });
+          }
+          return withBooking(review);
+        },
+        findUniqueOrThrow: async ({ where }) => reviews.find(r => r.id === where.id),
+        update: async ({ where, data }) => Object.assign(reviews.find(r => r.id === where.id), data),
+        updateMany: async ({ where, data }) => {
+          const matching = reviews.filter(r => matchesReview(r, where));
+          matching.forEach(review => Object.assign(review, data));
+          return { count: matching.length };
+        }
+      },
+      reviewReport: {
+        findUnique: async ({ where }) => reports.find(r => r.id === where.id) || null,
+        findMany: async ({ where }) => reports.filter(r => matchesReport(r, where)),
+        count: async ({ where }) => reports.filter(r => matchesReport(r, where)).length,
+        create: async ({ data }) => {
+          const report = { id: reports.length + 1, status: 'open', createdAt: new Date(), ...data };
+          reports.push(report);
+          return report;
+        },
+        update: async ({ where, data }) => Object.assign(reports.find(r => r.id === where.id), data),
+        updateMany: async ({ where, data }) => {
+          const matching = reports.filter(r => matchesReport(r, where));
+          matching.forEach(report => Object.assign(report, data));
+          return { count: matching.length };
+        }
+      },
+      reviewImage: {
+        findUnique: async ({ where }) => reviewImages.find(image => image.id === where.id) || null,
+        delete: async ({ where }) => reviewImages.splice(reviewImages.findIndex(image => image.id === where.id), 1)[0]
+      },
+      booking: {
+        findUnique: async ({ where }) => ({
+          id: where.id,
+          customerId: users.customer.id,
+          status: 'completed',
+          reviewEligible: true,
+          reviewEligibleUntil: null,
+          service: { id: 1, providerId: profile.id, provider: profile },
+          review: reviews.find(r => r.bookingId === where.id) || null
+        })
+      },
+      service: {
+        findUnique: async () => service,
+        update: async ({ data }) => applyUpdate(service, data)
+      },
+      providerProfile: {
+        findUnique: async () => profile,
+        update: async ({ data }) => applyUpdate(profile, data)
+      }
+    });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  const api = (method: 'get' | 'post' | 'put' | 'delete', url: string, role?: string) => {
+    const req = request(app)[method](url);
+    return role ? req.set('Authorization', `Bearer ${tokens[role]}`) : req;
+  };
+
+  it('should let the provider reply once and notify the customer', async () => {
+    expect((await api('post', '/api/reviews/1/reply', 'customer').send({ reply: 'Hi' })).status).toBe(403);
+    expect((await api('post', '/api/reviews/1/reply', 'provider').send({ reply: '   ' })).status).toBe(400);
+
+    const reply = await api('post', '/api/reviews/1/reply', 'provider').send({ reply: ' Thank you! ' });
+    expect(reply.status).toBe(200);
+    expect(reply.body.data).toMatchObject({ reply: 'Thank you!' });
+    expect(reply.body.data.repliedAt).toBeTruthy();
+    expect(sentEmails.map(email => email.to)).toEqual([users.customer.email]);
+
+    const again = await api('post', '/api/reviews/1/reply', 'provider').send({ reply: 'Once more' });
+    expect(again.status).toBe(409);
+    expect(reviews[0].reply).toBe('Thank you!');
+  });
+
+  it('should keep only the first of concurrent replies', async () => {
+    reviews.push({
+      id: 99, bookingId: 99, rating: 4, comment: 'Good', reply: null, isHidden: false,
+      moderationStatus: 'approved', createdAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000)
+    });
+    sentEmails.length = 0;
+
+    const responses = await Promise.all([
+      api('post', '/api/reviews/99/reply', 'provider').send({ reply: 'First' }),
+      api('post', '/api/reviews/99/reply', 'provider').send({ reply: 'Second' })
+    ]);
+
+    expect(responses.map(response => response.status).sort()).toEqual([200, 409]);
+    expect(sentEmails).toHaveLength(1);
+    reviews.splice(reviews.findIndex(r => r.id === 99), 1);
+  });
+
+  it('should accept one report per user with a known reason', async () => {
+    expect((await api('post', '/api/reviews/2/report', 'provider').send({ reason: 'rude' })).status).toBe(400);
+    expect((await api('post', '/api/reviews/2/report', 'customer').send({ reason: 'fake' })).status).toBe(400);
+
+    const report = await api('post', '/api/reviews/2/report', 'provider').send({ reason: 'off_topic', details: 'Spam link' });
+    expect(report.status).toBe(201);
+    expect(report.body.data).toMatchObject({ reviewId: 2, reporterId: users.provider.id, status: 'open' });
+
+    expect((await api('post', '/api/reviews/2/report', 'provider').send({ reason: 'fake' })).status).toBe(409);
+    expect((await api('post', '/api/reviews/2/report', 'admin').send({ reason: 'fake' })).status).toBe(403);
+  });
+
+  it('should hide reported reviews from listings and the provider rating', async () => {
+    const queue = await api('get', '/api/admin/review-reports', 'admin');
+    expect(queue.status).toBe(200);
+    expect(queue.body.data.map((r: any) => r.id)).toEqual([1]);
+
+    const hidden = await api('put', '/api/admin/reviews/2/hide', 'admin').send({ reason: 'Advertising' });
+    expect(hidden.status).toBe(200);
+    expect(hidden.body.data).toMatchObject({ isHidden: true, hiddenReason: 'Advertising' });
+    expect(reports[0]).toMatchObject({ status: 'resolved', resolvedById: users.admin.id });
+    expect(profile.rating).toBe(5);
+
+    const listing = await api('get', '/api/reviews/provider/1');
+    expect(listing.body.data.map((r: any) => r.id)).toEqual([1]);
+    expect((await api('post', '/api/reviews/2/reply', 'provider').send({ reply: 'Hm' })).status).toBe(404);
+
+    const restored = await api('put', '/api/admin/reviews/2/restore', 'admin');
+    expect(restored.body.data).toMatchObject({ isHidden: false, hiddenReason: null });
+    expect(profile.rating).toBe(3);
+  });
+
+  it('should apply concurrent hides of the same review once', async () => {
+    const responses = await Promise.all([
+      api('put', '/api/admin/reviews/2/hide', 'admin'),
+      api('put', '/api/admin/reviews/2/hide', 'admin')
+    ]);
+
+    expect(responses.map(response => response.status).sort()).toEqual([200, 409]);
+    expect(profile).toMatchObject({ ratingCount: 1, ratingSum: 5, rating1Count: 0, rating: 5 });
+
+    expect((await api('put', '/api/admin/reviews/2/restore', 'admin')).status).toBe(200);
+    expect((await api('put', '/api/admin/reviews/2/restore', 'admin')).status).toBe(409);
+    expect(profile).toMatchObject({ ratingCount: 2, ratingSum: 6, rating1Count: 1, rating: 3 });
+  });
+
+  it('should dismiss open reports only', async () => {
+    await prisma.reviewReport.create({
+      data: { reviewId: 1, reporterId: users.customer.id, reason: 'fake' }
+    });
+
+    const dismissed = await api('put', '/api/admin/review-reports/2/dismiss', 'admin');
+    expect(dismissed.status).toBe(200);
+    expect(dismissed.body.data.status).toBe('dismissed');
+    expect(reviews[0].isHidden).toBe(false);
+
+    expect((await api('put', '/api/admin/review-reports/2/dismiss', 'admin')).status).toBe(409);
+    expect((await api('put', '/api/admin/review-reports/2/dismiss', 'provider')).status).toBe(403);
+  });
+
+  it('should hold reviews flagged for a drastic rating change until approved', async () => {
+    sentEmails.length = 0;
+
+    const invalid = await api('post', '/api/reviews', 'customer').send({ bookingId: 3, rating: 1, qualityRating: 6 });
+    expect(invalid.status).toBe(400);
+
+    const flagged = await api('post', '/api/reviews', 'customer')
+      .send({ bookingId: 3, rating: 1, qualityRating: '2', comment: 'Awful' });
+    expect(flagged.status).toBe(201);
+    expect(flagged.body.message).toBe('Review submitted and awaiting moderation');
+    expect(flagged.body.data).toMatchObject({ moderationStatus: 'pending', qualityRating: 2, valueRating: null });
+    expect(flagged.body.data.moderationReason).toMatch(/^Drastic rating change: 1 after an average of 5\.0/);
+    expect(profile.rating).toBe(3);
+    expect(sentEmails).toHaveLength(0);
+
+    const listing = await api('get', '/api/reviews/provider/1');
+    expect(listing.body.data.map((r: any) => r.id)).toEqual([1, 2]);
+    expect((await api('post', '/api/reviews/3/report', 'provider').send({ reason: 'fake' })).status).toBe(404);
+
+    const queue = await api('get', '/api/admin/reviews/pending', 'admin');
+    expect(queue.status).toBe(200);
+    expect(queue.body.data.map((r: any) => r.id)).toEqual([3]);
+
+    const approved = await api('put', '/api/admin/reviews/3/approve', 'admin');
+    expect(approved.status).toBe(200);
+    expect(approved.body.data).toMatchObject({ moderationStatus: 'approved', moderatedById: users.admin.id });
+    expect(profile.rating).toBeCloseTo(7 / 3);
+    expect(sentEmails.map(email => email.to)).toEqual([users.provider.email]);
+
+    const { summary } = (await api('get', '/api/reviews/service/1')).body;
+    expect(summary).toMatchObject({ count: 3, histogram: { 1: 2, 2: 0, 3: 0, 4: 0, 5: 1 } });
+    expect(summary.average).toBeCloseTo(7 / 3);
+    expect(summary.subRatings).toEqual({ punctuality: null, quality: 2, communication: null, value: null });
+
+    expect((await api('put', '/api/admin/reviews/3/reject', 'admin')).status).toBe(409);
+    expect((await api('get', '/api/admin/reviews/pending', 'admin')).body.data).toEqual([]);
+  });
+
+  it('should keep rejected reviews out of listings and ratings', async () => {
+    reviews.push({
+      id: 4, bookingId: 4, rating: 5, comment: 'Best ever', reply: null, isHidden: false,
+      moderationStatus: 'pending', moderationReason: 'Drastic rating change', createdAt: new Date()
+    });
+
+    const rejected = await api('put', '/api/admin/reviews/4/reject', 'admin').send({ reason: 'Competitor account' });
+    expect(rejected.status).toBe(200);
+    expect(rejected.body.data.moderationStatus).toBe('rejected');
+    expect(profile.rating).toBeCloseTo(7 / 3);
+
+    const listing = await api('get', '/api/reviews/provider/1');
+    expect(listing.body.data.map((r: any) => r.id)).toEqual([1, 2, 3]);
+  });
+
+  describe('Review photos', () => {
+    const createPhoto = () =>
+      sharp({ create: { width: 1200, height: 900, channels: 3, background: '#aa6633' } }).jpeg().toBuffer();
+
+    const postReview = (bookingId: number, photos: Array<[Buffer, string]>) => {
+      const req = api('post', '/api/reviews', 'customer')
+        .field('bookingId', String(bookingId))
+        .field('rating', '5');
+      photos.forEach(([buffer, filename]) => req.attach('images', buffer, { filename, contentType: 'image/jpeg' }));
+      return req;
+    };
+
+    it('should reject unreadable photos without saving anything', async () => {
+      const response = await postReview(5, [[await createPhoto(), 'ok.jpg'], [Buffer.from('not a photo'), 'bad.jpg']]);
+
+      expect(response.status).toBe(400);
+      expect(savedFiles.size).toBe(0);
+      expect(reviews.find(r => r.bookingId === 5)).toBeUndefined();
+    });
+
+    it('should store resized photos with the review and list them', async () => {
+      const photo = await createPhoto();
+      const response = await postReview(5, [[photo, 'kitchen.jpg'], [photo, 'bathroom.jpg']]);
+
+      expect(response.status).toBe(201);
+      const images = response.body.data.images;
+      expect(images.map((image: any) => image.sortOrder)).toEqual([0, 1]);
+      expect(images[0].thumbnailUrl).toMatch(/kitchen-thumbnail\.webp$/);
+      expect(images[1]).toMatchObject({ largeWidth: 1200, largeHeight: 900 });
+      expect(savedFiles.size).toBe(6);
+
+      const listing = await api('get', '/api/reviews/service/1');
+      const listed = listing.body.data.find((r: any) => r.id === response.body.data.id);
+      expect(listed.images.map((image: any) => image.imageUrl)).toEqual(images.map((image: any) => image.imageUrl));
+    });
+
+    it('should let admins remove a single photo', async () => {
+      const review = reviews.find(r => r.bookingId === 5);
+      const [first, second] = reviewImages.filter(image => image.reviewId === review.id);
+
+      expect((await api('delete', `/api/admin/reviews/${review.id}/images/${first.id}`, 'provider')).status).toBe(403);
+      expect((await api('delete', `/api/admin/reviews/1/images/${first.id}`, 'admin')).status).toBe(404);
+
+      const removed = await api('delete', `/api/admin/reviews/${review.id}/images/${first.id}`, 'admin')
+        .send({ reason: 'Shows a house number' });
+      expect(removed.status).toBe(200);
+      expect(reviewImages.map(image => image.id)).toEqual([second.id]);
+      expect(savedFiles.has(first.thumbnailUrl)).toBe(false);
+      expect(savedFiles.has(second.thumbnailUrl)).toBe(true);
+      expect(savedFiles.size).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+// tests/reviews/ratings.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import prisma from '../../src/config/prisma';
+import { fakeClient, mockPrisma } from '../helpers/prisma';
+import serviceRoutes from '../../src/routes/service';
+import { errorHandler } from '../../src/middleware/error';
+import { applyReviewToRatings, calculateRatings } from '../../src/services/reviewService';
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+describe('Rating aggregates', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/services', serviceRoutes);
+  app.use(errorHandler);
+
+  // Applies Prisma-style { increment } updates to a plain object
+  const applyUpdate = (target: any, data: any) => {
+    for (const [field, value] of Object.entries<any>(data)) {
+      target[field] = value?.increment !== undefined ? target[field] + value.increment : value;
+    }
+    return target;
+  };
+
+  const emptyAggregates = () => ({
+    rating: null, ratingCount: 0, ratingSum: 0, ratingScore: null,
+    rating1Count: 0, rating2Count: 0, rating3Count: 0, rating4Count: 0, rating5Count: 0
+  });
+
+  it('should rank a long record above a single perfect review', () => {
+    const single = calculateRatings(1, 5);
+    const established = calculateRatings(200, 200 * 4.8);
+
+    expect(single.rating).toBe(5);
+    expect(established.rating).toBeCloseTo(4.8);
+    expect(established.ratingScore!).toBeGreaterThan(single.ratingScore!);
+    expect(calculateRatings(0, 0)).toEqual({ rating: null, ratingScore: null });
+  });
+
+  it('should keep counts, histogram and averages in step as reviews come and go', async () => {
+    const service = { id: 7, ...emptyAggregates() };
+    const provider = { id: 3, ...emptyAggregates() };
+    const client = fakeClient({
+      service: { update: async ({ data }) => applyUpdate(service, data) },
+      providerProfile: { update: async ({ data }) => applyUpdate(provider, data) }
+    });
+
+    await applyReviewToRatings({ rating: 5, serviceId: 7, providerId: 3 }, 1, client);
+    await applyReviewToRatings({ rating: 3, serviceId: 7, providerId: 3 }, 1, client);
+    expect(service).toMatchObject({ ratingCount: 2, ratingSum: 8, rating: 4, rating3Count: 1, rating5Count: 1 });
+    expect(service.ratingScore).toBeCloseTo(48 / 12);
+
+    await applyReviewToRatings({ rating: 5, serviceId: 7, providerId: 3 }, -1, client);
+    expect(provider).toMatchObject({ ratingCount: 1, ratingSum: 3, rating: 3, rating3Count: 1, rating5Count: 0 });
+
+    await applyReviewToRatings({ rating: 3, serviceId: 7, providerId: 3 }, -1, client);
+    expect(provider).toMatchObject(emptyAggregates());
+  });
+
+  describe('Sorting services by rating', () => {
+    const services = [
+      { id: 1, title: 'One perfect review', ...calculateRatings(1, 5), ratingCount: 1 },
+      { id: 2, title: 'No reviews yet', ...calculateRatings(0, 0), ratingCount: 0 },
+      { id: 3, title: 'Long track record', ...calculateRatings(200, 960), ratingCount: 200 }
+    ].map((service, index) => ({
+      ...service,
+      isActive: true,
+      createdAt: new Date(2025, 0, index + 1),
+      provider: { isVerified: false, user: {} }
+    }));
+
+    // Sort order requested by the listing
+    let lastOrderBy: any;
+    let token: string;
+
+    beforeAll(async () => {
+      const user = await prisma.user.create({
+        data: {
+          email: `ratings-${Date.now()}@example.com`,
+          passwordHash: 'hash',
+          firstName: 'Rating',
+          lastName: 'Test',
+          phone: '0888123456',
+          userType: 'customer' as any
+        }
+      });
+      token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'test-jwt-secret');
+
+      mockPrisma({
+        service: {
+          count: async () => services.length,
+          // Honours the rating order only, which is all these tests need
+          findMany: async ({ orderBy }) => {
+            lastOrderBy = orderBy;
+            const score = (service: any) => service.ratingScore ?? -Infinity;
+            return Array.isArray(orderBy) && orderBy[0].ratingScore
+              ? [...services].sort((a, b) => score(b) - score(a))
+              : [...services].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+          }
+        }
+      });
+    });
+
+    it('should rank services by their Bayesian score with unrated services last', async () => {
+      const response = await request(app)
+        .get('/api/services?sortBy=rating')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((s: any) => s.id)).toEqual([3, 1, 2]);
+      expect(lastOrderBy[0]).toEqual({ ratingScore: { sort: 'desc', nulls: 'last' } });
+    });
+  });
+});
@@ -0,0 +1,207 @@
+// tests/services/coverage.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import prisma from '../../src/config/prisma';
+import { asArray, inFilter, mockPrisma } from '../helpers/prisma';
+import serviceRoutes from '../../src/routes/service';
+import { errorHandler } from '../../src/middleware/error';
+import { findCoverageMatch, parseCoverageAreas } from '../../src/services/coverageService';
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+describe('Service coverage areas', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/services', serviceRoutes);
+  app.use(errorHandler);
+
+  const tokens: Record<string, string> = {};
+
+  // Sofia City region with Sofia and Bankya, plus Pernik in a neighbouring region
+  const cities = [
+    { id: 1, name: 'Sofia', nameBg: 'София', stateId: 1, latitude: 42.70, longitude: 23.32 },
+    { id: 2, name: 'Bankya', nameBg: 'Банкя', stateId: 1, latitude: 42.71, longitude: 23.15 },
+    { id: 3, name: 'Pernik', nameBg: 'Перник', stateId: 2, latitude: 42.61, longitude: 23.03 },
+    { id: 4, name: 'Varna', nameBg: 'Варна', stateId: 3, latitude: 43.21, longitude: 27.91 }
+  ];
+
+  const services = [
+    { id: 1, title: 'Mobile plumber', city: 'Sofia', latitude: 42.70, longitude: 23.32 },
+    { id: 2, title: 'Sofia workshop', city: 'Sofia', latitude: 42.70, longitude: 23.32 },
+    { id: 3, title: 'Varna cleaner', city: 'Varna', latitude: 43.21, longitude: 27.91 }
+  ].map(service => ({
+    ...service,
+    providerId: 1,
+    isActive: true,
+    createdAt: new Date(2025, 3, service.id),
+    provider: { isVerified: false, userId: 0, user: {} }
+  }));
+
+  let areas: any[] = [];
+
+  const area = (fields: object) => ({
+    id: 0,
+    serviceId: 1,
+    cityId: null,
+    stateId: null,
+    latitude: null,
+    longitude: null,
+    radiusKm: null,
+    travelFee: 0,
+    createdAt: new Date(),
+    ...fields
+  }) as any;
+
+  const matchesArea = (a: any, where: any): boolean =>
+    where.OR.some((condition: any) =>
+      a.type === condition.type &&
+      (condition.cityId === undefined || a.cityId === condition.cityId) &&
+      (condition.stateId === undefined || a.stateId === condition.stateId) &&
+      (condition.latitude === undefined ||
+        (a.latitude >= condition.latitude.gte && a.latitude <= condition.latitude.lte)));
+
+  const matchesService = (service: any, where: any = {}): boolean => {
+    if (where.id?.in && !where.id.in.includes(service.id)) {
+      return false;
+    }
+    if (where.coverageAreas?.none && areas.some(a => a.serviceId === service.id)) {
+      return false;
+    }
+    if (where.city?.equals && service.city.toLowerCase() !== where.city.equals.toLowerCase()) {
+      return false;
+    }
+    if (where.AND && !where.AND.every((condition: any) => matchesService(service, condition))) {
+      return false;
+    }
+    return !where.OR || where.OR.some((condition: any) => matchesService(service, condition));
+  };
+
+  beforeAll(async () => {
+    for (const role of ['provider', 'customer']) {
+      const user = await prisma.user.create({
+        data: {
+          email: `coverage-${role}-${Date.now()}@example.com`,
+          passwordHash: 'hash',
+          firstName: role,
+          lastName: 'Test',
+          phone: '0888123456',
+          userType: role as any
+        }
+      });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      tokens[role] = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'test-jwt-secret');
+      if (role === 'provider') {
+        services.forEach(service => { service.provider.userId = user.id; });
+      }
+    }
+
+    mockPrisma({
+      service: {
+        findUnique: async ({ where }) => services.find(s => s.id === where.id) || null,
+        count: async ({ where }) => services.filter(s => matchesService(s, where)).length,
+        findMany: async ({ where, skip = 0, take }) =>
+          services
+            .filter(s => matchesService(s, where))
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+            .slice(skip, take ? skip + take : undefined)
+      },
+      city: {
+        findUnique: async ({ where }) => cities.find(c => c.id === where.id) || null,
+        count: async ({ where }) => cities.filter(c => inFilter(where?.id).includes(c.id)).length
+      },
+      state: {
+        count: async ({ where }) => inFilter(where?.id).filter(id => id <= 3).length
+      },
+      serviceCoverageArea: {
+        deleteMany: async ({ where }) => {
+          areas = areas.filter(a => a.serviceId !== where?.serviceId);
+        },
+        createMany: async ({ data }) => {
+          areas.push(...asArray(data).map((fields, index) => area({ ...fields, id: areas.length + index + 1 })));
+        },
+        findMany: async ({ where }) =>
+          areas.filter(a => where?.serviceId !== undefined ? a.serviceId === where.serviceId : matchesArea(a, where))
+      }
+    });
+  });
+
+  const api = (method: 'get' | 'put', url: string, role: string) =>
+    request(app)[method](url).set('Authorization', `Bearer ${tokens[role]}`);
+
+  it('should validate coverage areas', () => {
+    const sofia = { latitude: 42.70, longitude: 23.32 };
+
+    expect(parseCoverageAreas([{ type: 'RADIUS', radiusKm: 30, travelFee: '15' }], sofia))
+      .toEqual([expect.objectContaining({ type: 'RADIUS', latitude: 42.70, longitude: 23.32, radiusKm: 30, travelFee: 15 })]);
+    expect(() => parseCoverageAreas([{ type: 'RADIUS', radiusKm: 30 }], null)).toThrow('Radius areas require');
+    expect(() => parseCoverageAreas([{ type: 'RADIUS', ...sofia, radiusKm: 500 }], null)).toThrow('Radius must be');
+    expect(() => parseCoverageAreas([{ type: 'CITY' }], null)).toThrow('City areas require a valid city ID');
+    expect(() => parseCoverageAreas([{ type: 'STATE', stateId: 1, travelFee: -5 }], null)).toThrow('Travel fee');
+    expect(() => parseCoverageAreas([{ type: 'COUNTRY' }], null)).toThrow('Coverage area type');
+    expect(() => parseCoverageAreas('CITY', null)).toThrow('Coverage areas must be a list');
+  });
+
+  it('should apply the fee of the most specific matching zone', () => {
+    const zones = [
+      area({ type: 'STATE', stateId: 1, travelFee: 30 }),
+      area({ type: 'RADIUS', latitude: 42.70, longitude: 23.32, radiusKm: 50, travelFee: 20 }),
+      area({ type: 'RADIUS', latitude: 42.70, longitude: 23.32, radiusKm: 20, travelFee: 10 }),
+      area({ type: 'CITY', cityId: 1, travelFee: 0 })
+    ];
+
+    expect(findCoverageMatch(zones, cities[0])?.travelFee).toBe(0);
+    expect(findCoverageMatch(zones, cities[1])?.travelFee).toBe(10);
+    expect(findCoverageMatch(zones, cities[2])?.travelFee).toBe(20);
+    expect(findCoverageMatch(zones, cities[3])).toBeNull();
+  });
+
+  it('should only let the owner replace coverage areas', async () => {
+    const body = { areas: [{ type: 'CITY', cityId: 1 }] };
+
+    expect((await api('put', '/api/services/1/coverage', 'customer').send(body)).status).toBe(403);
+    expect((await api('put', '/api/services/99/coverage', 'provider').send(body)).status).toBe(404);
+
+    const unknownCity = await api('put', '/api/services/1/coverage', 'provider')
+      .send({ areas: [{ type: 'CITY', cityId: 42 }] });
+    expect(unknownCity.status).toBe(400);
+
+    const invalid = await api('put', '/api/services/1/coverage', 'provider')
+      .send({ areas: [{ type: 'RADIUS', radiusKm: 0 }] });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should save coverage areas with travel fees', async () => {
+    const response = await api('put', '/api/services/1/coverage', 'provider').send({
+      areas: [
+        { type: 'CITY', cityId: 1 },
+        { type: 'RADIUS', radiusKm: 40, travelFee: 15 }
+      ]
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(2);
+    expect(response.body.data[1]).toMatchObject({ type: 'RADIUS', latitude: 42.70, radiusKm: 40, travelFee: 15 });
+
+    const coverage = await api('get', '/api/services/1/coverage', 'customer');
+    expect(coverage.status).toBe(200);
+    expect(coverage.body.data).toHaveLength(2);
+  });
+
+  it('should match services to the customer city with their travel fee', async () => {
+    // Pernik is inside the plumber's radius; nothing else is based there
+    const pernik = await api('get', '/api/services?cityId=3', 'customer');
+    expect(pernik.status).toBe(200);
+    expect(pernik.body.data.map((s: any) => s.id)).toEqual([1]);
+    expect(pernik.body.data[0].travelFee).toBe(15);
+
+    // Services without coverage areas match the city they are based in
+    const sofia = await api('get', '/api/services?cityId=1', 'customer');
+    expect(sofia.body.data.map((s: any) => s.id)).toEqual([2, 1]);
+    expect(sofia.body.data.map((s: any) => s.travelFee)).toEqual([0, 0]);
+
+    const varna = await api('get', '/api/services?cityId=4', 'customer');
+    expect(varna.body.data.map((s: any) => s.id)).toEqual([3]);
+
+    expect((await api('get', '/api/services?cityId=42', 'customer')).status).toBe(400);
+  });
+});
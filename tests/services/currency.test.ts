@@ -0,0 +1,158 @@
+// tests/services/currency.test.ts
+import request from 'supertest';
+import { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
+import startServer from '../../src/app';
+import prisma from '../../src/config/prisma';
+import { mockPrisma, sqlParam } from '../helpers/prisma';
+import { convertAmount, getExchangeRates, parseCurrency } from '../../src/services/currencyService';
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+
+describe('Multi-currency prices', () => {
+  let app: Express;
+  const tokens: Record<string, string> = {};
+
+  // 100 BGN, 45 EUR (~88 BGN) and 60 EUR (~117 BGN)
+  const services = [
+    { id: 1, title: 'Cleaning in leva', price: 100, currency: 'BGN' },
+    { id: 2, title: 'Cheap cleaning in euro', price: 45, currency: 'EUR' },
+    { id: 3, title: 'Cleaning in euro', price: 60, currency: 'EUR' }
+  ].map(service => ({
+    ...service,
+    isActive: true,
+    createdAt: new Date(2025, 3, service.id),
+    provider: { isVerified: false, user: {} }
+  }));
+
+  const inRange = (price: number, range: any = {}) =>
+    (range.gte === undefined || price >= range.gte) && (range.lte === undefined || price <= range.lte);
+
+  const matches = (service: any, where: any = {}): boolean =>
+    (!where.id?.in || where.id.in.includes(service.id)) &&
+    (where.currency === undefined || service.currency === where.currency) &&
+    inRange(service.price, where.price) &&
+    (!where.OR || where.OR.some((condition: any) => matches(service, condition))) &&
+    (!where.AND || where.AND.every((condition: any) => matches(service, condition)));
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+
+    const startedApp = await startServer();
+    if (!startedApp) {
+      throw new Error('Failed to start server');
+    }
+    app = startedApp;
+
+    for (const userType of ['customer', 'admin']) {
+      const user = await prisma.user.create({
+        data: {
+          email: `currency-${userType}-${Date.now()}@example.com`,
+          passwordHash: 'hash',
+          firstName: userType,
+          lastName: 'Test',
+          phone: '0888123456',
+          userType: userType as any
+        }
+      });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      tokens[userType] = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'test-jwt-secret');
+    }
+
+    mockPrisma({
+      // Orders by the price converted with the rates passed in the CASE expression
+      // Listings sorted by price are not filtered in these tests, so every service matches
+      $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+        const query = Prisma.sql(strings, ...values);
+        if (query.sql.includes('COUNT(*)')) {
+          return [{ total: services.length }];
+        }
+
+        const rates = new Map([...query.text.matchAll(/WHEN \$(\d+) THEN \$(\d+)/g)]
+          .map(([, currency, rate]) => [query.values[Number(currency) - 1], query.values[Number(rate) - 1] as number]));
+        const toBgn = (s: any) => s.price * rates.get(s.currency)!;
+        const direction = query.sql.includes('END) DESC') ? -1 : 1;
+        const skip = sqlParam(query, /OFFSET \$(\d+)/) as number;
+        const take = sqlParam(query, /LIMIT \$(\d+)/) as number;
+        return [...services]
+          .sort((a, b) => (toBgn(a) - toBgn(b)) * direction)
+          .slice(skip, skip + take)
+          .map(s => ({ id: s.id }));
+      },
+      service: {
+        count: async ({ where }) => services.filter(s => matches(s, where)).length,
+        findMany: async ({ where, skip = 0, take }) =>
+          services
+            .filter(s => matches(s, where))
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+            .slice(skip, take ? skip + take : undefined)
+      }
+    });
+  });
+
+  afterAll(() => {
+    process.env.NODE_ENV = 'development';
+  });
+
+  const api = (method: 'get' | 'put', url: string, role = 'customer') =>
+    request(app)[method](url).set('Authorization', `Bearer ${tokens[role]}`);
+
+  it('should convert with the fixed peg in both directions', async () => {
+    const rates = await getExchangeRates();
+
+    expect(convertAmount(100, 'EUR', 'BGN', rates)).toBe(195.58);
+    expect(convertAmount(195.58, 'BGN', 'EUR', rates)).toBe(100);
+    expect(convertAmount(12.34, 'BGN', 'BGN', rates)).toBe(12.34);
+    expect(parseCurrency('eur')).toBe('EUR');
+    expect(parseCurrency('USD')).toBeNull();
+  });
+
+  it('should filter on prices converted to the filter currency', async () => {
+    const inLeva = await api('get', '/api/services?priceMin=90&priceMax=110');
+    expect(inLeva.status).toBe(200);
+    expect(inLeva.body.data.map((s: any) => s.id)).toEqual([1]);
+
+    const inEuro = await api('get', '/api/services?priceMax=50&priceCurrency=EUR');
+    expect(inEuro.body.data.map((s: any) => s.id)).toEqual([2]);
+  });
+
+  it('should sort by converted price', async () => {
+    const cheapest = await api('get', '/api/services?sortBy=price-low');
+    expect(cheapest.body.data.map((s: any) => s.id)).toEqual([2, 1, 3]);
+
+    const dearest = await api('get', '/api/services?sortBy=price-high&limit=2');
+    expect(dearest.body.data.map((s: any) => s.id)).toEqual([3, 1]);
+    expect(dearest.body.pagination.total).toBe(3);
+  });
+
+  it('should return prices in the display currency alongside the originals', async () => {
+    const response = await api('get', '/api/services?displayCurrency=EUR');
+
+    const leva = response.body.data.find((s: any) => s.id === 1);
+    expect(leva).toMatchObject({ price: 100, currency: 'BGN', displayPrice: { amount: 51.13, currency: 'EUR' } });
+
+    const euro = response.body.data.find((s: any) => s.id === 3);
+    expect(euro.displayPrice).toEqual({ amount: 60, currency: 'EUR' });
+
+    expect((await api('get', '/api/services?displayCurrency=USD')).status).toBe(400);
+  });
+
+  it('should let admins update a rate and apply it to listings', async () => {
+    expect((await api('put', '/api/admin/exchange-rates/EUR/BGN').send({ rate: 2 })).status).toBe(403);
+    expect((await api('put', '/api/admin/exchange-rates/EUR/EUR', 'admin').send({ rate: 2 })).status).toBe(400);
+    expect((await api('put', '/api/admin/exchange-rates/EUR/BGN', 'admin').send({ rate: -1 })).status).toBe(400);
+
+    const updated = await api('put', '/api/admin/exchange-rates/EUR/BGN', 'admin').send({ rate: 2 });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data.rate).toBe(2);
+
+    const rates = await api('get', '/api/admin/exchange-rates', 'admin');
+    expect(rates.body.data.effective).toContainEqual({ baseCurrency: 'BGN', quoteCurrency: 'EUR', rate: 0.5 });
+
+    const response = await api('get', '/api/services?displayCurrency=BGN');
+    expect(response.body.data.find((s: any) => s.id === 3).displayPrice).toEqual({ amount: 120, currency: 'BGN' });
+
+    const audit = await api('get', '/api/admin/audit-log?action=exchange_rate.update', 'admin');
+    expect(audit.body.data[0].details).toMatchObject({ pair: 'EUR/BGN', previousRate: 1.95583, rate: 2 });
+  });
+});
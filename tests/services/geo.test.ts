@@ -0,0 +1,165 @@
+// tests/services/geo.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
+import prisma from '../../src/config/prisma';
+import { fakeClient, mockPrisma, sqlParam } from '../helpers/prisma';
+import serviceRoutes from '../../src/routes/service';
+import { errorHandler } from '../../src/middleware/error';
+import { geocodeCity, parseGeoPoint } from '../../src/services/geoService';
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+describe('Geo search', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/services', serviceRoutes);
+  app.use(errorHandler);
+
+  let token: string;
+  const sofia = { lat: 42.70, lng: 23.32 };
+
+  // In-memory catalogue, newest first by id
+  const services = [
+    { id: 1, title: 'Sofia cleaning', latitude: 42.70, longitude: 23.32 },
+    { id: 2, title: 'Pernik cleaning', latitude: 42.61, longitude: 23.03 },
+    { id: 3, title: 'Plovdiv cleaning', latitude: 42.14, longitude: 24.75 },
+    { id: 4, title: 'Cleaning somewhere', latitude: null, longitude: null }
+  ].map(service => ({
+    ...service,
+    isActive: true,
+    createdAt: new Date(2025, 2, service.id),
+    provider: { isVerified: false, user: {} }
+  }));
+
+  const haversineKm = (lat1: number, lng1: number, lat2: number, lng2: number) => {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const a = Math.sin(toRadians(lat2 - lat1) / 2) ** 2 +
+      Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(toRadians(lng2 - lng1) / 2) ** 2;
+    return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(a)));
+  };
+
+  const distanceFrom = (service: any, lat: number, lng: number) =>
+    service.latitude === null ? null : haversineKm(lat, lng, service.latitude, service.longitude);
+
+  const matches = (service: any, where: any = {}): boolean =>
+    (!where.id?.in || where.id.in.includes(service.id)) &&
+    (!where.AND || where.AND.every((condition: any) => matches(service, condition)));
+
+  beforeAll(async () => {
+    const user = await prisma.user.create({
+      data: {
+        email: `geo-${Date.now()}@example.com`,
+        passwordHash: 'hash',
+        firstName: 'Geo',
+        lastName: 'Test',
+        phone: '0888123456',
+        userType: 'customer' as any
+      }
+    });
+    token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'test-jwt-secret');
+
+    mockPrisma({
+      // Evaluates the listing and distance queries against the catalogue
+      $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+        const query = Prisma.sql(strings, ...values);
+        const lat = sqlParam(query, /radians\(s\."latitude" - \$(\d+)\)/) as number;
+        const lng = sqlParam(query, /radians\(s\."longitude" - \$(\d+)\)/) as number;
+        const radiusKm = sqlParam(query, /<= \$(\d+)/) as number | undefined;
+        const idList = query.text.match(/"id" IN \(([^)]*)\)/)?.[1];
+        const ids = idList?.match(/\d+/g)?.map(n => query.values[Number(n) - 1]);
+
+        const rows = services
+          .filter(s => !ids || ids.includes(s.id))
+          .map(s => ({ id: s.id, createdAt: s.createdAt, distanceKm: distanceFrom(s, lat, lng) }))
+          .filter(s => radiusKm === undefined || (s.distanceKm !== null && s.distanceKm <= radiusKm));
+
+        if (query.sql.includes('COUNT(*)')) {
+          return [{ total: rows.length }];
+        }
+
+        if (query.sql.includes('ORDER BY s."createdAt" DESC')) {
+          rows.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+        } else {
+          rows.sort((a, b) => (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity) || b.id - a.id);
+        }
+
+        const skip = (sqlParam(query, /OFFSET \$(\d+)/) ?? 0) as number;
+        const take = sqlParam(query, /LIMIT \$(\d+)/) as number | undefined;
+        return rows.slice(skip, take === undefined ? undefined : skip + take);
+      },
+      service: {
+        count: async ({ where }) => services.filter(s => matches(s, where)).length,
+        findMany: async ({ where, skip = 0, take }) =>
+          services
+            .filter(s => matches(s, where))
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+            .slice(skip, take ? skip + take : undefined)
+      }
+    });
+  });
+
+  const list = (query: string) =>
+    request(app).get(`/api/services?${query}`).set('Authorization', `Bearer ${token}`);
+
+  it('should validate coordinates', () => {
+    expect(parseGeoPoint('42.7', '23.32')).toEqual({ latitude: 42.7, longitude: 23.32 });
+    expect(parseGeoPoint('91', '23')).toBeNull();
+    expect(parseGeoPoint('abc', '23')).toBeNull();
+    expect(parseGeoPoint(undefined, '23')).toBeNull();
+  });
+
+  it('should geocode services from the seeded city, preferring the matching postal code', async () => {
+    const client = fakeClient({
+      city: {
+        findMany: async () => [
+          { id: 1, name: 'Byala', postalCode: '7100', latitude: 43.46, longitude: 25.73, state: { name: 'Ruse', nameBg: 'Русе' } },
+          { id: 2, name: 'Byala', postalCode: '9101', latitude: 42.88, longitude: 27.89, state: { name: 'Varna', nameBg: 'Варна' } }
+        ]
+      }
+    });
+
+    expect(await geocodeCity({ city: 'Byala', state: null, postalCode: '9101' }, client))
+      .toEqual({ latitude: 42.88, longitude: 27.89 });
+    expect(await geocodeCity({ city: 'Бяла', state: 'Varna', postalCode: null }, client))
+      .toEqual({ latitude: 42.88, longitude: 27.89 });
+    expect(await geocodeCity({ city: 'Byala', state: null, postalCode: null }, client))
+      .toEqual({ latitude: 43.46, longitude: 25.73 });
+    expect(await geocodeCity({ city: ' ', state: null, postalCode: null }, client)).toBeNull();
+  });
+
+  it('should only list services within the radius', async () => {
+    const response = await list(`lat=${sofia.lat}&lng=${sofia.lng}&radiusKm=50`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((s: any) => s.id)).toEqual([2, 1]);
+    expect(response.body.pagination.total).toBe(2);
+    expect(response.body.data[1].distanceKm).toBe(0);
+    expect(response.body.data[0].distanceKm).toBeGreaterThan(20);
+    expect(response.body.data[0].distanceKm).toBeLessThan(30);
+  });
+
+  it('should sort and paginate by distance', async () => {
+    const firstPage = await list(`lat=${sofia.lat}&lng=${sofia.lng}&sortBy=distance&limit=2`);
+    expect(firstPage.body.data.map((s: any) => s.id)).toEqual([1, 2]);
+    expect(firstPage.body.pagination).toMatchObject({ total: 4, pages: 2 });
+
+    // Services without coordinates come last
+    const secondPage = await list(`lat=${sofia.lat}&lng=${sofia.lng}&sortBy=distance&limit=2&page=2`);
+    expect(secondPage.body.data.map((s: any) => s.id)).toEqual([3, 4]);
+    expect(secondPage.body.data[1].distanceKm).toBeNull();
+  });
+
+  it('should reject invalid geo parameters', async () => {
+    expect((await list('radiusKm=10')).status).toBe(400);
+    expect((await list('lat=100&lng=23')).status).toBe(400);
+    expect((await list(`lat=${sofia.lat}&lng=${sofia.lng}&radiusKm=5000`)).status).toBe(400);
+  });
+
+  it('should reject distance sorting without a location', async () => {
+    const response = await list('sortBy=distance');
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('Sorting by distance requires lat and lng');
+  });
+});
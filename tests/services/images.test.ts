@@ -0,0 +1,166 @@
+// tests/services/images.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import sharp from 'sharp';
+import prisma from '../../src/config/prisma';
+import { mockPrisma } from '../helpers/prisma';
+import { storage } from '../../src/config/storage.config';
+import serviceRoutes from '../../src/routes/service';
+import { errorHandler } from '../../src/middleware/error';
+import { deleteImageFiles, isHeic, processImage, saveProcessedImage } from '../../src/services/imageService';
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+
+describe('Service image processing', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/services', serviceRoutes);
+  app.use(errorHandler);
+
+  let token: string;
+  const savedFiles = new Map<string, Buffer>();
+  const serviceImages: any[] = [];
+  let servicesCreated = 0;
+
+  // A landscape photo taken with the phone turned sideways, with GPS coordinates in its EXIF data
+  const createPhoto = () =>
+    sharp({ create: { width: 2000, height: 1000, channels: 3, background: '#3366aa' } })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .withExifMerge({ IFD0: { Make: 'PhoneMaker' }, IFD3: { GPSLatitudeRef: 'N', GPSLongitudeRef: 'E' } })
+      .toBuffer();
+
+  beforeAll(async () => {
+    const user = await prisma.user.create({
+      data: {
+        email: `images-${Date.now()}@example.com`,
+        passwordHash: 'hash',
+        firstName: 'Image',
+        lastName: 'Test',
+        phone: '0888123456',
+        userType: 'provider' as any
+      }
+    });
+    await prisma.user.update({ where: { id: user.id }, data: { emailVerified: true } });
+    token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'test-jwt-secret');
+
+    jest.spyOn(storage, 'saveFile').mockImplementation(async (buffer, filename) => {
+      const url = `/uploads/${savedFiles.size}-${filename}`;
+      savedFiles.set(url, buffer);
+      return url;
+    });
+    jest.spyOn(storage, 'deleteFile').mockImplementation(async (url) => {
+      savedFiles.delete(url);
+    });
+
+    mockPrisma({
+      providerProfile: {
+        findUnique: async () => ({ id: 1, userId: user.id })
+      },
+      city: { findMany: async () => [] },
+      service: {
+        create: async ({ data }) => ({ id: ++servicesCreated, ...data }),
+        findUnique: async ({ where }) => ({
+          id: where.id,
+          serviceImages: serviceImages.filter(image => image.serviceId === where.id)
+        })
+      },
+      serviceImage: {
+        create: async ({ data }) => {
+          const image = { id: serviceImages.length + 1, ...data };
+          serviceImages.push(image);
+          return image;
+        }
+      }
+    });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should upright, strip and resize a photo into every variant', async () => {
+    const processed = await processImage(await createPhoto());
+    const { thumbnail, medium, large } = processed.variants;
+
+    expect(processed.extension).toBe('webp');
+    expect([thumbnail.width, thumbnail.height]).toEqual([320, 240]);
+    // Rotated to portrait by the EXIF orientation
+    expect([medium.width, medium.height]).toEqual([400, 800]);
+    expect([large.width, large.height]).toEqual([800, 1600]);
+
+    const metadata = await sharp(large.buffer).metadata();
+    expect(metadata.format).toBe('webp');
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.orientation).toBeUndefined();
+  });
+
+  it('should not enlarge small images', async () => {
+    const icon = await sharp({ create: { width: 300, height: 200, channels: 4, background: '#ffffff00' } })
+      .png()
+      .toBuffer();
+    const { variants } = await processImage(icon);
+
+    expect([variants.large.width, variants.large.height]).toEqual([300, 200]);
+    expect([variants.thumbnail.width, variants.thumbnail.height]).toEqual([300, 200]);
+  });
+
+  it('should reject files that are not images', async () => {
+    await expect(processImage(Buffer.from('not an image'))).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should recognize HEIC files by their signature', () => {
+    const heic = Buffer.concat([Buffer.from([0, 0, 0, 24]), Buffer.from('ftypheic'), Buffer.alloc(16)]);
+    const avif = Buffer.concat([Buffer.from([0, 0, 0, 24]), Buffer.from('ftypavif'), Buffer.alloc(16)]);
+
+    expect(isHeic(heic)).toBe(true);
+    expect(isHeic(avif)).toBe(false);
+  });
+
+  it('should save and delete every variant', async () => {
+    const variants = await saveProcessedImage(await processImage(await createPhoto()), 'kitchen.jpg');
+
+    expect(variants.thumbnailUrl).toMatch(/kitchen-thumbnail\.webp$/);
+    expect(variants.mediumUrl).toMatch(/kitchen-medium\.webp$/);
+    expect(variants.imageUrl).toBe(variants.largeUrl);
+    expect(variants).toMatchObject({ largeWidth: 800, largeHeight: 1600 });
+
+    await deleteImageFiles(variants);
+    expect(savedFiles.has(variants.thumbnailUrl!)).toBe(false);
+    expect(savedFiles.has(variants.largeUrl!)).toBe(false);
+  });
+
+  it('should store the variants of uploaded service images', async () => {
+    const response = await request(app)
+      .post('/api/services')
+      .set('Authorization', `Bearer ${token}`)
+      .field('title', 'Kitchen cleaning')
+      .field('description', 'Deep cleaning of kitchens')
+      .field('categoryId', '1')
+      .field('price', '60')
+      .field('priceType', 'FIXED')
+      .attach('images', await createPhoto(), { filename: 'kitchen.jpg', contentType: 'image/jpeg' });
+
+    expect(response.status).toBe(201);
+    const [image] = response.body.data.serviceImages;
+    expect(image).toMatchObject({ isMain: true, thumbnailWidth: 320, mediumHeight: 800, largeWidth: 800 });
+    expect(savedFiles.has(image.thumbnailUrl)).toBe(true);
+  });
+
+  it('should reject the service when an upload cannot be decoded', async () => {
+    const before = servicesCreated;
+    const response = await request(app)
+      .post('/api/services')
+      .set('Authorization', `Bearer ${token}`)
+      .field('title', 'Kitchen cleaning')
+      .field('description', 'Deep cleaning of kitchens')
+      .field('categoryId', '1')
+      .field('price', '60')
+      .field('priceType', 'FIXED')
+      .attach('images', Buffer.from('not an image'), { filename: 'kitchen.jpg', contentType: 'image/jpeg' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toMatch(/Invalid image file/);
+    expect(servicesCreated).toBe(before);
+  });
+});
@@ -0,0 +1,152 @@
+// tests/services/packages.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import prisma from '../../src/config/prisma';
+import { asArray, DelegateMock, inFilter, mockPrisma } from '../helpers/prisma';
+import serviceRoutes from '../../src/routes/service';
+import { errorHandler } from '../../src/middleware/error';
+import { parseServiceOptions } from '../../src/services/packageService';
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+describe('Service packages and add-ons', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/services', serviceRoutes);
+  app.use(errorHandler);
+
+  let token: string;
+
+  // In-memory stand-ins for the service and option tables
+  const services: any[] = [];
+  const options: Record<'packages' | 'addOns', any[]> = { packages: [], addOns: [] };
+
+  const optionDelegate = (table: 'packages' | 'addOns'): DelegateMock<'servicePackage' | 'serviceAddOn'> => ({
+    findMany: async ({ where }) =>
+      options[table].filter(o => o.serviceId === where?.serviceId && o.isActive === where?.isActive),
+    create: async ({ data }) => {
+      const option = { id: options[table].length + 1, isActive: true, ...data };
+      options[table].push(option);
+      return option;
+    },
+    update: async ({ where, data }) => Object.assign(options[table].find(o => o.id === where.id), data),
+    updateMany: async ({ where, data }) => {
+      options[table].filter(o => inFilter(where?.id).includes(o.id)).forEach(o => Object.assign(o, data));
+    }
+  });
+
+  const withOptions = (service: any) => ({
+    ...service,
+    packages: options.packages
+      .filter(o => o.serviceId === service.id && o.isActive)
+      .sort((a, b) => a.sortOrder - b.sortOrder),
+    addOns: options.addOns
+      .filter(o => o.serviceId === service.id && o.isActive)
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+  });
+
+  beforeAll(async () => {
+    const user = await prisma.user.create({
+      data: {
+        email: `packages-${Date.now()}@example.com`,
+        passwordHash: 'hash',
+        firstName: 'Package',
+        lastName: 'Test',
+        phone: '0888123456',
+        userType: 'provider' as any
+      }
+    });
+    await prisma.user.update({ where: { id: user.id }, data: { emailVerified: true } });
+    token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'test-jwt-secret');
+
+    mockPrisma({
+      providerProfile: {
+        findUnique: async () => ({ id: 1, userId: user.id })
+      },
+      city: { findMany: async () => [] },
+      serviceImage: { create: async () => undefined },
+      service: {
+        create: async ({ data }) => {
+          const { packages, addOns, ...fields } = data;
+          const service = { id: services.length + 1, ...fields };
+          services.push(service);
+          asArray(packages?.create).forEach(option =>
+            options.packages.push({ id: options.packages.length + 1, serviceId: service.id, isActive: true, ...option }));
+          asArray(addOns?.create).forEach(option =>
+            options.addOns.push({ id: options.addOns.length + 1, serviceId: service.id, isActive: true, ...option }));
+          return service;
+        },
+        findUnique: async ({ where }) => {
+          const service = services.find(s => s.id === where.id);
+          return service ? withOptions(service) : null;
+        },
+        update: async ({ where, data }) =>
+          withOptions(Object.assign(services.find(s => s.id === where.id), data))
+      },
+      servicePackage: optionDelegate('packages'),
+      serviceAddOn: optionDelegate('addOns')
+    });
+  });
+
+  const api = (method: 'post' | 'put', url: string) =>
+    request(app)[method](url).set('Authorization', `Bearer ${token}`);
+
+  it('should validate packages and add-ons', () => {
+    expect(parseServiceOptions('[{"name":" Basic ","price":"80"}]', 'packages'))
+      .toEqual([{ id: undefined, name: 'Basic', description: null, price: 80 }]);
+    expect(() => parseServiceOptions('not json', 'packages')).toThrow('Invalid packages');
+    expect(() => parseServiceOptions([{ name: 'Basic', price: 0 }], 'packages')).toThrow('Invalid price');
+    expect(() => parseServiceOptions([{ price: 10 }], 'add-ons')).toThrow('needs a name');
+    expect(() => parseServiceOptions([{ name: 'A', price: 1 }, { name: 'a', price: 2 }], 'add-ons'))
+      .toThrow('must be unique');
+    expect(() => parseServiceOptions(Array(6).fill({ name: 'x', price: 1 }), 'packages'))
+      .toThrow('at most 5 packages');
+  });
+
+  it('should create a service with packages and list it from the cheapest one', async () => {
+    const response = await api('post', '/api/services').send({
+      title: 'Apartment cleaning',
+      description: 'Cleaning in three tiers',
+      categoryId: 1,
+      priceType: 'FIXED',
+      packages: JSON.stringify([
+        { name: 'Basic', price: 80 },
+        { name: 'Standard', price: 120 },
+        { name: 'Premium', price: 150, description: 'Includes the oven' }
+      ]),
+      addOns: JSON.stringify([{ name: 'Window washing', price: 20 }])
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.price).toBe(80);
+    expect(response.body.data.packages.map((p: any) => p.name)).toEqual(['Basic', 'Standard', 'Premium']);
+    expect(response.body.data.addOns).toHaveLength(1);
+  });
+
+  it('should update, add and retire packages while keeping retired ones for past bookings', async () => {
+    const response = await api('put', '/api/services/1').send({
+      packages: [
+        { id: 3, name: 'Premium', price: 160 },
+        { id: 1, name: 'Basic', price: 90 },
+        { name: 'Express', price: 200 }
+      ]
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.price).toBe(90);
+    expect(response.body.data.packages.map((p: any) => p.name)).toEqual(['Premium', 'Basic', 'Express']);
+    expect(response.body.data.addOns).toHaveLength(1);
+
+    // Standard is hidden from customers but still stored
+    expect(options.packages.find(p => p.name === 'Standard')).toMatchObject({ isActive: false });
+  });
+
+  it('should reject packages of other services', async () => {
+    const response = await api('put', '/api/services/1').send({
+      packages: [{ id: 2, name: 'Standard', price: 100 }]
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('Unknown package id 2');
+  });
+});
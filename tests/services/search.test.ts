@@ -0,0 +1,167 @@
+// tests/services/search.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
+import prisma from '../../src/config/prisma';
+import { asArray, mockPrisma, sqlParam } from '../helpers/prisma';
+import serviceRoutes from '../../src/routes/service';
+import { errorHandler } from '../../src/middleware/error';
+import { formatHighlight, normalizeSearchQuery } from '../../src/services/searchService';
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+describe('Service search', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/services', serviceRoutes);
+  app.use(errorHandler);
+
+  let token: string;
+  const rawQueries: string[] = [];
+
+  // In-memory catalogue; createdAt order differs from relevance order on purpose
+  const services = [
+    { id: 1, title: 'Почистване на апартамент', description: 'Основно почистване', categoryId: 1, createdAt: new Date('2025-03-01') },
+    { id: 2, title: 'Window cleaning', description: 'Streak-free <b>windows</b>', categoryId: 2, createdAt: new Date('2025-03-02') },
+    { id: 3, title: 'Deep cleaning', description: 'Kitchens and bathrooms', categoryId: 1, createdAt: new Date('2025-03-03') }
+  ].map(service => ({ ...service, isActive: true, provider: { isVerified: false, user: {} } }));
+
+  const fullTextRows = [
+    { id: 2, rank: 0.9, title: '\u0001Window\u0002 cleaning', description: 'Streak-free <b>\u0001windows\u0002</b>' },
+    { id: 3, rank: 0.4, title: 'Deep cleaning', description: 'Kitchens and bathrooms' }
+  ];
+  const fuzzyRows = [{ id: 3, rank: 0.5, title: 'Deep cleaning', description: 'Kitchens and bathrooms' }];
+
+  // Applies the category filter, order and page of a search query to the matching rows
+  const searchRows = (query: Prisma.Sql, rows: typeof fullTextRows) => {
+    const categoryId = sqlParam(query, /"categoryId" = \$(\d+)/);
+    const found = rows.filter(row =>
+      categoryId === undefined || services.find(s => s.id === row.id)?.categoryId === categoryId);
+
+    if (query.sql.includes('COUNT(*)')) {
+      return [{ total: found.length }];
+    }
+    if (query.sql.includes('"createdAt" ASC')) {
+      const createdAt = (id: number) => services.find(s => s.id === id)!.createdAt.getTime();
+      found.sort((a, b) => createdAt(a.id) - createdAt(b.id));
+    }
+    const skip = sqlParam(query, /OFFSET \$(\d+)/) as number;
+    const take = sqlParam(query, /LIMIT \$(\d+)/) as number;
+    return found.slice(skip, skip + take);
+  };
+
+  const matches = (service: any, where: any = {}) =>
+    (!where.id?.in || where.id.in.includes(service.id)) &&
+    (where.categoryId === undefined || service.categoryId === where.categoryId);
+
+  beforeAll(async () => {
+    const user = await prisma.user.create({
+      data: {
+        email: `search-${Date.now()}@example.com`,
+        passwordHash: 'hash',
+        firstName: 'Search',
+        lastName: 'Test',
+        phone: '0888123456',
+        userType: 'customer' as any
+      }
+    });
+    token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'test-jwt-secret');
+
+    mockPrisma({
+      // Full-text matches only for "window"; anything else goes to the trigram fallback
+      $executeRaw: async (strings: TemplateStringsArray) => {
+        rawQueries.push(strings.join('?'));
+        return 1;
+      },
+      $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+        const query = Prisma.sql(strings, ...values);
+        rawQueries.push(query.sql);
+        if (query.sql.includes('websearch_to_tsquery')) {
+          const term = sqlParam(query, /websearch_to_tsquery\('bulgarian'::regconfig, \$(\d+)\)/);
+          return searchRows(query, term === 'window' ? fullTextRows : []);
+        }
+        return searchRows(query, sqlParam(query, /\$(\d+) <%/) === 'clening' ? fuzzyRows : []);
+      },
+      service: {
+        count: async ({ where }) => services.filter(s => matches(s, where)).length,
+        findMany: async ({ where, orderBy, skip = 0, take }) => {
+          const found = services.filter(s => matches(s, where));
+          const order = asArray(orderBy)[0];
+          if (order?.createdAt) {
+            found.sort((a, b) => (a.createdAt.getTime() - b.createdAt.getTime()) * (order.createdAt === 'asc' ? 1 : -1));
+          }
+          return found.slice(skip, take ? skip + take : undefined);
+        }
+      }
+    });
+  });
+
+  const search = (query: string) =>
+    request(app).get(`/api/services?${query}`).set('Authorization', `Bearer ${token}`);
+
+  it('should normalise search queries', () => {
+    expect(normalizeSearchQuery('  deep \n  cleaning ')).toBe('deep cleaning');
+    expect(normalizeSearchQuery('a')).toBeNull();
+    expect(normalizeSearchQuery(['cleaning'])).toBeNull();
+  });
+
+  it('should escape snippets before highlighting', () => {
+    expect(formatHighlight('<script>\u0001clean\u0002</script>'))
+      .toBe('&lt;script&gt;<mark>clean</mark>&lt;/script&gt;');
+  });
+
+  it('should rank keyword matches by relevance with highlighted snippets', async () => {
+    const response = await search('q=window');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((s: any) => s.id)).toEqual([2, 3]);
+    expect(response.body.pagination.total).toBe(2);
+
+    const [best] = response.body.data;
+    expect(best.search.matchType).toBe('fulltext');
+    expect(best.search.highlights.title).toBe('<mark>Window</mark> cleaning');
+    expect(best.search.highlights.description).toBe('Streak-free &lt;b&gt;<mark>windows</mark>&lt;/b&gt;');
+  });
+
+  it('should combine search with filters and other sort orders', async () => {
+    const filtered = await search('q=window&categoryId=1');
+    expect(filtered.body.data.map((s: any) => s.id)).toEqual([3]);
+    expect(filtered.body.pagination.total).toBe(1);
+    // Filters apply in the search query itself, before anything is ranked or paged
+    expect(rawQueries[rawQueries.length - 1]).toContain('"categoryId" =');
+
+    const oldest = await search('q=window&sortBy=oldest');
+    expect(oldest.body.data.map((s: any) => s.id)).toEqual([2, 3]);
+
+    const paged = await search('q=window&limit=1&page=2');
+    expect(paged.body.data.map((s: any) => s.id)).toEqual([3]);
+    expect(paged.body.pagination.pages).toBe(2);
+  });
+
+  it('should fall back to trigram matching for typos', async () => {
+    const response = await search('q=clening');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((s: any) => s.id)).toEqual([3]);
+    expect(response.body.data[0].search.matchType).toBe('fuzzy');
+    // The index-backed <% operator only applies the configured threshold after set_config
+    const [threshold, ...fuzzyQueries] = rawQueries.slice(-3);
+    expect(threshold).toContain('pg_trgm.word_similarity_threshold');
+    fuzzyQueries.forEach(sql => expect(sql).toContain('<%'));
+  });
+
+  it('should return no results when nothing matches', async () => {
+    const response = await search('q=plumbing');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([]);
+    expect(response.body.pagination.total).toBe(0);
+  });
+
+  it('should list services without search details when no query is given', async () => {
+    const response = await search('sortBy=relevance');
+
+    expect(response.body.data.map((s: any) => s.id)).toEqual([3, 2, 1]);
+    expect(response.body.data[0].search).toBeUndefined();
+  });
+});
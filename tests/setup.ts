@@ -22,7 +22,32 @@ interface MockRefreshToken {
   id: number;
   token: string;
   userId: number;
+  sessionId: number;
   expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+}
+
+interface MockSession {
+  id: number;
+  userId: number;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+}
+
+interface MockNotification {
+  id: number;
+  userId: number;
+  type: string;
+  title: string;
+  message: string;
+  bookingId: number | null;
+  readAt: Date | null;
   createdAt: Date;
 }
 
@@ -96,13 +121,16 @@ jest.mock('@prisma/client', () => {
   });
   
   // Create refresh token function
+  let refreshTokenSequence = 0;
   const refreshTokenCreate = jest.fn().mockImplementation((args: any) => {
-    const id = Date.now();
+    const id = ++refreshTokenSequence;
     const token: MockRefreshToken = {
       id,
       token: args.data.token,
       userId: args.data.userId,
+      sessionId: args.data.sessionId,
       expiresAt: args.data.expiresAt,
+      usedAt: null,
       createdAt: new Date()
     };
     
@@ -126,12 +154,156 @@ jest.mock('@prisma/client', () => {
     return Promise.resolve(null);
   });
 
+  // In-memory sessions (refresh token families)
+  const mockSessions: MockSession[] = [];
+
+  const matchesSession = (session: MockSession, where: any = {}): boolean =>
+    (where.id === undefined || session.id === where.id) &&
+    (where.userId === undefined || session.userId === where.userId) &&
+    (where.revokedAt !== null || session.revokedAt === null) &&
+    (!where.expiresAt?.gt || session.expiresAt > where.expiresAt.gt);
+
+  const userSessionDelegate = {
+    create: jest.fn().mockImplementation((args: any) => {
+      const session: MockSession = {
+        id: mockSessions.length + 1,
+        createdAt: new Date(),
+        lastUsedAt: new Date(),
+        revokedAt: null,
+        revokedReason: null,
+        ...args.data
+      };
+      mockSessions.push(session);
+      return Promise.resolve(session);
+    }),
+    findUnique: jest.fn().mockImplementation((args: any) => {
+      return Promise.resolve(mockSessions.find(s => s.id === args.where.id) || null);
+    }),
+    findMany: jest.fn().mockImplementation((args: any) => {
+      return Promise.resolve(mockSessions.filter(s => matchesSession(s, args?.where)));
+    }),
+    update: jest.fn().mockImplementation((args: any) => {
+      const session = mockSessions.find(s => s.id === args.where.id);
+      if (session) {
+        Object.assign(session, args.data);
+      }
+      return Promise.resolve(session || null);
+    }),
+    updateMany: jest.fn().mockImplementation((args: any) => {
+      const matched = mockSessions.filter(s => matchesSession(s, args.where));
+      matched.forEach(s => Object.assign(s, args.data));
+      return Promise.resolve({ count: matched.length });
+    })
+  };
+
+  // In-memory notification feed
+  const mockNotifications: MockNotification[] = [];
+  let notificationSequence = 0;
+
+  const matchesNotification = (notification: MockNotification, where: any = {}): boolean =>
+    (where.id === undefined || notification.id === where.id) &&
+    (where.userId === undefined || notification.userId === where.userId) &&
+    (where.readAt !== null || notification.readAt === null);
+
+  const notificationDelegate = {
+    create: jest.fn().mockImplementation((args: any) => {
+      const notification: MockNotification = {
+        id: ++notificationSequence,
+        bookingId: null,
+        readAt: null,
+        createdAt: new Date(),
+        ...args.data
+      };
+      mockNotifications.push(notification);
+      return Promise.resolve(notification);
+    }),
+    findUnique: jest.fn().mockImplementation((args: any) => {
+      return Promise.resolve(mockNotifications.find(n => n.id === args.where.id) || null);
+    }),
+    findMany: jest.fn().mockImplementation((args: any) => {
+      const skip = args.skip || 0;
+      const found = mockNotifications
+        .filter(n => matchesNotification(n, args.where))
+        .sort((a, b) => b.id - a.id)
+        .slice(skip, args.take ? skip + args.take : undefined);
+      return Promise.resolve(found);
+    }),
+    count: jest.fn().mockImplementation((args: any) => {
+      return Promise.resolve(mockNotifications.filter(n => matchesNotification(n, args?.where)).length);
+    }),
+    update: jest.fn().mockImplementation((args: any) => {
+      const notification = mockNotifications.find(n => n.id === args.where.id);
+      if (notification) {
+        Object.assign(notification, args.data);
+      }
+      return Promise.resolve(notification || null);
+    }),
+    updateMany: jest.fn().mockImplementation((args: any) => {
+      const matched = mockNotifications.filter(n => matchesNotification(n, args.where));
+      matched.forEach(n => Object.assign(n, args.data));
+      return Promise.resolve({ count: matched.length });
+    })
+  };
+
+  // Basic filtering for admin user searches
+  const matchesUser = (user: MockUser, where: any = {}): boolean =>
+    (where.isActive === undefined || user.isActive === where.isActive) &&
+    (where.userType === undefined || user.userType === where.userType) &&
+    (!where.OR || where.OR.some((condition: any) => {
+      const [field, filter] = Object.entries(condition)[0] as [keyof MockUser, any];
+      return String(user[field]).toLowerCase().includes(String(filter.contains).toLowerCase());
+    }));
+
+  // In-memory admin audit log
+  const mockAuditLog: any[] = [];
+
+  const matchesAuditEntry = (entry: any, where: any = {}): boolean =>
+    Object.entries(where).every(([key, value]) => entry[key] === value);
+
+  const adminAuditLogDelegate = {
+    create: jest.fn().mockImplementation((args: any) => {
+      const entry = { id: mockAuditLog.length + 1, createdAt: new Date(), ...args.data };
+      mockAuditLog.push(entry);
+      return Promise.resolve(entry);
+    }),
+    findMany: jest.fn().mockImplementation((args: any) => {
+      return Promise.resolve(mockAuditLog.filter(e => matchesAuditEntry(e, args?.where)).reverse());
+    }),
+    count: jest.fn().mockImplementation((args: any) => {
+      return Promise.resolve(mockAuditLog.filter(e => matchesAuditEntry(e, args?.where)).length);
+    })
+  };
+
+  // In-memory exchange rates; empty unless a test stores one, so the fixed peg applies
+  const mockExchangeRates: any[] = [];
+
+  const exchangeRateDelegate = {
+    findMany: jest.fn().mockImplementation(() => Promise.resolve([...mockExchangeRates])),
+    upsert: jest.fn().mockImplementation((args: any) => {
+      const { baseCurrency, quoteCurrency } = args.where.baseCurrency_quoteCurrency;
+      const existing = mockExchangeRates.find(r =>
+        r.baseCurrency === baseCurrency && r.quoteCurrency === quoteCurrency);
+      if (existing) {
+        return Promise.resolve(Object.assign(existing, args.update, { updatedAt: new Date() }));
+      }
+      const rate = { id: mockExchangeRates.length + 1, createdAt: new Date(), updatedAt: new Date(), ...args.create };
+      mockExchangeRates.push(rate);
+      return Promise.resolve(rate);
+    })
+  };
+
   // Create a PrismaClient class with full transaction support
   const mockPrismaClient = {
     user: { 
       create: userCreate,
       findUnique: userFindUnique,
       findFirst: userFindUnique,
+      findMany: jest.fn().mockImplementation((args: any) => {
+        return Promise.resolve(Object.values(mockUsers).filter(u => matchesUser(u, args?.where)));
+      }),
+      count: jest.fn().mockImplementation((args: any) => {
+        return Promise.resolve(Object.values(mockUsers).filter(u => matchesUser(u, args?.where)).length);
+      }),
       update: jest.fn().mockImplementation((args: any) => {
         if (args.where?.id && mockUsers[args.where.id]) {
           mockUsers[args.where.id] = { ...mockUsers[args.where.id], ...args.data };
@@ -143,8 +315,24 @@ jest.mock('@prisma/client', () => {
     refreshToken: { 
       create: refreshTokenCreate,
       deleteMany: refreshTokenDeleteMany,
-      findFirst: refreshTokenFindFirst
+      findFirst: refreshTokenFindFirst,
+      findUnique: jest.fn().mockImplementation((args: any) => {
+        const found = Object.values(mockRefreshTokens).find(t => t.token === args.where.token);
+        return Promise.resolve(found
+          ? { ...found, session: mockSessions.find(s => s.id === found.sessionId), user: mockUsers[found.userId] }
+          : null);
+      }),
+      updateMany: jest.fn().mockImplementation((args: any) => {
+        const matched = Object.values(mockRefreshTokens).filter(t =>
+          t.id === args.where.id && (args.where.usedAt !== null || t.usedAt === null));
+        matched.forEach(t => Object.assign(t, args.data));
+        return Promise.resolve({ count: matched.length });
+      })
     },
+    userSession: userSessionDelegate,
+    notification: notificationDelegate,
+    adminAuditLog: adminAuditLogDelegate,
+    exchangeRate: exchangeRateDelegate,
     $transaction: function(callback: any) {
       if (typeof callback === 'function') {
         return Promise.resolve(callback(this));
@@ -159,8 +347,46 @@ jest.mock('@prisma/client', () => {
 
   return {
     PrismaClient: jest.fn().mockImplementation(() => mockPrismaClient),
+    // Raw SQL helpers (Prisma.sql, Prisma.join, ...) do not need a database
+    Prisma: (jest.requireActual('@prisma/client') as any).Prisma,
     // Include the UserType enum to avoid import errors
-    UserType: { CUSTOMER: 'customer', PROVIDER: 'provider', ADMIN: 'admin' }
+    UserType: { customer: 'customer', provider: 'provider', admin: 'admin' },
+    // Enums used at runtime by controllers and services
+    PriceType: { FIXED: 'FIXED', HOURLY: 'HOURLY' },
+    Currency: { BGN: 'BGN', EUR: 'EUR' },
+    BookingType: { DIRECT: 'DIRECT', INQUIRY: 'INQUIRY' },
+    LineItemType: { BASE: 'BASE', SURCHARGE: 'SURCHARGE', TRAVEL_FEE: 'TRAVEL_FEE', ADD_ON: 'ADD_ON' },
+    CoverageAreaType: { CITY: 'CITY', STATE: 'STATE', RADIUS: 'RADIUS' },
+    BlogStatus: { draft: 'draft', published: 'published', archived: 'archived' },
+    ReviewModerationStatus: { pending: 'pending', approved: 'approved', rejected: 'rejected' },
+    ReviewReportReason: { abusive: 'abusive', fake: 'fake', off_topic: 'off_topic' },
+    ReviewReportStatus: { open: 'open', resolved: 'resolved', dismissed: 'dismissed' },
+    BookingStatus: {
+      pending: 'pending',
+      confirmed: 'confirmed',
+      in_progress: 'in_progress',
+      completed: 'completed',
+      cancelled: 'cancelled',
+      no_show_customer: 'no_show_customer',
+      no_show_provider: 'no_show_provider',
+      disputed: 'disputed'
+    },
+    VerificationStatus: { PENDING: 'PENDING', APPROVED: 'APPROVED', REJECTED: 'REJECTED' },
+    VerificationDocumentType: {
+      IDENTITY: 'IDENTITY',
+      BUSINESS_REGISTRATION: 'BUSINESS_REGISTRATION',
+      OTHER: 'OTHER'
+    },
+    DisputeStatus: {
+      OPEN: 'OPEN',
+      RESOLVED_FOR_CUSTOMER: 'RESOLVED_FOR_CUSTOMER',
+      RESOLVED_FOR_PROVIDER: 'RESOLVED_FOR_PROVIDER',
+      CLOSED_NO_RESOLUTION: 'CLOSED_NO_RESOLUTION'
+    },
+    PenaltyParty: {
+      CUSTOMER: 'CUSTOMER',
+      PROVIDER: 'PROVIDER'
+    }
   };
 });
 
@@ -0,0 +1,194 @@
+// tests/verification/verification.test.ts
+import request from 'supertest';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import fs from 'fs';
+import path from 'path';
+import prisma from '../../src/config/prisma';
+import { asArray, mockPrisma } from '../helpers/prisma';
+import verificationRoutes from '../../src/routes/verification';
+import adminRoutes from '../../src/routes/admin';
+import { errorHandler } from '../../src/middleware/error';
+import { setTransports } from '../../src/services/notification/notificationService';
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+
+describe('Provider verification', () => {
+  const app: Express = express();
+  app.use(express.json());
+  app.use('/api/verification', verificationRoutes);
+  app.use('/api/admin', adminRoutes);
+  app.use(errorHandler);
+
+  const tokens: Record<string, string> = {};
+  const savedKeys: string[] = [];
+
+  // In-memory stand-ins for the verification tables
+  const profiles: any[] = [];
+  const requests: any[] = [];
+
+  const createUser = async (userType: string) => {
+    const user = await prisma.user.create({
+      data: {
+        email: `${userType}-${Date.now()}@example.com`,
+        passwordHash: 'hash',
+        firstName: 'Verify',
+        lastName: 'Test',
+        phone: '0888123456',
+        userType: userType as any
+      }
+    });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    tokens[userType] = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'test-jwt-secret');
+    return user;
+  };
+
+  beforeAll(async () => {
+    setTransports({
+      email: { sendEmail: async () => undefined },
+      sms: { sendSms: async () => undefined }
+    });
+
+    const provider = await createUser('provider');
+    await createUser('customer');
+    await createUser('admin');
+
+    profiles.push({ id: 1, userId: provider.id, isVerified: false, documentsVerified: false, user: provider });
+
+    mockPrisma({
+      providerProfile: {
+        findUnique: async ({ where }) =>
+          profiles.find(p => p.userId === where.userId || p.id === where.id) || null,
+        update: async ({ where, data }) =>
+          Object.assign(profiles.find(p => p.id === where.id), data)
+      },
+      verificationRequest: {
+        findFirst: async ({ where }) =>
+          requests.find(r => r.providerId === where?.providerId && r.status === where?.status) || null,
+        findUnique: async ({ where }) => {
+          const found = requests.find(r => r.id === where.id);
+          return found ? { ...found, provider: profiles.find(p => p.id === found.providerId) } : null;
+        },
+        create: async ({ data }) => {
+          const created = {
+            id: requests.length + 1,
+            providerId: data.providerId,
+            notes: data.notes,
+            status: 'PENDING',
+            documents: asArray(data.documents?.create).map((d, i) => ({ id: i + 1, ...d }))
+          };
+          requests.push(created);
+          created.documents.forEach(d => savedKeys.push(d.fileKey));
+          return created;
+        },
+        findUniqueOrThrow: async ({ where }) => requests.find(r => r.id === where.id),
+        updateMany: async ({ where, data }) => {
+          const matches = requests.filter(r => r.id === where?.id && r.status === where?.status);
+          matches.forEach(r => Object.assign(r, data));
+          return { count: matches.length };
+        }
+      }
+    });
+  });
+
+  afterAll(async () => {
+    const privateDir = path.join(process.cwd(), 'private-uploads');
+    savedKeys.forEach(key => fs.rmSync(path.join(privateDir, key), { force: true }));
+  });
+
+  it('should accept PDF documents and store them privately', async () => {
+    const response = await request(app)
+      .post('/api/verification')
+      .set('Authorization', `Bearer ${tokens.provider}`)
+      .field('documentTypes', 'identity')
+      .attach('documents', Buffer.from('%PDF-1.4 test'), {
+        filename: 'id-card.pdf',
+        contentType: 'application/pdf'
+      });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.status).toBe('PENDING');
+    expect(response.body.data.documents[0].documentType).toBe('IDENTITY');
+
+    // Private files are not placed in the public uploads directory
+    expect(savedKeys[0].startsWith('/uploads')).toBe(false);
+    expect(fs.existsSync(path.join(process.cwd(), 'private-uploads', savedKeys[0]))).toBe(true);
+  });
+
+  it('should reject a second request while one is pending', async () => {
+    const response = await request(app)
+      .post('/api/verification')
+      .set('Authorization', `Bearer ${tokens.provider}`)
+      .attach('documents', Buffer.from('%PDF-1.4 test'), {
+        filename: 'registration.pdf',
+        contentType: 'application/pdf'
+      });
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should reject files that are not documents', async () => {
+    const response = await request(app)
+      .post('/api/verification')
+      .set('Authorization', `Bearer ${tokens.provider}`)
+      .attach('documents', Buffer.from('MZ'), {
+        filename: 'virus.exe',
+        contentType: 'application/x-msdownload'
+      });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should not let customers or providers review requests', async () => {
+    for (const userType of ['customer', 'provider']) {
+      const response = await request(app)
+        .put('/api/admin/verifications/1/approve')
+        .set('Authorization', `Bearer ${tokens[userType]}`);
+
+      expect(response.status).toBe(403);
+    }
+  });
+
+  it('should require a reason when rejecting', async () => {
+    const response = await request(app)
+      .put('/api/admin/verifications/1/reject')
+      .set('Authorization', `Bearer ${tokens.admin}`)
+      .send({});
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should verify the provider when an admin approves', async () => {
+    const response = await request(app)
+      .put('/api/admin/verifications/1/approve')
+      .set('Authorization', `Bearer ${tokens.admin}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.status).toBe('APPROVED');
+    expect(profiles[0].isVerified).toBe(true);
+    expect(profiles[0].documentsVerified).toBe(true);
+
+    const again = await request(app)
+      .put('/api/admin/verifications/1/reject')
+      .set('Authorization', `Bearer ${tokens.admin}`)
+      .send({ reason: 'Too late' });
+
+    expect(again.status).toBe(409);
+  });
+
+  it('should apply only one of concurrent decisions', async () => {
+    requests.push({ id: 2, providerId: 1, status: 'PENDING', documents: [] });
+
+    const responses = await Promise.all([
+      request(app)
+        .put('/api/admin/verifications/2/approve')
+        .set('Authorization', `Bearer ${tokens.admin}`),
+      request(app)
+        .put('/api/admin/verifications/2/reject')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ reason: 'Blurry scan' })
+    ]);
+
+    expect(responses.map(response => response.status).sort()).toEqual([200, 409]);
+    expect(requests[1].status).toBe(responses[0].status === 200 ? 'APPROVED' : 'REJECTED');
+  });
+});